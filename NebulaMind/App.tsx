@@ -1,26 +1,287 @@
 /**
- * Minimal app context used by some components.  The real NebulaMind app
- * defines a broader context including themes and job management.  In
- * this simplified environment we provide only a `useTheme` hook that
- * returns a static palette.  Components that import useTheme will not
- * break when the full context is absent.
+ * Application shell for NebulaMind.  This module defines the top-level
+ * routes and the small amount of app-wide context shared by components.
+ * The `useTheme` hook returns a static palette, `useAIProvider` returns
+ * the configured AI provider, `useJobManager` the background job manager
+ * and `useNotifications` the notification centre; components that import
+ * them keep working even when rendered outside of the app shell.
+ *
+ * Routes:
+ *   /                       notebook library
+ *   /settings               AI provider settings
+ *   /notebook/:id/:tab      a notebook, opened on one of its tabs
  */
-import React from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { BrowserRouter, Navigate, Route, Routes, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Artifact, BackgroundJob, Notebook } from './types';
+import { getNotebook, saveNotebook } from './services/storage';
+import { AIProvider } from './services/ai';
+import { AIConfig, createAIProvider, loadAIConfig, saveAIConfig } from './services/aiConfig';
+import { JobManager, createJobManager, isActiveJob } from './services/jobs';
+import { NotificationCenter, NotificationState, createNotificationCenter } from './services/notifications';
+import NotebookLibrary from './components/NotebookLibrary';
+import NotebookView, { NotebookTab } from './components/NotebookView';
+import NotificationToasts from './components/NotificationToasts';
+import SettingsView from './components/SettingsView';
 
 export const useTheme = () => {
   return {
     theme: {
       colors: {
         primary: 'indigo',
+        secondary: 'purple',
       },
     },
   };
 };
 
-// Placeholder component exports to satisfy React Router imports in other
-// modules.  The real application would define routing and global state here.
+interface AIContextValue {
+  config: AIConfig;
+  provider: AIProvider;
+  setConfig: (config: AIConfig) => void;
+}
+
+const defaultAIConfig = loadAIConfig();
+
+const AIContext = createContext<AIContextValue>({
+  config: defaultAIConfig,
+  provider: createAIProvider(defaultAIConfig),
+  setConfig: saveAIConfig,
+});
+
+/**
+ * Returns the AI provider selected in the settings.  Components call the
+ * provider's methods instead of importing generation functions directly.
+ */
+export const useAIProvider = (): AIProvider => useContext(AIContext).provider;
+
+/**
+ * Returns the current AI configuration and a setter that persists changes.
+ */
+export const useAIConfig = (): [AIConfig, (config: AIConfig) => void] => {
+  const { config, setConfig } = useContext(AIContext);
+  return [config, setConfig];
+};
+
+const JobsContext = createContext<JobManager>(createJobManager(() => createAIProvider(defaultAIConfig)));
+
+/**
+ * Returns the app-wide manager that runs generation jobs in the background.
+ */
+export const useJobManager = (): JobManager => useContext(JobsContext);
+
+/**
+ * Returns the background jobs, optionally only those of one notebook, and
+ * re-renders whenever they change.
+ */
+export const useJobs = (notebookId?: string): BackgroundJob[] => {
+  const manager = useJobManager();
+  const jobs = useSyncExternalStore(manager.subscribe, manager.jobs);
+  return useMemo(() => (notebookId ? jobs.filter((j) => j.notebookId === notebookId) : jobs), [jobs, notebookId]);
+};
+
+const NotificationsContext = createContext<NotificationCenter>(createNotificationCenter());
+
+/**
+ * Returns the notification centre used to report successes and failures.
+ */
+export const useNotifications = (): NotificationCenter => useContext(NotificationsContext);
+
+/**
+ * Returns the notifications and visible toasts, re-rendering on changes.
+ */
+export const useNotificationState = (): NotificationState => {
+  const center = useNotifications();
+  return useSyncExternalStore(center.subscribe, center.state);
+};
+
+// Tab that shows the artifact a background job produces.
+const ARTIFACT_TABS: Partial<Record<Artifact['type'], NotebookTab>> = {
+  flashcards: 'flashcards',
+  quiz: 'quiz',
+  report: 'reports',
+  audioOverview: 'studio',
+  mindMap: 'studio',
+};
+
+// Delay between the last change to a notebook and writing it to storage.
+const SAVE_DELAY_MS = 500;
+
+// A save takes several transactions, so saves of the same notebook are
+// chained to keep an older state from being committed after a newer one.
+const saves = new Map<string, Promise<void>>();
+
+function queueSave(notebook: Notebook): Promise<void> {
+  const next = (saves.get(notebook.id) ?? Promise.resolve()).then(() => saveNotebook(notebook));
+  const settled = next.catch(() => undefined);
+  saves.set(notebook.id, settled);
+  settled.then(() => {
+    if (saves.get(notebook.id) === settled) saves.delete(notebook.id);
+  });
+  return next;
+}
+
+/**
+ * Loads the notebook named in the URL and keeps it in sync with storage.
+ * Updates are applied to local state immediately and written to IndexedDB
+ * after a short debounce; pending writes are flushed when leaving the route.
+ * While the notebook is open, background jobs write their results through
+ * the same path.
+ */
+const NotebookRoute: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [notebook, setNotebook] = useState<Notebook | null>(null);
+  const [missing, setMissing] = useState(false);
+  const pending = useRef<Notebook | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The latest state of the notebook, for updates made outside of React.
+  const current = useRef<Notebook | null>(null);
+  const jobs = useJobManager();
+  const notifications = useNotifications();
+
+  const flush = useCallback(() => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    const nb = pending.current;
+    pending.current = null;
+    if (nb) {
+      queueSave(nb).catch((err) => {
+        console.error('Failed to save notebook', err);
+        notifications.error(err, 'Failed to save the notebook');
+      });
+    }
+  }, [notifications]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setNotebook(null);
+    current.current = null;
+    setMissing(false);
+    if (id) {
+      // Wait for saves made before the notebook was last closed.
+      (saves.get(id) ?? Promise.resolve())
+        .then(() => getNotebook(id))
+        .then((nb) => {
+          if (cancelled) return;
+          if (!nb) return setMissing(true);
+          current.current = nb;
+          setNotebook(nb);
+        })
+        .catch((err) => {
+          console.error(err);
+          if (!cancelled) setMissing(true);
+        });
+    }
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [id, flush]);
+
+  useEffect(() => {
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, [flush]);
+
+  const handleUpdate = useCallback(
+    (nb: Notebook) => {
+      current.current = nb;
+      setNotebook(nb);
+      pending.current = nb;
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(flush, SAVE_DELAY_MS);
+    },
+    [flush]
+  );
+
+  const loaded = notebook !== null;
+  useEffect(() => {
+    if (!id || !loaded) return;
+    return jobs.attachNotebook(id, {
+      get: () => current.current!,
+      update: (fn) => handleUpdate(fn(current.current!)),
+    });
+  }, [id, loaded, jobs, handleUpdate]);
+
+  if (missing) return <Navigate to="/" replace />;
+  if (!notebook) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950">
+        <Loader2 className="animate-spin text-indigo-400" size={28} />
+      </div>
+    );
+  }
+  return <NotebookView notebook={notebook} onUpdate={handleUpdate} />;
+};
+
 const App: React.FC = () => {
-  return <div>Placeholder App</div>;
+  const [aiConfig, setAIConfig] = useState<AIConfig>(defaultAIConfig);
+  const aiContext = useMemo<AIContextValue>(
+    () => ({
+      config: aiConfig,
+      provider: createAIProvider(aiConfig),
+      setConfig: (config) => {
+        saveAIConfig(config);
+        setAIConfig(config);
+      },
+    }),
+    [aiConfig]
+  );
+
+  // The job manager outlives provider changes; jobs use whichever provider
+  // is configured when they start.
+  const provider = useRef(aiContext.provider);
+  provider.current = aiContext.provider;
+  const [jobManager] = useState(() => createJobManager(() => provider.current));
+  const [notifications] = useState(createNotificationCenter);
+
+  useEffect(() => {
+    jobManager.restore().catch((err) => console.error('Failed to restore background jobs', err));
+  }, [jobManager]);
+
+  // Tell the user when a background job finishes.  Jobs that had already
+  // finished when they were first seen, such as failed jobs restored after
+  // a reload, were reported before.
+  useEffect(() => {
+    const statuses = new Map(jobManager.jobs().map((j) => [j.id, j.status]));
+    return jobManager.subscribe(() => {
+      for (const job of jobManager.jobs()) {
+        const previous = statuses.get(job.id);
+        statuses.set(job.id, job.status);
+        if (previous === job.status || (previous === undefined && !isActiveJob(job))) continue;
+        const tab = ARTIFACT_TABS[job.type];
+        const view = tab ? [{ label: 'View', to: `/notebook/${job.notebookId}/${tab}` }] : [];
+        if (job.status === 'completed') {
+          notifications.notify('success', `${job.title} is ready.`, { actions: view });
+        } else if (job.status === 'failed') {
+          notifications.notify('error', job.error || 'The job failed.', {
+            title: `${job.title} failed`,
+            actions: [{ label: 'Retry', onClick: () => jobManager.retry(job.id) }, ...view],
+          });
+        }
+      }
+    });
+  }, [jobManager, notifications]);
+
+  return (
+    <AIContext.Provider value={aiContext}>
+      <NotificationsContext.Provider value={notifications}>
+        <JobsContext.Provider value={jobManager}>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<NotebookLibrary />} />
+              <Route path="/settings" element={<SettingsView />} />
+              <Route path="/notebook/:id" element={<Navigate to="sources" replace />} />
+              <Route path="/notebook/:id/:tab" element={<NotebookRoute />} />
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+            <NotificationToasts />
+          </BrowserRouter>
+        </JobsContext.Provider>
+      </NotificationsContext.Provider>
+    </AIContext.Provider>
+  );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,58 +1,218 @@
-import React, { useState, useRef } from 'react';
-import { Notebook, ChatMessage } from '../types';
-import { generateAnswer } from '../services/ai';
+import React, { useState, useRef, useEffect } from 'react';
+import { Plus, Edit2, Trash2, NotebookPen, X } from 'lucide-react';
+import { Notebook, ChatMessage, ChatThread } from '../types';
+import { useAIProvider, useNotifications } from '../App';
+import { isAbortError } from '../services/streaming';
+import { deleteChatThread, getChatThreads, saveChatThread, saveNote, threadTitleFromPrompt } from '../services/storage';
+import { noteFromMessage } from '../services/notes';
+import { ResolvedCitation } from '../services/citations';
+import { Passage, RetrievalIndex } from '../services/retrieval';
+import CitedText from './CitedText';
+import SourceViewer from './SourceViewer';
 
 interface Props {
   notebook: Notebook;
+  /** Local index used to find the passages sent along with each question. */
+  retrieval?: RetrievalIndex;
+  /** A passage picked in a source to ask about; quoted in the next question. */
+  quote?: Passage | null;
+  onClearQuote?: () => void;
 }
 
+// Number of earlier messages sent as conversation context with a question.
+const MAX_HISTORY_MESSAGES = 10;
+
+// Number of retrieved passages sent with a question.
+const TOP_K_PASSAGES = 6;
+
 /**
  * ChatTab provides a conversational interface for asking questions about
  * notebook sources.  Users can optionally enable “Learning Guide” mode,
  * which prepends instructions to encourage the model to break down answers
- * and ask probing follow‑up questions.  Responses from the model include
- * citations when available.
+ * and ask probing follow‑up questions.  Responses are streamed into the
+ * conversation as they are generated and can be stopped at any time; the
+ * text received so far is kept.  Citations are shown once the answer has
+ * finished, as numbered inline markers that open the cited passage.
+ *
+ * Conversations are organised into threads that are stored with the
+ * notebook.  A thread is titled after its first question, and earlier turns
+ * of the active thread are sent with each new question so follow-ups work.
+ * When a retrieval index is available, the best-matching passages of the
+ * notebook's sources are sent too, and the answer cites them.
+ *
+ * A passage selected in the source viewer can be brought into the chat as a
+ * quote.  The next question quotes it and sends it as the first passage, so
+ * the answer is about that passage and can cite it.
+ *
+ * Any finished answer can be saved as a note together with its citations.
  */
-const ChatTab: React.FC<Props> = ({ notebook }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const ChatTab: React.FC<Props> = ({ notebook, retrieval, quote, onClearQuote }) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [learningGuide, setLearningGuide] = useState(false);
+  const [openCitation, setOpenCitation] = useState<ResolvedCitation | null>(null);
+  const [savedToNotes, setSavedToNotes] = useState<Set<string>>(new Set());
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const ai = useAIProvider();
+  const notifications = useNotifications();
+
+  useEffect(() => {
+    let cancelled = false;
+    getChatThreads(notebook.id)
+      .then((loaded) => {
+        if (cancelled) return;
+        setThreads(loaded);
+        setActiveId(loaded[0]?.id ?? null);
+      })
+      .catch((err) => console.error('Failed to load chat threads', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [notebook.id]);
+
+  // Stop any answer that is still streaming when the tab is closed.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const activeThread = threads.find((t) => t.id === activeId) || null;
+  const messages = activeThread?.messages || [];
+
+  // Insert or replace a thread in local state, keeping the most recently
+  // active thread first.
+  const putThread = (thread: ChatThread) =>
+    setThreads((prev) => [thread, ...prev.filter((t) => t.id !== thread.id)]);
+
+  const saveToNote = (msg: ChatMessage) => {
+    const index = messages.indexOf(msg);
+    const question = messages.slice(0, index).reverse().find((m) => m.role === 'user')?.text;
+    saveNote(notebook.id, noteFromMessage(msg, question))
+      .then(() => setSavedToNotes((prev) => new Set(prev).add(msg.id)))
+      .catch((err) => {
+        console.error(err);
+        notifications.error(err, 'Failed to save note', { actions: [{ label: 'Retry', onClick: () => saveToNote(msg) }] });
+      });
+  };
+
+  const persist = (thread: ChatThread) =>
+    saveChatThread(notebook.id, thread).catch((err) => console.error('Failed to save chat thread', err));
+
+  const newThread = () => {
+    setActiveId(null);
+    setInput('');
+  };
+
+  const renameThread = (thread: ChatThread) => {
+    const title = prompt('Rename conversation', thread.title);
+    if (title && title.trim() && title !== thread.title) {
+      const updated = { ...thread, title: title.trim() };
+      setThreads((prev) => prev.map((t) => (t.id === thread.id ? updated : t)));
+      persist(updated);
+    }
+  };
+
+  const removeThread = (thread: ChatThread) => {
+    if (!confirm(`Delete the conversation "${thread.title}"?`)) return;
+    setThreads((prev) => prev.filter((t) => t.id !== thread.id));
+    if (thread.id === activeId) setActiveId(null);
+    deleteChatThread(thread.id).catch((err) => console.error('Failed to delete chat thread', err));
+  };
 
   const sendMessage = async () => {
     const prompt = input.trim();
     if (!prompt || loading) return;
+    const now = Date.now();
+    const base: ChatThread = activeThread || {
+      id: crypto.randomUUID(),
+      title: threadTitleFromPrompt(prompt),
+      messages: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    const history = base.messages.slice(-MAX_HISTORY_MESSAGES).map(({ role, text }) => ({ role, text }));
+    // Search with the previous question as well so follow-ups that omit the
+    // subject still retrieve relevant passages.
+    const previousQuestion = [...base.messages].reverse().find((m) => m.role === 'user')?.text || '';
+    const retrieved = retrieval?.search(`${prompt} ${previousQuestion}`, TOP_K_PASSAGES);
+    const passages = quote
+      ? [
+          quote,
+          ...(retrieved ?? [])
+            .filter((p) => p.sourceId !== quote.sourceId || p.end <= quote.start || p.start >= quote.end)
+            .slice(0, TOP_K_PASSAGES - 1),
+        ]
+      : retrieved;
+    const question = quote ? `${quote.text.trim().split('\n').map((line) => `> ${line}`).join('\n')}\n\n${prompt}` : prompt;
     const userMsg: ChatMessage = {
-      id: Date.now().toString(),
+      id: now.toString(),
       role: 'user',
-      text: prompt,
+      text: question,
     };
-    setMessages((prev) => [...prev, userMsg]);
+    const modelId = (now + 1).toString();
+    const modelMsg: ChatMessage = { id: modelId, role: 'model', text: '', isStreaming: true };
+    let thread: ChatThread = { ...base, messages: [...base.messages, userMsg, modelMsg], updatedAt: now };
+    // Apply a change to the model message that is being streamed.
+    const updateModelMsg = (fn: (m: ChatMessage) => ChatMessage) =>
+      setThreads((prev) =>
+        prev.map((t) => (t.id === thread.id ? { ...t, messages: t.messages.map((m) => (m.id === modelId ? fn(m) : m)) } : t))
+      );
+
+    putThread(thread);
+    setActiveId(thread.id);
     setInput('');
+    onClearQuote?.();
     setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = '';
+    let final: Partial<ChatMessage> | null = null;
     try {
       const finalPrompt = learningGuide
-        ? `You are a patient learning guide. Break down your explanations into simple steps, ask clarifying questions when appropriate, and encourage active engagement. ${prompt}`
-        : prompt;
-      const result = await generateAnswer(notebook.id, finalPrompt);
-      const modelMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: result.text,
-        citations: result.citations,
-      };
-      setMessages((prev) => [...prev, modelMsg]);
+        ? `You are a patient learning guide. Break down your explanations into simple steps, ask clarifying questions when appropriate, and encourage active engagement. ${question}`
+        : question;
+      const result = await ai.streamAnswer(notebook, finalPrompt, {
+        signal: controller.signal,
+        history,
+        passages,
+        onText: (delta) => {
+          received += delta;
+          updateModelMsg((m) => ({ ...m, text: m.text + delta }));
+          bottomRef.current?.scrollIntoView({ block: 'end' });
+        },
+      });
+      final = { text: result.text, citations: result.citations };
     } catch (err: any) {
-      console.error(err);
-      alert(err.message || 'Failed to generate answer');
+      if (isAbortError(err)) {
+        // Keep whatever arrived before the user pressed Stop.
+        final = { text: received };
+      } else {
+        console.error(err);
+        // Keep partial text, but drop the placeholder if nothing arrived.
+        final = received ? { text: received } : null;
+        notifications.error(err, 'Failed to generate answer');
+      }
     } finally {
+      thread = {
+        ...thread,
+        messages: final
+          ? thread.messages.map((m) => (m.id === modelId ? { ...m, ...final, isStreaming: false } : m))
+          : thread.messages.filter((m) => m.id !== modelId),
+        updatedAt: Date.now(),
+      };
+      putThread(thread);
+      persist(thread);
+      abortRef.current = null;
       setLoading(false);
       // Scroll to bottom after response
       setTimeout(() => bottomRef.current?.scrollIntoView({ behavior: 'smooth' }), 50);
     }
   };
 
+  const stopStreaming = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -61,52 +221,145 @@ const ChatTab: React.FC<Props> = ({ notebook }) => {
   };
 
   return (
-    <div className="flex flex-col h-full">
-      <div className="flex-1 overflow-y-auto space-y-4 mb-4 p-2">
-        {messages.map((msg) => (
+    <div className="flex h-full gap-4">
+      <aside className="w-56 shrink-0 border-r border-gray-800 pr-3 space-y-2 overflow-y-auto">
+        <button
+          onClick={newThread}
+          disabled={loading}
+          className="w-full flex items-center justify-center gap-1 text-sm bg-gray-800 hover:bg-gray-700 rounded px-2 py-1.5"
+        >
+          <Plus size={14} /> New conversation
+        </button>
+        {threads.map((t) => (
           <div
-            key={msg.id}
-            className={`p-3 rounded max-w-prose whitespace-pre-wrap ${msg.role === 'user' ? 'self-end bg-blue-800 text-white' : 'self-start bg-gray-800 text-gray-100'}`}
+            key={t.id}
+            onClick={() => !loading && setActiveId(t.id)}
+            className={`group flex items-center gap-1 rounded px-2 py-1.5 text-sm cursor-pointer ${t.id === activeId ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-900'}`}
           >
-            <p>{msg.text}</p>
-            {msg.citations && msg.citations.length > 0 && (
-              <div className="mt-1 text-xs text-green-400">
-                Citations: {msg.citations.join(', ')}
-              </div>
-            )}
+            <span className="flex-1 truncate" title={t.title}>
+              {t.title}
+            </span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                renameThread(t);
+              }}
+              disabled={loading}
+              className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-yellow-400"
+              title="Rename"
+            >
+              <Edit2 size={12} />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeThread(t);
+              }}
+              disabled={loading}
+              className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-rose-500"
+              title="Delete"
+            >
+              <Trash2 size={12} />
+            </button>
           </div>
         ))}
-        <div ref={bottomRef} />
-      </div>
-      <div className="border-t border-gray-700 pt-3 space-y-2">
-        <label className="inline-flex items-center space-x-2 text-sm text-gray-300">
-          <input
-            type="checkbox"
-            checked={learningGuide}
-            onChange={() => setLearningGuide((v) => !v)}
-          />
-          <span>Learning Guide mode</span>
-        </label>
-        <div className="flex items-end space-x-2">
-          <textarea
-            className="flex-1 bg-gray-900 border border-gray-700 rounded p-2 text-sm"
-            rows={2}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Ask a question…"
-          />
-          <button
-            onClick={sendMessage}
-            disabled={loading || !input.trim()}
-            className="bg-green-700 hover:bg-green-600 text-white px-4 py-2 rounded"
-          >
-            {loading ? 'Sending…' : 'Send'}
-          </button>
+      </aside>
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex-1 overflow-y-auto space-y-4 mb-4 p-2">
+          {messages.length === 0 && (
+            <p className="text-center text-sm text-gray-500 mt-10">Ask a question about your sources to start a conversation.</p>
+          )}
+          {messages.map((msg) => (
+            <div
+              key={msg.id}
+              className={`p-3 rounded max-w-prose whitespace-pre-wrap ${msg.role === 'user' ? 'self-end bg-blue-800 text-white' : 'self-start bg-gray-800 text-gray-100'}`}
+            >
+              {msg.role === 'model' && !msg.isStreaming ? (
+                <>
+                  <CitedText
+                    text={msg.text}
+                    citations={msg.citations}
+                    sources={notebook.sources}
+                    onOpenCitation={setOpenCitation}
+                  />
+                  <button
+                    onClick={() => saveToNote(msg)}
+                    disabled={savedToNotes.has(msg.id)}
+                    className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:hover:text-gray-400"
+                  >
+                    <NotebookPen size={12} /> {savedToNotes.has(msg.id) ? 'Saved to notes' : 'Save to note'}
+                  </button>
+                </>
+              ) : (
+                <p>
+                  {msg.text}
+                  {msg.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 bg-gray-400 animate-pulse align-middle" />}
+                </p>
+              )}
+            </div>
+          ))}
+          <div ref={bottomRef} />
+        </div>
+        <div className="border-t border-gray-700 pt-3 space-y-2">
+          <label className="inline-flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={learningGuide}
+              onChange={() => setLearningGuide((v) => !v)}
+            />
+            <span>Learning Guide mode</span>
+          </label>
+          {quote && (
+            <div className="flex items-start gap-2 border-l-2 border-blue-500 bg-gray-900 rounded-r px-3 py-2 text-sm text-gray-300">
+              <p className="flex-1 line-clamp-3 italic">
+                {notebook.sources.find((s) => s.id === quote.sourceId)?.title}: “{quote.text.replace(/\s+/g, ' ')}”
+              </p>
+              <button onClick={onClearQuote} className="text-gray-500 hover:text-white" title="Remove quote">
+                <X size={14} />
+              </button>
+            </div>
+          )}
+          <div className="flex items-end space-x-2">
+            <textarea
+              className="flex-1 bg-gray-900 border border-gray-700 rounded p-2 text-sm"
+              rows={2}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={quote ? 'Ask about this passage…' : activeThread ? 'Ask a follow-up…' : 'Ask a question…'}
+            />
+            {loading ? (
+              <button
+                onClick={stopStreaming}
+                className="bg-red-700 hover:bg-red-600 text-white px-4 py-2 rounded"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={sendMessage}
+                disabled={!input.trim()}
+                className="bg-green-700 hover:bg-green-600 text-white px-4 py-2 rounded"
+              >
+                Send
+              </button>
+            )}
+          </div>
         </div>
       </div>
+      {openCitation?.source && (
+        <SourceViewer
+          source={openCitation.source}
+          highlight={
+            openCitation.start !== undefined && openCitation.end !== undefined
+              ? { start: openCitation.start, end: openCitation.end }
+              : undefined
+          }
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
     </div>
   );
 };
 
-export default ChatTab;
\ No newline at end of file
+export default ChatTab;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Citation, Source } from '../types';
+import { ResolvedCitation, resolveCitation } from '../services/citations';
+import { pageAt, timeAt } from '../services/extraction';
+import { formatTimestamp } from '../services/transcription';
+import { videoLinkAt } from '../services/youtube';
+import Markdown from './Markdown';
+
+interface Props {
+  text: string;
+  citations?: Citation[];
+  sources: Source[];
+  /** Render the text as markdown (used for notes) rather than plain text. */
+  markdown?: boolean;
+  /** Called when the user clicks a citation whose source still exists. */
+  onOpenCitation: (resolved: ResolvedCitation) => void;
+}
+
+/**
+ * CitedText renders answer text with its numbered `[n]` citation markers
+ * turned into clickable links, followed by the list of cited passages.
+ * Citations pointing at sources that have since been removed from the
+ * notebook are flagged rather than silently dropped.
+ */
+const CitedText: React.FC<Props> = ({ text, citations = [], sources, markdown, onOpenCitation }) => {
+  const resolved = new Map<number, ResolvedCitation>(
+    citations.map((c) => [c.index, resolveCitation(c, sources)])
+  );
+
+  const renderMarker = (index: number, key: React.Key) => {
+    const r = resolved.get(index);
+    if (!r) return `[${index}]`;
+    const missing = !r.source;
+    return (
+      <button
+        key={key}
+        onClick={() => r.source && onOpenCitation(r)}
+        disabled={missing}
+        title={missing ? 'This source is no longer in the notebook' : r.source!.title}
+        className={`align-super text-[10px] font-bold mx-0.5 px-1 rounded ${missing ? 'bg-rose-500/20 text-rose-400 line-through cursor-not-allowed' : 'bg-green-500/20 text-green-300 hover:bg-green-500/40'}`}
+      >
+        {index}
+      </button>
+    );
+  };
+
+  // Split on markers such as [1] or [2][3] while keeping the numbers.
+  const parts = text.split(/\[(\d+)\]/g);
+
+  return (
+    <>
+      {markdown ? (
+        <Markdown text={text} renderMarker={renderMarker} />
+      ) : (
+        <p>
+          {parts.map((part, i) => (i % 2 === 1 ? renderMarker(Number(part), i) : part))}
+        </p>
+      )}
+      {citations.length > 0 && (
+        <ol className="mt-2 space-y-1 text-xs">
+          {citations.map((c) => {
+            const r = resolved.get(c.index)!;
+            // Passages of paged sources (PDFs) show the page they are on, and
+            // passages of transcripts the time they were said.  For videos
+            // the time links to that moment on YouTube.
+            const page = c.page ?? (r.source && r.start !== undefined ? pageAt(r.source, r.start) : undefined);
+            const time = r.source && r.start !== undefined ? timeAt(r.source, r.start) : undefined;
+            const videoId: string | undefined = r.source?.metadata?.videoId;
+            return (
+              <li key={c.index} className="flex gap-1.5">
+                <span className="text-gray-500">[{c.index}]</span>
+                {r.source ? (
+                  <>
+                    <button onClick={() => onOpenCitation(r)} className="text-left text-green-400 hover:underline">
+                      {r.source.title}
+                      {page !== undefined && <span className="text-gray-500">, p. {page}</span>}
+                      {time !== undefined && !videoId && <span className="text-gray-500">, {formatTimestamp(time)}</span>}
+                      {c.snippet && <span className="text-gray-400 italic"> — “{c.snippet.length > 120 ? `${c.snippet.slice(0, 117)}…` : c.snippet}”</span>}
+                    </button>
+                    {videoId && time !== undefined && (
+                      <a
+                        href={videoLinkAt(videoId, time)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="shrink-0 text-red-400 hover:underline"
+                        title="Watch from this moment"
+                      >
+                        {formatTimestamp(time)}
+                      </a>
+                    )}
+                  </>
+                ) : (
+                  <span className="flex items-center gap-1 text-rose-400">
+                    <AlertTriangle size={12} /> Source no longer in this notebook
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </>
+  );
+};
+
+export default CitedText;
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Notebook } from '../types';
+import { createDeck, getDecks, putDeck, withCards } from '../services/flashcards';
+import {
+  DECK_FORMATS,
+  DeckFormat,
+  FieldMapping,
+  ImportTable,
+  QUIZLET_DEFAULTS,
+  QuizletSeparators,
+  findDuplicates,
+  formatForFile,
+  guessMapping,
+  looksLikeHeader,
+  mapRows,
+  parseApkg,
+  parseDelimited,
+  parseDelimitedTable,
+  parseQuizlet,
+} from '../services/deckIO';
+
+interface Props {
+  notebook: Notebook;
+  onUpdate: (nb: Notebook) => void;
+  /** Deck to import into by default. */
+  deckId?: string;
+  onImported: (deckId: string) => void;
+  onClose: () => void;
+}
+
+const TERM_SEPARATORS: { label: string; value: string }[] = [
+  { label: 'Tab', value: '\t' },
+  { label: 'Comma', value: ',' },
+  { label: 'Dash', value: ' - ' },
+];
+
+const ROW_SEPARATORS: { label: string; value: string }[] = [
+  { label: 'New line', value: '\n' },
+  { label: 'Semicolon', value: ';' },
+];
+
+/**
+ * DeckImportDialog reads cards from a CSV/TSV file, Quizlet export text or
+ * an Anki package.  The user maps the file's fields onto question and
+ * answer, picks a new or existing deck, and sees which cards duplicate
+ * ones already in that deck before importing.
+ */
+const DeckImportDialog: React.FC<Props> = ({ notebook, onUpdate, deckId, onImported, onClose }) => {
+  const decks = getDecks(notebook);
+  const [format, setFormat] = useState<DeckFormat>('csv');
+  const [text, setText] = useState('');
+  const [apkgTable, setApkgTable] = useState<ImportTable | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [separators, setSeparators] = useState<QuizletSeparators>(QUIZLET_DEFAULTS);
+  const [mapping, setMapping] = useState<FieldMapping>({ question: 0, answer: 1 });
+  const [target, setTarget] = useState<string>(deckId || 'new');
+  const [deckName, setDeckName] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const table = useMemo<ImportTable | null>(() => {
+    if (format === 'apkg') return apkgTable;
+    if (!text.trim()) return null;
+    if (format === 'quizlet') return parseQuizlet(text, separators);
+    return parseDelimitedTable(text, format === 'tsv' ? '\t' : ',', hasHeader);
+  }, [format, text, apkgTable, hasHeader, separators]);
+
+  // Re-guess the mapping only when the available fields change, so the
+  // user's choice survives edits to the pasted text.
+  const fieldKey = table?.fields.join('\u0000');
+  useEffect(() => {
+    if (table) setMapping(guessMapping(table.fields));
+  }, [fieldKey]);
+
+  const targetDeck = decks.find((d) => d.id === target);
+  const cards = useMemo(() => (table ? mapRows(table, mapping) : []), [table, mapping]);
+  const duplicates = useMemo(
+    () => findDuplicates(cards, targetDeck ? targetDeck.content.cards : []),
+    [cards, targetDeck]
+  );
+  const toImport = skipDuplicates ? cards.filter((c) => !duplicates.has(c.id)) : cards;
+
+  const handleFile = async (file: File) => {
+    const detected = formatForFile(file.name);
+    setFormat(detected);
+    setError(null);
+    setDeckName((name) => name || file.name.replace(/\.[^.]+$/, ''));
+    setLoading(true);
+    try {
+      if (detected === 'apkg') {
+        const parsed = await parseApkg(new Uint8Array(await file.arrayBuffer()));
+        setApkgTable(parsed);
+        if (parsed.deckName) setDeckName(parsed.deckName);
+      } else {
+        const content = await file.text();
+        setText(content);
+        setHasHeader(looksLikeHeader(parseDelimited(content, detected === 'tsv' ? '\t' : ',')[0]));
+      }
+    } catch (err: any) {
+      console.error(err);
+      setApkgTable(null);
+      setError(err.message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (toImport.length === 0) return;
+    const deck = targetDeck
+      ? withCards(targetDeck, [...targetDeck.content.cards, ...toImport])
+      : createDeck(toImport, deckName.trim() || 'Imported deck');
+    onUpdate(putDeck(notebook, deck));
+    onImported(deck.id);
+    onClose();
+  };
+
+  const fieldSelect = (label: string, key: keyof FieldMapping) => (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="w-20 text-gray-400">{label}</span>
+      <select
+        value={mapping[key]}
+        onChange={(e) => setMapping({ ...mapping, [key]: Number(e.target.value) })}
+        className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1"
+      >
+        {table?.fields.map((field, i) => (
+          <option key={i} value={i}>
+            {field}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl rounded-2xl p-6 flex flex-col gap-4 max-h-[90vh] overflow-y-auto border border-white/10 shadow-2xl relative bg-gray-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors"
+        >
+          <X size={20} />
+        </button>
+        <h3 className="text-xl font-bold">Import flashcards</h3>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept=".apkg,.csv,.tsv,.txt"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            className="flex-1 text-sm"
+          />
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as DeckFormat)}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm"
+          >
+            {DECK_FORMATS.map((f) => (
+              <option key={f.format} value={f.format}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {format !== 'apkg' && (
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="…or paste the exported text here"
+            rows={5}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono"
+          />
+        )}
+        {(format === 'csv' || format === 'tsv') && (
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+            First row contains column names
+          </label>
+        )}
+        {format === 'quizlet' && (
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              Between term and definition
+              <select
+                value={separators.term}
+                onChange={(e) => setSeparators({ ...separators, term: e.target.value })}
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+              >
+                {TERM_SEPARATORS.map((s) => (
+                  <option key={s.label} value={s.value}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Between cards
+              <select
+                value={separators.row}
+                onChange={(e) => setSeparators({ ...separators, row: e.target.value })}
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+              >
+                {ROW_SEPARATORS.map((s) => (
+                  <option key={s.label} value={s.value}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-gray-400">Reading file…</p>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {table && table.fields.length > 0 && (
+          <>
+            <div className="space-y-2">
+              {fieldSelect('Question', 'question')}
+              {fieldSelect('Answer', 'answer')}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <span className="w-20 text-gray-400">Into</span>
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+              >
+                <option value="new">New deck</option>
+                {decks.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.title}
+                  </option>
+                ))}
+              </select>
+              {target === 'new' && (
+                <input
+                  value={deckName}
+                  onChange={(e) => setDeckName(e.target.value)}
+                  placeholder="Deck name"
+                  className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                />
+              )}
+            </div>
+
+            <div className="border border-gray-700 rounded divide-y divide-gray-700 text-sm">
+              {cards.slice(0, 5).map((card) => (
+                <div key={card.id} className="p-2 flex gap-2">
+                  <span className="flex-1 truncate">{card.question}</span>
+                  <span className="flex-1 truncate text-gray-400">{card.answer}</span>
+                  {duplicates.has(card.id) && <span className="text-xs text-yellow-400">duplicate</span>}
+                </div>
+              ))}
+              {cards.length > 5 && <div className="p-2 text-gray-500">…and {cards.length - 5} more</div>}
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                Skip {duplicates.size} {duplicates.size === 1 ? 'duplicate' : 'duplicates'}
+              </label>
+              <button
+                onClick={handleImport}
+                disabled={toImport.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded"
+              >
+                Import {toImport.length} {toImport.length === 1 ? 'card' : 'cards'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeckImportDialog;
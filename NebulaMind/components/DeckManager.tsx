@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Plus, Sparkles, Trash2, Upload } from 'lucide-react';
+import { Flashcard, Notebook } from '../types';
+import { useJobManager, useJobs, useNotifications } from '../App';
+import { FlashcardDeck, createDeck, getDecks, putDeck, removeDeck, withCards } from '../services/flashcards';
+import { DECK_FORMATS, DeckFormat, exportDeck, exportFileName } from '../services/deckIO';
+import { isActiveJob } from '../services/jobs';
+import DeckImportDialog from './DeckImportDialog';
+import JobStatus from './JobStatus';
+
+interface Props {
+  notebook: Notebook;
+  onUpdate: (nb: Notebook) => void;
+}
+
+const GENERATE_COUNT = 10;
+
+/**
+ * DeckManager lists the notebook's flashcard decks and lets the user create,
+ * rename and delete them.  A deck can be scoped to a subset of the
+ * notebook's sources; generating cards for it only draws from that scope and
+ * appends the new cards, so edits and review history are never thrown away.
+ * Generation runs as a background job, so the deck can be edited meanwhile.
+ * Cards can be edited in place, reordered, added by hand and deleted.
+ * Decks can also be imported from and exported to CSV/TSV, Quizlet text
+ * and Anki packages.
+ */
+const DeckManager: React.FC<Props> = ({ notebook, onUpdate }) => {
+  const decks = getDecks(notebook);
+  const [selectedId, setSelectedId] = useState<string | null>(decks[0]?.id ?? null);
+  const [newTitle, setNewTitle] = useState('');
+  const [newScope, setNewScope] = useState<string[] | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<DeckFormat>('csv');
+  const jobs = useJobManager();
+  const notifications = useNotifications();
+  const notebookJobs = useJobs(notebook.id);
+
+  const selected = decks.find((d) => d.id === selectedId) || null;
+  const selectedJob = (selected && notebookJobs.filter((j) => j.artifactId === selected.id).pop()) || null;
+  const loading = !!selectedJob && isActiveJob(selectedJob);
+
+  // Sources in a deck's scope that still exist in the notebook.  An
+  // undefined scope covers every source.
+  const scopedSourceIds = (deck: FlashcardDeck) => {
+    const ids = notebook.sources.map((s) => s.id);
+    return deck.content.sourceIds ? ids.filter((id) => deck.content.sourceIds!.includes(id)) : ids;
+  };
+
+  const scopeLabel = (deck: FlashcardDeck) => {
+    if (!deck.content.sourceIds) return 'All sources';
+    const count = scopedSourceIds(deck).length;
+    return `${count} ${count === 1 ? 'source' : 'sources'}`;
+  };
+
+  const updateDeck = (deck: FlashcardDeck) => onUpdate(putDeck(notebook, deck));
+
+  const updateCards = (deck: FlashcardDeck, cards: Flashcard[]) => updateDeck(withCards(deck, cards));
+
+  const generateInto = (deck: FlashcardDeck) => {
+    const sourceIds = deck.content.sourceIds ? scopedSourceIds(deck) : undefined;
+    if (sourceIds && sourceIds.length === 0) {
+      notifications.notify('error', 'None of the sources in this deck’s scope are left in the notebook.', {
+        title: 'Cannot generate cards',
+      });
+      return;
+    }
+    jobs.enqueue(notebook.id, `Flashcards for "${deck.title}"`, {
+      type: 'flashcards',
+      deckId: deck.id,
+      count: GENERATE_COUNT,
+      sourceIds,
+    });
+  };
+
+  const handleCreate = (generate: boolean) => {
+    const scope = newScope && newScope.length < notebook.sources.length ? newScope : undefined;
+    const deck = createDeck([], newTitle.trim() || `Deck ${decks.length + 1}`, scope);
+    onUpdate(putDeck(notebook, deck));
+    setSelectedId(deck.id);
+    setNewTitle('');
+    setNewScope(null);
+    if (generate) generateInto(deck);
+  };
+
+  const handleDeleteDeck = (deck: FlashcardDeck) => {
+    if (!confirm(`Delete the deck "${deck.title}" and its ${deck.content.cards.length} cards?`)) return;
+    onUpdate(removeDeck(notebook, deck.id));
+    if (selectedId === deck.id) setSelectedId(null);
+  };
+
+  const handleExport = async (deck: FlashcardDeck) => {
+    try {
+      const blob = await exportDeck(deck, exportFormat);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exportFileName(deck, exportFormat);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err: any) {
+      console.error(err);
+      notifications.error(err, 'Failed to export deck');
+    }
+  };
+
+  const toggleNewScope = (sourceId: string) => {
+    const current = newScope ?? notebook.sources.map((s) => s.id);
+    setNewScope(current.includes(sourceId) ? current.filter((id) => id !== sourceId) : [...current, sourceId]);
+  };
+
+  const moveCard = (deck: FlashcardDeck, index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= deck.content.cards.length) return;
+    const cards = [...deck.content.cards];
+    [cards[index], cards[target]] = [cards[target], cards[index]];
+    updateCards(deck, cards);
+  };
+
+  const editCard = (deck: FlashcardDeck, card: Flashcard, patch: Partial<Pick<Flashcard, 'question' | 'answer'>>) =>
+    updateCards(deck, deck.content.cards.map((c) => (c.id === card.id ? { ...c, ...patch } : c)));
+
+  const addCard = (deck: FlashcardDeck) =>
+    updateCards(deck, [...deck.content.cards, { id: crypto.randomUUID(), question: '', answer: '' }]);
+
+  const deleteCard = (deck: FlashcardDeck, card: Flashcard) =>
+    updateCards(deck, deck.content.cards.filter((c) => c.id !== card.id));
+
+  return (
+    <div className="flex gap-4 h-full">
+      <aside className="w-64 flex-shrink-0 space-y-4">
+        <div className="space-y-1">
+          {decks.map((deck) => (
+            <button
+              key={deck.id}
+              onClick={() => setSelectedId(deck.id)}
+              className={`w-full text-left px-3 py-2 rounded ${
+                deck.id === selectedId ? 'bg-gray-700' : 'hover:bg-gray-800'
+              }`}
+            >
+              <div className="truncate font-medium">{deck.title}</div>
+              <div className="text-xs text-gray-400">
+                {deck.content.cards.length} cards · {scopeLabel(deck)} · {new Date(deck.createdAt).toLocaleDateString()}
+              </div>
+            </button>
+          ))}
+          {decks.length === 0 && <p className="text-sm text-gray-400 px-3">No decks yet.</p>}
+        </div>
+        <div className="border border-gray-700 rounded p-3 space-y-2">
+          <p className="text-sm font-medium">New deck</p>
+          <input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Deck name"
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm"
+          />
+          {notebook.sources.length > 0 && (
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {notebook.sources.map((source) => (
+                <label key={source.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={!newScope || newScope.includes(source.id)}
+                    onChange={() => toggleNewScope(source.id)}
+                  />
+                  <span className="truncate">{source.title}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleCreate(false)}
+              className="flex-1 text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+            >
+              Empty
+            </button>
+            <button
+              onClick={() => handleCreate(true)}
+              disabled={notebook.sources.length === 0 || newScope?.length === 0}
+              className="flex-1 text-xs bg-blue-600 hover:bg-blue-700 px-2 py-1 rounded"
+            >
+              Generate
+            </button>
+          </div>
+        </div>
+        <button
+          onClick={() => setImporting(true)}
+          className="w-full flex items-center justify-center gap-1 text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
+        >
+          <Upload className="w-4 h-4" /> Import deck
+        </button>
+      </aside>
+
+      <section className="flex-1 overflow-y-auto space-y-3">
+        {!selected ? (
+          <p className="text-gray-400">Select a deck to edit its cards.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                value={selected.title}
+                onChange={(e) => updateDeck({ ...selected, title: e.target.value })}
+                className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-2 font-semibold"
+              />
+              <button
+                onClick={() => generateInto(selected)}
+                disabled={loading || notebook.sources.length === 0}
+                className="flex items-center gap-1 text-sm bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded"
+                title={`Generate ${GENERATE_COUNT} more cards from ${scopeLabel(selected).toLowerCase()}`}
+              >
+                <Sparkles className="w-4 h-4" /> {loading ? 'Generating…' : 'Generate more'}
+              </button>
+              <button
+                onClick={() => handleDeleteDeck(selected)}
+                className="p-2 rounded hover:bg-gray-700"
+                aria-label="Delete deck"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <JobStatus job={selectedJob} />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-gray-400">
+                Created {new Date(selected.createdAt).toLocaleString()} · {scopeLabel(selected)}
+              </p>
+              <div className="flex items-center gap-1">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as DeckFormat)}
+                  className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs"
+                >
+                  {DECK_FORMATS.map((f) => (
+                    <option key={f.format} value={f.format}>
+                      {f.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleExport(selected)}
+                  disabled={selected.content.cards.length === 0}
+                  className="flex items-center gap-1 text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                >
+                  <Download className="w-3 h-3" /> Export
+                </button>
+              </div>
+            </div>
+            {selected.content.cards.map((card, i) => (
+              <div key={card.id} className="flex gap-2 border border-gray-700 rounded p-3 bg-gray-800">
+                <div className="flex-1 space-y-2">
+                  <textarea
+                    value={card.question}
+                    onChange={(e) => editCard(selected, card, { question: e.target.value })}
+                    placeholder="Question"
+                    rows={2}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                  />
+                  <textarea
+                    value={card.answer}
+                    onChange={(e) => editCard(selected, card, { answer: e.target.value })}
+                    placeholder="Answer"
+                    rows={2}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => moveCard(selected, i, -1)}
+                    disabled={i === 0}
+                    className="p-1 rounded hover:bg-gray-700 disabled:opacity-30"
+                    aria-label="Move card up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveCard(selected, i, 1)}
+                    disabled={i === selected.content.cards.length - 1}
+                    className="p-1 rounded hover:bg-gray-700 disabled:opacity-30"
+                    aria-label="Move card down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteCard(selected, card)}
+                    className="p-1 rounded hover:bg-gray-700"
+                    aria-label="Delete card"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => addCard(selected)}
+              className="flex items-center gap-1 text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
+            >
+              <Plus className="w-4 h-4" /> Add card
+            </button>
+          </>
+        )}
+      </section>
+
+      {importing && (
+        <DeckImportDialog
+          notebook={notebook}
+          onUpdate={onUpdate}
+          deckId={selected?.id}
+          onImported={setSelectedId}
+          onClose={() => setImporting(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DeckManager;
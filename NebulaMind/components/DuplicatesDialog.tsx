@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Merge, Trash2, X } from 'lucide-react';
+import { Source } from '../types';
+import { useTheme } from '../App';
+import { DUPLICATE_LABELS, groupDuplicates } from '../services/duplicates';
+
+interface Props {
+  sources: Source[];
+  onClose: () => void;
+  onDeleteSource: (id: string) => void;
+  /** Keep one source of a group and remove the others. */
+  onMerge?: (keep: Source, others: Source[]) => void;
+}
+
+/**
+ * DuplicatesDialog lists the notebook's sources that duplicate each other,
+ * grouped, with why they were grouped.  Single copies can be deleted, or a
+ * group merged into the copy chosen to be kept (the oldest by default).
+ */
+const DuplicatesDialog: React.FC<Props> = ({ sources, onClose, onDeleteSource, onMerge }) => {
+  const { theme } = useTheme();
+  const groups = useMemo(() => groupDuplicates(sources), [sources]);
+  // The copy to keep in each group, keyed by the group's oldest source.
+  const [kept, setKept] = useState<Record<string, string>>({});
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="glass-panel w-full max-w-2xl rounded-2xl p-6 flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 border border-white/10 shadow-2xl relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors"
+        >
+          <X size={20} />
+        </button>
+        <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <Copy className="text-amber-400" />
+          Duplicate Sources
+        </h3>
+        <div className="space-y-4 overflow-y-auto pr-1">
+          {groups.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">No duplicate sources were found in this notebook.</p>
+          ) : (
+            groups.map((group) => {
+              const key = group.sources[0].id;
+              const keepId = kept[key] ?? key;
+              return (
+                <div key={key} className="border border-white/10 rounded-xl p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-amber-400 border border-amber-500/30 rounded px-1.5 py-0.5">
+                      {DUPLICATE_LABELS[group.kind]}
+                    </span>
+                    {onMerge && (
+                      <button
+                        onClick={() =>
+                          onMerge(
+                            group.sources.find((s) => s.id === keepId)!,
+                            group.sources.filter((s) => s.id !== keepId)
+                          )
+                        }
+                        className={`text-xs flex items-center gap-1 text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300`}
+                        title="Keep the selected copy and remove the others"
+                      >
+                        <Merge size={14} /> Merge into selected
+                      </button>
+                    )}
+                  </div>
+                  {group.sources.map((source) => (
+                    <label key={source.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`keep-${key}`}
+                        checked={source.id === keepId}
+                        onChange={() => setKept({ ...kept, [key]: source.id })}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-sm text-slate-200">{source.title}</p>
+                        <p className="text-xs text-slate-500 truncate">
+                          {source.type} · {source.content.length.toLocaleString()} chars · added{' '}
+                          {new Date(source.createdAt).toLocaleDateString()}
+                          {source.normalizedUrl ? ` · ${source.normalizedUrl}` : ''}
+                        </p>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onDeleteSource(source.id);
+                        }}
+                        className="text-slate-600 hover:text-rose-500 p-1.5 hover:bg-rose-500/10 rounded-lg transition-all"
+                        title="Delete Source"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </label>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesDialog;
@@ -1,54 +1,113 @@
-import React, { useState } from 'react';
-import { Notebook, Flashcard } from '../types';
-import { generateFlashcards } from '../services/ai';
+import React, { useEffect, useState } from 'react';
+import { Notebook, ReviewGrade, ReviewLog } from '../types';
+import { useJobManager, useJobs } from '../App';
+import { createDeck, dueCards, getDecks, putCard, putDeck } from '../services/flashcards';
+import { isActiveJob, latestJob } from '../services/jobs';
+import DeckManager from './DeckManager';
+import JobStatus from './JobStatus';
+import { formatInterval, schedule, startOfDay } from '../services/scheduler';
+import { addReviewLog, getReviewLogs } from '../services/storage';
 
 interface Props {
   notebook: Notebook;
+  onUpdate: (nb: Notebook) => void;
 }
 
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-700 hover:bg-red-600' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-700 hover:bg-orange-600' },
+  { grade: 'good', label: 'Good', className: 'bg-green-700 hover:bg-green-600' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-700 hover:bg-blue-600' },
+];
+
 /**
- * FlashcardsTab displays a deck of flashcards generated from the notebook's
- * sources.  Users can cycle through the cards, flip them to reveal the
- * answer, and regenerate a new set at any time.  The generation is
- * asynchronous and uses the AI backend via the `generateFlashcards` helper.
+ * FlashcardsTab is a spaced-repetition study session over the flashcards
+ * generated from the notebook's sources.  Cards that are due today, from
+ * every deck in the notebook, are shown one at a time; after revealing the
+ * answer the user grades their recall (Again / Hard / Good / Easy) and the
+ * scheduler decides when the card comes back.  Review state is saved on the
+ * cards and every review is logged, so the schedule survives reloads.
+ * Decks themselves are created, edited and extended in the DeckManager,
+ * which the tab switches to from its header.
  */
-const FlashcardsTab: React.FC<Props> = ({ notebook }) => {
-  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
-  const [current, setCurrent] = useState(0);
+const FlashcardsTab: React.FC<Props> = ({ notebook, onUpdate }) => {
+  const [managing, setManaging] = useState(false);
   const [showAnswer, setShowAnswer] = useState(false);
-  const [loading, setLoading] = useState(false);
+  const [logs, setLogs] = useState<ReviewLog[]>([]);
+  const jobs = useJobManager();
+  const job = latestJob(useJobs(notebook.id), 'flashcards');
+  const loading = !!job && isActiveJob(job);
 
-  const handleGenerate = async () => {
-    setLoading(true);
-    try {
-      const cards = await generateFlashcards(notebook.id, 10);
-      setFlashcards(cards);
-      setCurrent(0);
-      setShowAnswer(false);
-    } catch (err: any) {
-      console.error(err);
-      alert(err.message || 'Failed to generate flashcards');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    getReviewLogs(notebook.id)
+      .then(setLogs)
+      .catch((err) => console.error('Failed to load review logs', err));
+  }, [notebook.id]);
 
-  const nextCard = () => {
-    if (flashcards.length > 0) {
-      setCurrent((current + 1) % flashcards.length);
-      setShowAnswer(false);
+  const decks = getDecks(notebook);
+  const totalCards = decks.reduce((n, d) => n + d.content.cards.length, 0);
+  const now = Date.now();
+  const queue = dueCards(notebook, now);
+  const reviewedToday = logs.filter((l) => l.reviewedAt >= startOfDay(now)).length;
+
+  // Fill the notebook's first deck, or a new one, from all of its sources.
+  const handleGenerate = () => {
+    let deck = decks[0];
+    if (!deck) {
+      deck = createDeck([]);
+      onUpdate(putDeck(notebook, deck));
     }
+    jobs.enqueue(notebook.id, `Flashcards for "${deck.title}"`, {
+      type: 'flashcards',
+      deckId: deck.id,
+      count: 10,
+      sourceIds: deck.content.sourceIds,
+    });
+    setShowAnswer(false);
   };
 
-  const prevCard = () => {
-    if (flashcards.length > 0) {
-      setCurrent((current - 1 + flashcards.length) % flashcards.length);
-      setShowAnswer(false);
-    }
+  const handleGrade = (grade: ReviewGrade) => {
+    const current = queue[0];
+    if (!current) return;
+    const { deck, card } = current;
+    const reviewedAt = Date.now();
+    const review = schedule(card.review, grade, reviewedAt);
+    onUpdate(putCard(notebook, deck.id, { ...card, review }));
+    const log: ReviewLog = {
+      id: crypto.randomUUID(),
+      deckId: deck.id,
+      cardId: card.id,
+      grade,
+      reviewedAt,
+      previousInterval: card.review?.interval ?? 0,
+      interval: review.interval,
+      ease: review.ease,
+    };
+    setLogs((prev) => [...prev, log]);
+    addReviewLog(notebook.id, log).catch((err) => console.error('Failed to save review log', err));
+    setShowAnswer(false);
   };
 
+  if (managing) {
+    return (
+      <div className="h-full flex flex-col gap-4">
+        <div className="flex justify-end">
+          <button
+            onClick={() => setManaging(false)}
+            className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+          >
+            Back to study
+          </button>
+        </div>
+        <div className="flex-1 min-h-0">
+          <DeckManager notebook={notebook} onUpdate={onUpdate} />
+        </div>
+      </div>
+    );
+  }
+
   // Render a button to generate cards if none exist yet.
-  if (flashcards.length === 0) {
+  if (totalCards === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full gap-4">
         <p className="text-center">No flashcards generated yet.</p>
@@ -59,56 +118,85 @@ const FlashcardsTab: React.FC<Props> = ({ notebook }) => {
         >
           {loading ? 'Generating…' : 'Generate Flashcards'}
         </button>
+        <JobStatus job={job} />
         {notebook.sources.length === 0 && (
           <p className="text-sm text-red-400">Add some sources first to generate flashcards.</p>
         )}
+        <button onClick={() => setManaging(true)} className="text-sm text-gray-400 hover:text-gray-200 underline">
+          {decks.length > 0 ? 'Manage decks' : 'Create a deck by hand'}
+        </button>
       </div>
     );
   }
 
-  const card = flashcards[current];
+  const header = (
+    <div className="flex justify-between items-center">
+      <span className="text-sm text-gray-400">
+        {queue.length} due today · {reviewedToday} reviewed today · {totalCards} cards in {decks.length}{' '}
+        {decks.length === 1 ? 'deck' : 'decks'}
+      </span>
+      <button
+        onClick={() => setManaging(true)}
+        className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+      >
+        Manage decks
+      </button>
+    </div>
+  );
+
+  if (queue.length === 0) {
+    const nextDue = Math.min(
+      ...decks.flatMap((d) => d.content.cards.map((c) => c.review?.due ?? Infinity))
+    );
+    return (
+      <div className="max-w-xl mx-auto space-y-4">
+        {header}
+        <div className="border border-gray-700 rounded p-6 bg-gray-800 text-center space-y-2">
+          <p className="text-lg font-semibold">All caught up!</p>
+          {Number.isFinite(nextDue) && (
+            <p className="text-sm text-gray-400">Next review due {new Date(nextDue).toLocaleDateString()}.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { deck, card } = queue[0];
   return (
     <div className="max-w-xl mx-auto space-y-4">
-      <div className="flex justify-between items-center">
-        <span className="text-sm text-gray-400">
-          Card {current + 1} of {flashcards.length}
-        </span>
-        <button
-          onClick={handleGenerate}
-          disabled={loading}
-          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
-        >
-          {loading ? 'Regenerating…' : 'Regenerate'}
-        </button>
-      </div>
+      {header}
       <div className="border border-gray-700 rounded p-6 bg-gray-800">
+        {decks.length > 1 && <p className="text-xs text-gray-500 mb-2">{deck.title}</p>}
         <p className="text-lg font-semibold mb-4">{card.question}</p>
         {showAnswer && (
           <p className="mt-2 text-green-400 whitespace-pre-wrap">{card.answer}</p>
         )}
       </div>
-      <div className="flex justify-between">
-          <button
-            onClick={prevCard}
-            className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
-          >
-            Prev
-          </button>
+      {showAnswer ? (
+        <div className="grid grid-cols-4 gap-2">
+          {GRADES.map(({ grade, label, className }) => (
+            <button
+              key={grade}
+              onClick={() => handleGrade(grade)}
+              className={`${className} px-3 py-2 rounded flex flex-col items-center`}
+            >
+              <span>{label}</span>
+              <span className="text-xs opacity-70">{formatInterval(schedule(card.review, grade, now), now)}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex justify-center">
           <button
-            onClick={() => setShowAnswer(!showAnswer)}
+            onClick={() => setShowAnswer(true)}
             className="bg-green-700 hover:bg-green-600 px-3 py-2 rounded"
           >
-            {showAnswer ? 'Hide Answer' : 'Show Answer'}
+            Show Answer
           </button>
-          <button
-            onClick={nextCard}
-            className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
-          >
-            Next
-          </button>
-      </div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default FlashcardsTab;
\ No newline at end of file
+export default FlashcardsTab;
@@ -0,0 +1,102 @@
+import React, { useSyncExternalStore } from 'react';
+import { AlertCircle, Check, Copy, Loader2, Plus, RotateCcw, SkipForward } from 'lucide-react';
+import { useTheme } from '../App';
+import { IngestItem, IngestionQueue } from '../services/ingestion';
+
+interface Props {
+  queue: IngestionQueue;
+}
+
+const STATUS_LABELS: Record<IngestItem['status'], string> = {
+  queued: 'Waiting',
+  running: 'Reading…',
+  done: 'Added',
+  failed: 'Failed',
+  skipped: 'Skipped',
+  duplicate: 'Already in this notebook',
+};
+
+/**
+ * ImportQueue lists the files and links being imported into the sources
+ * tab with their detected type and status.  Failed items show their error
+ * and can be retried, waiting and running ones skipped.  Duplicates of
+ * sources already in the notebook wait to be added anyway or skipped.
+ */
+const ImportQueue: React.FC<Props> = ({ queue }) => {
+  const items = useSyncExternalStore(queue.subscribe, queue.items);
+  const { theme } = useTheme();
+  if (items.length === 0) return null;
+
+  const count = (status: IngestItem['status']) => items.filter((i) => i.status === status).length;
+  const pending = count('queued') + count('running');
+
+  return (
+    <div className="glass-panel rounded-2xl border border-white/5 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          {pending > 0 ? <Loader2 className={`animate-spin text-${theme.colors.primary}-400`} size={16} /> : <Check size={16} className="text-emerald-400" />}
+          {pending > 0 ? 'Importing' : 'Imported'} {count('done')} of {items.length}
+          {count('failed') > 0 && <span className="text-rose-400 font-normal">· {count('failed')} failed</span>}
+          {count('duplicate') > 0 && <span className="text-amber-400 font-normal">· {count('duplicate')} duplicates</span>}
+        </div>
+        {pending < items.length && (
+          <button onClick={queue.clear} className="text-xs text-slate-500 hover:text-slate-300">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="max-h-72 overflow-y-auto divide-y divide-white/5 text-sm">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-start gap-3 py-2">
+            <div className="pt-0.5 shrink-0">
+              {item.status === 'running' ? (
+                <Loader2 className={`animate-spin text-${theme.colors.primary}-400`} size={14} />
+              ) : item.status === 'done' ? (
+                <Check className="text-emerald-400" size={14} />
+              ) : item.status === 'failed' ? (
+                <AlertCircle className="text-rose-400" size={14} />
+              ) : item.status === 'duplicate' ? (
+                <Copy className="text-amber-400" size={14} />
+              ) : (
+                <div className="w-3.5 h-3.5 rounded-full border border-slate-600" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-slate-200" title={item.name}>
+                {item.name}
+              </p>
+              <p
+                className={`text-xs ${item.status === 'failed' ? 'text-rose-400' : item.status === 'duplicate' ? 'text-amber-400' : 'text-slate-500'}`}
+              >
+                {item.type && (
+                  <span className="uppercase tracking-wider font-bold text-[10px] mr-2 text-slate-500">{item.type}</span>
+                )}
+                {item.error || (item.duplicateOf ? `Duplicates ${item.duplicateOf}` : STATUS_LABELS[item.status])}
+                {item.status === 'running' && item.progress && item.progress.total > 0
+                  ? ` ${Math.round((item.progress.done / item.progress.total) * 100)}%`
+                  : ''}
+              </p>
+            </div>
+            {item.status === 'duplicate' && (
+              <button onClick={() => queue.accept(item.id)} className="p-1 text-slate-500 hover:text-slate-200 hover:bg-white/5 rounded" title="Add anyway">
+                <Plus size={14} />
+              </button>
+            )}
+            {(item.status === 'queued' || item.status === 'running' || item.status === 'duplicate') && (
+              <button onClick={() => queue.skip(item.id)} className="p-1 text-slate-500 hover:text-slate-200 hover:bg-white/5 rounded" title="Skip">
+                <SkipForward size={14} />
+              </button>
+            )}
+            {item.type && (item.status === 'failed' || item.status === 'skipped') && (
+              <button onClick={() => queue.retry(item.id)} className="p-1 text-slate-500 hover:text-slate-200 hover:bg-white/5 rounded" title="Retry">
+                <RotateCcw size={14} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImportQueue;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Loader2, RotateCcw, X } from 'lucide-react';
+import { BackgroundJob } from '../types';
+import { useJobManager } from '../App';
+import { isActiveJob } from '../services/jobs';
+
+interface Props {
+  job: BackgroundJob | null;
+}
+
+/**
+ * JobStatus shows the state of one background job next to the thing it is
+ * generating: its progress with a Cancel button while it is queued or
+ * running, or its error with Retry and Dismiss buttons once it has failed.
+ * Nothing is shown for completed or cancelled jobs.
+ */
+const JobStatus: React.FC<Props> = ({ job }) => {
+  const jobs = useJobManager();
+  if (!job) return null;
+
+  if (isActiveJob(job)) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-300">
+        <Loader2 className="animate-spin text-indigo-400" size={16} />
+        <span>{job.progress || 'Generating…'}</span>
+        <button
+          onClick={() => jobs.cancel(job.id)}
+          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  if (job.status === 'failed') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-400">
+        <span>
+          {job.title} failed: {job.error || 'unknown error'}
+        </span>
+        <button onClick={() => jobs.retry(job.id)} className="p-1 hover:bg-gray-700 rounded" title="Retry">
+          <RotateCcw size={14} />
+        </button>
+        <button onClick={() => jobs.dismiss(job.id)} className="p-1 hover:bg-gray-700 rounded" title="Dismiss">
+          <X size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default JobStatus;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Check, Loader2, RotateCcw, X } from 'lucide-react';
+import { useJobManager, useJobs } from '../App';
+import { isActiveJob } from '../services/jobs';
+
+interface Props {
+  notebookId: string;
+}
+
+/**
+ * JobsPanel is the header button that lists a notebook's background jobs.
+ * The button counts the jobs that are queued or running; the list shows
+ * each job's progress or outcome and lets the user cancel running jobs,
+ * retry failed or cancelled ones and clear finished ones.
+ */
+const JobsPanel: React.FC<Props> = ({ notebookId }) => {
+  const [open, setOpen] = useState(false);
+  const jobs = useJobs(notebookId);
+  const manager = useJobManager();
+  if (jobs.length === 0) return null;
+
+  const active = jobs.filter(isActiveJob);
+  const finished = jobs.filter((j) => !isActiveJob(j));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded"
+        title="Background jobs"
+      >
+        {active.length > 0 ? <Loader2 className="animate-spin" size={12} /> : <Check size={12} />}
+        {active.length > 0 ? `${active.length} running` : 'Jobs'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-40 bg-gray-900 border border-gray-700 rounded shadow-lg p-2 space-y-1 text-sm">
+          {jobs
+            .slice()
+            .reverse()
+            .map((job) => (
+              <div key={job.id} className="flex items-start gap-2 p-2 rounded hover:bg-gray-800">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{job.title}</p>
+                  <p
+                    className={`text-xs ${job.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}
+                    title={job.error}
+                  >
+                    {isActiveJob(job)
+                      ? job.progress || 'Queued'
+                      : job.status === 'failed'
+                        ? `Failed: ${job.error || 'unknown error'}`
+                        : job.status === 'cancelled'
+                          ? 'Cancelled'
+                          : 'Done'}
+                  </p>
+                </div>
+                {isActiveJob(job) ? (
+                  <button onClick={() => manager.cancel(job.id)} className="p-1 hover:bg-gray-700 rounded" title="Cancel">
+                    <X size={14} />
+                  </button>
+                ) : (
+                  <>
+                    {job.status !== 'completed' && (
+                      <button onClick={() => manager.retry(job.id)} className="p-1 hover:bg-gray-700 rounded" title="Retry">
+                        <RotateCcw size={14} />
+                      </button>
+                    )}
+                    <button onClick={() => manager.dismiss(job.id)} className="p-1 hover:bg-gray-700 rounded" title="Clear">
+                      <Check size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          {finished.length > 1 && (
+            <button
+              onClick={() => finished.forEach((j) => manager.dismiss(j.id))}
+              className="w-full text-xs text-gray-400 hover:text-gray-200 pt-1"
+            >
+              Clear finished jobs
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobsPanel;
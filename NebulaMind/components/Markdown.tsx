@@ -0,0 +1,114 @@
+import React from 'react';
+
+interface Props {
+  text: string;
+  /**
+   * Render a numbered `[n]` citation marker.  Without it markers are left
+   * as plain text.
+   */
+  renderMarker?: (index: number, key: React.Key) => React.ReactNode;
+}
+
+// Inline syntax: bold, inline code, links, citation markers and italics.
+const INLINE = /(\*\*[^*]+\*\*|`[^`]+`|\[[^\]]+\]\((?:https?:|mailto:)[^)\s]+\)|\[\d+\]|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g;
+
+function renderInline(text: string, renderMarker: Props['renderMarker']): React.ReactNode[] {
+  return text.split(INLINE).map((part, i) => {
+    if (i % 2 === 0) return part;
+    if (part.startsWith('**')) return <strong key={i}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`')) return <code key={i} className="bg-gray-800 rounded px-1 text-sm">{part.slice(1, -1)}</code>;
+    const marker = part.match(/^\[(\d+)\]$/);
+    if (marker) return renderMarker ? renderMarker(Number(marker[1]), i) : part;
+    const link = part.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+    if (link) {
+      return (
+        <a key={i} href={link[2]} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">
+          {link[1]}
+        </a>
+      );
+    }
+    return <em key={i}>{part.slice(1, -1)}</em>;
+  });
+}
+
+const HEADING_CLASSES = ['text-2xl font-bold', 'text-xl font-bold', 'text-lg font-semibold', 'font-semibold'];
+
+/**
+ * Markdown renders the subset of markdown used in notes: headings,
+ * paragraphs, bulleted and numbered lists, block quotes, code blocks and
+ * inline bold, italics, code and links.  Everything is rendered as React
+ * elements, never as raw HTML, so note content cannot inject markup.
+ */
+const Markdown: React.FC<Props> = ({ text, renderMarker }) => {
+  const lines = text.split('\n');
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = blocks.length;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith('```'); i++) code.push(lines[i]);
+      i++;
+      blocks.push(
+        <pre key={key} className="bg-gray-800 rounded p-2 text-sm overflow-x-auto">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      const Tag = `h${level}` as 'h1';
+      blocks.push(
+        <Tag key={key} className={HEADING_CLASSES[Math.min(level, HEADING_CLASSES.length) - 1]}>
+          {renderInline(heading[2], renderMarker)}
+        </Tag>
+      );
+      i++;
+      continue;
+    }
+    const listItem = /^\s*(?:[-*+]|\d+[.)])\s+/;
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      for (; i < lines.length && listItem.test(lines[i]); i++) items.push(lines[i].replace(listItem, ''));
+      const List = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <List key={key} className={`${ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`}>
+          {items.map((item, j) => (
+            <li key={j}>{renderInline(item, renderMarker)}</li>
+          ))}
+        </List>
+      );
+      continue;
+    }
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].startsWith('>'); i++) quoted.push(lines[i].replace(/^>\s?/, ''));
+      blocks.push(
+        <blockquote key={key} className="border-l-2 border-gray-600 pl-3 text-gray-400">
+          {renderInline(quoted.join(' '), renderMarker)}
+        </blockquote>
+      );
+      continue;
+    }
+    const paragraph: string[] = [];
+    for (
+      ;
+      i < lines.length && lines[i].trim() && !/^(#{1,6}\s|```|>)/.test(lines[i]) && !listItem.test(lines[i]);
+      i++
+    ) {
+      paragraph.push(lines[i]);
+    }
+    blocks.push(<p key={key}>{renderInline(paragraph.join(' '), renderMarker)}</p>);
+  }
+  return <div className="space-y-2">{blocks}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { BookOpen, Copy, Loader2, Plus, Settings, Trash2 } from 'lucide-react';
+import {
+  NotebookSummary,
+  createNotebook,
+  deleteNotebook,
+  duplicateNotebook,
+  listNotebooks,
+} from '../services/storage';
+import { useNotifications, useTheme } from '../App';
+import NotificationHistory from './NotificationHistory';
+
+type SortOrder = 'newest' | 'oldest';
+
+/**
+ * NotebookLibrary is the home screen of the app.  It lists every notebook
+ * stored locally and lets the user create, open, duplicate and delete
+ * notebooks.  The list is sorted by the time each notebook was last updated.
+ */
+const NotebookLibrary: React.FC = () => {
+  const [notebooks, setNotebooks] = useState<NotebookSummary[] | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [busy, setBusy] = useState(false);
+  const navigate = useNavigate();
+  const { theme } = useTheme();
+  const notifications = useNotifications();
+
+  const refresh = async () => {
+    setNotebooks(await listNotebooks());
+  };
+
+  useEffect(() => {
+    refresh().catch((err) => {
+      console.error(err);
+      setNotebooks([]);
+      notifications.error(err, 'Failed to load your notebooks');
+    });
+  }, []);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      const nb = await createNotebook();
+      navigate(`/notebook/${nb.id}/sources`);
+    } catch (err) {
+      console.error(err);
+      notifications.error(err, 'Failed to create a notebook');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setBusy(true);
+    try {
+      await duplicateNotebook(id);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      notifications.error(err, 'Failed to duplicate the notebook');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (nb: NotebookSummary) => {
+    if (!confirm(`Delete "${nb.title}"? This cannot be undone.`)) return;
+    setBusy(true);
+    try {
+      await deleteNotebook(nb.id);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      notifications.error(err, 'Failed to delete the notebook');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sorted = (notebooks || [])
+    .slice()
+    .sort((a, b) => (sortOrder === 'newest' ? b.updatedAt - a.updatedAt : a.updatedAt - b.updatedAt));
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-slate-200 p-6 md:p-10">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row justify-between items-end gap-4 border-b border-white/5 pb-6">
+          <div className="space-y-2">
+            <h1 className="text-2xl md:text-3xl font-bold text-white tracking-tight">Your Notebooks</h1>
+            <p className="text-slate-400 text-sm md:text-base">
+              Each notebook collects sources and everything generated from them.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <NotificationHistory />
+            <Link to="/settings" className="text-slate-400 hover:text-white p-2" title="Settings">
+              <Settings size={18} />
+            </Link>
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+              className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="newest">Recently updated</option>
+              <option value="oldest">Least recently updated</option>
+            </select>
+            <button
+              onClick={handleCreate}
+              disabled={busy}
+              className={`flex items-center gap-2 bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50`}
+            >
+              <Plus size={16} /> New Notebook
+            </button>
+          </div>
+        </div>
+
+        {notebooks === null ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className={`animate-spin text-${theme.colors.primary}-400`} size={28} />
+          </div>
+        ) : sorted.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-slate-500 glass-panel rounded-2xl border-dashed border-slate-700 bg-slate-900/30">
+            <BookOpen size={32} className="text-slate-600 mb-4" />
+            <p className="text-xl font-medium text-slate-300">No notebooks yet</p>
+            <p className="text-sm mt-2">Create a notebook to start adding sources.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {sorted.map((nb) => (
+              <div
+                key={nb.id}
+                onClick={() => navigate(`/notebook/${nb.id}/sources`)}
+                className={`glass-panel p-5 rounded-2xl border border-white/5 hover:border-${theme.colors.primary}-500/30 cursor-pointer transition-all group`}
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <h2 className="font-semibold text-slate-200 truncate">{nb.title}</h2>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDuplicate(nb.id);
+                      }}
+                      disabled={busy}
+                      className="text-slate-500 hover:text-slate-200 p-1.5 rounded-lg hover:bg-white/10"
+                      title="Duplicate Notebook"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(nb);
+                      }}
+                      disabled={busy}
+                      className="text-slate-500 hover:text-rose-500 p-1.5 rounded-lg hover:bg-rose-500/10"
+                      title="Delete Notebook"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                {nb.description && <p className="text-sm text-slate-400 mt-1 line-clamp-2">{nb.description}</p>}
+                <div className="mt-4 pt-3 border-t border-white/5 flex justify-between text-xs text-slate-500">
+                  <span>
+                    {nb.sourceCount} {nb.sourceCount === 1 ? 'source' : 'sources'}
+                  </span>
+                  <span>Updated {new Date(nb.updatedAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotebookLibrary;
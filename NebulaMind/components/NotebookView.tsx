@@ -1,17 +1,55 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
 import { Notebook, Source } from '../types';
-import SourcesTab from './SourcesTab';
+import { useAIConfig, useAIProvider, useNotifications } from '../App';
+import { Passage, createRetrievalIndex } from '../services/retrieval';
+import {
+  citedSources,
+  describeDuplicates,
+  findDuplicates,
+  fingerprintSource,
+  mergeSources,
+  moveCitations,
+  moveStoredCitations,
+} from '../services/duplicates';
+import { IngestContext, createIngestionQueue, readSource } from '../services/ingestion';
+import { addCard } from '../services/flashcards';
+import { noteFromPassage } from '../services/notes';
+import { saveNote } from '../services/storage';
+import SourcesTab, { askForPassword } from './SourcesTab';
+import { PassageActions } from './SourceViewer';
 import ChatTab from './ChatTab';
+import NotesTab from './NotesTab';
+import WritingTab from './WritingTab';
 import FlashcardsTab from './FlashcardsTab';
 import QuizTab from './QuizTab';
 import ReportTab from './ReportTab';
 import StudioTab from './StudioTab';
+import JobsPanel from './JobsPanel';
+import NotificationHistory from './NotificationHistory';
+
+export const NOTEBOOK_TABS = ['sources', 'chat', 'notes', 'writing', 'flashcards', 'quiz', 'reports', 'studio'] as const;
+export type NotebookTab = (typeof NOTEBOOK_TABS)[number];
 
 /**
  * Simplified notebook view for the NebulaMind app.  This component focuses on
  * clarity and functionality over elaborate styling.  It exposes three main
  * sections (sources, chat and studio) and adds support for renaming individual
  * sources via the `onEditSource` callback passed down to the SourcesTab.
+ *
+ * The active tab is taken from the `:tab` route parameter so every view of
+ * a notebook has its own URL (e.g. `/notebook/abc/quiz`) that can be
+ * bookmarked and shared.
+ *
+ * The view also owns the notebook's local retrieval index.  Sources are
+ * chunked and indexed as they are added, edited or deleted, and the index
+ * is handed to the chat so questions can be sent with relevant passages.
+ *
+ * Passages selected while reading a source can be asked about in the chat,
+ * which the view switches to with the passage quoted, or kept as a
+ * flashcard or a note.  Bulk imports run in the view too, so they are not
+ * lost when the sources tab is left.
  */
 interface Props {
   notebook: Notebook;
@@ -19,16 +57,28 @@ interface Props {
 }
 
 const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
-  const [activeTab, setActiveTab] = useState<
-    'sources' | 'chat' | 'studio' | 'flashcards' | 'quiz' | 'reports'
-  >('sources');
+  const { tab } = useParams<{ tab: string }>();
+  const navigate = useNavigate();
+  const activeTab = tab as NotebookTab;
+  const setActiveTab = (next: NotebookTab) => navigate(`/notebook/${notebook.id}/${next}`);
   const [editingTitle, setEditingTitle] = useState(false);
   const [editedTitle, setEditedTitle] = useState(notebook.title);
+  // A passage to ask about, waiting in the chat until the question is sent.
+  const [chatQuote, setChatQuote] = useState<Passage | null>(null);
+  const notifications = useNotifications();
 
   useEffect(() => {
     setEditedTitle(notebook.title);
   }, [notebook.title]);
 
+  const retrieval = useMemo(() => createRetrievalIndex(), [notebook.id]);
+
+  // Index the sources the notebook was loaded with, and pick up any changes
+  // to them made outside of this view.  Unchanged sources are skipped.
+  useEffect(() => {
+    retrieval.sync(notebook.sources);
+  }, [retrieval, notebook.sources]);
+
   // Persist a changed notebook title when the user finishes editing.  Titles
   // trimmed of whitespace and unchanged values will not trigger an update.
   const saveTitle = () => {
@@ -39,15 +89,25 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
     setEditingTitle(false);
   };
 
+  // The notebook as last updated here.  Imported sources can arrive, and
+  // duplicates be merged, several at a time, before the `notebook` prop has
+  // caught up with the first change.
+  const latest = useRef(notebook);
+  latest.current = notebook;
+
   // Append a new source to the notebook and bump the update timestamp.
   const addSource = (source: Source) => {
-    const updated = { ...notebook, sources: [...notebook.sources, source], updatedAt: Date.now() };
+    retrieval.upsertSource(source);
+    const updated = { ...latest.current, sources: [...latest.current.sources, source], updatedAt: Date.now() };
+    latest.current = updated;
     onUpdate(updated);
   };
 
   // Remove a source from the notebook by id.
   const deleteSource = (id: string) => {
-    const updated = { ...notebook, sources: notebook.sources.filter((s) => s.id !== id), updatedAt: Date.now() };
+    retrieval.removeSource(id);
+    const updated = { ...latest.current, sources: latest.current.sources.filter((s) => s.id !== id), updatedAt: Date.now() };
+    latest.current = updated;
     onUpdate(updated);
   };
 
@@ -55,18 +115,163 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
   // SourcesTab when a user edits a title via the edit button.  The notebook
   // update timestamp is also refreshed.
   const editSource = (updatedSource: Source) => {
+    retrieval.upsertSource(updatedSource);
     const updated = {
-      ...notebook,
-      sources: notebook.sources.map((s) => (s.id === updatedSource.id ? updatedSource : s)),
+      ...latest.current,
+      sources: latest.current.sources.map((s) => (s.id === updatedSource.id ? updatedSource : s)),
       updatedAt: Date.now(),
     };
+    latest.current = updated;
     onUpdate(updated);
   };
 
+  // Keep one copy of a group of duplicates and delete the others.  Whatever
+  // cited an exact copy cites the kept source instead; other copies may
+  // differ from it, so deleting any that are cited is confirmed first.
+  // Resolves to false when the user cancels.
+  const mergeDuplicates = async (keep: Source, others: Source[]): Promise<boolean> => {
+    const exact = others.filter((s) => s.contentHash && s.contentHash === keep.contentHash);
+    const cited = await citedSources(latest.current, others.filter((s) => !exact.includes(s)));
+    if (
+      cited.length &&
+      !confirm(
+        `${cited.map((s) => `"${s.title}"`).join(', ')} ${cited.length === 1 ? 'is' : 'are'} cited in this notebook. ` +
+          'Those citations will no longer open once the copies are removed. Merge anyway?'
+      )
+    ) {
+      return false;
+    }
+    await moveStoredCitations(notebook.id, keep, exact);
+    const merged = mergeSources(keep, others);
+    retrieval.upsertSource(merged);
+    others.forEach((s) => retrieval.removeSource(s.id));
+    const sources = latest.current.sources
+      .filter((s) => !others.some((o) => o.id === s.id))
+      .map((s) => (s.id === keep.id ? merged : s));
+    const updated = moveCitations({ ...latest.current, sources, updatedAt: Date.now() }, keep, exact);
+    latest.current = updated;
+    onUpdate(updated);
+    return true;
+  };
+
+  // Sources imported in bulk are read by a queue that belongs to the view,
+  // not the sources tab, so imports carry on and stay listed while other
+  // tabs are open.  The queue outlives renders, so it reads the current
+  // settings and callback through a ref.
+  const [aiConfig] = useAIConfig();
+  const ai = useAIProvider();
+  const ingestContext: IngestContext = { config: aiConfig, ai, requestPassword: askForPassword };
+  const importer = useRef({ ingestContext, addSource });
+  importer.current = { ingestContext, addSource };
+  const queue = useMemo(
+    () =>
+      createIngestionQueue(
+        async (item, onProgress) =>
+          fingerprintSource(await readSource(item.input, item.type!, importer.current.ingestContext, onProgress)),
+        (source) => importer.current.addSource(source),
+        {
+          duplicateOf: (source) => {
+            const matches = findDuplicates(source, latest.current.sources);
+            return matches.length ? describeDuplicates(matches) : undefined;
+          },
+        }
+      ),
+    [notebook.id]
+  );
+
+  // Sum up an import once the queue has drained.  Imports still running
+  // when the notebook is closed are dropped.
+  useEffect(() => {
+    let importing = false;
+    const unsubscribe = queue.subscribe(() => {
+      const items = queue.items();
+      const active = items.some((i) => i.status === 'queued' || i.status === 'running');
+      if (importing && !active) {
+        const done = items.filter((i) => i.status === 'done').length;
+        const failed = items.filter((i) => i.status === 'failed').length;
+        const duplicates = items.filter((i) => i.status === 'duplicate').length;
+        const message = [
+          failed ? `${failed} could not be read. Retry or skip them in the import list.` : '',
+          duplicates ? `${duplicates} are already in this notebook. Add them anyway or skip them in the import list.` : '',
+        ]
+          .filter(Boolean)
+          .join(' ');
+        notifications.notify(failed || duplicates ? 'info' : 'success', message || 'All items were read.', {
+          title: `Imported ${done} of ${items.length} sources`,
+          actions: [{ label: 'Show', to: `/notebook/${notebook.id}/sources` }],
+        });
+      }
+      importing = active;
+    });
+    return () => {
+      unsubscribe();
+      queue.items().forEach((item) => queue.skip(item.id));
+    };
+  }, [queue]);
+
+  const passageActions: PassageActions = {
+    onAsk: (passage) => {
+      setChatQuote(passage);
+      setActiveTab('chat');
+    },
+    onMakeFlashcard: (passage) => {
+      const question = prompt('Question for this flashcard (the passage is the answer):');
+      if (!question?.trim()) return;
+      const { notebook: updated, deck } = addCard(latest.current, {
+        id: crypto.randomUUID(),
+        question: question.trim(),
+        answer: passage.text.trim(),
+      });
+      latest.current = updated;
+      onUpdate(updated);
+      notifications.notify('success', `Added a flashcard to "${deck.title}".`, {
+        actions: [{ label: 'Study', to: `/notebook/${notebook.id}/flashcards` }],
+      });
+    },
+    onSaveNote: (passage) => {
+      const source = latest.current.sources.find((s) => s.id === passage.sourceId);
+      if (!source) return;
+      saveNote(notebook.id, noteFromPassage(source, passage))
+        .then(() =>
+          notifications.notify('success', 'The passage was saved as a note.', {
+            actions: [{ label: 'Open notes', to: `/notebook/${notebook.id}/notes` }],
+          })
+        )
+        .catch((err) => notifications.error(err, 'Failed to save note'));
+    },
+  };
+
+  // Fingerprint sources that were added before sources were fingerprinted,
+  // or without going through the sources tab, so duplicates can be found.
+  useEffect(() => {
+    const missing = notebook.sources.filter((s) => !s.contentHash);
+    if (!missing.length) return;
+    let cancelled = false;
+    Promise.all(missing.map(fingerprintSource))
+      .then((fingerprinted) => {
+        if (cancelled) return;
+        const byId = new Map(fingerprinted.map((s) => [s.id, s]));
+        const updated = { ...latest.current, sources: latest.current.sources.map((s) => byId.get(s.id) ?? s) };
+        latest.current = updated;
+        onUpdate(updated);
+      })
+      .catch((err) => console.error('Failed to fingerprint sources', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [notebook.sources]);
+
+  if (!NOTEBOOK_TABS.includes(activeTab)) {
+    return <Navigate to={`/notebook/${notebook.id}/sources`} replace />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="p-4 flex justify-between items-center border-b bg-gray-900 text-white">
-        <div>
+        <div className="flex items-center gap-3">
+          <Link to="/" className="text-gray-400 hover:text-white" title="Back to Library">
+            <ArrowLeft size={18} />
+          </Link>
           {editingTitle ? (
             <input
               value={editedTitle}
@@ -81,45 +286,61 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
               {notebook.title}
             </h1>
           )}
+          <JobsPanel notebookId={notebook.id} />
+        </div>
+        <div className="flex items-center gap-4">
+          <nav className="space-x-4 text-sm">
+            <button
+              className={activeTab === 'sources' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('sources')}
+            >
+              Sources
+            </button>
+            <button
+              className={activeTab === 'chat' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('chat')}
+            >
+              Chat
+            </button>
+            <button
+              className={activeTab === 'notes' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('notes')}
+            >
+              Notes
+            </button>
+            <button
+              className={activeTab === 'writing' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('writing')}
+            >
+              Writing
+            </button>
+            <button
+              className={activeTab === 'flashcards' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('flashcards')}
+            >
+              Flashcards
+            </button>
+            <button
+              className={activeTab === 'quiz' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('quiz')}
+            >
+              Quiz
+            </button>
+            <button
+              className={activeTab === 'reports' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('reports')}
+            >
+              Reports
+            </button>
+            <button
+              className={activeTab === 'studio' ? 'font-bold underline' : ''}
+              onClick={() => setActiveTab('studio')}
+            >
+              Studio
+            </button>
+          </nav>
+          <NotificationHistory />
         </div>
-        <nav className="space-x-4 text-sm">
-          <button
-            className={activeTab === 'sources' ? 'font-bold underline' : ''}
-            onClick={() => setActiveTab('sources')}
-          >
-            Sources
-          </button>
-          <button
-            className={activeTab === 'chat' ? 'font-bold underline' : ''}
-            onClick={() => setActiveTab('chat')}
-          >
-            Chat
-          </button>
-          <button
-            className={activeTab === 'flashcards' ? 'font-bold underline' : ''}
-            onClick={() => setActiveTab('flashcards')}
-          >
-            Flashcards
-          </button>
-          <button
-            className={activeTab === 'quiz' ? 'font-bold underline' : ''}
-            onClick={() => setActiveTab('quiz')}
-          >
-            Quiz
-          </button>
-          <button
-            className={activeTab === 'reports' ? 'font-bold underline' : ''}
-            onClick={() => setActiveTab('reports')}
-          >
-            Reports
-          </button>
-          <button
-            className={activeTab === 'studio' ? 'font-bold underline' : ''}
-            onClick={() => setActiveTab('studio')}
-          >
-            Studio
-          </button>
-        </nav>
       </header>
       <main className="flex-1 p-4 overflow-y-auto bg-gray-950 text-slate-200">
         {activeTab === 'sources' && (
@@ -128,10 +349,17 @@ const NotebookView: React.FC<Props> = ({ notebook, onUpdate }) => {
             onAddSource={addSource}
             onDeleteSource={deleteSource}
             onEditSource={editSource}
+            onMergeSources={mergeDuplicates}
+            passageActions={passageActions}
+            queue={queue}
           />
         )}
-        {activeTab === 'chat' && <ChatTab notebook={notebook} />}
-        {activeTab === 'flashcards' && <FlashcardsTab notebook={notebook} />}
+        {activeTab === 'chat' && (
+          <ChatTab notebook={notebook} retrieval={retrieval} quote={chatQuote} onClearQuote={() => setChatQuote(null)} />
+        )}
+        {activeTab === 'notes' && <NotesTab notebook={notebook} onAddSource={addSource} />}
+        {activeTab === 'writing' && <WritingTab notebook={notebook} />}
+        {activeTab === 'flashcards' && <FlashcardsTab notebook={notebook} onUpdate={onUpdate} />}
         {activeTab === 'quiz' && <QuizTab notebook={notebook} />}
         {activeTab === 'reports' && <ReportTab notebook={notebook} />}
         {activeTab === 'studio' && <StudioTab notebook={notebook} onUpdate={onUpdate} />}
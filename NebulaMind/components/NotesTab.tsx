@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Combine, FilePlus, Pin, PinOff, Plus, Search, Trash2 } from 'lucide-react';
+import { Note, Notebook, Source } from '../types';
+import { useAIProvider, useNotifications } from '../App';
+import { ResolvedCitation } from '../services/citations';
+import { createNote, noteTitle, noteToSource, searchNotes, sortNotes } from '../services/notes';
+import { deleteNote, getNotes, saveNote } from '../services/storage';
+import CitedText from './CitedText';
+import SourceViewer from './SourceViewer';
+
+interface Props {
+  notebook: Notebook;
+  /** Add a source to the notebook (used to turn a note into a source). */
+  onAddSource: (source: Source) => void;
+}
+
+// Edits are written to storage once typing pauses for this long.
+const SAVE_DELAY_MS = 500;
+
+/**
+ * NotesTab lists the notebook's notes, pinned notes first, with a search
+ * box over titles and content.  A note is written in markdown and shown
+ * rendered; notes saved from chat answers keep their citations.  Several
+ * notes can be selected to merge them into a new note with the AI
+ * provider or to delete them, and any note can be turned into a source so
+ * it grounds future answers.
+ */
+const NotesTab: React.FC<Props> = ({ notebook, onAddSource }) => {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [unifying, setUnifying] = useState(false);
+  const [openCitation, setOpenCitation] = useState<ResolvedCitation | null>(null);
+  // Edits waiting to be written, by note id.
+  const pending = useRef(new Map<string, { note: Note; timer: ReturnType<typeof setTimeout> }>());
+  const ai = useAIProvider();
+  const notifications = useNotifications();
+
+  useEffect(() => {
+    let cancelled = false;
+    getNotes(notebook.id)
+      .then((loaded) => {
+        if (cancelled) return;
+        setNotes(loaded);
+        setActiveId(sortNotes(loaded)[0]?.id ?? null);
+      })
+      .catch((err) => console.error('Failed to load notes', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [notebook.id]);
+
+  const persist = (note: Note) =>
+    saveNote(notebook.id, note).catch((err) => console.error('Failed to save note', err));
+
+  // Write pending edits right away when the tab is closed.
+  useEffect(() => {
+    const waiting = pending.current;
+    return () => {
+      waiting.forEach(({ note, timer }) => {
+        clearTimeout(timer);
+        persist(note);
+      });
+      waiting.clear();
+    };
+  }, [notebook.id]);
+
+  const cancelPending = (id: string) => {
+    clearTimeout(pending.current.get(id)?.timer);
+    pending.current.delete(id);
+  };
+
+  const putNote = (note: Note, delay = 0) => {
+    setNotes((prev) => (prev.some((n) => n.id === note.id) ? prev.map((n) => (n.id === note.id ? note : n)) : [...prev, note]));
+    cancelPending(note.id);
+    if (delay) {
+      const timer = setTimeout(() => {
+        pending.current.delete(note.id);
+        persist(note);
+      }, delay);
+      pending.current.set(note.id, { note, timer });
+    } else {
+      persist(note);
+    }
+  };
+
+  const editNote = (note: Note, fields: Partial<Note>) => putNote({ ...note, ...fields, updatedAt: Date.now() }, SAVE_DELAY_MS);
+
+  const addNote = (note: Note) => {
+    putNote(note);
+    setActiveId(note.id);
+  };
+
+  const removeNotes = (ids: string[]) => {
+    if (!confirm(ids.length === 1 ? 'Delete this note?' : `Delete ${ids.length} notes?`)) return;
+    ids.forEach((id) => {
+      cancelPending(id);
+      deleteNote(id).catch((err) => console.error('Failed to delete note', err));
+    });
+    setNotes((prev) => prev.filter((n) => !ids.includes(n.id)));
+    setSelected(new Set());
+    if (activeId && ids.includes(activeId)) setActiveId(null);
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleUnify = async () => {
+    const chosen = sortNotes(notes).filter((n) => selected.has(n.id));
+    setUnifying(true);
+    try {
+      const { content } = await ai.unifyNotes(notebook, chosen);
+      addNote(createNote(content, { title: `Unified: ${chosen.map(noteTitle).join(', ')}`.slice(0, 80) }));
+      setSelected(new Set());
+      setEditing(false);
+    } catch (err: any) {
+      console.error(err);
+      notifications.error(err, 'Failed to unify notes', { actions: [{ label: 'Retry', onClick: handleUnify }] });
+    } finally {
+      setUnifying(false);
+    }
+  };
+
+  const handleMakeSource = (note: Note) => {
+    onAddSource(noteToSource(note));
+    notifications.notify('success', `"${noteTitle(note)}" was added to the notebook's sources.`, {
+      title: 'Source added',
+      actions: [{ label: 'View sources', to: `/notebook/${notebook.id}/sources` }],
+    });
+  };
+
+  const visible = searchNotes(sortNotes(notes), query);
+  const active = notes.find((n) => n.id === activeId) || null;
+
+  return (
+    <div className="flex h-full gap-4">
+      <aside className="w-72 flex-shrink-0 flex flex-col gap-2 border-r border-gray-800 pr-3">
+        <div className="flex items-center gap-2">
+          <div className="flex-1 flex items-center gap-1 bg-gray-900 border border-gray-700 rounded px-2">
+            <Search size={14} className="text-gray-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search notes"
+              className="flex-1 bg-transparent py-1 text-sm outline-none"
+            />
+          </div>
+          <button
+            onClick={() => {
+              addNote(createNote(''));
+              setEditing(true);
+            }}
+            className="p-1.5 bg-blue-600 hover:bg-blue-700 rounded"
+            title="New note"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2 text-xs">
+            <span className="flex-1 text-gray-400">{selected.size} selected</span>
+            <button
+              onClick={handleUnify}
+              disabled={unifying || selected.size < 2}
+              className="flex items-center gap-1 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+              title="Merge the selected notes into a new note"
+            >
+              <Combine size={12} /> {unifying ? 'Unifying…' : 'Unify'}
+            </button>
+            <button
+              onClick={() => removeNotes(Array.from(selected))}
+              className="flex items-center gap-1 bg-gray-700 hover:bg-rose-700 px-2 py-1 rounded"
+            >
+              <Trash2 size={12} /> Delete
+            </button>
+          </div>
+        )}
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {visible.length === 0 && (
+            <p className="text-sm text-gray-500 text-center mt-6">
+              {notes.length === 0 ? 'No notes yet. Save a chat answer or write one.' : 'No notes match your search.'}
+            </p>
+          )}
+          {visible.map((note) => (
+            <div
+              key={note.id}
+              onClick={() => {
+                setActiveId(note.id);
+                setEditing(false);
+              }}
+              className={`flex items-start gap-2 p-2 rounded cursor-pointer text-sm ${note.id === activeId ? 'bg-gray-800' : 'hover:bg-gray-900'}`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(note.id)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleSelected(note.id)}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="truncate font-medium">{noteTitle(note)}</p>
+                <p className="text-xs text-gray-500">{new Date(note.updatedAt ?? note.createdAt).toLocaleString()}</p>
+              </div>
+              {note.pinned && <Pin size={12} className="mt-1 text-yellow-400" />}
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      <section className="flex-1 min-w-0 flex flex-col gap-3">
+        {!active ? (
+          <p className="text-center text-gray-500 mt-10">Select a note or create a new one.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                value={active.title || ''}
+                onChange={(e) => editNote(active, { title: e.target.value })}
+                placeholder={noteTitle(active)}
+                className="flex-1 bg-transparent text-xl font-semibold outline-none border-b border-transparent focus:border-gray-700"
+              />
+              <button
+                onClick={() => setEditing(!editing)}
+                className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+              >
+                {editing ? 'Preview' : 'Edit'}
+              </button>
+              <button
+                onClick={() => putNote({ ...active, pinned: !active.pinned })}
+                className="p-1.5 hover:bg-gray-700 rounded"
+                title={active.pinned ? 'Unpin' : 'Pin'}
+              >
+                {active.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+              </button>
+              <button
+                onClick={() => handleMakeSource(active)}
+                disabled={!active.content.trim()}
+                className="p-1.5 hover:bg-gray-700 rounded disabled:opacity-50"
+                title="Turn into a source"
+              >
+                <FilePlus size={14} />
+              </button>
+              <button
+                onClick={() => removeNotes([active.id])}
+                className="p-1.5 hover:bg-gray-700 hover:text-rose-400 rounded"
+                title="Delete note"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {editing ? (
+              <textarea
+                value={active.content}
+                onChange={(e) => editNote(active, { content: e.target.value })}
+                placeholder="Write in markdown: # headings, - lists, **bold**, *italics*, `code`, [links](https://…)"
+                autoFocus
+                className="flex-1 w-full bg-gray-900 border border-gray-700 rounded p-3 font-mono text-sm"
+              />
+            ) : (
+              <div className="flex-1 overflow-y-auto" onDoubleClick={() => setEditing(true)}>
+                {active.content.trim() ? (
+                  <CitedText
+                    text={active.content}
+                    citations={active.citations}
+                    sources={notebook.sources}
+                    markdown
+                    onOpenCitation={setOpenCitation}
+                  />
+                ) : (
+                  <p className="text-gray-500">This note is empty. Double-click to edit it.</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
+      {openCitation?.source && (
+        <SourceViewer
+          source={openCitation.source}
+          highlight={
+            openCitation.start !== undefined && openCitation.end !== undefined
+              ? { start: openCitation.start, end: openCitation.end }
+              : undefined
+          }
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default NotesTab;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Bell, Trash2, X } from 'lucide-react';
+import { useNotificationState, useNotifications } from '../App';
+import { NOTIFICATION_STYLES, NotificationActions } from './NotificationToasts';
+
+/**
+ * NotificationHistory is a bell button that opens the list of earlier
+ * notifications, newest first, so messages whose toast has gone can still
+ * be read and acted on.  The button shows how many arrived since the list
+ * was last opened.
+ */
+const NotificationHistory: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const { notifications } = useNotificationState();
+  const center = useNotifications();
+  const unread = notifications.filter((n) => !n.read).length;
+
+  const toggle = () => {
+    if (open) center.markAllRead();
+    setOpen(!open);
+  };
+
+  const close = () => {
+    center.markAllRead();
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={toggle} className="relative p-1.5 rounded hover:bg-gray-800" title="Notifications">
+        <Bell size={16} />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-600 text-white text-[10px] rounded-full px-1">{unread}</span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto z-40 bg-gray-900 text-slate-200 border border-gray-700 rounded shadow-lg p-2 text-sm">
+          <div className="flex items-center justify-between px-2 pb-2 border-b border-gray-800">
+            <span className="font-semibold">Notifications</span>
+            {notifications.length > 0 && (
+              <button onClick={center.clear} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200">
+                <Trash2 size={12} /> Clear all
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 && <p className="text-center text-gray-500 py-4">No notifications yet.</p>}
+          {notifications.map((n) => (
+            <div key={n.id} className={`flex items-start gap-2 p-2 rounded ${n.read ? '' : 'bg-gray-800'}`}>
+              <span className="mt-0.5">{NOTIFICATION_STYLES[n.type].icon}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">
+                  {n.title}
+                  {n.count > 1 && <span className="ml-1 text-xs text-gray-400">×{n.count}</span>}
+                </p>
+                {n.message !== n.title && <p className="text-gray-300">{n.message}</p>}
+                <p className="text-xs text-gray-500">{new Date(n.createdAt).toLocaleTimeString()}</p>
+                <NotificationActions actions={n.actions} onDone={close} />
+              </div>
+              <button onClick={() => center.remove(n.id)} className="text-gray-500 hover:text-gray-200" title="Remove">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationHistory;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
+import { Notification, NotificationAction } from '../types';
+import { useNotificationState, useNotifications } from '../App';
+
+export const NOTIFICATION_STYLES: Record<Notification['type'], { icon: React.ReactNode; border: string }> = {
+  success: { icon: <CheckCircle2 size={16} className="text-green-400" />, border: 'border-green-700' },
+  error: { icon: <AlertCircle size={16} className="text-red-400" />, border: 'border-red-700' },
+  info: { icon: <Info size={16} className="text-blue-400" />, border: 'border-gray-600' },
+};
+
+/**
+ * Buttons for a notification's actions.  `onDone` runs after an action,
+ * e.g. to close the toast or panel it was shown in.
+ */
+export const NotificationActions: React.FC<{ actions?: NotificationAction[]; onDone: () => void }> = ({
+  actions,
+  onDone,
+}) => {
+  const navigate = useNavigate();
+  if (!actions?.length) return null;
+  return (
+    <div className="flex gap-2 mt-1">
+      {actions.map((action) => (
+        <button
+          key={action.label}
+          onClick={() => {
+            action.onClick?.();
+            if (action.to) navigate(action.to);
+            onDone();
+          }}
+          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-0.5 rounded"
+        >
+          {action.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * NotificationToasts shows the notifications raised recently as a stack of
+ * toasts in the corner of the screen.  Toasts hide themselves after a few
+ * seconds (see `services/notifications.ts`) or when closed; a repeated
+ * notification shows how often it occurred.
+ */
+const NotificationToasts: React.FC = () => {
+  const { notifications, toasts } = useNotificationState();
+  const center = useNotifications();
+  const shown = toasts
+    .map((id) => notifications.find((n) => n.id === id))
+    .filter((n): n is Notification => !!n);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80">
+      {shown.map((n) => (
+        <div
+          key={n.id}
+          role={n.type === 'error' ? 'alert' : 'status'}
+          className={`flex items-start gap-2 bg-gray-900 text-slate-200 border ${NOTIFICATION_STYLES[n.type].border} rounded shadow-lg p-3`}
+        >
+          <span className="mt-0.5">{NOTIFICATION_STYLES[n.type].icon}</span>
+          <div className="flex-1 min-w-0 text-sm">
+            <p className="font-medium">
+              {n.title}
+              {n.count > 1 && <span className="ml-1 text-xs text-gray-400">×{n.count}</span>}
+            </p>
+            {n.message !== n.title && <p className="text-gray-300">{n.message}</p>}
+            <NotificationActions actions={n.actions} onDone={() => center.dismiss(n.id)} />
+          </div>
+          <button onClick={() => center.dismiss(n.id)} className="text-gray-500 hover:text-gray-200" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NotificationToasts;
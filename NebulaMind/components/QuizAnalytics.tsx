@@ -0,0 +1,165 @@
+import React from 'react';
+import { Notebook, QuizAttempt, QuizMode } from '../types';
+import { missedInAttempt, missedQuestions, missesBySource, scoreTrend, weakTopics } from '../services/quizAnalytics';
+
+interface Props {
+  notebook: Notebook;
+  attempts: QuizAttempt[];
+  /** Start a quiz made of the questions missed in an attempt. */
+  onRetry: (attempt: QuizAttempt) => void;
+  /** Generate a new quiz on the weak topics, if there are any. */
+  onWeakTopics?: () => void;
+}
+
+const MODE_LABELS: Record<QuizMode, string> = {
+  new: 'Quiz',
+  retry: 'Retry',
+  weakTopics: 'Weak topics',
+};
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 100;
+
+const percentColor = (percent: number) =>
+  percent >= 80 ? 'text-green-400' : percent >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * QuizAnalytics summarises a notebook's quiz history: the score trend over
+ * attempts, every attempt with its time per question, the questions missed
+ * most often and the sources and topics the misses trace back to.  From
+ * here the user can retry the questions missed in an attempt or start a
+ * quiz on their weak topics.
+ */
+const QuizAnalytics: React.FC<Props> = ({ notebook, attempts, onRetry, onWeakTopics }) => {
+  if (attempts.length === 0) {
+    return <p className="text-center text-gray-400">No quiz attempts yet. Finish a quiz to see your progress here.</p>;
+  }
+
+  const trend = scoreTrend(attempts);
+  const missed = missedQuestions(attempts).slice(0, 10);
+  const sources = missesBySource(attempts).filter((s) => s.misses > 0);
+  const topics = weakTopics(attempts);
+  const sourceTitle = (id: string) => notebook.sources.find((s) => s.id === id)?.title || 'Deleted source';
+
+  const points = trend.map((p, i) => {
+    const x = trend.length === 1 ? CHART_WIDTH / 2 : (i / (trend.length - 1)) * CHART_WIDTH;
+    const y = CHART_HEIGHT - (p.percent / 100) * CHART_HEIGHT;
+    return { x, y, ...p };
+  });
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <h3 className="font-semibold mb-2">Score trend</h3>
+        <svg viewBox={`-6 -6 ${CHART_WIDTH + 12} ${CHART_HEIGHT + 12}`} className="w-full h-32 bg-gray-800 rounded">
+          <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT / 2} y2={CHART_HEIGHT / 2} stroke="#374151" strokeDasharray="4 4" />
+          <polyline
+            points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="#60a5fa"
+            strokeWidth={2}
+          />
+          {points.map((p) => (
+            <circle key={p.attemptId} cx={p.x} cy={p.y} r={4} fill="#60a5fa">
+              <title>
+                {new Date(p.completedAt).toLocaleString()}: {p.percent}%
+              </title>
+            </circle>
+          ))}
+        </svg>
+      </section>
+
+      <section>
+        <h3 className="font-semibold mb-2">Attempts</h3>
+        <div className="border border-gray-700 rounded divide-y divide-gray-700 text-sm">
+          {[...attempts].reverse().map((attempt) => {
+            const percent = attempt.total ? Math.round((attempt.score / attempt.total) * 100) : 0;
+            const time = Object.values(attempt.durations).reduce((n, ms) => n + ms, 0);
+            const missedCount = missedInAttempt(attempt).length;
+            return (
+              <div key={attempt.id} className="p-2 flex items-center gap-3">
+                <span className="text-gray-400 w-40">{new Date(attempt.completedAt).toLocaleString()}</span>
+                <span className="text-xs text-gray-500 w-20">{MODE_LABELS[attempt.mode]}</span>
+                <span className={`w-28 ${percentColor(percent)}`}>
+                  {+attempt.score.toFixed(2)} / {attempt.total} ({percent}%)
+                </span>
+                <span className="flex-1 text-gray-400">
+                  {formatSeconds(time / Math.max(1, attempt.questions.length))} per question
+                </span>
+                {missedCount > 0 && (
+                  <button
+                    onClick={() => onRetry(attempt)}
+                    className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                  >
+                    Retry {missedCount} missed
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {missed.length > 0 && (
+        <section>
+          <h3 className="font-semibold mb-2">Most missed questions</h3>
+          <div className="border border-gray-700 rounded divide-y divide-gray-700 text-sm">
+            {missed.map(({ question, misses, answered }) => (
+              <div key={question.id} className="p-2 flex gap-3">
+                <span className="flex-1">{question.prompt}</span>
+                <span className="text-red-400 whitespace-nowrap">
+                  missed {misses} of {answered}
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {(sources.length > 0 || topics.length > 0) && (
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Weak spots</h3>
+            {onWeakTopics && (
+              <button
+                onClick={onWeakTopics}
+                className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded"
+              >
+                Quiz me on these
+              </button>
+            )}
+          </div>
+          {sources.map((s) => (
+            <div key={s.sourceId} className="text-sm">
+              <div className="flex justify-between">
+                <span className="truncate">{sourceTitle(s.sourceId)}</span>
+                <span className="text-gray-400">
+                  {s.misses} of {s.answered} missed
+                </span>
+              </div>
+              <div className="h-1.5 bg-gray-700 rounded">
+                <div className="h-1.5 bg-red-500 rounded" style={{ width: `${(s.misses / s.answered) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+          {topics.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {topics.map((t) => (
+                <span key={t.term} className="text-xs bg-gray-700 rounded-full px-2 py-1" title={`${t.misses} of ${t.answered} missed`}>
+                  {t.term}
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default QuizAnalytics;
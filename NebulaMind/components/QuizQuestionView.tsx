@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { QuizAnswer, QuizQuestion } from '../types';
+import { needsRubric, questionType } from '../services/grading';
+
+interface Props {
+  question: QuizQuestion;
+  answer: QuizAnswer | undefined;
+  onAnswer: (answer: QuizAnswer) => void;
+}
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1';
+
+// Shuffle the indices 0..n-1 in an order fixed by the seed, so a question
+// is shown the same way each time it is rendered.  A shuffle that leaves
+// every index in place would give the answer away, so it is shuffled again
+// (and, should that keep happening, rotated by one).
+function shuffledIndices(n: number, seed: string): number[] {
+  const shuffle = (round: number) => {
+    const key = (i: number) => {
+      let h = 2166136261;
+      for (const ch of `${seed}:${round ? `${round}:` : ''}${i}`) h = Math.imul(h ^ ch.charCodeAt(0), 16777619);
+      return h >>> 0;
+    };
+    return Array.from({ length: n }, (_, i) => i).sort((a, b) => key(a) - key(b));
+  };
+  const inPlace = (order: number[]) => order.every((v, i) => v === i);
+  let order = shuffle(0);
+  for (let round = 1; n > 1 && inPlace(order) && round < 10; round++) order = shuffle(round);
+  return n > 1 && inPlace(order) ? [...order.slice(1), order[0]] : order;
+}
+
+const ChoiceInput: React.FC<Props> = ({ question, answer, onAnswer }) => (
+  <div className="space-y-2">
+    {(question.options || []).map((opt, idx) => (
+      <label key={idx} className="flex items-center space-x-2">
+        <input type="radio" name={question.id} value={idx} checked={answer === idx} onChange={() => onAnswer(idx)} />
+        <span>{opt}</span>
+      </label>
+    ))}
+  </div>
+);
+
+const MultiSelectInput: React.FC<Props> = ({ question, answer, onAnswer }) => {
+  const chosen = Array.isArray(answer) ? (answer as number[]) : [];
+  const toggle = (idx: number) =>
+    onAnswer(chosen.includes(idx) ? chosen.filter((i) => i !== idx) : [...chosen, idx].sort((a, b) => a - b));
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">Select all that apply.</p>
+      {(question.options || []).map((opt, idx) => (
+        <label key={idx} className="flex items-center space-x-2">
+          <input type="checkbox" checked={chosen.includes(idx)} onChange={() => toggle(idx)} />
+          <span>{opt}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+const FillBlankInput: React.FC<Props> = ({ question, answer, onAnswer }) => {
+  const parts = question.prompt.split('___');
+  const values = Array.isArray(answer) ? (answer as string[]) : [];
+  const setBlank = (i: number, value: string) => {
+    const next = parts.slice(1).map((_, j) => values[j] || '');
+    next[i] = value;
+    onAnswer(next);
+  };
+  return (
+    <p className="leading-loose">
+      {parts.map((part, i) => (
+        <React.Fragment key={i}>
+          {part}
+          {i < parts.length - 1 && (
+            <input
+              value={values[i] || ''}
+              onChange={(e) => setBlank(i, e.target.value)}
+              className={`${inputClass} mx-1 w-32`}
+              aria-label={`Blank ${i + 1}`}
+            />
+          )}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+};
+
+const OrderingInput: React.FC<Props> = ({ question, answer, onAnswer }) => {
+  const items = question.items || [];
+  const initial = useMemo(() => shuffledIndices(items.length, question.id), [items.length, question.id]);
+  const order = Array.isArray(answer) && answer.length === items.length ? (answer as number[]) : initial;
+
+  // An untouched list is still an answer: record the shuffled order so it
+  // is graded as shown.
+  useEffect(() => {
+    if (answer === undefined) onAnswer(initial);
+  }, [question.id]);
+
+  const move = (pos: number, delta: number) => {
+    const next = [...order];
+    [next[pos], next[pos + delta]] = [next[pos + delta], next[pos]];
+    onAnswer(next);
+  };
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">Put these in the correct order.</p>
+      {order.map((itemIndex, pos) => (
+        <div key={itemIndex} className="flex items-center gap-2 p-2 border border-gray-700 rounded bg-gray-900">
+          <span className="text-sm text-gray-500 w-5">{pos + 1}.</span>
+          <span className="flex-1">{items[itemIndex]}</span>
+          <button
+            onClick={() => move(pos, -1)}
+            disabled={pos === 0}
+            className="p-1 hover:bg-gray-700 rounded disabled:opacity-30"
+            title="Move up"
+          >
+            <ArrowUp size={14} />
+          </button>
+          <button
+            onClick={() => move(pos, 1)}
+            disabled={pos === order.length - 1}
+            className="p-1 hover:bg-gray-700 rounded disabled:opacity-30"
+            title="Move down"
+          >
+            <ArrowDown size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MatchingInput: React.FC<Props> = ({ question, answer, onAnswer }) => {
+  const pairs = question.pairs || [];
+  const rightOrder = useMemo(() => shuffledIndices(pairs.length, question.id), [pairs.length, question.id]);
+  const chosen = Array.isArray(answer) ? (answer as number[]) : [];
+  const choose = (left: number, right: number) => {
+    const next = pairs.map((_, i) => chosen[i] ?? -1);
+    next[left] = right;
+    onAnswer(next);
+  };
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">Match each item on the left with one on the right.</p>
+      {pairs.map((pair, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <span className="flex-1">{pair.left}</span>
+          <select
+            value={chosen[i] ?? -1}
+            onChange={(e) => choose(i, Number(e.target.value))}
+            className={`${inputClass} flex-1`}
+          >
+            <option value={-1}>—</option>
+            {rightOrder.map((r) => (
+              <option key={r} value={r}>
+                {pairs[r].right}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ShortAnswerInput: React.FC<Props> = ({ question, answer, onAnswer }) => (
+  <textarea
+    className="w-full bg-gray-900 border border-gray-700 rounded p-2"
+    rows={needsRubric(question) ? 6 : 2}
+    value={typeof answer === 'string' ? answer : ''}
+    onChange={(e) => onAnswer(e.target.value)}
+  />
+);
+
+/**
+ * QuizQuestionView renders a quiz question with the input that suits its
+ * type: radio buttons, checkboxes, inline blanks, a reorderable list,
+ * matching selects or a text box.  Ordering items and matching choices are
+ * shuffled deterministically by question id.
+ */
+const QuizQuestionView: React.FC<Props> = (props) => {
+  const type = questionType(props.question);
+  return (
+    <div>
+      {type !== 'fillBlank' && <p className="text-lg font-semibold mb-4">{props.question.prompt}</p>}
+      {type === 'multipleChoice' || type === 'trueFalse' ? (
+        <ChoiceInput {...props} />
+      ) : type === 'multiSelect' ? (
+        <MultiSelectInput {...props} />
+      ) : type === 'fillBlank' ? (
+        <FillBlankInput {...props} />
+      ) : type === 'ordering' ? (
+        <OrderingInput {...props} />
+      ) : type === 'matching' ? (
+        <MatchingInput {...props} />
+      ) : (
+        <ShortAnswerInput {...props} />
+      )}
+    </div>
+  );
+};
+
+/**
+ * A learner's answer as readable text, for the results screen.
+ */
+export function describeAnswer(question: QuizQuestion, answer: QuizAnswer | undefined): string {
+  if (answer === undefined || answer === '') return '—';
+  const options = question.options || [];
+  switch (questionType(question)) {
+    case 'multipleChoice':
+    case 'trueFalse':
+      return options[answer as number] ?? '—';
+    case 'multiSelect':
+      return (answer as number[]).map((i) => options[i]).join(', ') || '—';
+    case 'fillBlank':
+      return (answer as string[]).map((a) => a || '—').join(', ');
+    case 'ordering':
+      return (answer as number[]).map((i) => question.items?.[i]).join(' → ');
+    case 'matching':
+      return (question.pairs || [])
+        .map((p, i) => `${p.left} → ${question.pairs?.[(answer as number[])[i]]?.right ?? '—'}`)
+        .join('; ');
+    case 'shortAnswer':
+      return String(answer);
+  }
+}
+
+export default QuizQuestionView;
@@ -1,64 +1,287 @@
-import React, { useState } from 'react';
-import { Notebook, QuizQuestion } from '../types';
-import { generateQuiz } from '../services/ai';
+import React, { useEffect, useRef, useState } from 'react';
+import { Notebook, QuestionResult, QuizAnswer, QuizAttempt, QuizMode, QuizQuestion, QuizQuestionType } from '../types';
+import { useAIProvider, useJobManager, useJobs } from '../App';
+import { QUIZ_QUESTION_TYPES, QuizDifficulty, QuizOptions } from '../services/ai';
+import { resolveCitation } from '../services/citations';
+import { QuizResult, gradeQuiz } from '../services/grading';
+import { completedArtifact, isActiveJob, latestJob } from '../services/jobs';
+import { missedInAttempt, weakTopicOptions } from '../services/quizAnalytics';
+import { addQuizAttempt, getQuizAttempts } from '../services/storage';
+import QuizAnalytics from './QuizAnalytics';
+import QuizQuestionView, { describeAnswer } from './QuizQuestionView';
+import SourceViewer from './SourceViewer';
+import JobStatus from './JobStatus';
 
 interface Props {
   notebook: Notebook;
 }
 
+const TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multipleChoice: 'Multiple choice',
+  trueFalse: 'True / false',
+  multiSelect: 'Multi-select',
+  fillBlank: 'Fill in the blank',
+  ordering: 'Ordering',
+  matching: 'Matching',
+  shortAnswer: 'Short answer',
+};
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+const DEFAULT_OPTIONS: QuizOptions = { count: 5, difficulty: 'medium', types: ['multipleChoice'] };
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((x) => x !== item) : [...list, item]);
+
+interface OptionsFormProps {
+  notebook: Notebook;
+  options: QuizOptions;
+  onChange: (options: QuizOptions) => void;
+}
+
+// Settings for the next generated quiz.  An undefined `sourceIds` covers
+// every source.
+const QuizOptionsForm: React.FC<OptionsFormProps> = ({ notebook, options, onChange }) => {
+  const types = options.types || QUIZ_QUESTION_TYPES;
+  const sourceIds = options.sourceIds || notebook.sources.map((s) => s.id);
+  const toggleSource = (id: string) => {
+    const next = toggle(sourceIds, id);
+    onChange({ ...options, sourceIds: next.length === notebook.sources.length ? undefined : next });
+  };
+  return (
+    <div className="w-full max-w-xl border border-gray-700 rounded p-4 bg-gray-800 space-y-3 text-sm">
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2">
+          Questions
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={options.count ?? 5}
+            onChange={(e) => onChange({ ...options, count: Math.max(1, Math.min(20, Number(e.target.value) || 1)) })}
+            className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Difficulty
+          <select
+            value={options.difficulty || 'medium'}
+            onChange={(e) => onChange({ ...options, difficulty: e.target.value as QuizDifficulty })}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 capitalize"
+          >
+            {DIFFICULTIES.map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <input
+        value={options.topic || ''}
+        onChange={(e) => onChange({ ...options, topic: e.target.value || undefined })}
+        placeholder="Focus on a topic (optional)"
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1"
+      />
+      <div>
+        <p className="text-gray-400 mb-1">Question types</p>
+        <div className="grid grid-cols-2 gap-1">
+          {QUIZ_QUESTION_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={types.includes(type)}
+                disabled={types.length === 1 && types[0] === type}
+                onChange={() => onChange({ ...options, types: toggle(types, type) })}
+              />
+              {TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+      {notebook.sources.length > 1 && (
+        <div>
+          <p className="text-gray-400 mb-1">Sources</p>
+          {notebook.sources.map((source) => (
+            <label key={source.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={sourceIds.includes(source.id)}
+                disabled={sourceIds.length === 1 && sourceIds[0] === source.id}
+                onChange={() => toggleSource(source.id)}
+              />
+              <span className="truncate">{source.title}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 /**
  * QuizTab allows users to test their knowledge of the notebook's sources via
  * AI-generated questions.  Each quiz session consists of a set of questions
- * returned from the backend.  After answering all questions the user can
- * review the correct answers.
+ * returned from the backend.  After answering all questions the quiz is
+ * graded (see `services/grading.ts`) and the user sees their score, the
+ * credit for each question and an explanation of each grade.
+ *
+ * Before generating, the user chooses the number of questions, difficulty,
+ * an optional topic, the sources to draw from and the question types.
+ * Quizzes are generated in the background and saved with the notebook; a
+ * quiz that has not been attempted yet starts as soon as it is ready, also
+ * after leaving and returning to the tab, unless another quiz is being
+ * answered; then it is offered to start instead.  Each result links back to the
+ * source passage its question came from.
+ *
+ * Every finished attempt is saved with its answers, grades and the time
+ * spent on each question.  The history view charts progress and points at
+ * weak spots, and offers to retry the missed questions or to generate a
+ * quiz focused on the weak topics.
  */
 const QuizTab: React.FC<Props> = ({ notebook }) => {
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, number | string>>({});
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
   const [showResults, setShowResults] = useState(false);
-  const [loading, setLoading] = useState(false);
-
-  const handleGenerate = async () => {
-    setLoading(true);
-    try {
-      const qs = await generateQuiz(notebook.id, 5);
-      setQuestions(qs);
-      setCurrentIndex(0);
-      setAnswers({});
-      setShowResults(false);
-    } catch (err: any) {
-      console.error(err);
-      alert(err.message || 'Failed to generate quiz');
-    } finally {
-      setLoading(false);
-    }
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [options, setOptions] = useState<QuizOptions>(DEFAULT_OPTIONS);
+  const [openReference, setOpenReference] = useState<QuizQuestion['reference'] | null>(null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [attemptsLoaded, setAttemptsLoaded] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [mode, setMode] = useState<QuizMode>('new');
+  const [quizId, setQuizId] = useState<string | undefined>();
+  const [startedAt, setStartedAt] = useState(0);
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  // When the current question was shown, for timing answers.
+  const questionShownAt = useRef(0);
+  const ai = useAIProvider();
+  const jobs = useJobManager();
+  const job = latestJob(useJobs(notebook.id), 'quiz');
+  const loading = !!job && isActiveJob(job);
+  const quiz = completedArtifact(notebook, 'quiz');
+
+  useEffect(() => {
+    getQuizAttempts(notebook.id)
+      .then((loaded) => {
+        setAttempts(loaded);
+        setAttemptsLoaded(true);
+      })
+      .catch((err) => console.error('Failed to load quiz attempts', err));
+  }, [notebook.id]);
+
+  const startQuiz = (qs: QuizQuestion[], quizMode: QuizMode, id?: string) => {
+    setQuestions(qs);
+    setMode(quizMode);
+    setQuizId(id);
+    setCurrentIndex(0);
+    setAnswers({});
+    setDurations({});
+    setShowResults(false);
+    setShowHistory(false);
+    setResult(null);
+    setStartedAt(Date.now());
+    questionShownAt.current = Date.now();
   };
 
-  const recordAnswer = (questionId: string, value: number | string) => {
+  // A generated quiz that has not been attempted yet.  It starts by itself
+  // unless another quiz is being answered, which it is offered after.
+  const readyQuiz =
+    quiz && attemptsLoaded && quiz.id !== quizId && !attempts.some((a) => a.quizId === quiz.id) ? quiz : null;
+  const inProgress = questions.length > 0 && !showResults;
+  const startReadyQuiz = () => readyQuiz && startQuiz(readyQuiz.content.questions, readyQuiz.content.mode, readyQuiz.id);
+  useEffect(() => {
+    if (!inProgress) startReadyQuiz();
+  }, [readyQuiz?.id]);
+
+  const handleGenerate = (generateOptions: QuizOptions = options, quizMode: QuizMode = 'new') =>
+    jobs.enqueue(notebook.id, quizMode === 'weakTopics' ? 'Weak-topic quiz' : 'Quiz', {
+      type: 'quiz',
+      options: generateOptions,
+      mode: quizMode,
+    });
+
+  const recordAnswer = (questionId: string, value: QuizAnswer) => {
     setAnswers((prev) => ({ ...prev, [questionId]: value }));
   };
 
-  const nextQuestion = () => {
+  const handleRetry = (attempt: QuizAttempt) => startQuiz(missedInAttempt(attempt), 'retry');
+
+  // Sources that have since been deleted are dropped from the weak spots.
+  const weakOptions = (() => {
+    const weak = weakTopicOptions(attempts, options);
+    if (!weak?.sourceIds) return weak;
+    const sourceIds = weak.sourceIds.filter((id) => notebook.sources.some((s) => s.id === id));
+    return { ...weak, sourceIds: sourceIds.length ? sourceIds : options.sourceIds };
+  })();
+  const handleWeakTopics = weakOptions ? () => handleGenerate(weakOptions, 'weakTopics') : undefined;
+
+  const nextQuestion = async () => {
+    const question = questions[currentIndex];
+    const now = Date.now();
+    const timings = { ...durations, [question.id]: (durations[question.id] || 0) + now - questionShownAt.current };
+    setDurations(timings);
+    questionShownAt.current = now;
     if (currentIndex < questions.length - 1) {
       setCurrentIndex(currentIndex + 1);
     } else {
       // End of quiz
       setShowResults(true);
+      const graded = await gradeQuiz(ai, notebook, questions, answers);
+      setResult(graded);
+      const attempt: QuizAttempt = {
+        id: crypto.randomUUID(),
+        mode,
+        quizId,
+        startedAt,
+        completedAt: Date.now(),
+        questions,
+        answers,
+        results: graded.results,
+        durations: timings,
+        score: graded.score,
+        total: graded.total,
+      };
+      setAttempts((prev) => [...prev, attempt]);
+      addQuizAttempt(notebook.id, attempt).catch((err) => console.error('Failed to save quiz attempt', err));
     }
   };
 
+  const historyButton = (
+    <button
+      onClick={() => setShowHistory(!showHistory)}
+      className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+    >
+      {showHistory ? 'Back to quiz' : `History (${attempts.length})`}
+    </button>
+  );
+
+  if (showHistory) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold">Quiz history</h2>
+          {historyButton}
+        </div>
+        <QuizAnalytics notebook={notebook} attempts={attempts} onRetry={handleRetry} onWeakTopics={handleWeakTopics} />
+      </div>
+    );
+  }
+
   if (questions.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full gap-4">
         <p className="text-center">No quiz generated yet.</p>
+        {attempts.length > 0 && historyButton}
+        {notebook.sources.length > 0 && <QuizOptionsForm notebook={notebook} options={options} onChange={setOptions} />}
         <button
-          onClick={handleGenerate}
+          onClick={() => handleGenerate()}
           disabled={loading || notebook.sources.length === 0}
           className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded"
         >
           {loading ? 'Generating…' : 'Generate Quiz'}
         </button>
+        <JobStatus job={job} />
         {notebook.sources.length === 0 && (
           <p className="text-sm text-red-400">Add some sources first to generate a quiz.</p>
         )}
@@ -66,33 +289,92 @@ const QuizTab: React.FC<Props> = ({ notebook }) => {
     );
   }
 
-  // If results should be shown, display an overview comparing user answers and correct answers.
-  if (showResults) {
+  if (showResults && !result) {
+    return <p className="text-center text-gray-400">Grading your answers…</p>;
+  }
+
+  // If results should be shown, display the score and each question's grade.
+  if (showResults && result) {
+    const gradeColor = (r: QuestionResult) =>
+      r.correct ? 'text-green-400' : r.score > 0 ? 'text-yellow-400' : 'text-red-400';
+    const latest = attempts[attempts.length - 1];
+    const missedCount = result.results.filter((r) => !r.correct).length;
     return (
       <div className="space-y-6 max-w-2xl mx-auto">
-        <h2 className="text-xl font-semibold">Quiz Results</h2>
-        {questions.map((q) => {
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-semibold">Quiz Results</h2>
+          <span className="text-lg">
+            {+result.score.toFixed(2)} / {result.total} ({Math.round((result.score / Math.max(1, result.total)) * 100)}%)
+          </span>
+        </div>
+        {questions.map((q, i) => {
           const userAns = answers[q.id];
-          const correct = q.options && typeof q.correctIndex === 'number'
-            ? q.options[q.correctIndex]
-            : q.answer;
-          const isCorrect = userAns === correct;
+          const graded = result.results[i];
+          const correct = q.options && typeof q.correctIndex === 'number' ? q.options[q.correctIndex] : q.answer;
+          const source = q.reference && notebook.sources.find((s) => s.id === q.reference!.sourceId);
           return (
-            <div key={q.id} className="p-4 border border-gray-700 rounded bg-gray-800">
-              <p className="font-medium mb-2">{q.prompt}</p>
-              <p className={isCorrect ? 'text-green-400' : 'text-red-400'}>
-                Your answer: {typeof userAns === 'number' && q.options ? q.options[userAns] : userAns || '—'}
+            <div key={q.id} className="p-4 border border-gray-700 rounded bg-gray-800 space-y-1">
+              <div className="flex justify-between gap-4">
+                <p className="font-medium">{q.prompt}</p>
+                <span className={`text-sm whitespace-nowrap ${gradeColor(graded)}`}>
+                  {Math.round(graded.score * 100)}%
+                </span>
+              </div>
+              <p className={gradeColor(graded)}>
+                Your answer: {describeAnswer(q, userAns)}
               </p>
-              <p className="text-green-300">Correct answer: {correct}</p>
+              {!graded.correct && correct && <p className="text-green-300">Correct answer: {correct}</p>}
+              <p className="text-sm text-gray-400">{graded.explanation}</p>
+              {q.explanation && <p className="text-sm text-gray-300">{q.explanation}</p>}
+              {source && (
+                <button
+                  onClick={() => setOpenReference(q.reference)}
+                  className="text-xs text-blue-400 hover:underline text-left"
+                >
+                  Source: {source.title}
+                </button>
+              )}
             </div>
           );
         })}
+        <div className="flex gap-2">
+          {missedCount > 0 && latest && (
+            <button
+              onClick={() => handleRetry(latest)}
+              className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded"
+            >
+              Retry {missedCount} missed
+            </button>
+          )}
+          {handleWeakTopics && (
+            <button
+              onClick={handleWeakTopics}
+              disabled={loading}
+              className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded"
+            >
+              Quiz my weak topics
+            </button>
+          )}
+          {readyQuiz && (
+            <button onClick={startReadyQuiz} className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded">
+              Start new quiz
+            </button>
+          )}
+          <span className="flex-1" />
+          {historyButton}
+        </div>
+        <QuizOptionsForm notebook={notebook} options={options} onChange={setOptions} />
         <button
-          onClick={handleGenerate}
+          onClick={() => handleGenerate()}
+          disabled={loading}
           className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded"
         >
-          Generate New Quiz
+          {loading ? 'Generating…' : 'Generate New Quiz'}
         </button>
+        <JobStatus job={job} />
+        {openReference && (
+          <ReferenceViewer notebook={notebook} reference={openReference} onClose={() => setOpenReference(null)} />
+        )}
       </div>
     );
   }
@@ -105,40 +387,24 @@ const QuizTab: React.FC<Props> = ({ notebook }) => {
         <span className="text-sm text-gray-400">
           Question {currentIndex + 1} of {questions.length}
         </span>
-        <button
-          onClick={handleGenerate}
-          disabled={loading}
-          className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
-        >
-          {loading ? 'Regenerating…' : 'Regenerate'}
-        </button>
-      </div>
-      <div className="border border-gray-700 rounded p-6 bg-gray-800">
-        <p className="text-lg font-semibold mb-4">{q.prompt}</p>
-        {q.options ? (
-          <div className="space-y-2">
-            {q.options.map((opt, idx) => (
-              <label key={idx} className="flex items-center space-x-2">
-                <input
-                  type="radio"
-                  name={q.id}
-                  value={idx}
-                  checked={answers[q.id] === idx}
-                  onChange={() => recordAnswer(q.id, idx)}
-                />
-                <span>{opt}</span>
-              </label>
-            ))}
-          </div>
+        {readyQuiz ? (
+          <button onClick={startReadyQuiz} className="text-xs bg-blue-600 hover:bg-blue-700 px-2 py-1 rounded">
+            New quiz ready · Start
+          </button>
         ) : (
-          <textarea
-            className="w-full bg-gray-900 border border-gray-700 rounded p-2"
-            rows={4}
-            value={(answers[q.id] as string) || ''}
-            onChange={(e) => recordAnswer(q.id, e.target.value)}
-          />
+          <button
+            onClick={() => handleGenerate()}
+            disabled={loading}
+            className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+          >
+            {loading ? 'Regenerating…' : 'Regenerate'}
+          </button>
         )}
       </div>
+      <JobStatus job={job} />
+      <div className="border border-gray-700 rounded p-6 bg-gray-800">
+        <QuizQuestionView question={q} answer={answers[q.id]} onAnswer={(value) => recordAnswer(q.id, value)} />
+      </div>
       <div className="flex justify-end">
         <button
           onClick={nextQuestion}
@@ -151,4 +417,18 @@ const QuizTab: React.FC<Props> = ({ notebook }) => {
   );
 };
 
+// Open a question's source with the quoted passage highlighted, when it can
+// still be found in the source text.  Nothing is shown once the source has
+// been removed from the notebook.
+const ReferenceViewer: React.FC<{
+  notebook: Notebook;
+  reference: NonNullable<QuizQuestion['reference']>;
+  onClose: () => void;
+}> = ({ notebook, reference, onClose }) => {
+  const { source, start, end } = resolveCitation({ ...reference, index: 0 }, notebook.sources);
+  if (!source) return null;
+  const highlight = start !== undefined && end !== undefined ? { start, end } : undefined;
+  return <SourceViewer source={source} highlight={highlight} onClose={onClose} />;
+};
+
 export default QuizTab;
\ No newline at end of file
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { Notebook } from '../types';
-import { generateReport } from '../services/ai';
+import { ReportStyle } from '../services/ai';
+import { useJobManager, useJobs } from '../App';
+import { completedArtifact, isActiveJob, latestJob } from '../services/jobs';
+import JobStatus from './JobStatus';
+import Markdown from './Markdown';
 
 interface Props {
   notebook: Notebook;
@@ -10,26 +14,19 @@ interface Props {
  * ReportTab allows users to create high‑quality documents from their notebook
  * sources.  Users can choose from several styles (briefing, blog, study
  * guide, timeline) and the AI will assemble a cohesive report.  The
- * resulting report is displayed with its title and body.  Users can
- * regenerate or select a different style at any time.
+ * report is generated in the background and saved with the notebook, so it
+ * is still there after switching tabs; it is displayed with its title and
+ * body, which is markdown so that nothing the model writes is run as HTML.
+ * Users can regenerate or select a different style at any time.
  */
 const ReportTab: React.FC<Props> = ({ notebook }) => {
-  const [style, setStyle] = useState<'briefing' | 'blog' | 'studyGuide' | 'timeline'>('briefing');
-  const [report, setReport] = useState<{ title: string; body: string } | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [style, setStyle] = useState<ReportStyle>('briefing');
+  const jobs = useJobManager();
+  const job = latestJob(useJobs(notebook.id), 'report');
+  const loading = !!job && isActiveJob(job);
+  const report: { title: string; body: string } | undefined = completedArtifact(notebook, 'report')?.content;
 
-  const handleGenerate = async () => {
-    setLoading(true);
-    try {
-      const result = await generateReport(notebook.id, style);
-      setReport(result);
-    } catch (err: any) {
-      console.error(err);
-      alert(err.message || 'Failed to generate report');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const handleGenerate = () => jobs.enqueue(notebook.id, 'Report', { type: 'report', style });
 
   return (
     <div className="space-y-6 max-w-3xl mx-auto">
@@ -41,7 +38,7 @@ const ReportTab: React.FC<Props> = ({ notebook }) => {
           <select
             id="style"
             value={style}
-            onChange={(e) => setStyle(e.target.value as any)}
+            onChange={(e) => setStyle(e.target.value as ReportStyle)}
             className="mt-1 bg-gray-900 border border-gray-700 rounded px-3 py-2"
           >
             <option value="briefing">Briefing</option>
@@ -58,13 +55,16 @@ const ReportTab: React.FC<Props> = ({ notebook }) => {
           {loading ? 'Generating…' : report ? 'Regenerate' : 'Generate'}
         </button>
       </div>
+      <JobStatus job={job} />
       {notebook.sources.length === 0 && (
         <p className="text-sm text-red-400">Add some sources first to generate a report.</p>
       )}
       {report && (
         <div className="space-y-4">
           <h2 className="text-2xl font-bold">{report.title}</h2>
-          <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: report.body }} />
+          <div className="prose prose-invert max-w-none">
+            <Markdown text={report.body} />
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { useAIConfig, useTheme } from '../App';
+import { AIConfig, AIProviderKind, OcrEngineKind } from '../services/aiConfig';
+
+/**
+ * SettingsView lets the user choose which AI provider powers the app: the
+ * NebulaMind backend, any OpenAI-compatible API (including local model
+ * servers) or the offline mock provider.  Changes take effect as soon as
+ * they are saved.
+ */
+const SettingsView: React.FC = () => {
+  const [config, setConfig] = useAIConfig();
+  const [draft, setDraft] = useState<AIConfig>(config);
+  const [saved, setSaved] = useState(false);
+  const { theme } = useTheme();
+
+  const update = (patch: Partial<AIConfig>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    setConfig(draft);
+    setSaved(true);
+  };
+
+  const inputClass = `w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none`;
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-slate-200 p-6 md:p-10">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Link to="/" className="text-gray-400 hover:text-white" title="Back to Library">
+            <ArrowLeft size={18} />
+          </Link>
+          <h1 className="text-2xl font-bold text-white">Settings</h1>
+        </div>
+
+        <section className="space-y-4">
+          <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">AI Provider</h2>
+          <select
+            value={draft.provider}
+            onChange={(e) => update({ provider: e.target.value as AIProviderKind })}
+            className={inputClass}
+          >
+            <option value="http">NebulaMind backend</option>
+            <option value="openai">OpenAI-compatible API</option>
+            <option value="mock">Offline (deterministic mock)</option>
+          </select>
+
+          {draft.provider === 'http' && (
+            <label className="block space-y-1">
+              <span className="text-sm text-slate-400">Backend base path</span>
+              <input
+                className={inputClass}
+                value={draft.httpBaseUrl}
+                onChange={(e) => update({ httpBaseUrl: e.target.value })}
+              />
+            </label>
+          )}
+
+          {draft.provider === 'openai' && (
+            <>
+              <label className="block space-y-1">
+                <span className="text-sm text-slate-400">Base URL</span>
+                <input
+                  className={`${inputClass} font-mono`}
+                  value={draft.openAIBaseUrl}
+                  onChange={(e) => update({ openAIBaseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm text-slate-400">Model</span>
+                <input
+                  className={inputClass}
+                  value={draft.openAIModel}
+                  onChange={(e) => update({ openAIModel: e.target.value })}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm text-slate-400">Transcription model</span>
+                <input
+                  className={inputClass}
+                  value={draft.openAITranscriptionModel}
+                  onChange={(e) => update({ openAITranscriptionModel: e.target.value })}
+                  placeholder="whisper-1"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm text-slate-400">API key (optional)</span>
+                <input
+                  type="password"
+                  className={inputClass}
+                  value={draft.openAIApiKey}
+                  onChange={(e) => update({ openAIApiKey: e.target.value })}
+                />
+              </label>
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-sm text-slate-400">
+              The offline provider builds answers, flashcards and quizzes directly from your sources without
+              contacting any server. Results are deterministic and intended for demos and development. Audio sources
+              are split into timed speech segments but not transcribed.
+            </p>
+          )}
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Text Recognition</h2>
+          <select
+            value={draft.ocrEngine}
+            onChange={(e) => update({ ocrEngine: e.target.value as OcrEngineKind })}
+            className={inputClass}
+            disabled={draft.provider === 'mock'}
+          >
+            <option value="provider">Use the AI provider</option>
+            <option value="local">On this device</option>
+          </select>
+          <p className="text-sm text-slate-400">
+            Reads the text in uploaded images and scanned PDF pages. On-device recognition works offline but is only
+            available in browsers with built-in text detection or when an OCR engine is installed.
+          </p>
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Web Pages and Videos</h2>
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">Fetch proxy</span>
+            <input
+              className={`${inputClass} font-mono`}
+              value={draft.fetchProxyUrl}
+              onChange={(e) => update({ fetchProxyUrl: e.target.value })}
+              placeholder="/api/fetch"
+            />
+          </label>
+          <p className="text-sm text-slate-400">
+            Website sources are fetched through this server-side proxy. Leave it empty to fetch pages from the browser,
+            which most sites do not allow.
+          </p>
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">YouTube backend base path</span>
+            <input
+              className={`${inputClass} font-mono`}
+              value={draft.youtubeBaseUrl}
+              onChange={(e) => update({ youtubeBaseUrl: e.target.value })}
+              placeholder="/api/youtube"
+            />
+          </label>
+        </section>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSave}
+            className={`bg-${theme.colors.primary}-600 hover:bg-${theme.colors.primary}-500 text-white px-4 py-2 rounded-lg text-sm font-medium`}
+          >
+            Save
+          </button>
+          {saved && <span className="text-sm text-green-400">Saved</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsView;
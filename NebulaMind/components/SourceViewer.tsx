@@ -0,0 +1,391 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Layers, MessageSquare, NotebookPen, Search, X } from 'lucide-react';
+import { Source } from '../types';
+import { PageRange, SourceHeading, TimedRange, extractionIssues, timeAt } from '../services/extraction';
+import { Passage } from '../services/retrieval';
+import { formatTimestamp } from '../services/transcription';
+import { videoLinkAt } from '../services/youtube';
+
+/** What can be done with a passage selected in the viewer. */
+export interface PassageActions {
+  /** Ask about the passage in chat, quoting it. */
+  onAsk?: (passage: Passage) => void;
+  onMakeFlashcard?: (passage: Passage) => void;
+  onSaveNote?: (passage: Passage) => void;
+}
+
+interface Props {
+  source: Source;
+  /** Character range of `source.content` to highlight and scroll to. */
+  highlight?: { start: number; end: number };
+  onClose: () => void;
+  /** Without actions, selected text is not offered for anything. */
+  passageActions?: PassageActions;
+}
+
+// A run of the content shown as one paragraph: a page of a paged source,
+// a line of a transcript, or the whole text otherwise.
+interface Block {
+  start: number;
+  end: number;
+  page?: number;
+  segment?: TimedRange;
+}
+
+interface Mark {
+  start: number;
+  end: number;
+  kind: 'highlight' | 'match' | 'current';
+}
+
+// Find stops listing matches beyond this many.
+const MAX_MATCHES = 1000;
+
+const MARK_CLASSES: Record<Mark['kind'], string> = {
+  highlight: 'bg-yellow-400/30 text-yellow-100 rounded px-0.5',
+  match: 'bg-sky-400/30 text-sky-100 rounded',
+  current: 'bg-orange-400/70 text-white rounded',
+};
+
+function findAll(content: string, query: string): { start: number; end: number }[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = content.toLowerCase();
+  const found: { start: number; end: number }[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1 && found.length < MAX_MATCHES; i = haystack.indexOf(needle, i + needle.length)) {
+    found.push({ start: i, end: i + needle.length });
+  }
+  return found;
+}
+
+/**
+ * SourceViewer shows the extracted text of a source in a modal.  When a
+ * highlight range is given (for example from a clicked citation) the
+ * passage is marked and scrolled into view so the user can check that an
+ * answer is grounded in it.
+ *
+ * The text keeps the structure it was extracted with: PDFs are shown page
+ * by page, and headings of documents and web pages are listed in an outline
+ * that jumps to them.  Find marks every occurrence of a phrase and steps
+ * through them.  Anything that went wrong while the source was read, such
+ * as skipped scanned pages or an untranscribed recording, is listed above
+ * the text.  With `passageActions`, selected text can be asked about in
+ * chat, turned into a flashcard or saved as a note.
+ *
+ * Transcribed audio is shown line by line with a player for the original
+ * recording.  Clicking a line's timestamp plays the audio from that point,
+ * and a highlighted passage cues the player to the time it was said.
+ * Timestamps of a YouTube transcript open the video at that moment instead.
+ */
+const SourceViewer: React.FC<Props> = ({ source, highlight, onClose, passageActions }) => {
+  const textRef = useRef<HTMLDivElement | null>(null);
+  const findRef = useRef<HTMLInputElement | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+  const [selection, setSelection] = useState<Passage | null>(null);
+
+  const content = source.content;
+  const segments: TimedRange[] | undefined = source.metadata?.segments;
+  const pages: PageRange[] | undefined = source.metadata?.pages;
+  const headings: SourceHeading[] = source.metadata?.headings ?? [];
+  const audio: Blob | undefined = source.metadata?.audio;
+  const videoId: string | undefined = source.metadata?.videoId;
+  const issues = useMemo(() => extractionIssues(source), [source]);
+  const audioUrl = useMemo(() => (audio instanceof Blob ? URL.createObjectURL(audio) : undefined), [audio]);
+  useEffect(() => {
+    if (audioUrl) return () => URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  const blocks: Block[] = useMemo(() => {
+    if (segments) return segments.map((segment) => ({ start: segment.start, end: segment.end, segment }));
+    if (pages && pages.length > 1) return pages.map((p) => ({ start: p.start, end: p.end, page: p.page }));
+    return [{ start: 0, end: content.length }];
+  }, [source]);
+
+  const matches = useMemo(() => findAll(content, query), [content, query]);
+  const marks: Mark[] = useMemo(
+    () =>
+      [
+        ...(highlight ? [{ ...highlight, kind: 'highlight' as const }] : []),
+        ...matches.map((m, i) => ({ ...m, kind: i === current ? ('current' as const) : ('match' as const) })),
+      ].sort((a, b) => a.start - b.start),
+    [highlight?.start, highlight?.end, matches, current]
+  );
+
+  useEffect(() => {
+    textRef.current?.querySelector('[data-mark="highlight"]')?.scrollIntoView({ block: 'center' });
+    const time = highlight ? timeAt(source, highlight.start) : undefined;
+    if (audioRef.current && time !== undefined) audioRef.current.currentTime = time;
+  }, [source.id, highlight?.start, highlight?.end]);
+
+  useEffect(() => setCurrent(0), [query]);
+  useEffect(() => {
+    textRef.current?.querySelector('[data-mark="current"]')?.scrollIntoView({ block: 'center' });
+  }, [current, matches]);
+
+  // Ctrl+F (or Cmd+F) finds in the source rather than in the page.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+        e.preventDefault();
+        findRef.current?.focus();
+        findRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const step = (delta: number) => matches.length && setCurrent((c) => (c + delta + matches.length) % matches.length);
+
+  const playFrom = (time: number) => {
+    if (videoId) {
+      window.open(videoLinkAt(videoId, time), '_blank', 'noopener');
+      return;
+    }
+    const player = audioRef.current;
+    if (!player) return;
+    player.currentTime = time;
+    player.play().catch(() => undefined);
+  };
+
+  const scrollToOffset = (offset: number) => {
+    const pieces = Array.from(textRef.current?.querySelectorAll<HTMLElement>('[data-start]') ?? []);
+    const target = pieces.filter((el) => Number(el.dataset.start) <= offset).pop() ?? pieces[0];
+    target?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+  };
+
+  // Content offset of a point in the rendered text.  Text is rendered in
+  // pieces that carry their start offset; a point between pieces (at an
+  // element boundary) is resolved to the piece after it or the end of the
+  // block before it.
+  const offsetAt = (node: Node, offset: number): number | null => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const piece = node.parentElement?.closest<HTMLElement>('[data-start]');
+      return piece && textRef.current?.contains(piece) ? Number(piece.dataset.start) + offset : null;
+    }
+    const element = node as HTMLElement;
+    const next = element.childNodes[offset] as HTMLElement | undefined;
+    const piece = next?.nodeType === Node.ELEMENT_NODE ? (next.matches('[data-start]') ? next : next.querySelector<HTMLElement>('[data-start]')) : null;
+    if (piece) return Number(piece.dataset.start);
+    const block = element.closest<HTMLElement>('[data-end]');
+    return block && textRef.current?.contains(block) ? Number(block.dataset.end) : null;
+  };
+
+  const readSelection = () => {
+    if (!passageActions) return;
+    const selected = window.getSelection();
+    if (!selected || selected.isCollapsed || !selected.rangeCount) {
+      setSelection(null);
+      return;
+    }
+    const range = selected.getRangeAt(0);
+    let start = offsetAt(range.startContainer, range.startOffset);
+    let end = offsetAt(range.endContainer, range.endOffset);
+    if (start === null || end === null) return setSelection(null);
+    while (start < end && /\s/.test(content[start])) start++;
+    while (end > start && /\s/.test(content[end - 1])) end--;
+    setSelection(end > start ? { sourceId: source.id, start, end, text: content.slice(start, end) } : null);
+  };
+
+  const act = (action: ((passage: Passage) => void) | undefined) => {
+    if (!action || !selection) return;
+    action(selection);
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  // The text of a block split around the marks that fall into it.
+  const renderText = (start: number, end: number) => {
+    const pieces: React.ReactNode[] = [];
+    let pos = start;
+    for (const mark of marks) {
+      const from = Math.max(mark.start, pos);
+      const to = Math.min(mark.end, end);
+      if (from >= to) continue;
+      if (from > pos) {
+        pieces.push(
+          <span key={pos} data-start={pos}>
+            {content.slice(pos, from)}
+          </span>
+        );
+      }
+      pieces.push(
+        <mark key={from} data-start={from} data-mark={mark.kind} className={MARK_CLASSES[mark.kind]}>
+          {content.slice(from, to)}
+        </mark>
+      );
+      pos = to;
+    }
+    if (pos < end) {
+      pieces.push(
+        <span key={pos} data-start={pos}>
+          {content.slice(pos, end)}
+        </span>
+      );
+    }
+    return pieces;
+  };
+
+  // Headings, or the pages of a document without any.
+  const outline =
+    headings.length > 0
+      ? headings.map((h) => ({ label: h.title, level: h.level, start: h.start }))
+      : pages && pages.length > 1
+        ? pages.map((p) => ({ label: `Page ${p.page}`, level: 1, start: p.start }))
+        : [];
+  const topLevel = Math.min(...outline.map((o) => o.level));
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="glass-panel w-full max-w-5xl rounded-2xl p-6 flex flex-col max-h-[90vh] border border-white/10 shadow-2xl relative bg-gray-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 hover:bg-white/10 rounded-full text-slate-400 hover:text-white transition-colors"
+        >
+          <X size={20} />
+        </button>
+        <h3 className="text-xl font-bold mb-1 pr-10 truncate">{source.title}</h3>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+            {source.type} · {content.length.toLocaleString()} chars
+          </span>
+          <div className="flex items-center gap-1 bg-slate-900 border border-slate-700 rounded-lg px-2">
+            <Search size={14} className="text-slate-500" />
+            <input
+              ref={findRef}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  step(e.shiftKey ? -1 : 1);
+                }
+              }}
+              placeholder="Find in source"
+              className="bg-transparent text-sm py-1.5 w-40 outline-none"
+            />
+            {query.trim() && (
+              <span className="text-xs text-slate-500 whitespace-nowrap">
+                {matches.length ? `${current + 1} of ${matches.length}${matches.length === MAX_MATCHES ? '+' : ''}` : 'No matches'}
+              </span>
+            )}
+            <button onClick={() => step(-1)} disabled={!matches.length} className="p-1 text-slate-400 hover:text-white disabled:opacity-40" title="Previous match">
+              <ChevronUp size={14} />
+            </button>
+            <button onClick={() => step(1)} disabled={!matches.length} className="p-1 text-slate-400 hover:text-white disabled:opacity-40" title="Next match">
+              <ChevronDown size={14} />
+            </button>
+          </div>
+        </div>
+        {issues.length > 0 && (
+          <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/20 text-amber-300 text-sm rounded-lg space-y-1 shrink-0">
+            {issues.map((issue) => (
+              <p key={issue} className="flex items-start gap-2">
+                <AlertTriangle size={14} className="mt-0.5 shrink-0" /> {issue}
+              </p>
+            ))}
+          </div>
+        )}
+        {source.metadata?.thumbnail && (
+          <img src={source.metadata.thumbnail} alt="" className="max-h-48 self-start rounded-lg mb-4 shrink-0 border border-white/10" />
+        )}
+        {audioUrl && (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            className="w-full mb-4 shrink-0"
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+        )}
+        <div className="flex gap-4 min-h-0 flex-1">
+          {outline.length > 0 && (
+            <nav className="hidden md:block w-56 shrink-0 overflow-y-auto border-r border-white/5 pr-3 text-sm space-y-0.5">
+              {outline.map((item, i) => (
+                <button
+                  key={i}
+                  onClick={() => scrollToOffset(item.start)}
+                  style={{ paddingLeft: `${(item.level - topLevel) * 12 + 8}px` }}
+                  className="block w-full text-left truncate rounded py-1 pr-2 text-slate-400 hover:text-white hover:bg-white/5"
+                  title={item.label}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </nav>
+          )}
+          <div
+            ref={textRef}
+            onMouseUp={readSelection}
+            onKeyUp={readSelection}
+            className="flex-1 overflow-y-auto text-sm leading-relaxed text-slate-300 pr-1 space-y-0.5"
+          >
+            {blocks.map((block, i) => {
+              const segment = block.segment;
+              if (!segment) {
+                return (
+                  <div key={block.start} data-end={block.end} className="whitespace-pre-wrap">
+                    {block.page !== undefined && (
+                      <p className={`select-none text-[10px] font-bold uppercase tracking-wider text-slate-600 ${i > 0 ? 'mt-6 pt-3 border-t border-white/5' : ''} mb-2`}>
+                        Page {block.page}
+                      </p>
+                    )}
+                    {renderText(block.start, block.end)}
+                  </div>
+                );
+              }
+              const playing = !!audioUrl && currentTime >= segment.time && currentTime < segment.endTime;
+              const playable = !!(audioUrl || videoId);
+              return (
+                <div key={block.start} data-end={block.end} className={`flex gap-3 rounded px-2 py-1 ${playing ? 'bg-white/10' : ''}`}>
+                  <button
+                    onClick={() => playFrom(segment.time)}
+                    disabled={!playable}
+                    title={playable ? `${videoId ? 'Watch' : 'Play'} from ${formatTimestamp(segment.time)}` : undefined}
+                    className={`select-none font-mono text-xs text-slate-500 pt-0.5 shrink-0 ${playable ? 'hover:text-white' : 'cursor-default'}`}
+                  >
+                    {formatTimestamp(segment.time)}
+                  </button>
+                  <span className="whitespace-pre-wrap">{renderText(block.start, block.end)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        {passageActions && selection && (
+          <div className="mt-4 pt-3 border-t border-white/10 flex flex-col md:flex-row md:items-center gap-3 shrink-0">
+            <p className="flex-1 min-w-0 text-xs text-slate-400 italic truncate">“{selection.text.replace(/\s+/g, ' ')}”</p>
+            <div className="flex gap-2 shrink-0">
+              {passageActions.onAsk && (
+                <button onClick={() => act(passageActions.onAsk)} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1.5 rounded">
+                  <MessageSquare size={12} /> Ask in chat
+                </button>
+              )}
+              {passageActions.onMakeFlashcard && (
+                <button
+                  onClick={() => act(passageActions.onMakeFlashcard)}
+                  className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1.5 rounded"
+                >
+                  <Layers size={12} /> Make flashcard
+                </button>
+              )}
+              {passageActions.onSaveNote && (
+                <button onClick={() => act(passageActions.onSaveNote)} className="flex items-center gap-1 text-xs bg-gray-800 hover:bg-gray-700 px-3 py-1.5 rounded">
+                  <NotebookPen size={12} /> Save as note
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -1,6 +1,22 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Source } from '../types';
-import { fetchWebsiteContent, processFileWithGemini } from '../services/ai';
+import { ExtractedContent, extractWebsite, extractionIssues } from '../services/extraction';
+import { createPageFetcher, createYouTubeAdapter } from '../services/aiConfig';
+import { formatTimestamp } from '../services/transcription';
+import { parseYouTubeUrl } from '../services/youtube';
+import {
+  IngestContext,
+  IngestInput,
+  IngestionQueue,
+  fromFileList,
+  parseUrlList,
+  readDataTransfer,
+  readSource,
+} from '../services/ingestion';
+import { DuplicateMatch, describeDuplicates, findDuplicates, fingerprintSource } from '../services/duplicates';
+import ImportQueue from './ImportQueue';
+import DuplicatesDialog from './DuplicatesDialog';
+import SourceViewer, { PassageActions } from './SourceViewer';
 import {
   FileText,
   Youtube,
@@ -14,11 +30,16 @@ import {
   X,
   Loader2,
   Plus,
-  Edit2
+  Edit2,
+  FolderOpen,
+  Files,
+  Copy,
+  BookOpen,
+  AlertTriangle
 } from 'lucide-react';
-// Note: useNavigate is not used in this simplified version of SourcesTab
-// import { useNavigate } from 'react-router-dom';
-import { useTheme } from '../App';
+import { useNavigate } from 'react-router-dom';
+import { useAIConfig, useAIProvider, useNotifications, useTheme } from '../App';
+import { createNotebook } from '../services/storage';
 
 // This component has been extended with two important productivity features:
 //  1. A search bar allows users to quickly filter their sources by title or
@@ -29,6 +50,21 @@ import { useTheme } from '../App';
 //     the parent component's onEditSource callback is invoked so the
 //     underlying notebook can persist the update.  This functionality makes
 //     it easier to keep large notebooks organised and tidy.
+//
+// Many sources can be imported at once: files and folders dropped anywhere
+// on the tab, several files or a whole folder picked in the import dialog,
+// ZIP archives and lists of links all go through the notebook's ingestion
+// queue, which reads a few at a time and lists each item's status below the
+// actions.
+//
+// Sources are fingerprinted before they are added.  A source that repeats
+// one already in the notebook, exactly, by address or nearly, is held back
+// with a warning until it is added anyway, and "Find duplicates" lists the
+// duplicates among the notebook's sources to merge or delete them.
+//
+// Clicking a source's title opens it in the reader (SourceViewer), where
+// its text can be searched and passages taken to chat, flashcards or notes.
+// Sources with extraction problems are flagged on their card.
 
 interface Props {
   sources: Source[];
@@ -40,11 +76,44 @@ interface Props {
    * accordingly.  When not provided, the edit controls are hidden.
    */
   onEditSource?: (s: Source) => void;
+  /**
+   * Keep one of a group of duplicate sources and remove the others.
+   * Resolves to false when the merge was cancelled.
+   */
+  onMergeSources?: (keep: Source, others: Source[]) => Promise<boolean>;
+  /** What can be done with passages selected in the reader. */
+  passageActions?: PassageActions;
+  /** The notebook's imports, which carry on while other tabs are open. */
+  queue: IngestionQueue;
+}
+
+/**
+ * Ask for the password of a protected PDF being imported.
+ */
+export function askForPassword(name: string, incorrect: boolean): string | null {
+  return prompt(incorrect ? `That password is not correct. Enter the password for ${name}:` : `${name} is protected. Enter its password:`);
+}
+
+// Extraction issues of each source, worked out once per version of it.
+// Sources are replaced, not changed, when they are edited.
+const issueCache = new WeakMap<Source, string[]>();
+function sourceIssues(source: Source): string[] {
+  let issues = issueCache.get(source);
+  if (!issues) issueCache.set(source, (issues = extractionIssues(source)));
+  return issues;
 }
 
-const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onEditSource }) => {
+const SourcesTab: React.FC<Props> = ({
+  sources,
+  onAddSource,
+  onDeleteSource,
+  onEditSource,
+  onMergeSources,
+  passageActions,
+  queue,
+}) => {
   // Modal State
-  const [activeModal, setActiveModal] = useState<'text' | 'website' | 'youtube' | 'file' | null>(null);
+  const [activeModal, setActiveModal] = useState<'text' | 'website' | 'youtube' | 'file' | 'bulk' | null>(null);
   const [fileType, setFileType] = useState<'pdf' | 'audio' | 'image' | null>(null);
 
   // Input State
@@ -52,14 +121,45 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
   const [titleValue, setTitleValue] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Pages read so far while a PDF is being extracted, or audio processed
+  // while a recording is transcribed.
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // A source read in the dialog that duplicates one in the notebook, waiting
+  // to be added anyway.
+  const [duplicate, setDuplicate] = useState<{ source: Source; matches: DuplicateMatch[] } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  // The source open in the reader.
+  const [readingId, setReadingId] = useState<string | null>(null);
+  const reading = sources.find((s) => s.id === readingId);
 
   // New search query state.  This drives live filtering of the source list.
   const [searchQuery, setSearchQuery] = useState('');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  // const navigate = useNavigate();
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Nesting depth of drag events over the tab; the drop overlay shows while
+  // it is above zero.
+  const dragDepth = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+  // The website being fetched, started when the URL field loses focus so
+  // that the title can be filled in before the source is added.  For videos
+  // only the title is looked up, since reading the transcript may mean
+  // transcribing the whole video.
+  const pendingPage = useRef<{ url: string; result: Promise<ExtractedContent> } | null>(null);
+  const [isFetchingTitle, setIsFetchingTitle] = useState(false);
+  const navigate = useNavigate();
   const { theme } = useTheme();
+  const notifications = useNotifications();
+  const [aiConfig] = useAIConfig();
+  const ai = useAIProvider();
+
+  const ingestContext: IngestContext = { config: aiConfig, ai, requestPassword: askForPassword };
+
+  const importInputs = (inputs: IngestInput[]) => {
+    if (inputs.length) queue.add(inputs).catch((err) => notifications.error(err, 'Could not import the files.'));
+  };
 
   const resetModal = () => {
     setActiveModal(null);
@@ -69,6 +169,45 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
     setSelectedFile(null);
     setError(null);
     setIsProcessing(false);
+    setProgress(null);
+    setDuplicate(null);
+    pendingPage.current = null;
+  };
+
+  // A warning about a duplicate no longer applies once the input changes.
+  useEffect(() => setDuplicate(null), [inputValue, selectedFile]);
+
+  // Fetch and extract a website once, however often it is asked for.  A
+  // failed fetch is forgotten so that adding the source tries again.
+  const readWebsite = (url: string) => {
+    if (pendingPage.current?.url !== url) {
+      const pending = {
+        url,
+        result: extractWebsite(url, createPageFetcher(aiConfig)).catch((err) => {
+          if (pendingPage.current === pending) pendingPage.current = null;
+          throw err;
+        }),
+      };
+      pendingPage.current = pending;
+    }
+    return pendingPage.current!.result;
+  };
+
+  const prefillTitle = async () => {
+    const url = inputValue.trim();
+    const videoId = activeModal === 'youtube' ? parseYouTubeUrl(url) : null;
+    if (titleValue || !(videoId || (activeModal === 'website' && /^https?:\/\/\S+$/.test(url)))) return;
+    setIsFetchingTitle(true);
+    try {
+      const title = videoId
+        ? (await createYouTubeAdapter(aiConfig).getVideo(videoId)).title
+        : (await readWebsite(url)).metadata.documentTitle;
+      if (title) setTitleValue((current) => current || title);
+    } catch {
+      // Reported when the source is added.
+    } finally {
+      setIsFetchingTitle(false);
+    }
   };
 
   const handleAddSource = async () => {
@@ -86,59 +225,140 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
         type = 'copiedText';
         if (!finalTitle) finalTitle = 'Pasted Text ' + new Date().toLocaleTimeString();
       } else if (activeModal === 'website') {
-        if (!inputValue.startsWith('http')) throw new Error('Invalid URL');
-        content = await fetchWebsiteContent(inputValue);
+        const url = inputValue.trim();
+        if (!/^https?:\/\/\S+$/.test(url)) throw new Error('Invalid URL');
+        const extracted = await readWebsite(url);
+        content = extracted.content;
         type = 'website';
-        if (!finalTitle) finalTitle = inputValue;
-        metadata = { originalUrl: inputValue };
-      } else if (activeModal === 'youtube') {
-        if (!inputValue.includes('youtube.com') && !inputValue.includes('youtu.be')) throw new Error('Invalid YouTube URL');
-
-        try {
-          const oembedUrl = `https://noembed.com/embed?url=${inputValue}`;
-          const res = await fetch(oembedUrl);
-          const json = await res.json();
-          if (json.title) finalTitle = json.title;
-        } catch (e) {
-          console.warn('Could not fetch oEmbed', e);
-        }
-
-        if (!finalTitle) finalTitle = 'YouTube Video';
-
-        content = `[YouTube Video Source]\nURL: ${inputValue}\nTitle: ${finalTitle}\n\n(Note: Video transcript ingestion requires backend API. Treat this source as context for the video's existence.)`;
-        type = 'youtube';
-        metadata = { originalUrl: inputValue };
-      } else if (activeModal === 'file' && selectedFile && fileType) {
-        if (!finalTitle) finalTitle = selectedFile.name;
-        content = await processFileWithGemini(selectedFile, selectedFile.type);
-        type = fileType;
-        metadata = { filename: selectedFile.name, size: selectedFile.size };
+        metadata = extracted.metadata;
+        if (!finalTitle) finalTitle = metadata.documentTitle || url;
+      } else if ((activeModal === 'youtube' || activeModal === 'file') && (selectedFile || inputValue)) {
+        const url = inputValue.trim();
+        if (activeModal === 'youtube' && !parseYouTubeUrl(url)) throw new Error('Invalid YouTube URL');
+        if (activeModal === 'file' && !(selectedFile && fileType)) throw new Error('Choose a file first.');
+        type = activeModal === 'youtube' ? 'youtube' : fileType!;
+        const read = await readSource(
+          activeModal === 'youtube' ? { url } : { file: selectedFile! },
+          type,
+          ingestContext,
+          (done, total) => setProgress({ done, total })
+        );
+        content = read.content;
+        metadata = read.metadata!;
+        if (!finalTitle) finalTitle = activeModal === 'youtube' ? read.title : selectedFile!.name;
       }
 
       if (!content) throw new Error('No content could be extracted.');
 
-      const newSource: Source = {
+      const newSource = await fingerprintSource({
         id: crypto.randomUUID(),
         type,
         title: finalTitle,
         content: content,
         createdAt: Date.now(),
         metadata
-      };
+      });
 
-      onAddSource(newSource);
-      resetModal();
+      const matches = findDuplicates(newSource, sources);
+      if (matches.length) setDuplicate({ source: newSource, matches });
+      else commitSource(newSource);
     } catch (err: any) {
       setError(err.message || 'Failed to add source.');
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
+  // Add a source read in the dialog and point out what it is missing.
+  const commitSource = (source: Source) => {
+    onAddSource(source);
+    const metadata = source.metadata ?? {};
+    if (metadata.scannedPages?.length) {
+      const pages: number[] = metadata.scannedPages;
+      const listed = pages.length > 10 ? `${pages.slice(0, 10).join(', ')} and ${pages.length - 10} more` : pages.join(', ');
+      notifications.notify('info', `Scanned pages without a text layer were skipped: ${listed}.`, {
+        title: `Some pages of "${source.title}" have no text`,
+      });
+    }
+    if (metadata.untranscribed) {
+      notifications.notify(
+        'info',
+        'The offline provider marks where people speak but cannot transcribe. Choose a provider with speech-to-text in Settings for a full transcript.',
+        { title: `"${source.title}" was not transcribed` }
+      );
+    }
+    resetModal();
+  };
+
+  // Keep one copy of a group of duplicates and delete the others.
+  const handleMerge = (keep: Source, others: Source[]) =>
+    onMergeSources?.(keep, others)
+      .then((merged) => {
+        if (!merged) return;
+        notifications.notify('success', `Removed ${others.length} ${others.length === 1 ? 'copy' : 'copies'} of "${keep.title}".`);
+      })
+      .catch((err) => notifications.error(err, 'Could not merge the duplicates.'));
+
+  // Create an empty notebook and switch to it.
+  const handleNewNotebook = async () => {
+    const nb = await createNotebook();
+    navigate(`/notebook/${nb.id}/sources`);
+  };
+
+  // Several files picked at once are imported through the queue.
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
-      if (!titleValue) setTitleValue(e.target.files[0].name);
+    const files = e.target.files;
+    if (files && files.length > 1) {
+      importInputs(fromFileList(files));
+      resetModal();
+    } else if (files && files[0]) {
+      setSelectedFile(files[0]);
+      if (!titleValue) setTitleValue(files[0].name);
+    }
+  };
+
+  const handleImportFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) {
+      importInputs(fromFileList(e.target.files));
+      resetModal();
+    }
+    e.target.value = '';
+  };
+
+  const handleImportLinks = () => {
+    const urls = parseUrlList(inputValue);
+    if (!urls.length) {
+      setError('No links were found. Paste one http(s) address per line.');
+      return;
+    }
+    importInputs(urls.map((url) => ({ url })));
+    resetModal();
+  };
+
+  const hasDraggedItems = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes('Files') || e.dataTransfer.types.includes('text/uri-list');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasDraggedItems(e)) return;
+    e.preventDefault();
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = () => {
+    if (dragDepth.current > 0 && --dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!hasDraggedItems(e)) return;
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    try {
+      importInputs(await readDataTransfer(e.dataTransfer));
+    } catch (err) {
+      notifications.error(err, 'Could not read the dropped files.');
     }
   };
 
@@ -152,6 +372,7 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
   });
 
   const SourceCard: React.FC<{ source: Source }> = ({ source }) => {
+    const issues = sourceIssues(source);
     let Icon = FileText;
     let colorClass = 'text-slate-400';
     let bgClass = 'bg-slate-900';
@@ -184,25 +405,40 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
       <div className="relative overflow-hidden glass-panel p-5 rounded-2xl border border-white/5 hover:border-${theme.colors.primary}-500/30 transition-all duration-300 group">
         <div className={`absolute inset-0 bg-gradient-to-r from-${theme.colors.primary}-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none`}></div>
         <div className="relative z-10 flex items-start gap-4">
-          <div className={`w-12 h-12 rounded-xl bg-slate-900 flex items-center justify-center border border-white/10 group-hover:border-${theme.colors.primary}-500/50 group-hover:shadow-[0_0_15px_rgba(var(--color-${theme.colors.primary}),0.15)] transition-all ${bgClass} shrink-0`}>
-            <Icon size={24} className={colorClass} />
+          <div className={`w-12 h-12 rounded-xl bg-slate-900 flex items-center justify-center border border-white/10 group-hover:border-${theme.colors.primary}-500/50 group-hover:shadow-[0_0_15px_rgba(var(--color-${theme.colors.primary}),0.15)] transition-all ${bgClass} shrink-0 overflow-hidden`}>
+            {source.metadata?.thumbnail ? (
+              <img src={source.metadata.thumbnail} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <Icon size={24} className={colorClass} />
+            )}
           </div>
           <div className="flex-1 min-w-0">
             <div className="flex justify-between items-start">
               <div className="min-w-0">
                 <h3 className={`font-semibold text-slate-200 truncate pr-2 text-base group-hover:text-${theme.colors.primary}-300 transition-colors`}>
-                  {source.title}
+                  <button onClick={() => setReadingId(source.id)} className="max-w-full truncate text-left hover:underline" title="Read">
+                    {source.title}
+                  </button>
                 </h3>
                 <div className="flex items-center gap-2 mt-1">
                   <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500 border border-slate-800 rounded px-1.5 py-0.5">
                     {source.type}
                   </span>
                   <span className="text-xs text-slate-500 truncate max-w-[120px]">
-                    {source.type === 'copiedText' ? 'Pasted Content' : source.metadata?.originalUrl || source.metadata?.filename || 'File Upload'}
+                    {source.type === 'copiedText'
+                      ? 'Pasted Content'
+                      : source.metadata?.channel || source.metadata?.originalUrl || source.metadata?.filename || 'File Upload'}
                   </span>
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setReadingId(source.id)}
+                  className="text-slate-600 hover:text-sky-400 p-1.5 hover:bg-sky-400/10 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                  title="Read Source"
+                >
+                  <BookOpen size={16} />
+                </button>
                 <button
                   onClick={() => onDeleteSource(source.id)}
                   className="text-slate-600 hover:text-rose-500 p-1.5 hover:bg-rose-500/10 rounded-lg transition-all opacity-0 group-hover:opacity-100"
@@ -229,7 +465,18 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
               </div>
             </div>
             <div className="mt-3 pt-3 border-t border-white/5 flex items-center justify-between text-xs text-slate-500">
-              <span className="font-mono">{source.content.length.toLocaleString()} chars</span>
+              <span className="font-mono">
+                {source.content.length.toLocaleString()} chars
+                {source.metadata?.pageCount ? ` · ${source.metadata.pageCount} pages` : ''}
+                {source.metadata?.duration ? ` · ${formatTimestamp(source.metadata.duration)}` : ''}
+                {source.metadata?.width ? ` · ${source.metadata.width}×${source.metadata.height}` : ''}
+                {source.metadata?.speakers?.length > 1 ? ` · ${source.metadata!.speakers.length} speakers` : ''}
+              </span>
+              {issues.length > 0 && (
+                <button onClick={() => setReadingId(source.id)} className="flex items-center gap-1 text-amber-400" title={issues.join('\n')}>
+                  <AlertTriangle size={12} /> {issues.length === 1 ? '1 issue' : `${issues.length} issues`}
+                </button>
+              )}
               <span>{new Date(source.createdAt).toLocaleDateString()}</span>
             </div>
           </div>
@@ -239,7 +486,22 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
   };
 
   return (
-    <div className="space-y-10">
+    <div
+      className="space-y-10"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => hasDraggedItems(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="fixed inset-0 z-[90] pointer-events-none bg-black/60 backdrop-blur-sm flex items-center justify-center p-8">
+          <div className={`border-2 border-dashed border-${theme.colors.primary}-500/60 rounded-3xl px-12 py-16 text-center bg-slate-900/80`}>
+            <Upload size={40} className={`mx-auto mb-4 text-${theme.colors.primary}-400`} />
+            <p className="text-xl font-semibold text-slate-100">Drop to import</p>
+            <p className="text-sm text-slate-400 mt-2">Files, folders, ZIP archives and links are added as sources.</p>
+          </div>
+        </div>
+      )}
       <div className="flex flex-col md:flex-row justify-between items-end gap-4 border-b border-white/5 pb-6">
         <div className="space-y-2">
           <h2 className="text-2xl md:text-3xl font-bold text-white tracking-tight">Sources</h2>
@@ -253,7 +515,7 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
             <span className="text-slate-500 text-sm block uppercase tracking-wider font-semibold mt-1">Total Sources</span>
           </div>
           <button
-            onClick={() => navigate('/')}
+            onClick={handleNewNotebook}
             className={`mt-2 text-xs text-${theme.colors.primary}-400 hover:text-${theme.colors.primary}-300 flex items-center gap-1 border border-${theme.colors.primary}-500/20 rounded-full px-3 py-1 bg-${theme.colors.primary}-500/5 hover:bg-${theme.colors.primary}-500/10 transition-colors`}
           >
             <Plus size={12} /> New Notebook
@@ -263,7 +525,7 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
       {/* Quick Actions */}
       <div>
         <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4 pl-1">Add New Source</h3>
-        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 md:gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3 md:gap-4">
           <button
             onClick={() => setActiveModal('text')}
             className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30`}
@@ -327,11 +589,23 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
             </div>
             <span className="text-xs md:text-sm font-medium text-slate-200">Image</span>
           </button>
+          <button
+            onClick={() => setActiveModal('bulk')}
+            className={`p-4 md:p-5 glass-panel rounded-2xl flex flex-col items-center gap-3 hover:bg-slate-800 hover:scale-[1.02] transition-all group border-transparent hover:border-${theme.colors.primary}-500/30`}
+          >
+            <div className="p-3 bg-cyan-500/10 rounded-full group-hover:bg-cyan-500/20 transition-colors">
+              <Files className="text-cyan-400" size={24} />
+            </div>
+            <span className="text-xs md:text-sm font-medium text-slate-200">Import Many</span>
+          </button>
         </div>
+        <p className="text-xs text-slate-500 mt-3 pl-1">Or drop files, folders, ZIP archives and links anywhere on this page.</p>
       </div>
 
+      <ImportQueue queue={queue} />
+
       {/* Search Bar */}
-      <div className="pt-4">
+      <div className="pt-4 flex flex-col md:flex-row md:items-center gap-3">
         <input
           type="text"
           value={searchQuery}
@@ -339,8 +613,29 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
           placeholder="Search sources..."
           className={`w-full md:w-96 bg-slate-900 border border-slate-700 rounded-xl p-3 text-sm text-slate-300 placeholder-slate-500 focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none transition-all`}
         />
+        {sources.length > 1 && (
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="text-sm text-slate-400 hover:text-slate-200 flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-white/5 transition-colors"
+          >
+            <Copy size={16} /> Find Duplicates
+          </button>
+        )}
       </div>
 
+      {reading && (
+        <SourceViewer source={reading} onClose={() => setReadingId(null)} passageActions={passageActions} />
+      )}
+
+      {showDuplicates && (
+        <DuplicatesDialog
+          sources={sources}
+          onClose={() => setShowDuplicates(false)}
+          onDeleteSource={onDeleteSource}
+          onMerge={onMergeSources && handleMerge}
+        />
+      )}
+
       {/* Sources List */}
       <div className="pt-4">
         {displayedSources.length === 0 ? (
@@ -377,15 +672,65 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
               {activeModal === 'file' && fileType === 'pdf' && <FileText className="text-orange-400" />}
               {activeModal === 'file' && fileType === 'audio' && <FileAudio className="text-purple-400" />}
               {activeModal === 'file' && fileType === 'image' && <Image className="text-green-400" />}
+              {activeModal === 'bulk' && <Files className="text-cyan-400" />}
               {activeModal === 'text' && 'Paste Text'}
               {activeModal === 'website' && 'Import Website'}
               {activeModal === 'youtube' && 'Import YouTube'}
               {activeModal === 'file' && `Upload ${fileType?.toUpperCase()}`}
+              {activeModal === 'bulk' && 'Import Many Sources'}
             </h3>
+            {activeModal === 'bulk' ? (
+            <div className="space-y-4 overflow-y-auto pr-1">
+              <p className="text-sm text-slate-400">
+                PDFs, audio, video, images and text files are recognised by their type. ZIP archives are unpacked.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => filesInputRef.current?.click()}
+                  className="border-2 border-dashed border-slate-700 hover:border-slate-500 hover:bg-slate-800 rounded-xl p-6 flex flex-col items-center gap-2 transition-all"
+                >
+                  <Files size={24} className="text-slate-400" />
+                  <span className="font-medium text-slate-300">Choose Files</span>
+                </button>
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="border-2 border-dashed border-slate-700 hover:border-slate-500 hover:bg-slate-800 rounded-xl p-6 flex flex-col items-center gap-2 transition-all"
+                >
+                  <FolderOpen size={24} className="text-slate-400" />
+                  <span className="font-medium text-slate-300">Choose Folder</span>
+                </button>
+                <input type="file" ref={filesInputRef} className="hidden" multiple onChange={handleImportFiles} />
+                {/* webkitdirectory is not in React's input attributes. */}
+                <input type="file" ref={folderInputRef} className="hidden" {...{ webkitdirectory: '' }} onChange={handleImportFiles} />
+              </div>
+              <textarea
+                className={`w-full bg-slate-900 border border-slate-700 rounded-xl p-4 font-mono text-sm focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none resize-none min-h-[160px]`}
+                placeholder={'Or paste links, one per line:\nhttps://example.com/article\nhttps://youtube.com/watch?v=...'}
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+              ></textarea>
+              {error && (
+                <div className="p-3 bg-rose-500/10 border border-rose-500/20 text-rose-400 text-sm rounded-lg">{error}</div>
+              )}
+              <div className="flex justify-end gap-3 mt-6">
+                <button onClick={resetModal} className="px-5 py-2.5 hover:bg-white/10 rounded-xl transition-colors font-medium text-slate-300">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImportLinks}
+                  disabled={!inputValue.trim()}
+                  className={`px-8 py-2.5 bg-gradient-to-r from-${theme.colors.primary}-600 to-${theme.colors.secondary}-600 rounded-xl font-bold hover:shadow-lg hover:shadow-${theme.colors.primary}-500/20 hover:scale-[1.02] transition-all disabled:opacity-50 disabled:hover:scale-100 flex items-center gap-2`}
+                >
+                  <Globe size={18} />
+                  Import Links
+                </button>
+              </div>
+            </div>
+            ) : (
             <div className="space-y-4 overflow-y-auto pr-1">
               <input
                 className={`w-full bg-slate-900 border border-slate-700 rounded-xl p-4 focus:ring-2 focus:ring-${theme.colors.primary}-500 outline-none transition-all`}
-                placeholder="Title (Optional)"
+                placeholder={isFetchingTitle ? 'Fetching page title…' : 'Title (Optional)'}
                 value={titleValue}
                 onChange={(e) => setTitleValue(e.target.value)}
                 disabled={isProcessing}
@@ -405,6 +750,7 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
                   placeholder={activeModal === 'website' ? 'https://example.com/article' : 'https://youtube.com/watch?v=...'}
                   value={inputValue}
                   onChange={(e) => setInputValue(e.target.value)}
+                  onBlur={prefillTitle}
                   disabled={isProcessing}
                 />
               )}
@@ -418,6 +764,7 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
                     ref={fileInputRef}
                     className="hidden"
                     accept={fileType === 'pdf' ? 'application/pdf' : fileType === 'audio' ? 'audio/*' : 'image/*'}
+                    multiple
                     onChange={handleFileSelect}
                     disabled={isProcessing}
                   />
@@ -442,12 +789,37 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
               {error && (
                 <div className="p-3 bg-rose-500/10 border border-rose-500/20 text-rose-400 text-sm rounded-lg">{error}</div>
               )}
+              {duplicate && (
+                <div className="p-3 bg-amber-500/10 border border-amber-500/20 text-amber-300 text-sm rounded-lg">
+                  This source is already in the notebook: {describeDuplicates(duplicate.matches)}. Add it anyway?
+                </div>
+              )}
               {isProcessing && (
                 <div className={`p-4 bg-${theme.colors.primary}-500/5 border border-${theme.colors.primary}-500/20 rounded-lg flex items-center gap-3`}>
                   <Loader2 className={`animate-spin text-${theme.colors.primary}-400`} size={20} />
-                  <div className="text-sm">
+                  <div className="text-sm flex-1">
                     <p className={`text-${theme.colors.primary}-200 font-medium`}>Processing Source...</p>
-                    <p className={`text-${theme.colors.primary}-500/70 text-xs`}>This may take a few seconds.</p>
+                    {progress && progress.total > 0 ? (
+                      <>
+                        <p className={`text-${theme.colors.primary}-500/70 text-xs`}>
+                          {fileType === 'audio' || activeModal === 'youtube'
+                            ? 'Transcribing audio'
+                            : fileType === 'image'
+                              ? 'Reading the text in the image and describing it'
+                              : `Reading page ${Math.min(progress.done + 1, progress.total)} of ${progress.total}`}
+                        </p>
+                        <div className="mt-2 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full bg-${theme.colors.primary}-500 transition-all`}
+                            style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <p className={`text-${theme.colors.primary}-500/70 text-xs`}>
+                        {fileType === 'audio' ? 'Transcribing audio. Long recordings can take a few minutes.' : 'This may take a few seconds.'}
+                      </p>
+                    )}
                   </div>
                 </div>
               )}
@@ -460,15 +832,20 @@ const SourcesTab: React.FC<Props> = ({ sources, onAddSource, onDeleteSource, onE
                   Cancel
                 </button>
                 <button
-                  onClick={handleAddSource}
+                  onClick={() =>
+                    duplicate
+                      ? commitSource({ ...duplicate.source, title: titleValue || duplicate.source.title })
+                      : handleAddSource()
+                  }
                   disabled={isProcessing || (!inputValue && !selectedFile)}
                   className={`px-8 py-2.5 bg-gradient-to-r from-${theme.colors.primary}-600 to-${theme.colors.secondary}-600 rounded-xl font-bold hover:shadow-lg hover:shadow-${theme.colors.primary}-500/20 hover:scale-[1.02] transition-all disabled:opacity-50 disabled:hover:scale-100 flex items-center gap-2`}
                 >
                   {isProcessing ? <Loader2 className="animate-spin" size={16} /> : <PlusCircle size={18} />}
-                  Add Source
+                  {duplicate ? 'Add Anyway' : 'Add Source'}
                 </button>
               </div>
             </div>
+            )}
           </div>
         </div>
       )}
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { Notebook } from '../types';
-import { generateAudioOverview, generateMindMap } from '../services/ai';
+import { AudioFormat, AudioLength } from '../services/ai';
+import { useJobManager, useJobs, useNotifications } from '../App';
+import { completedArtifact, isActiveJob, latestJob } from '../services/jobs';
+import JobStatus from './JobStatus';
 
 interface Props {
   notebook: Notebook;
@@ -10,51 +13,44 @@ interface Props {
 /**
  * StudioTab aggregates tools for creating higher‑level artifacts from a
  * notebook.  Users can generate an Audio Overview in one of several
- * formats and request a Mind Map summarizing their sources.  Generated
- * outputs are displayed inline.  In a full implementation these artifacts
- * would be persisted to the notebook and shared across sessions.
+ * formats and request a Mind Map summarizing their sources.  Both are
+ * generated in the background and saved as notebook artifacts, so they
+ * survive switching tabs and reloading; they are displayed inline.
  */
 const StudioTab: React.FC<Props> = ({ notebook }) => {
-  const [audio, setAudio] = useState<{ title: string; url: string } | null>(null);
-  const [audioFormat, setAudioFormat] = useState<'deepDive' | 'brief' | 'critique' | 'debate'>('deepDive');
-  const [audioLength, setAudioLength] = useState<'short' | 'default' | 'long'>('default');
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>('deepDive');
+  const [audioLength, setAudioLength] = useState<AudioLength>('default');
   const [audioLang, setAudioLang] = useState('en');
-  const [audioLoading, setAudioLoading] = useState(false);
-  const [mindMap, setMindMap] = useState<any>(null);
-  const [mindLoading, setMindLoading] = useState(false);
+  const jobs = useJobManager();
+  const notifications = useNotifications();
+  const notebookJobs = useJobs(notebook.id);
+  const audioJob = latestJob(notebookJobs, 'audioOverview');
+  const mindJob = latestJob(notebookJobs, 'mindMap');
+  const audioLoading = !!audioJob && isActiveJob(audioJob);
+  const mindLoading = !!mindJob && isActiveJob(mindJob);
+  const audioArtifact = completedArtifact(notebook, 'audioOverview');
+  const audio = audioArtifact && { title: audioArtifact.title, url: audioArtifact.content.audioUrl as string };
+  const mindMap = completedArtifact(notebook, 'mindMap')?.content;
 
-  const handleGenerateAudio = async () => {
+  const handleGenerateAudio = () => {
     if (notebook.sources.length === 0) {
-      alert('Add some sources first to generate audio.');
+      notifications.notify('info', 'Add some sources first to generate audio.');
       return;
     }
-    setAudioLoading(true);
-    try {
-      const result = await generateAudioOverview(notebook.id, audioFormat, audioLength, audioLang);
-      setAudio({ title: result.title, url: result.audioUrl });
-    } catch (err: any) {
-      console.error(err);
-      alert(err.message || 'Failed to generate audio overview');
-    } finally {
-      setAudioLoading(false);
-    }
+    jobs.enqueue(notebook.id, 'Audio overview', {
+      type: 'audioOverview',
+      format: audioFormat,
+      length: audioLength,
+      language: audioLang,
+    });
   };
 
-  const handleGenerateMindMap = async () => {
+  const handleGenerateMindMap = () => {
     if (notebook.sources.length === 0) {
-      alert('Add some sources first to generate a mind map.');
+      notifications.notify('info', 'Add some sources first to generate a mind map.');
       return;
     }
-    setMindLoading(true);
-    try {
-      const map = await generateMindMap(notebook.id);
-      setMindMap(map);
-    } catch (err: any) {
-      console.error(err);
-      alert(err.message || 'Failed to generate mind map');
-    } finally {
-      setMindLoading(false);
-    }
+    jobs.enqueue(notebook.id, 'Mind map', { type: 'mindMap' });
   };
 
   return (
@@ -66,7 +62,7 @@ const StudioTab: React.FC<Props> = ({ notebook }) => {
             <label className="block text-sm text-gray-300">Format</label>
             <select
               value={audioFormat}
-              onChange={(e) => setAudioFormat(e.target.value as any)}
+              onChange={(e) => setAudioFormat(e.target.value as AudioFormat)}
               className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
             >
               <option value="deepDive">Deep Dive</option>
@@ -79,7 +75,7 @@ const StudioTab: React.FC<Props> = ({ notebook }) => {
             <label className="block text-sm text-gray-300">Length</label>
             <select
               value={audioLength}
-              onChange={(e) => setAudioLength(e.target.value as any)}
+              onChange={(e) => setAudioLength(e.target.value as AudioLength)}
               className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
             >
               <option value="short">Short</option>
@@ -105,6 +101,7 @@ const StudioTab: React.FC<Props> = ({ notebook }) => {
             {audioLoading ? 'Generating…' : audio ? 'Regenerate' : 'Generate'}
           </button>
         </div>
+        <JobStatus job={audioJob} />
         {audio && (
           <div className="mt-4 space-y-2">
             <h3 className="text-lg font-semibold">{audio.title}</h3>
@@ -121,6 +118,7 @@ const StudioTab: React.FC<Props> = ({ notebook }) => {
         >
           {mindLoading ? 'Generating…' : mindMap ? 'Regenerate' : 'Generate'}
         </button>
+        <JobStatus job={mindJob} />
         {mindMap && (
           <pre className="bg-gray-900 border border-gray-700 rounded p-4 overflow-x-auto whitespace-pre-wrap">
             {JSON.stringify(mindMap, null, 2)}
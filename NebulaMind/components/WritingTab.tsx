@@ -0,0 +1,425 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CritiqueComment, CritiqueEvidence, CritiqueKind, DraftVersion, Notebook, Source, WritingDraft } from '../types';
+import { useAIProvider, useNotifications } from '../App';
+import {
+  branchDraft,
+  createDraft,
+  critiqueDraft,
+  editDraft,
+  latestVersion,
+  locateQuote,
+  resolveComment,
+} from '../services/critique';
+import { deleteDraft, getDrafts, saveDraft } from '../services/storage';
+import SourceViewer from './SourceViewer';
+
+interface Props {
+  notebook: Notebook;
+}
+
+// Edits are written to storage once typing pauses for this long.
+const SAVE_DELAY_MS = 500;
+
+const KIND_STYLES: Record<CritiqueKind, { label: string; badge: string; mark: string }> = {
+  issue: { label: 'Issue', badge: 'bg-rose-500/20 text-rose-300', mark: 'bg-rose-500/25' },
+  suggestion: { label: 'Suggestion', badge: 'bg-yellow-500/20 text-yellow-300', mark: 'bg-yellow-500/25' },
+  praise: { label: 'Praise', badge: 'bg-green-500/20 text-green-300', mark: 'bg-green-500/25' },
+};
+
+/**
+ * Split a critiqued text into plain and commented segments.  Overlapping
+ * comments are shown on the first one only; resolved comments are not
+ * highlighted.
+ */
+function segmentText(text: string, comments: CritiqueComment[]): { text: string; comment?: CritiqueComment }[] {
+  const anchored = comments.filter((c) => c.start >= 0 && c.status === 'open').sort((a, b) => a.start - b.start);
+  const segments: { text: string; comment?: CritiqueComment }[] = [];
+  let pos = 0;
+  for (const comment of anchored) {
+    if (comment.start < pos) continue;
+    if (comment.start > pos) segments.push({ text: text.slice(pos, comment.start) });
+    segments.push({ text: text.slice(comment.start, comment.end), comment });
+    pos = comment.end;
+  }
+  if (pos < text.length) segments.push({ text: text.slice(pos) });
+  return segments;
+}
+
+/**
+ * WritingTab is a workspace for drafting an essay or argument next to the
+ * notebook.  The AI provider critiques the draft against the sources; its
+ * feedback is shown as comments anchored to the passages they are about,
+ * each with links to source passages that support or contradict the text.
+ * Every comment can be accepted (applying its suggested wording, if any) or
+ * dismissed.  Drafts are versioned: a critiqued version is kept as it was,
+ * with its comments, and editing continues in a new version.
+ */
+const WritingTab: React.FC<Props> = ({ notebook }) => {
+  const [drafts, setDrafts] = useState<WritingDraft[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [versionId, setVersionId] = useState<string | null>(null);
+  const [focusedComment, setFocusedComment] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [openEvidence, setOpenEvidence] = useState<{ source: Source; quote: string } | null>(null);
+  const pending = useRef<{ draft: WritingDraft; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const ai = useAIProvider();
+  const notifications = useNotifications();
+
+  useEffect(() => {
+    let cancelled = false;
+    getDrafts(notebook.id)
+      .then((loaded) => {
+        if (cancelled) return;
+        setDrafts(loaded);
+        setActiveId(loaded[0]?.id ?? null);
+      })
+      .catch((err) => console.error('Failed to load drafts', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [notebook.id]);
+
+  const persist = (draft: WritingDraft) =>
+    saveDraft(notebook.id, draft).catch((err) => console.error('Failed to save draft', err));
+
+  const flushPending = () => {
+    if (!pending.current) return;
+    clearTimeout(pending.current.timer);
+    persist(pending.current.draft);
+    pending.current = null;
+  };
+
+  // Write a pending edit right away when the tab is closed.
+  useEffect(() => flushPending, [notebook.id]);
+
+  const putDraft = (draft: WritingDraft, delay = 0) => {
+    setDrafts((prev) => [draft, ...prev.filter((d) => d.id !== draft.id)]);
+    if (pending.current && pending.current.draft.id !== draft.id) flushPending();
+    if (pending.current) clearTimeout(pending.current.timer);
+    pending.current = null;
+    if (delay) {
+      const timer = setTimeout(() => {
+        pending.current = null;
+        persist(draft);
+      }, delay);
+      pending.current = { draft, timer };
+    } else {
+      persist(draft);
+    }
+  };
+
+  const selectDraft = (id: string | null) => {
+    setActiveId(id);
+    setVersionId(null);
+    setFocusedComment(null);
+  };
+
+  const handleNew = () => {
+    const draft = createDraft();
+    putDraft(draft);
+    selectDraft(draft.id);
+  };
+
+  const handleDelete = (draft: WritingDraft) => {
+    if (!confirm(`Delete "${draft.title}" and all of its versions?`)) return;
+    if (pending.current?.draft.id === draft.id) {
+      clearTimeout(pending.current.timer);
+      pending.current = null;
+    }
+    deleteDraft(draft.id).catch((err) => console.error('Failed to delete draft', err));
+    setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+    if (draft.id === activeId) selectDraft(null);
+  };
+
+  const draft = drafts.find((d) => d.id === activeId) || null;
+
+  const handleCritique = async () => {
+    if (!draft) return;
+    setLoading(true);
+    try {
+      const critiqued = await critiqueDraft(ai, notebook, draft);
+      putDraft(critiqued);
+      setVersionId(null);
+      setFocusedComment(null);
+    } catch (err: any) {
+      console.error(err);
+      notifications.error(err, 'Failed to critique the draft', {
+        actions: [{ label: 'Retry', onClick: handleCritique }],
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = (version: DraftVersion, comment: CritiqueComment, status: CritiqueComment['status']) => {
+    if (!draft) return;
+    const result = resolveComment(draft, version.id, comment.id, status);
+    putDraft(result.draft);
+    // Stay on the critiqued version even if applying the comment started a
+    // new one.
+    setVersionId(version.id);
+    if (status === 'accepted' && comment.replacement !== undefined && !result.applied) {
+      notifications.notify(
+        'info',
+        'The passage this comment refers to is no longer in the draft, so the suggestion could not be applied.',
+        { title: 'Suggestion not applied' }
+      );
+    }
+  };
+
+  const openSourceQuote = (evidence: CritiqueEvidence) => {
+    const source = notebook.sources.find((s) => s.id === evidence.sourceId);
+    if (source) setOpenEvidence({ source, quote: evidence.quote });
+  };
+
+  const sidebar = (
+    <aside className="w-56 flex-shrink-0 flex flex-col gap-2 border-r border-gray-800 pr-3">
+      <button
+        onClick={handleNew}
+        className="flex items-center justify-center gap-1 bg-blue-600 hover:bg-blue-700 text-white text-sm px-3 py-1.5 rounded"
+      >
+        <Plus size={14} /> New draft
+      </button>
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {drafts.map((d) => (
+          <div
+            key={d.id}
+            onClick={() => selectDraft(d.id)}
+            className={`group flex items-center gap-2 p-2 rounded cursor-pointer text-sm ${d.id === activeId ? 'bg-gray-800' : 'hover:bg-gray-900'}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="truncate">{d.title}</p>
+              <p className="text-xs text-gray-500">
+                {d.versions.length} {d.versions.length === 1 ? 'version' : 'versions'}
+              </p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(d);
+              }}
+              className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-rose-500"
+              title="Delete"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+
+  if (!draft) {
+    return (
+      <div className="flex h-full gap-4">
+        {sidebar}
+        <p className="flex-1 text-center text-gray-500 mt-10">
+          Start a draft to write next to your sources and get feedback checked against them.
+        </p>
+      </div>
+    );
+  }
+
+  const latest = latestVersion(draft);
+  const version = draft.versions.find((v) => v.id === versionId) || latest;
+  const versionNumber = draft.versions.indexOf(version) + 1;
+  // The latest version can be edited until it is critiqued; afterwards the
+  // editor shows the critiqued text and typing starts a new version.  Title
+  // and text are locked while a critique runs, since the critiqued draft
+  // replaces the one it was asked for.
+  const editable = version === latest && !latest.critique;
+  const comments = version.critique?.comments || [];
+
+  return (
+    <div className="flex h-full gap-4">
+      {sidebar}
+      <section className="flex-1 min-w-0 flex flex-col gap-3">
+        <div className="flex items-center gap-2">
+          <input
+            value={draft.title}
+            onChange={(e) => putDraft({ ...draft, title: e.target.value, updatedAt: Date.now() }, SAVE_DELAY_MS)}
+            disabled={loading}
+            className="flex-1 bg-transparent text-xl font-semibold outline-none border-b border-transparent focus:border-gray-700"
+          />
+          <select
+            value={version.id}
+            onChange={(e) => {
+              setVersionId(e.target.value);
+              setFocusedComment(null);
+            }}
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm"
+          >
+            {draft.versions.map((v, i) => (
+              <option key={v.id} value={v.id}>
+                v{i + 1} · {new Date(v.critique?.createdAt ?? v.createdAt).toLocaleString()}
+                {v.critique ? ' · critiqued' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCritique}
+            disabled={loading || !latest.text.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm px-3 py-1.5 rounded"
+          >
+            {loading ? 'Critiquing…' : 'Critique'}
+          </button>
+        </div>
+        {editable ? (
+          <textarea
+            value={latest.text}
+            onChange={(e) => putDraft(editDraft(draft, e.target.value), SAVE_DELAY_MS)}
+            disabled={loading}
+            placeholder="Draft your essay or argument here, then ask for a critique."
+            className="flex-1 w-full bg-gray-900 border border-gray-700 rounded p-3 leading-relaxed"
+          />
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto bg-gray-900 border border-gray-700 rounded p-3 whitespace-pre-wrap leading-relaxed">
+              {segmentText(version.text, comments).map((segment, i) =>
+                segment.comment ? (
+                  <mark
+                    key={i}
+                    onClick={() => setFocusedComment(segment.comment!.id)}
+                    className={`${KIND_STYLES[segment.comment.kind].mark} text-inherit rounded cursor-pointer ${focusedComment === segment.comment.id ? 'ring-1 ring-white/60' : ''}`}
+                  >
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={i}>{segment.text}</React.Fragment>
+                )
+              )}
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span>
+                Version {versionNumber} of {draft.versions.length}
+                {version.critique ? ', critiqued — comments are anchored to this text.' : '.'}
+              </span>
+              {version === latest ? (
+                <button
+                  onClick={() => putDraft(branchDraft(draft))}
+                  className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                >
+                  Continue editing in a new version
+                </button>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => {
+                      putDraft(editDraft(draft, version.text));
+                      setVersionId(null);
+                    }}
+                    className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                  >
+                    Restore this version
+                  </button>
+                  <button onClick={() => setVersionId(null)} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded">
+                    Go to latest version
+                  </button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </section>
+
+      <aside className="w-80 flex-shrink-0 flex flex-col gap-3 border-l border-gray-800 pl-3 overflow-y-auto">
+        {!version.critique ? (
+          <p className="text-sm text-gray-500 mt-4">
+            {editable ? 'Ask for a critique to get comments on this version.' : 'This version was not critiqued.'}
+          </p>
+        ) : (
+          <>
+            <div className="text-sm whitespace-pre-wrap text-gray-300">{version.critique.summary}</div>
+            {comments.length === 0 && <p className="text-sm text-gray-500">No comments on specific passages.</p>}
+            {comments.map((comment) => (
+              <div
+                key={comment.id}
+                onClick={() => setFocusedComment(comment.id)}
+                ref={(el) => {
+                  if (el && focusedComment === comment.id) el.scrollIntoView({ block: 'nearest' });
+                }}
+                className={`p-3 rounded border text-sm space-y-2 ${focusedComment === comment.id ? 'border-gray-500 bg-gray-800' : 'border-gray-700 bg-gray-900'} ${comment.status !== 'open' ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${KIND_STYLES[comment.kind].badge}`}>
+                    {KIND_STYLES[comment.kind].label}
+                  </span>
+                  {comment.start < 0 && <span className="text-xs text-gray-500">Whole text</span>}
+                  {comment.status !== 'open' && <span className="text-xs text-gray-400 ml-auto capitalize">{comment.status}</span>}
+                </div>
+                {comment.start >= 0 && <p className="text-xs italic text-gray-400 line-clamp-2">“{comment.quote}”</p>}
+                <p>{comment.comment}</p>
+                {comment.replacement !== undefined && (
+                  <p className="text-xs">
+                    <span className="text-gray-500">Suggested: </span>
+                    <span className="text-green-300">{comment.replacement || '(remove)'}</span>
+                  </p>
+                )}
+                {comment.evidence.length > 0 && (
+                  <ul className="space-y-1">
+                    {comment.evidence.map((e, i) => {
+                      const source = notebook.sources.find((s) => s.id === e.sourceId);
+                      return (
+                        <li key={i} className="text-xs">
+                          <span className={e.stance === 'supports' ? 'text-green-400' : 'text-rose-400'}>
+                            {e.stance === 'supports' ? 'Supports' : 'Contradicts'}:
+                          </span>{' '}
+                          {source ? (
+                            <button
+                              onClick={(ev) => {
+                                ev.stopPropagation();
+                                openSourceQuote(e);
+                              }}
+                              className="text-left hover:underline"
+                            >
+                              {source.title} — <span className="italic text-gray-400">“{e.quote.length > 100 ? `${e.quote.slice(0, 97)}…` : e.quote}”</span>
+                            </button>
+                          ) : (
+                            <span className="text-gray-500">Source no longer in this notebook</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {comment.status === 'open' && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={(ev) => {
+                        ev.stopPropagation();
+                        handleResolve(version, comment, 'accepted');
+                      }}
+                      className="text-xs bg-green-700 hover:bg-green-600 px-2 py-1 rounded"
+                    >
+                      {comment.replacement !== undefined ? 'Accept & apply' : 'Accept'}
+                    </button>
+                    <button
+                      onClick={(ev) => {
+                        ev.stopPropagation();
+                        handleResolve(version, comment, 'dismissed');
+                      }}
+                      className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </aside>
+
+      {openEvidence && (
+        <SourceViewer
+          source={openEvidence.source}
+          highlight={locateQuote(openEvidence.source.content, openEvidence.quote) || undefined}
+          onClose={() => setOpenEvidence(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WritingTab;
@@ -1,29 +1,47 @@
 /*
  * AI service layer for NebulaMind.
  *
- * This module provides functions that interface with the backend API to
- * perform AI-related operations, such as answering questions, generating
- * flashcards, quizzes, reports and other artifacts.  These helpers wrap
- * HTTP requests and hide the details of the API from the rest of the
- * application.
+ * This module defines the `AIProvider` interface through which the rest of
+ * the application performs AI-related operations, such as answering
+ * questions, generating flashcards, quizzes, reports and other artifacts.
+ * It also contains the HTTP provider that talks to the NebulaMind backend.
+ * Other implementations live alongside it (`openAIProvider.ts`,
+ * `mockProvider.ts`) and the active one is chosen in `aiConfig.ts`.
  *
- * NOTE: The actual endpoints used here are placeholders.  In a real
+ * NOTE: The backend endpoints used here are placeholders.  In a real
  * deployment these would correspond to API routes on your server that
  * proxy requests to a generative model (e.g. Google Gemini, OpenAI GPT).
  */
 
-import { Flashcard, QuizQuestion } from '../types';
+import {
+  ChatMessage,
+  Citation,
+  CritiqueEvidence,
+  CritiqueKind,
+  Flashcard,
+  Note,
+  Notebook,
+  QuizQuestion,
+  QuizQuestionType,
+} from '../types';
+import { readJsonStream } from './streaming';
+import { requestError } from './errors';
+import { normalizeCitations } from './citations';
+import { Passage } from './retrieval';
+import { readAsDataUrl } from './images';
 
 // Generic helper for making POST requests to the AI backend.  Throws if
-// the request fails or the response contains an error.
-async function postJson<T>(url: string, body: any): Promise<T> {
+// the request fails (see `requestError` for the messages) or the response
+// contains an error, and with an AbortError if `signal` fires.
+async function postJson<T>(url: string, body: any, signal?: AbortSignal): Promise<T> {
   const res = await fetch(url, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
+    signal,
   });
   if (!res.ok) {
-    throw new Error(`Request to ${url} failed with status ${res.status}`);
+    throw requestError(url, res);
   }
   const data = await res.json();
   if ('error' in data) {
@@ -32,149 +50,304 @@ async function postJson<T>(url: string, body: any): Promise<T> {
   return data as T;
 }
 
+export type ReportStyle = 'briefing' | 'blog' | 'studyGuide' | 'timeline';
+export type AudioFormat = 'deepDive' | 'brief' | 'critique' | 'debate';
+export type AudioLength = 'short' | 'default' | 'long';
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = [
+  'multipleChoice',
+  'trueFalse',
+  'multiSelect',
+  'fillBlank',
+  'ordering',
+  'matching',
+  'shortAnswer',
+];
+
 /**
- * Generate an answer to a user question using the notebook's sources.  This
- * function sends the prompt to the backend and returns the model's full
- * response text.  The backend is expected to ground the answer in the
- * notebook's context and return citations in the result.
+ * Options for quiz generation.  Unset fields leave the choice to the
+ * provider; `sourceIds` restricts the quiz to some of the sources and
+ * `types` to some question types.
  */
-export async function generateAnswer(notebookId: string, prompt: string): Promise<{ text: string; citations?: string[] }> {
-  return postJson<{ text: string; citations?: string[] }>(
-    '/api/ai/answer',
-    { notebookId, prompt }
-  );
+export interface QuizOptions {
+  count?: number;
+  difficulty?: QuizDifficulty;
+  /** Topic or question the quiz should focus on. */
+  topic?: string;
+  sourceIds?: string[];
+  types?: QuizQuestionType[];
 }
 
 /**
- * Request a set of flashcards derived from the notebook's sources.  The
- * backend should return an array of flashcard objects with unique ids,
- * questions and answers.  These flashcards can then be studied by the
- * user in the FlashcardsTab.
+ * An answer and the citations its inline `[n]` markers refer to.
  */
-export async function generateFlashcards(notebookId: string, count = 10): Promise<Flashcard[]> {
-  const result = await postJson<{ flashcards: Flashcard[] }>('/api/ai/flashcards', {
-    notebookId,
-    count,
-  });
-  return result.flashcards;
+export interface AnswerResult {
+  text: string;
+  citations?: Citation[];
 }
 
 /**
- * Request a quiz based on the notebook's sources.  The backend returns a set
- * of quiz questions.  Each question may include multiple choice options or
- * be free-form.  The client can present the quiz to the user and later
- * display the correct answers.
+ * Earlier turns of a conversation, oldest first, sent along with a question
+ * so that follow-ups ("explain the second point more") can be resolved.
  */
-export async function generateQuiz(notebookId: string, count = 5): Promise<QuizQuestion[]> {
-  const result = await postJson<{ questions: QuizQuestion[] }>('/api/ai/quiz', {
-    notebookId,
-    count,
-  });
-  return result.questions;
+export type ChatHistory = Pick<ChatMessage, 'role' | 'text'>[];
+
+export interface AnswerOptions {
+  /** Earlier turns of the conversation. */
+  history?: ChatHistory;
+  /**
+   * Passages retrieved locally for the question (see `retrieval.ts`).  When
+   * given, providers ground the answer in these passages and cite them.
+   */
+  passages?: Passage[];
 }
 
 /**
- * Generate a report from the notebook's sources.  Reports can be of various
- * styles (e.g. "briefing", "blog", "studyGuide").  The backend returns
- * markdown or plain text content which can be rendered in the UI.  The
- * returned object includes a title and body.
+ * A free-form quiz answer to be graded against a reference answer and/or a
+ * rubric.
  */
-export async function generateReport(
-  notebookId: string,
-  style: 'briefing' | 'blog' | 'studyGuide' | 'timeline' = 'briefing'
-): Promise<{ title: string; body: string }> {
-  return postJson<{ title: string; body: string }>('/api/ai/report', {
-    notebookId,
-    style,
-  });
+export interface GradingRequest {
+  questionId: string;
+  prompt: string;
+  expected?: string;
+  rubric?: string;
+  response: string;
 }
 
 /**
- * Generate an audio overview for the notebook.  The format can be one of
- * several conversation types inspired by NotebookLM (e.g. deep dive,
- * brief, critique, debate).  The backend should return the URL of the
- * generated audio file and any metadata needed for playback.
+ * The grade for one `GradingRequest`: credit between 0 and 1 and a short
+ * explanation addressed to the learner.
  */
-export async function generateAudioOverview(
-  notebookId: string,
-  format: 'deepDive' | 'brief' | 'critique' | 'debate' = 'deepDive',
-  length: 'short' | 'default' | 'long' = 'default',
-  language: string = 'en'
-): Promise<{ audioUrl: string; title: string }> {
-  return postJson<{ audioUrl: string; title: string }>('/api/ai/audioOverview', {
-    notebookId,
-    format,
-    length,
-    language,
-  });
+export interface GradingResult {
+  questionId: string;
+  score: number;
+  explanation: string;
 }
 
 /**
- * Generate a simple mind map of the notebook's sources.  The backend
- * returns a nested structure representing the main topics and their
- * relationships.  Clients can render this as a tree or graph.  The
- * returned nodes each have a title and an array of children.
+ * One comment on a piece of writing.  `quote` is the exact text of the
+ * draft it refers to; an empty quote makes it a comment on the whole text.
+ * `replacement`, if given, is suggested text to put in place of the quote.
  */
-export async function generateMindMap(notebookId: string): Promise<any> {
-  return postJson<any>('/api/ai/mindMap', { notebookId });
+export interface CritiqueFinding {
+  quote: string;
+  comment: string;
+  kind: CritiqueKind;
+  replacement?: string;
+  evidence?: CritiqueEvidence[];
 }
 
 /**
- * Gather all selected notes into a single unified note.  If no note IDs
- * are provided, the backend should merge all existing notes in the
- * notebook.  Returns the content of the new note.
+ * Feedback on a piece of writing: an overall assessment and comments on
+ * specific passages.
  */
-export async function unifyNotes(notebookId: string, noteIds?: string[]): Promise<{ content: string }> {
-  return postJson<{ content: string }>('/api/ai/unifyNotes', { notebookId, noteIds });
+export interface Critique {
+  critique: string;
+  comments: CritiqueFinding[];
+}
+
+export interface StreamAnswerOptions extends AnswerOptions {
+  /** Called with each new piece of text as it arrives. */
+  onText: (delta: string) => void;
+  /** Aborts the request; the returned promise then rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
 /**
- * Ask the AI for constructive feedback on a piece of prose or argument.
- * The backend returns a critique that can help improve the user's writing.
+ * Restrict a notebook to a subset of its sources.  Used by providers that
+ * build their own context when an operation is scoped to some sources.
  */
-export async function critiqueText(notebookId: string, text: string): Promise<{ critique: string }> {
-  return postJson<{ critique: string }>('/api/ai/critique', { notebookId, text });
+export function scopeNotebook(notebook: Notebook, sourceIds?: string[]): Notebook {
+  if (!sourceIds) return notebook;
+  const keep = new Set(sourceIds);
+  return { ...notebook, sources: notebook.sources.filter((s) => keep.has(s.id)) };
 }
 
 /**
- * Fetch the textual content of a web page.  In production this function
- * should call a server‑side scraper that handles CORS and extraction.
- * During development we fall back to a simple fetch of the page and
- * return its plain text content.  If extraction fails we return an
- * explanatory message.
+ * An AIProvider implements every generative operation used by the app.
+ * Components never call a model directly; they obtain the configured
+ * provider (see `useAIProvider` in App.tsx) and call it.  Each operation
+ * receives the whole notebook so that providers without a server-side copy
+ * of the sources (a local model server, the offline mock) can build their
+ * own context from it.
  */
-export async function fetchWebsiteContent(url: string): Promise<string> {
-  try {
-    const res = await fetch(url);
-    const text = await res.text();
-    // Remove HTML tags to produce plain text; this is a naive implementation.
-    const plain = text.replace(/<script[\s\S]*?<\/script>/gi, '').replace(/<style[\s\S]*?<\/style>/gi, '').replace(/<[^>]+>/g, ' ');
-    return plain.trim() || `Retrieved content from ${url}`;
-  } catch (err) {
-    console.warn('Failed to fetch website content', err);
-    return `Could not fetch content from ${url}.`;
-  }
+export interface AIProvider {
+  /**
+   * Generate an answer to a user question using the notebook's sources.
+   * The answer should be grounded in the notebook's context and include
+   * citations where possible.
+   */
+  generateAnswer(notebook: Notebook, prompt: string, options?: AnswerOptions): Promise<AnswerResult>;
+  /**
+   * Streaming variant of `generateAnswer`.  Text is delivered incrementally
+   * through `onText`; the promise resolves with the complete answer,
+   * including any citations, once the stream has finished.
+   */
+  streamAnswer(notebook: Notebook, prompt: string, options: StreamAnswerOptions): Promise<AnswerResult>;
+  /**
+   * Derive a set of flashcards from the notebook's sources, or from the
+   * given subset of them.  Each card has a unique id, a question and an
+   * answer.
+   *
+   * This and the other generation methods below take an optional `signal`
+   * that cancels the request; they then reject with an AbortError.
+   */
+  generateFlashcards(notebook: Notebook, count?: number, sourceIds?: string[], signal?: AbortSignal): Promise<Flashcard[]>;
+  /**
+   * Create quiz questions based on the notebook's sources.  Each question
+   * is of one of the allowed types and carries an explanation and a
+   * reference to the source passage it was drawn from.
+   */
+  generateQuiz(notebook: Notebook, options?: QuizOptions, signal?: AbortSignal): Promise<QuizQuestion[]>;
+  /**
+   * Grade free-form quiz answers against their reference answers or
+   * rubrics, awarding partial credit where an answer is partly right.
+   * Returns one result per request.
+   */
+  gradeAnswers(notebook: Notebook, items: GradingRequest[]): Promise<GradingResult[]>;
+  /**
+   * Generate a report in the given style.  The body is markdown, which the
+   * UI renders without ever interpreting it as HTML.
+   */
+  generateReport(notebook: Notebook, style?: ReportStyle, signal?: AbortSignal): Promise<{ title: string; body: string }>;
+  /**
+   * Generate an audio overview in one of several conversation formats
+   * inspired by NotebookLM.  Returns a playable URL and a title.
+   */
+  generateAudioOverview(
+    notebook: Notebook,
+    format?: AudioFormat,
+    length?: AudioLength,
+    language?: string,
+    signal?: AbortSignal
+  ): Promise<{ audioUrl: string; title: string }>;
+  /**
+   * Generate a mind map of the notebook's sources: a nested structure in
+   * which each node has a title and an array of children.
+   */
+  generateMindMap(notebook: Notebook, signal?: AbortSignal): Promise<any>;
+  /**
+   * Merge the given notes into a single unified note and return its content.
+   */
+  unifyNotes(notebook: Notebook, notes: Note[]): Promise<{ content: string }>;
+  /**
+   * Give constructive feedback on a piece of prose or argument, as an
+   * overall assessment plus comments on specific passages.  Comments are
+   * checked against the sources and point at passages that support or
+   * contradict the text.
+   */
+  critiqueText(notebook: Notebook, text: string): Promise<Critique>;
+  /**
+   * Describe an image so it can be used as a source: what it shows and, for
+   * diagrams and charts, the structure, labels and data they convey.
+   */
+  describeImage(image: Blob, signal?: AbortSignal): Promise<string>;
 }
 
 /**
- * Process an uploaded file using a generative model to extract text.  In
- * a real deployment this would forward the file to a backend that calls
- * a multimodal model (e.g. Gemini) to transcribe audio or extract text
- * from images and PDFs.  Here we simply read the file as text when
- * possible or return a placeholder.  Supported MIME types include
- * text/plain and application/pdf.  For unsupported types the file name is
- * returned.
+ * Provider backed by the NebulaMind backend.  The backend holds its own copy
+ * of each notebook, so only ids are sent and the server is responsible for
+ * retrieval and grounding.
  */
-export async function processFileWithGemini(file: File, mimeType: string): Promise<string> {
-  try {
-    if (mimeType.startsWith('text/')) {
-      const text = await file.text();
-      return text;
-    }
-    // For binary files we cannot extract text client‑side; return a stub.
-    return `Uploaded file ${file.name} of type ${mimeType} has been received. Text extraction requires server‑side processing.`;
-  } catch (err) {
-    console.error('Failed to process file', err);
-    return `Could not process file ${file.name}.`;
-  }
-}
\ No newline at end of file
+export function createHttpProvider(baseUrl = '/api/ai'): AIProvider {
+  return {
+    async generateAnswer(notebook, prompt, { history = [], passages } = {}) {
+      const result = await postJson<{ text: string; citations?: unknown }>(`${baseUrl}/answer`, {
+        notebookId: notebook.id,
+        prompt,
+        history,
+        passages,
+      });
+      return { text: result.text, citations: normalizeCitations(result.citations) };
+    },
+
+    async streamAnswer(notebook, prompt, { onText, signal, history = [], passages }) {
+      const url = `${baseUrl}/answer/stream`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream, application/x-ndjson' },
+        body: JSON.stringify({ notebookId: notebook.id, prompt, history, passages }),
+        signal,
+      });
+      if (!res.ok) {
+        throw requestError(url, res);
+      }
+      // Each chunk carries a `delta` of new text; citations arrive with the
+      // final chunk once the backend knows which sources it used.
+      const result: AnswerResult = { text: '' };
+      await readJsonStream(res, (chunk: { delta?: string; citations?: unknown; error?: string }) => {
+        if (chunk.error) throw new Error(chunk.error);
+        if (chunk.delta) {
+          result.text += chunk.delta;
+          onText(chunk.delta);
+        }
+        if (chunk.citations) result.citations = normalizeCitations(chunk.citations);
+      });
+      return result;
+    },
+
+    async generateFlashcards(notebook, count = 10, sourceIds, signal) {
+      const result = await postJson<{ flashcards: Flashcard[] }>(
+        `${baseUrl}/flashcards`,
+        { notebookId: notebook.id, count, sourceIds },
+        signal
+      );
+      return result.flashcards;
+    },
+
+    async generateQuiz(notebook, options = {}, signal) {
+      const result = await postJson<{ questions: QuizQuestion[] }>(
+        `${baseUrl}/quiz`,
+        { notebookId: notebook.id, count: 5, ...options },
+        signal
+      );
+      return result.questions;
+    },
+
+    async gradeAnswers(notebook, items) {
+      const result = await postJson<{ results: GradingResult[] }>(`${baseUrl}/grade`, {
+        notebookId: notebook.id,
+        items,
+      });
+      return result.results;
+    },
+
+    generateReport(notebook, style = 'briefing', signal) {
+      return postJson<{ title: string; body: string }>(`${baseUrl}/report`, { notebookId: notebook.id, style }, signal);
+    },
+
+    generateAudioOverview(notebook, format = 'deepDive', length = 'default', language = 'en', signal) {
+      return postJson<{ audioUrl: string; title: string }>(
+        `${baseUrl}/audioOverview`,
+        { notebookId: notebook.id, format, length, language },
+        signal
+      );
+    },
+
+    generateMindMap(notebook, signal) {
+      return postJson<any>(`${baseUrl}/mindMap`, { notebookId: notebook.id }, signal);
+    },
+
+    unifyNotes(notebook, notes) {
+      return postJson<{ content: string }>(`${baseUrl}/unifyNotes`, {
+        notebookId: notebook.id,
+        noteIds: notes.map((n) => n.id),
+      });
+    },
+
+    async critiqueText(notebook, text) {
+      const result = await postJson<Critique>(`${baseUrl}/critique`, { notebookId: notebook.id, text });
+      return { critique: result.critique, comments: result.comments || [] };
+    },
+
+    async describeImage(image, signal) {
+      const result = await postJson<{ description: string }>(
+        `${baseUrl}/describeImage`,
+        { image: await readAsDataUrl(image) },
+        signal
+      );
+      return result.description;
+    },
+  };
+}
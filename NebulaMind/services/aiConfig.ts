@@ -0,0 +1,139 @@
+/*
+ * AI provider configuration.
+ *
+ * The active provider and its settings are stored in localStorage so they
+ * persist across sessions.  `createAIProvider` turns a configuration into
+ * a ready-to-use `AIProvider`; the app shell exposes the result through the
+ * `useAIProvider` hook.  `createTranscriber` and `createOcrEngine` pick the
+ * matching speech-to-text and text recognition services for audio and image
+ * sources, `createPageFetcher` how web pages are fetched and
+ * `createYouTubeAdapter` where video captions come from.
+ */
+
+import { AIProvider, createHttpProvider } from './ai';
+import { createOpenAICompatibleProvider } from './openAIProvider';
+import { mockProvider } from './mockProvider';
+import { Transcriber, createHttpTranscriber, createOpenAITranscriber, localTranscriber } from './transcription';
+import { OcrEngine, createHttpOcrEngine, createVisionOcrEngine, localOcr } from './ocr';
+import { PageFetcher, createProxyFetcher, directFetcher } from './web';
+import { YouTubeAdapter, createFixtureYouTubeAdapter, createHttpYouTubeAdapter } from './youtube';
+
+export type AIProviderKind = 'http' | 'openai' | 'mock';
+
+/** Where the text in images is recognised: by the AI provider or on the device. */
+export type OcrEngineKind = 'provider' | 'local';
+
+export interface AIConfig {
+  provider: AIProviderKind;
+  /** Base path of the NebulaMind backend AI routes. */
+  httpBaseUrl: string;
+  /** Base URL of an OpenAI-compatible API (OpenAI, Ollama, LM Studio…). */
+  openAIBaseUrl: string;
+  openAIApiKey: string;
+  openAIModel: string;
+  /** Speech-to-text model used to transcribe audio sources. */
+  openAITranscriptionModel: string;
+  ocrEngine: OcrEngineKind;
+  /** Server-side proxy that fetches web pages; empty to fetch from the browser. */
+  fetchProxyUrl: string;
+  /** Base path of the backend routes that read YouTube videos. */
+  youtubeBaseUrl: string;
+}
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  provider: 'http',
+  httpBaseUrl: '/api/ai',
+  openAIBaseUrl: 'http://localhost:11434/v1',
+  openAIApiKey: '',
+  openAIModel: 'llama3.1',
+  openAITranscriptionModel: 'whisper-1',
+  ocrEngine: 'provider',
+  fetchProxyUrl: '/api/fetch',
+  youtubeBaseUrl: '/api/youtube',
+};
+
+const STORAGE_KEY = 'nebulamind.aiConfig';
+
+export function loadAIConfig(): AIConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_AI_CONFIG, ...JSON.parse(raw) } : DEFAULT_AI_CONFIG;
+  } catch {
+    return DEFAULT_AI_CONFIG;
+  }
+}
+
+export function saveAIConfig(config: AIConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+export function createAIProvider(config: AIConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: config.openAIBaseUrl,
+        apiKey: config.openAIApiKey || undefined,
+        model: config.openAIModel,
+      });
+    case 'mock':
+      return mockProvider;
+    case 'http':
+    default:
+      return createHttpProvider(config.httpBaseUrl);
+  }
+}
+
+export function createTranscriber(config: AIConfig): Transcriber {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAITranscriber({
+        baseUrl: config.openAIBaseUrl,
+        apiKey: config.openAIApiKey || undefined,
+        model: config.openAITranscriptionModel,
+      });
+    case 'mock':
+      return localTranscriber;
+    case 'http':
+    default:
+      return createHttpTranscriber(config.httpBaseUrl);
+  }
+}
+
+/**
+ * The OCR engine for image sources and scanned PDF pages.  The offline
+ * provider always reads images on the device.
+ */
+export function createOcrEngine(config: AIConfig): OcrEngine {
+  if (config.ocrEngine === 'local') return localOcr;
+  switch (config.provider) {
+    case 'openai':
+      return createVisionOcrEngine({
+        baseUrl: config.openAIBaseUrl,
+        apiKey: config.openAIApiKey || undefined,
+        model: config.openAIModel,
+      });
+    case 'mock':
+      return localOcr;
+    case 'http':
+    default:
+      return createHttpOcrEngine(config.httpBaseUrl);
+  }
+}
+
+/**
+ * How web pages are fetched.  The offline provider has no server, so pages
+ * are fetched from the browser.
+ */
+export function createPageFetcher(config: AIConfig): PageFetcher {
+  return config.provider === 'mock' || !config.fetchProxyUrl.trim() ? directFetcher : createProxyFetcher(config.fetchProxyUrl);
+}
+
+/**
+ * Where YouTube captions and audio come from.  The offline provider reads
+ * fixtures served by the dev server, and asks the backend for videos there
+ * is no fixture for.
+ */
+export function createYouTubeAdapter(config: AIConfig): YouTubeAdapter {
+  const backend = createHttpYouTubeAdapter(config.youtubeBaseUrl);
+  return config.provider === 'mock' ? createFixtureYouTubeAdapter(undefined, backend) : backend;
+}
@@ -0,0 +1,109 @@
+/*
+ * Citation helpers.
+ *
+ * Providers return citations in different shapes: the backend may send
+ * bare source ids, a local model writes `[source:<id>]` or `[P<n>]`
+ * (retrieved passage) markers into its answer, and the offline provider
+ * knows the exact passages it used.  The functions here normalise all of
+ * them into `Citation` objects with inline `[n]` markers, and resolve a
+ * citation to the passage of the source it points at so the UI can
+ * highlight it.
+ */
+
+import { Citation, Source } from '../types';
+import { Passage } from './retrieval';
+
+/**
+ * A citation resolved against the notebook's current sources.  `source` is
+ * null when the cited source no longer exists.  `start`/`end` are set when
+ * the cited passage could be located in the source's content.
+ */
+export interface ResolvedCitation {
+  citation: Citation;
+  source: Source | null;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Coerce citations from a provider response into `Citation` objects.  Plain
+ * strings are treated as source ids; entries without an index are numbered
+ * in order.
+ */
+export function normalizeCitations(raw: unknown): Citation[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((entry, i): Citation | null => {
+      if (typeof entry === 'string') return { index: i + 1, sourceId: entry };
+      if (entry && typeof entry === 'object' && typeof entry.sourceId === 'string') {
+        return { ...entry, index: typeof entry.index === 'number' ? entry.index : i + 1 } as Citation;
+      }
+      return null;
+    })
+    .filter((c): c is Citation => c !== null);
+}
+
+/**
+ * Replace `[P<n>]` markers that refer to retrieved passages (and any
+ * `[source:<id>]` markers) with numbered `[n]` markers.  Passage citations
+ * carry the passage's character range and a snippet, so they can be
+ * highlighted precisely.
+ */
+export function numberPassageMarkers(text: string, passages: Passage[] = []): { text: string; citations: Citation[] } {
+  const citations: Citation[] = [];
+  const byKey = new Map<string, Citation>();
+  const cite = (key: string, make: () => Omit<Citation, 'index'>) => {
+    let citation = byKey.get(key);
+    if (!citation) {
+      citation = { index: citations.length + 1, ...make() };
+      byKey.set(key, citation);
+      citations.push(citation);
+    }
+    return `[${citation.index}]`;
+  };
+  const numbered = text.replace(/\[(?:P(\d+)|source:([^\]]+))\]/g, (match, passageNo?: string, sourceId?: string) => {
+    if (sourceId) return cite(`s:${sourceId.trim()}`, () => ({ sourceId: sourceId.trim() }));
+    const passage = passages[Number(passageNo) - 1];
+    if (!passage) return match;
+    return cite(`p:${passageNo}`, () => ({
+      sourceId: passage.sourceId,
+      start: passage.start,
+      end: passage.end,
+      snippet: passage.text.length > 200 ? `${passage.text.slice(0, 197)}…` : passage.text,
+    }));
+  });
+  return { text: numbered, citations };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find a quoted snippet in a source's content.  Whitespace differences
+ * (line breaks, repeated spaces) between the quote and the source are
+ * tolerated.  Returns null when the snippet cannot be found.
+ */
+export function locateSnippet(content: string, snippet: string): { start: number; end: number } | null {
+  const trimmed = snippet.trim();
+  if (!trimmed) return null;
+  const exact = content.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+  const pattern = trimmed.split(/\s+/).map(escapeRegExp).join('\\s+');
+  const match = new RegExp(pattern, 'i').exec(content);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Resolve a citation against the notebook's sources.
+ */
+export function resolveCitation(citation: Citation, sources: Source[]): ResolvedCitation {
+  const source = sources.find((s) => s.id === citation.sourceId) || null;
+  if (!source) return { citation, source: null };
+  const { start, end } = citation;
+  if (typeof start === 'number' && typeof end === 'number' && start >= 0 && end <= source.content.length && start < end) {
+    return { citation, source, start, end };
+  }
+  const located = citation.snippet ? locateSnippet(source.content, citation.snippet) : null;
+  return located ? { citation, source, ...located } : { citation, source };
+}
@@ -0,0 +1,145 @@
+/*
+ * Writing drafts and critique rounds.
+ *
+ * A draft keeps every version of its text.  The latest version is edited in
+ * place until it is critiqued; from then on it is frozen together with its
+ * feedback and further edits start a new version, so each round of
+ * critique stays attached to the exact text it was given on.  The AI
+ * provider returns comments that quote the passage they are about; the
+ * quotes are anchored here to character ranges of the critiqued text.
+ * These helpers return updated drafts and never modify their arguments.
+ */
+
+import { CritiqueComment, CritiqueRound, DraftVersion, Notebook, WritingDraft } from '../types';
+import { AIProvider, CritiqueFinding } from './ai';
+
+export function createDraft(title = 'Untitled draft', text = ''): WritingDraft {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title,
+    versions: [{ id: crypto.randomUUID(), text, createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function latestVersion(draft: WritingDraft): DraftVersion {
+  return draft.versions[draft.versions.length - 1];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find a quoted passage in a text.  Exact matches are preferred; otherwise
+ * case and runs of whitespace are ignored.  Returns null when the passage
+ * does not occur in the text.
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const exact = text.indexOf(trimmed);
+  if (exact >= 0) return { start: exact, end: exact + trimmed.length };
+  const pattern = new RegExp(trimmed.split(/\s+/).map(escapeRegExp).join('\\s+'), 'i');
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Turn the provider's findings into comments anchored to `text`.  Findings
+ * whose quote cannot be found become comments on the whole text.
+ */
+export function anchorComments(text: string, findings: CritiqueFinding[]): CritiqueComment[] {
+  return findings.map((finding) => {
+    const range = locateQuote(text, finding.quote);
+    return {
+      id: crypto.randomUUID(),
+      start: range ? range.start : -1,
+      end: range ? range.end : -1,
+      quote: finding.quote,
+      comment: finding.comment,
+      kind: finding.kind,
+      replacement: finding.replacement,
+      evidence: finding.evidence || [],
+      status: 'open',
+    };
+  });
+}
+
+function withVersions(draft: WritingDraft, versions: DraftVersion[]): WritingDraft {
+  return { ...draft, versions, updatedAt: Date.now() };
+}
+
+/**
+ * Replace the draft's current text.  Edits to a critiqued version start a
+ * new version.
+ */
+export function editDraft(draft: WritingDraft, text: string): WritingDraft {
+  const latest = latestVersion(draft);
+  if (latest.text === text) return draft;
+  if (latest.critique) {
+    return withVersions(draft, [...draft.versions, { id: crypto.randomUUID(), text, createdAt: Date.now() }]);
+  }
+  return withVersions(draft, [...draft.versions.slice(0, -1), { ...latest, text }]);
+}
+
+/**
+ * Start a new, editable version from the draft's current text.
+ */
+export function branchDraft(draft: WritingDraft): WritingDraft {
+  const { text } = latestVersion(draft);
+  return withVersions(draft, [...draft.versions, { id: crypto.randomUUID(), text, createdAt: Date.now() }]);
+}
+
+/**
+ * Ask the AI provider to critique the draft's current text.  The round is
+ * attached to the latest version; if that version already has a critique,
+ * the text is copied into a new version for the new round.
+ */
+export async function critiqueDraft(ai: AIProvider, notebook: Notebook, draft: WritingDraft): Promise<WritingDraft> {
+  const latest = latestVersion(draft);
+  if (!latest.text.trim()) throw new Error('Write something before asking for a critique.');
+  const result = await ai.critiqueText(notebook, latest.text);
+  const round: CritiqueRound = {
+    createdAt: Date.now(),
+    summary: result.critique,
+    comments: anchorComments(latest.text, result.comments),
+  };
+  const version: DraftVersion = latest.critique
+    ? { id: crypto.randomUUID(), text: latest.text, createdAt: Date.now(), critique: round }
+    : { ...latest, critique: round };
+  return withVersions(draft, latest.critique ? [...draft.versions, version] : [...draft.versions.slice(0, -1), version]);
+}
+
+/**
+ * Accept or dismiss a comment.  Accepting a comment that suggests a
+ * replacement also applies it to the current text, where the quoted passage
+ * is looked up again since the text may have changed since the critique.
+ * `applied` tells whether a replacement was made.
+ */
+export function resolveComment(
+  draft: WritingDraft,
+  versionId: string,
+  commentId: string,
+  status: CritiqueComment['status']
+): { draft: WritingDraft; applied: boolean } {
+  const versions = draft.versions.map((v) =>
+    v.id === versionId && v.critique
+      ? {
+          ...v,
+          critique: { ...v.critique, comments: v.critique.comments.map((c) => (c.id === commentId ? { ...c, status } : c)) },
+        }
+      : v
+  );
+  let updated = withVersions(draft, versions);
+  const comment = versions.find((v) => v.id === versionId)?.critique?.comments.find((c) => c.id === commentId);
+  if (status !== 'accepted' || comment?.replacement === undefined) return { draft: updated, applied: false };
+
+  const text = latestVersion(updated).text;
+  const range = locateQuote(text, comment.quote);
+  if (!range) return { draft: updated, applied: false };
+  updated = editDraft(updated, text.slice(0, range.start) + comment.replacement + text.slice(range.end));
+  return { draft: updated, applied: true };
+}
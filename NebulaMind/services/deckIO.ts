@@ -0,0 +1,504 @@
+/*
+ * Import and export of flashcard decks.
+ *
+ * Decks can be exported as CSV, TSV, Quizlet-style text (term and
+ * definition separated by a tab, one card per line) or as an Anki package
+ * (.apkg) containing a legacy (schema 11) SQLite collection, which every
+ * current Anki version imports.  The importers turn each format into an
+ * `ImportTable` of named fields, which the user maps onto question and
+ * answer.  Everything runs in the client; no server round trip is needed.
+ */
+
+import { Flashcard, ReviewState } from '../types';
+import { FlashcardDeck } from './flashcards';
+import { SqlValue, TableDefinition, readTable, writeDatabase } from './sqlite';
+import { createZip, readZip } from './zip';
+
+export type DeckFormat = 'csv' | 'tsv' | 'quizlet' | 'apkg';
+
+export const DECK_FORMATS: { format: DeckFormat; label: string; extension: string }[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv' },
+  { format: 'tsv', label: 'TSV', extension: 'tsv' },
+  { format: 'quizlet', label: 'Quizlet text', extension: 'txt' },
+  { format: 'apkg', label: 'Anki package', extension: 'apkg' },
+];
+
+/** Separators of Quizlet's text import/export. */
+export interface QuizletSeparators {
+  term: string;
+  row: string;
+}
+
+export const QUIZLET_DEFAULTS: QuizletSeparators = { term: '\t', row: '\n' };
+
+/**
+ * Rows read from an import file, before they are mapped onto cards.
+ * `fields` names the columns offered for mapping.
+ */
+export interface ImportTable {
+  fields: string[];
+  rows: string[][];
+  /** Scheduling state by row index, when the file carries it (Anki). */
+  reviews?: (ReviewState | undefined)[];
+  /** Deck name suggested by the file, if any. */
+  deckName?: string;
+}
+
+/** Which import field becomes the question and which the answer. */
+export interface FieldMapping {
+  question: number;
+  answer: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUESTION_FIELDS = ['question', 'front', 'term', 'prompt', 'q'];
+const ANSWER_FIELDS = ['answer', 'back', 'definition', 'response', 'a'];
+
+export function formatForFile(fileName: string): DeckFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'apkg') return 'apkg';
+  if (ext === 'tsv') return 'tsv';
+  if (ext === 'txt') return 'quizlet';
+  return 'csv';
+}
+
+export function exportFileName(deck: FlashcardDeck, format: DeckFormat): string {
+  const base = deck.title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'flashcards';
+  return `${base}.${DECK_FORMATS.find((f) => f.format === format)!.extension}`;
+}
+
+// ---------------------------------------------------------------------------
+// Delimited text (CSV / TSV)
+
+/**
+ * Parse delimited text as RFC 4180 does: fields may be quoted, quoted
+ * fields may contain delimiters and line breaks, and `""` is an escaped
+ * quote.  Blank lines are dropped.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let wasQuoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"' && field === '' && !wasQuoted) {
+      quoted = wasQuoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+      wasQuoted = false;
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      wasQuoted = false;
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+function formatDelimited(rows: string[][], delimiter: string): string {
+  const quote = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim()
+      ? `"${field.replace(/"/g, '""')}"`
+      : field;
+  return rows.map((row) => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/** Whether the first row of a delimited file looks like column names. */
+export function looksLikeHeader(row: string[] | undefined): boolean {
+  if (!row) return false;
+  const known = [...QUESTION_FIELDS, ...ANSWER_FIELDS];
+  return row.some((f) => known.includes(f.trim().toLowerCase()));
+}
+
+export function parseDelimitedTable(text: string, delimiter: string, hasHeader: boolean): ImportTable {
+  const rows = parseDelimited(text, delimiter);
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  const header = hasHeader ? rows.shift() || [] : [];
+  const fields = Array.from({ length: width }, (_, i) => header[i]?.trim() || `Column ${i + 1}`);
+  return { fields, rows };
+}
+
+// ---------------------------------------------------------------------------
+// Quizlet text
+
+export function parseQuizlet(text: string, separators: QuizletSeparators = QUIZLET_DEFAULTS): ImportTable {
+  const rows = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n/g, '\n')
+    .split(separators.row)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const at = line.indexOf(separators.term);
+      return at === -1 ? [line.trim(), ''] : [line.slice(0, at).trim(), line.slice(at + separators.term.length).trim()];
+    });
+  return { fields: ['Term', 'Definition'], rows };
+}
+
+// Quizlet has no quoting, so separators inside a field are replaced by
+// spaces.
+function formatQuizlet(cards: Flashcard[], separators: QuizletSeparators): string {
+  const clean = (text: string) => text.split(separators.row).join(' ').split(separators.term).join(' ');
+  return cards.map((c) => `${clean(c.question)}${separators.term}${clean(c.answer)}`).join(separators.row);
+}
+
+// ---------------------------------------------------------------------------
+// Anki packages
+
+const ANKI_SCHEMA: Omit<TableDefinition, 'rows'>[] = [
+  {
+    name: 'col',
+    sql: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  },
+  {
+    name: 'notes',
+    sql: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+    indexes: [
+      { name: 'ix_notes_usn', sql: 'CREATE INDEX ix_notes_usn on notes (usn)', columns: ['usn'] },
+      { name: 'ix_notes_csum', sql: 'CREATE INDEX ix_notes_csum on notes (csum)', columns: ['csum'] },
+    ],
+  },
+  {
+    name: 'cards',
+    sql: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+    indexes: [
+      { name: 'ix_cards_usn', sql: 'CREATE INDEX ix_cards_usn on cards (usn)', columns: ['usn'] },
+      { name: 'ix_cards_nid', sql: 'CREATE INDEX ix_cards_nid on cards (nid)', columns: ['nid'] },
+      { name: 'ix_cards_sched', sql: 'CREATE INDEX ix_cards_sched on cards (did, queue, due)', columns: ['did', 'queue', 'due'] },
+    ],
+  },
+  {
+    name: 'revlog',
+    sql: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+    indexes: [
+      { name: 'ix_revlog_usn', sql: 'CREATE INDEX ix_revlog_usn on revlog (usn)', columns: ['usn'] },
+      { name: 'ix_revlog_cid', sql: 'CREATE INDEX ix_revlog_cid on revlog (cid)', columns: ['cid'] },
+    ],
+  },
+  {
+    name: 'graves',
+    sql: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+  },
+];
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+async function sha1Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function ankiModel(id: number, deckId: number, mod: number) {
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] });
+  return {
+    id,
+    name: 'NebulaMind Basic',
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    flds: [field('Front', 0), field('Back', 1)],
+    css: '.card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n',
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function ankiDeck(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  };
+}
+
+const ANKI_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+  lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+};
+
+async function exportApkg(deck: FlashcardDeck): Promise<Blob> {
+  const now = Date.now();
+  const mod = Math.floor(now / 1000);
+  const modelId = now;
+  const deckId = now + 1;
+  // Review due dates are stored as days since the collection was created,
+  // so create it on the day of the earliest review to keep them positive.
+  const reviewed = deck.content.cards.filter((c) => c.review && c.review.interval >= 1);
+  const crtDay = new Date(Math.min(now, ...reviewed.map((c) => c.review!.due)));
+  crtDay.setHours(0, 0, 0, 0);
+  const crt = Math.floor(crtDay.getTime() / 1000);
+
+  const notes: SqlValue[][] = [];
+  const cards: SqlValue[][] = [];
+  for (const [i, card] of deck.content.cards.entries()) {
+    const id = now + i;
+    const front = escapeHtml(card.question);
+    const csum = parseInt((await sha1Hex(card.question.trim())).slice(0, 8), 16);
+    // A guid derived from the card id lets Anki update, rather than
+    // duplicate, cards that are exported again.
+    const guid = (await sha1Hex(`nebulamind:${card.id}`)).slice(0, 10);
+    notes.push([id, guid, modelId, mod, -1, '', `${front}\u001f${escapeHtml(card.answer)}`, card.question, csum, 0, '']);
+
+    const review = card.review && card.review.interval >= 1 ? card.review : undefined;
+    cards.push([
+      id,
+      id,
+      deckId,
+      0,
+      mod,
+      -1,
+      review ? 2 : 0, // type: review / new
+      review ? 2 : 0, // queue
+      review ? Math.round((review.due - crt * 1000) / DAY_MS) : i + 1,
+      review ? review.interval : 0,
+      review ? Math.round(review.ease * 1000) : 0,
+      review ? review.reps : 0,
+      review ? review.lapses : 0,
+      0,
+      0,
+      0,
+      0,
+      '',
+    ]);
+  }
+
+  const conf = {
+    nextPos: deck.content.cards.length + 1,
+    estTimes: true,
+    activeDecks: [1],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: 1,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: String(modelId),
+    collapseTime: 1200,
+  };
+  const col: SqlValue[] = [
+    1,
+    crt,
+    mod * 1000,
+    mod * 1000,
+    11,
+    0,
+    0,
+    0,
+    JSON.stringify(conf),
+    JSON.stringify({ [modelId]: ankiModel(modelId, deckId, mod) }),
+    JSON.stringify({ 1: ankiDeck(1, 'Default', mod), [deckId]: ankiDeck(deckId, deck.title || 'Flashcards', mod) }),
+    JSON.stringify({ 1: ANKI_DECK_CONFIG }),
+    '{}',
+  ];
+
+  const rowsByTable: Record<string, SqlValue[][]> = { col: [col], notes, cards, revlog: [], graves: [] };
+  const collection = writeDatabase(ANKI_SCHEMA.map((table) => ({ ...table, rows: rowsByTable[table.name] })));
+  return createZip([
+    { name: 'collection.anki2', data: collection },
+    { name: 'media', data: new TextEncoder().encode('{}') },
+  ]);
+}
+
+function rowsAsObjects(table: { columns: string[]; rows: SqlValue[][] }): Record<string, SqlValue>[] {
+  return table.rows.map((row) => Object.fromEntries(table.columns.map((c, i) => [c, row[i]])));
+}
+
+/**
+ * Read an Anki package.  Notes become rows whose fields are named after
+ * the note type's fields; the scheduling state of each note's first card is
+ * carried over.
+ */
+export async function parseApkg(data: Uint8Array): Promise<ImportTable> {
+  const entries = await readZip(data);
+  const byName = new Map(entries.map((e) => [e.name, e.data]));
+  const collection = byName.get('collection.anki21') || byName.get('collection.anki2');
+  if (!collection) throw new Error('This file does not contain an Anki collection.');
+  if (byName.has('collection.anki21b') && !byName.has('collection.anki21')) {
+    throw new Error('This package uses the newest Anki format. Export it again with "Support older Anki versions" enabled.');
+  }
+
+  const [col] = rowsAsObjects(readTable(collection, 'col'));
+  const models: Record<string, { flds: { name: string; ord: number }[] }> = JSON.parse(String(col?.models || '{}'));
+  const decks: Record<string, { name: string }> = JSON.parse(String(col?.decks || '{}'));
+  const crt = Number(col?.crt || 0);
+  const notes = rowsAsObjects(readTable(collection, 'notes'));
+  const cards = rowsAsObjects(readTable(collection, 'cards'));
+
+  const firstCard = new Map<number, Record<string, SqlValue>>();
+  for (const card of cards) {
+    const current = firstCard.get(card.nid as number);
+    if (!current || (card.ord as number) < (current.ord as number)) firstCard.set(card.nid as number, card);
+  }
+
+  const model = notes.length ? models[String(notes[0].mid)] : undefined;
+  const modelFields = model ? [...model.flds].sort((a, b) => a.ord - b.ord).map((f) => f.name) : [];
+  const rows = notes.map((note) => String(note.flds).split('\u001f').map(htmlToText));
+  const width = Math.max(modelFields.length, ...rows.map((r) => r.length));
+  const fields = Array.from({ length: width }, (_, i) => modelFields[i] || `Field ${i + 1}`);
+
+  const reviews = notes.map((note): ReviewState | undefined => {
+    const card = firstCard.get(note.id as number);
+    if (!card || card.type !== 2) return undefined;
+    const interval = Number(card.ivl);
+    const due = (crt + Number(card.due) * 86400) * 1000;
+    return {
+      ease: Number(card.factor) / 1000 || 2.5,
+      interval,
+      due,
+      lapses: Number(card.lapses),
+      reps: Number(card.reps),
+      lastReviewed: due - interval * DAY_MS,
+    };
+  });
+
+  const deckIds = new Set(cards.map((c) => String(c.did)));
+  const deckName = deckIds.size === 1 ? decks[Array.from(deckIds)[0]]?.name : undefined;
+  return { fields, rows, reviews, deckName: deckName && deckName !== 'Default' ? deckName : undefined };
+}
+
+// ---------------------------------------------------------------------------
+// Mapping and duplicates
+
+export function guessMapping(fields: string[]): FieldMapping {
+  const find = (names: string[]) => fields.findIndex((f) => names.includes(f.trim().toLowerCase()));
+  const question = find(QUESTION_FIELDS);
+  const answer = find(ANSWER_FIELDS);
+  return {
+    question: question >= 0 ? question : 0,
+    answer: answer >= 0 ? answer : Math.min(1, fields.length - 1),
+  };
+}
+
+/**
+ * Turn imported rows into new cards.  Rows with neither a question nor an
+ * answer are skipped.
+ */
+export function mapRows(table: ImportTable, mapping: FieldMapping): Flashcard[] {
+  return table.rows.flatMap((row, i) => {
+    const question = (row[mapping.question] || '').trim();
+    const answer = (row[mapping.answer] || '').trim();
+    if (!question && !answer) return [];
+    const review = table.reviews?.[i];
+    return [{ id: crypto.randomUUID(), question, answer, ...(review ? { review } : {}) }];
+  });
+}
+
+/**
+ * Key used to detect duplicate cards: the question, ignoring case,
+ * punctuation and whitespace differences.
+ */
+export function cardKey(card: Pick<Flashcard, 'question'>): string {
+  return card.question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Ids of the incoming cards that duplicate an existing card or an earlier
+ * incoming card.
+ */
+export function findDuplicates(incoming: Flashcard[], existing: Flashcard[]): Set<string> {
+  const seen = new Set(existing.map(cardKey));
+  const duplicates = new Set<string>();
+  for (const card of incoming) {
+    const key = cardKey(card);
+    if (seen.has(key)) duplicates.add(card.id);
+    seen.add(key);
+  }
+  return duplicates;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+export async function exportDeck(
+  deck: FlashcardDeck,
+  format: DeckFormat,
+  separators: QuizletSeparators = QUIZLET_DEFAULTS
+): Promise<Blob> {
+  const cards = deck.content.cards;
+  if (format === 'apkg') return exportApkg(deck);
+  if (format === 'quizlet') return new Blob([formatQuizlet(cards, separators)], { type: 'text/plain' });
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const rows = [['Question', 'Answer'], ...cards.map((c) => [c.question, c.answer])];
+  return new Blob([formatDelimited(rows, delimiter)], {
+    type: format === 'tsv' ? 'text/tab-separated-values' : 'text/csv',
+  });
+}
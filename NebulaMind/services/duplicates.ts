@@ -0,0 +1,318 @@
+/*
+ * Spotting sources that are already in a notebook.
+ *
+ * Every source is fingerprinted when it is added: a SHA-256 hash of its
+ * normalised content finds exact copies, a normalised address finds the same
+ * page or video added twice, and a 64-bit simhash over three-word shingles
+ * finds near-duplicates, such as two versions of a paper or a page that was
+ * fetched again after a small edit.  Near-duplicate fingerprints differ in
+ * only a few bits, so they are compared by Hamming distance.
+ *
+ * Merging a group of duplicates keeps one copy.  Citations of exact copies,
+ * in chats, notes, quizzes, deck and quiz scopes and writing critiques, are
+ * moved to the copy that is kept, since they quote the same text.
+ */
+
+import { Notebook, Source } from '../types';
+import { tokenize } from './retrieval';
+import {
+  Retarget,
+  renameScopes,
+  retargetAttempt,
+  retargetDraft,
+  retargetNote,
+  retargetNotebook,
+  retargetThread,
+} from './sourceRefs';
+import {
+  addQuizAttempt,
+  getChatThreads,
+  getDrafts,
+  getNotes,
+  getQuizAttempts,
+  saveChatThread,
+  saveDraft,
+  saveNote,
+} from './storage';
+import { parseYouTubeUrl } from './youtube';
+
+export type DuplicateKind = 'exact' | 'url' | 'near';
+
+export interface DuplicateMatch {
+  source: Source;
+  kind: DuplicateKind;
+}
+
+/** Sources that are duplicates of each other, oldest first. */
+export interface DuplicateGroup {
+  sources: Source[];
+  /** The strongest reason any two of them were grouped. */
+  kind: DuplicateKind;
+}
+
+/** How each kind of duplicate is described to the user. */
+export const DUPLICATE_LABELS: Record<DuplicateKind, string> = {
+  exact: 'Same content',
+  url: 'Same address',
+  near: 'Nearly the same text',
+};
+
+/**
+ * A short description of what a source duplicates, for warnings.
+ */
+export function describeDuplicates(matches: DuplicateMatch[]): string {
+  const [first] = matches;
+  const more = matches.length > 1 ? ` and ${matches.length - 1} more` : '';
+  return `"${first.source.title}"${more} (${DUPLICATE_LABELS[first.kind].toLowerCase()})`;
+}
+
+// Simhashes at most this many bits apart are near-duplicates.
+const NEAR_DISTANCE = 4;
+// Below this many words the shingles are too few for a meaningful simhash.
+const MIN_WORDS = 40;
+const SHINGLE_SIZE = 3;
+
+// Query parameters that track where a link was shared, not what it shows.
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|si)$/i;
+
+/**
+ * A canonical form of a web address: no scheme, `www.` or fragment,
+ * tracking parameters removed and the rest sorted, and no trailing slash.
+ * YouTube links become `youtube:{id}` whatever their form.  Undefined for
+ * anything that is not an http(s) address.
+ */
+export function normalizeUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return undefined;
+  const video = parseYouTubeUrl(url);
+  if (video) return `youtube:${video}`;
+
+  const host = parsed.host.toLowerCase().replace(/^(www|m)\./, '');
+  const path = parsed.pathname.replace(/\/(index\.html?)?$/i, '') || '';
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = new URLSearchParams(params).toString();
+  return `${host}${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * The address a source was read from, in canonical form.  Web pages use
+ * their canonical URL when they declare one.
+ */
+export function sourceUrl(source: Pick<Source, 'type' | 'metadata'>): string | undefined {
+  const m = source.metadata;
+  if (!m || (source.type !== 'website' && source.type !== 'youtube')) return undefined;
+  return normalizeUrl(m.canonicalUrl || m.url || m.originalUrl || '');
+}
+
+// Case, accents in composed or decomposed form, and runs of whitespace do
+// not make two texts different.
+const normalizeText = (text: string) => text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export async function contentHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeText(text)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 32-bit FNV-1a, seeded so that two seeds give the two halves of a 64-bit hash.
+function fnv1a(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * 64-bit simhash of the text's three-word shingles, as 16 hex digits, or
+ * undefined when the text is too short to compare.
+ */
+export function simhash(text: string): string | undefined {
+  const words = tokenize(text);
+  if (words.length < MIN_WORDS) return undefined;
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x01000193)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+  const half = (from: number) =>
+    weights
+      .slice(from, from + 32)
+      .reduce((acc, w, bit) => (w > 0 ? acc | (1 << bit) : acc), 0) >>> 0;
+  return [half(32), half(0)].map((h) => h.toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Number of bits in which two simhashes differ.
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    for (; x; x &= x - 1) distance++;
+  }
+  return distance;
+}
+
+/**
+ * The source with its fingerprints filled in.
+ */
+export async function fingerprintSource(source: Source): Promise<Source> {
+  const normalizedUrl = sourceUrl(source);
+  return {
+    ...source,
+    contentHash: await contentHash(source.content),
+    simhash: simhash(source.content),
+    ...(normalizedUrl ? { normalizedUrl } : {}),
+  };
+}
+
+/**
+ * How `a` duplicates `b`, if it does.  Both must have been fingerprinted.
+ */
+export function compareSources(a: Source, b: Source): DuplicateKind | null {
+  if (a.contentHash && a.contentHash === b.contentHash) return 'exact';
+  if (a.normalizedUrl && a.normalizedUrl === b.normalizedUrl) return 'url';
+  if (a.simhash && b.simhash && hammingDistance(a.simhash, b.simhash) <= NEAR_DISTANCE) return 'near';
+  return null;
+}
+
+const STRENGTH: Record<DuplicateKind, number> = { exact: 3, url: 2, near: 1 };
+
+/**
+ * The sources a new source duplicates, strongest match first.
+ */
+export function findDuplicates(source: Source, sources: Source[]): DuplicateMatch[] {
+  return sources
+    .filter((s) => s.id !== source.id)
+    .map((s) => ({ source: s, kind: compareSources(source, s) }))
+    .filter((m): m is DuplicateMatch => m.kind !== null)
+    .sort((a, b) => STRENGTH[b.kind] - STRENGTH[a.kind]);
+}
+
+/**
+ * Group a notebook's sources into sets of duplicates.  Duplication is
+ * treated as transitive, so a page and two slightly different copies of it
+ * form one group even if the copies differ more from each other.
+ */
+export function groupDuplicates(sources: Source[]): DuplicateGroup[] {
+  const parent = sources.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const kinds = new Map<number, DuplicateKind>();
+
+  for (let i = 0; i < sources.length; i++) {
+    for (let j = i + 1; j < sources.length; j++) {
+      const kind = compareSources(sources[i], sources[j]);
+      if (!kind) continue;
+      const [a, b] = [root(i), root(j)];
+      const strongest = [kind, kinds.get(a), kinds.get(b)]
+        .filter((k): k is DuplicateKind => !!k)
+        .sort((x, y) => STRENGTH[y] - STRENGTH[x])[0];
+      parent[b] = a;
+      kinds.set(a, strongest);
+    }
+  }
+
+  const groups = new Map<number, Source[]>();
+  sources.forEach((source, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), source]));
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([r, members]) => ({ sources: members.sort((a, b) => a.createdAt - b.createdAt), kind: kinds.get(r)! }));
+}
+
+/**
+ * Merge duplicates into the source that is kept.  Its content and metadata
+ * stay as they are, since page and timestamp ranges only fit its own
+ * content; where the others came from is recorded in `mergedFrom`.
+ */
+export function mergeSources(keep: Source, others: Source[]): Source {
+  const origins = others.map((s) => ({
+    title: s.title,
+    ...(s.metadata?.originalUrl ? { originalUrl: s.metadata.originalUrl } : {}),
+    ...(s.metadata?.filename ? { filename: s.metadata.filename } : {}),
+    createdAt: s.createdAt,
+  }));
+  return { ...keep, metadata: { ...keep.metadata, mergedFrom: [...(keep.metadata?.mergedFrom ?? []), ...origins] } };
+}
+
+// Records stored outside the notebook that cite its sources.
+async function citingRecords(notebookId: string) {
+  const [threads, notes, attempts, drafts] = await Promise.all([
+    getChatThreads(notebookId),
+    getNotes(notebookId),
+    getQuizAttempts(notebookId),
+    getDrafts(notebookId),
+  ]);
+  return { threads, notes, attempts, drafts };
+}
+
+/**
+ * The sources among `sources` that are cited anywhere in the notebook: in
+ * chats, notes, quizzes and their attempts, or writing critiques.
+ */
+export async function citedSources(notebook: Notebook, sources: Source[]): Promise<Source[]> {
+  const cited = new Set<string>();
+  const record: Retarget = (ref) => {
+    cited.add(ref.sourceId);
+    return ref;
+  };
+  const { threads, notes, attempts, drafts } = await citingRecords(notebook.id);
+  retargetNotebook(notebook, record);
+  threads.forEach((t) => retargetThread(t, record));
+  notes.forEach((n) => retargetNote(n, record));
+  attempts.forEach((a) => retargetAttempt(a, record));
+  drafts.forEach((d) => retargetDraft(d, record));
+  return sources.filter((s) => cited.has(s.id));
+}
+
+// Point references to `copies` at `keep` instead.  Offsets into a copy
+// whose text differs from the kept one in case or spacing may not fit it,
+// so they are dropped and the passage is found by its snippet.
+function retargetCopies(keep: Source, copies: Source[]): Retarget {
+  const moved = new Map(copies.map((s) => [s.id, s]));
+  return (ref) => {
+    const copy = moved.get(ref.sourceId);
+    if (!copy) return ref;
+    if (copy.content === keep.content) return { ...ref, sourceId: keep.id };
+    const { start: _start, end: _end, page: _page, ...rest } = ref;
+    return { ...rest, sourceId: keep.id } as typeof ref;
+  };
+}
+
+/**
+ * Return a copy of the notebook with the quiz questions and the deck and
+ * quiz scopes that refer to `copies` referring to `keep` instead.
+ */
+export function moveCitations(notebook: Notebook, keep: Source, copies: Source[]): Notebook {
+  const ids = new Set(copies.map((s) => s.id));
+  const moved = retargetNotebook(notebook, retargetCopies(keep, copies));
+  return renameScopes(moved, (id) => (ids.has(id) ? keep.id : id));
+}
+
+/**
+ * Move the stored chat, note, quiz attempt and draft citations of `copies`
+ * to `keep`.
+ */
+export async function moveStoredCitations(notebookId: string, keep: Source, copies: Source[]): Promise<void> {
+  if (copies.length === 0) return;
+  const fn = retargetCopies(keep, copies);
+  const changed = <T>(records: T[], retarget: (record: T, fn: Retarget) => T) =>
+    records.map((r) => retarget(r, fn)).filter((r, i) => r !== records[i]);
+  const { threads, notes, attempts, drafts } = await citingRecords(notebookId);
+  await Promise.all([
+    ...changed(threads, retargetThread).map((t) => saveChatThread(notebookId, t)),
+    ...changed(notes, retargetNote).map((n) => saveNote(notebookId, n)),
+    ...changed(attempts, retargetAttempt).map((a) => addQuizAttempt(notebookId, a)),
+    ...changed(drafts, retargetDraft).map((d) => saveDraft(notebookId, d)),
+  ]);
+}
@@ -0,0 +1,98 @@
+/*
+ * Turning failures into messages for the user.
+ *
+ * AI providers report failed HTTP requests through `requestError`, which
+ * maps the status code to a message that says what went wrong and what to
+ * do about it, and records whether trying again later can help.  Backend
+ * endpoints that explain failures in a JSON `error` field go through
+ * `responseError`, which adds the explanation.
+ * `describeError` produces the message shown for any caught error.
+ */
+
+/**
+ * A failed request to an AI service.  `retryable` is false when repeating
+ * the same request cannot succeed without the user changing something,
+ * such as an invalid API key.
+ */
+export interface RequestError extends Error {
+  status: number;
+  retryable: boolean;
+  /** True when the problem is likely fixed in the AI settings. */
+  settings: boolean;
+}
+
+function statusMessage(url: string, status: number, retryAfter: string | null): [string, boolean, boolean] {
+  if (status === 401 || status === 403) {
+    return [`The AI service refused the request (${status}). Check the API key in Settings.`, false, true];
+  }
+  if (status === 404) {
+    return [`The AI service has no endpoint at ${url}. Check the server address in Settings.`, false, true];
+  }
+  if (status === 408 || status === 504) {
+    return ['The AI service took too long to answer. Try again in a moment.', true, false];
+  }
+  if (status === 413) {
+    return ['The request was too large for the AI service. Try again with fewer or shorter sources.', false, false];
+  }
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    const wait = Number.isFinite(seconds) && seconds > 0 ? `in ${Math.ceil(seconds)} seconds` : 'in a moment';
+    return [`The AI service is receiving too many requests. Try again ${wait}.`, true, false];
+  }
+  if (status >= 500) {
+    return [`The AI service ran into a problem (${status}). Try again in a moment.`, true, false];
+  }
+  return [`Request to ${url} failed with status ${status}`, false, false];
+}
+
+/**
+ * Build the error thrown for a response that is not `ok`.  `detail` is the
+ * server's own explanation of the failure, if it gave one.
+ */
+export function requestError(url: string, res: Response, detail?: string): RequestError {
+  const [message, retryable, settings] = statusMessage(url, res.status, res.headers.get('Retry-After'));
+  const full = detail ? `${message.replace(/\.?$/, '.')} The server said: ${detail}` : message;
+  return Object.assign(new Error(full), { name: 'RequestError', status: res.status, retryable, settings });
+}
+
+/**
+ * `requestError` for a response whose JSON body may carry an `error` field.
+ */
+export async function responseError(url: string, res: Response): Promise<RequestError> {
+  const data = await res.json().catch(() => null);
+  return requestError(url, res, typeof data?.error === 'string' ? data.error : undefined);
+}
+
+export function isRequestError(err: unknown): err is RequestError {
+  return err instanceof Error && err.name === 'RequestError' && 'status' in err && typeof err.status === 'number';
+}
+
+/**
+ * False for errors that will recur if the same operation is repeated.
+ */
+export function isRetryable(err: unknown): boolean {
+  return isRequestError(err) ? err.retryable : true;
+}
+
+// `fetch` rejects with a TypeError when the server cannot be reached at all.
+function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError && /fetch|network|load failed/i.test(err.message);
+}
+
+/**
+ * The message to show for an error, or `fallback` when it has none.
+ */
+export function describeError(err: unknown, fallback: string): string {
+  if (isNetworkError(err)) {
+    return 'Could not reach the AI service. Check your connection and the server address in Settings.';
+  }
+  const message = typeof err === 'object' && err !== null && 'message' in err ? err.message : undefined;
+  return typeof message === 'string' && message ? message : fallback;
+}
+
+/**
+ * True when changing the AI settings is likely to fix the error.
+ */
+export function needsSettings(err: unknown): boolean {
+  return isRequestError(err) ? err.settings : isNetworkError(err);
+}
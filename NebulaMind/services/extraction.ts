@@ -0,0 +1,358 @@
+/*
+ * Extracting source content from uploaded files.
+ *
+ * An extractor turns a file into the text stored as the source's `content`
+ * and metadata describing how that text maps back onto the original, such
+ * as the character range of each PDF page or the time of each line of an
+ * audio transcript, so a passage can be traced to where it came from.
+ * Images are read with OCR and described by the AI provider, web pages are
+ * reduced to their article, and videos are read from their captions.
+ */
+
+import { Source } from '../types';
+import { AIProvider } from './ai';
+import { locateSnippet } from './citations';
+import { imageForModel, loadImage, thumbnail } from './images';
+import { OcrEngine } from './ocr';
+import { extractPdfText } from './pdf';
+import { extractArticle } from './readability';
+import { Transcriber, TranscriptSegment } from './transcription';
+import { PageFetcher } from './web';
+import { YouTubeAdapter, parseYouTubeUrl } from './youtube';
+
+export interface ExtractedContent {
+  content: string;
+  metadata: Record<string, any>;
+}
+
+export interface ExtractOptions {
+  password?: string;
+  /** Called as the file is read, e.g. with the number of pages done. */
+  onProgress?: (done: number, total: number) => void;
+  /** Reads the text of scanned PDF pages; without it they are skipped. */
+  ocr?: OcrEngine;
+}
+
+/** A page of a paged source and its character range in the content. */
+export interface PageRange {
+  page: number;
+  start: number;
+  end: number;
+}
+
+/** A line of a transcribed source and its character range in the content. */
+export interface TimedRange {
+  /** Start and end of the line in the recording, in seconds. */
+  time: number;
+  endTime: number;
+  speaker?: string;
+  start: number;
+  end: number;
+}
+
+export interface SourceHeading {
+  title: string;
+  level: number;
+  page?: number;
+  /** Offset of the heading in the content. */
+  start: number;
+}
+
+/**
+ * Extract the text of a PDF page by page.  Pages are separated by a blank
+ * line; `metadata.pages` records where each one starts and ends, and
+ * `metadata.scannedPages` lists pages that are images without a text
+ * layer.  Throws a `PasswordError` (see `pdfCrypto.ts`) when the PDF needs
+ * a password.
+ */
+export async function extractPdf(file: File, options: ExtractOptions = {}): Promise<ExtractedContent> {
+  const { ocr } = options;
+  const pdf = await extractPdfText(new Uint8Array(await file.arrayBuffer()), {
+    ...options,
+    ocr: ocr && ((image) => ocr.recognize(image)),
+  });
+
+  let content = '';
+  const pages: PageRange[] = [];
+  for (const page of pdf.pages) {
+    if (content && page.text) content += '\n\n';
+    const start = content.length;
+    content += page.text;
+    pages.push({ page: page.number, start, end: content.length });
+  }
+
+  const headings: SourceHeading[] = pdf.headings.map((heading) => {
+    const range = pages[heading.page - 1];
+    const found = range ? locateSnippet(content.slice(range.start, range.end), heading.title) : null;
+    return { ...heading, start: range ? range.start + (found?.start ?? 0) : 0 };
+  });
+
+  const scannedPages = pdf.pages.filter((p) => p.scanned && !p.ocr).map((p) => p.number);
+  if (!content.trim()) {
+    throw new Error(
+      scannedPages.length > 0
+        ? 'This PDF is a scan without a text layer, so there is no text to extract.'
+        : 'No text could be extracted from this PDF.'
+    );
+  }
+
+  return {
+    content,
+    metadata: {
+      pageCount: pdf.pages.length,
+      pages,
+      headings,
+      scannedPages,
+      ocrPages: pdf.pages.filter((p) => p.ocr).map((p) => p.number),
+      encrypted: pdf.encrypted,
+      ...(pdf.title ? { documentTitle: pdf.title } : {}),
+      ...(pdf.author ? { author: pdf.author } : {}),
+    },
+  };
+}
+
+// Lay out transcript segments as lines of content, each prefixed with its
+// speaker when known, and record where each line is.
+function transcriptContent(transcript: TranscriptSegment[]): { content: string; segments: TimedRange[] } {
+  let content = '';
+  const segments: TimedRange[] = [];
+  for (const segment of transcript) {
+    if (content) content += '\n';
+    const start = content.length;
+    content += segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+    segments.push({
+      time: segment.start,
+      endTime: segment.end,
+      ...(segment.speaker ? { speaker: segment.speaker } : {}),
+      start,
+      end: content.length,
+    });
+  }
+  return { content, segments };
+}
+
+/**
+ * Transcribe an audio file.  Each segment becomes a line of the content,
+ * prefixed with its speaker when the transcriber tells speakers apart;
+ * `metadata.segments` records the time and character range of each line,
+ * and `metadata.untranscribed` is set when the transcriber could not say
+ * what was spoken.  The file itself is kept as `metadata.audio` so it can be
+ * played back.
+ */
+export async function extractAudio(
+  file: File,
+  transcriber: Transcriber,
+  options: ExtractOptions = {}
+): Promise<ExtractedContent> {
+  const transcript = await transcriber.transcribe(file, { onProgress: options.onProgress });
+  const { content, segments } = transcriptContent(transcript.segments);
+  if (!content.trim()) throw new Error('No speech was found in this recording.');
+
+  const speakers = Array.from(new Set(segments.map((s) => s.speaker).filter((s): s is string => !!s)));
+  return {
+    content,
+    metadata: {
+      segments,
+      speakers,
+      audio: file,
+      mimeType: file.type,
+      ...(transcript.duration ? { duration: transcript.duration } : {}),
+      ...(transcript.language ? { language: transcript.language } : {}),
+      ...(transcript.untranscribed ? { untranscribed: true } : {}),
+    },
+  };
+}
+
+/**
+ * Read the transcript of a YouTube video from its captions or, when it has
+ * none, by transcribing its audio.  The content is laid out like an audio
+ * transcript; `metadata.transcript` says where it came from.
+ */
+export async function extractYouTube(
+  url: string,
+  adapter: YouTubeAdapter,
+  transcriber: Transcriber,
+  options: ExtractOptions = {}
+): Promise<ExtractedContent> {
+  const id = parseYouTubeUrl(url);
+  if (!id) throw new Error('This is not a link to a YouTube video.');
+  const video = await adapter.getVideo(id);
+
+  let transcript: TranscriptSegment[];
+  let untranscribed = false;
+  let language = video.captions?.language;
+  let origin: 'captions' | 'generatedCaptions' | 'transcribed';
+  if (video.captions?.segments.length) {
+    transcript = video.captions.segments;
+    origin = video.captions.generated ? 'generatedCaptions' : 'captions';
+  } else {
+    let audio: Blob;
+    try {
+      audio = await adapter.getAudio(id);
+    } catch (err: any) {
+      throw new Error(`This video has no captions, and its audio could not be downloaded for transcription. ${err?.message || ''}`.trim());
+    }
+    const transcribed = await transcriber.transcribe(audio, { onProgress: options.onProgress });
+    transcript = transcribed.segments;
+    untranscribed = !!transcribed.untranscribed;
+    language = transcribed.language;
+    origin = 'transcribed';
+  }
+
+  const { content, segments } = transcriptContent(transcript);
+  if (!content.trim()) throw new Error('This video has no speech to transcribe.');
+  return {
+    content,
+    metadata: {
+      originalUrl: url,
+      videoId: id,
+      documentTitle: video.title,
+      segments,
+      transcript: origin,
+      ...(video.channel ? { channel: video.channel } : {}),
+      ...(video.channelUrl ? { channelUrl: video.channelUrl } : {}),
+      ...(video.duration ? { duration: video.duration } : {}),
+      ...(video.thumbnail ? { thumbnail: video.thumbnail } : {}),
+      ...(language ? { language } : {}),
+      ...(untranscribed ? { untranscribed: true } : {}),
+    },
+  };
+}
+
+// Images with at least this many words of text are treated as text, such
+// as slides and screenshots, rather than as pictures.
+const TEXT_HEAVY_WORDS = 15;
+
+/**
+ * Read an image: its text is recognised with `ocr` and `ai` describes what
+ * it shows, which is what matters for diagrams and charts.  For text-heavy
+ * images the text comes first, otherwise the description.  Either step may
+ * fail on its own (an offline device without OCR, say); only when both do
+ * is the image rejected.  `metadata.thumbnail` is a small JPEG data URL.
+ */
+export async function extractImage(
+  file: File,
+  ocr: OcrEngine,
+  ai: AIProvider,
+  options: ExtractOptions = {}
+): Promise<ExtractedContent> {
+  const image = await loadImage(file);
+  const metadata: Record<string, any> = { width: image.width, height: image.height, thumbnail: thumbnail(image) };
+  const forModel = await imageForModel(file, image);
+  image.bitmap.close();
+
+  let done = 0;
+  const step = (promise: Promise<string>) => promise.finally(() => options.onProgress?.(++done, 2));
+  options.onProgress?.(0, 2);
+  const [text, description] = await Promise.allSettled([step(ocr.recognize(forModel)), step(ai.describeImage(forModel))]);
+  if (text.status === 'rejected' && description.status === 'rejected') throw text.reason;
+  if (text.status === 'rejected') console.warn('Could not read the text in the image', text.reason);
+  if (description.status === 'rejected') console.warn('Could not describe the image', description.reason);
+
+  const recognised = text.status === 'fulfilled' ? text.value.trim() : '';
+  const described = description.status === 'fulfilled' ? description.value.trim() : '';
+  const textHeavy = recognised.split(/\s+/).filter(Boolean).length >= TEXT_HEAVY_WORDS;
+  const parts = textHeavy
+    ? [recognised, described && `Description: ${described}`]
+    : [described, recognised && `Text in the image:\n${recognised}`];
+  const content = parts.filter(Boolean).join('\n\n');
+  if (!content) throw new Error('Nothing could be read from this image.');
+
+  return {
+    content,
+    metadata: {
+      ...metadata,
+      textHeavy,
+      ocr: text.status === 'fulfilled',
+      described: description.status === 'fulfilled',
+      ...(text.status === 'rejected' ? { ocrError: text.reason?.message || String(text.reason) } : {}),
+      ...(description.status === 'rejected' ? { descriptionError: description.reason?.message || String(description.reason) } : {}),
+    },
+  };
+}
+
+/**
+ * Fetch a web page and extract its article as markdown, with the page's
+ * title, author, publish date, canonical URL and language in the metadata.
+ * Plain-text pages are used as they are.
+ */
+export async function extractWebsite(url: string, fetcher: PageFetcher): Promise<ExtractedContent> {
+  const page = await fetcher.fetchPage(url);
+  const type = page.contentType.split(';')[0].trim().toLowerCase();
+  const metadata: Record<string, any> = { originalUrl: url, ...(page.url !== url ? { url: page.url } : {}) };
+
+  if (type === 'text/plain' || type === 'text/markdown') {
+    if (!page.body.trim()) throw new Error('This page is empty.');
+    return { content: page.body.trim(), metadata };
+  }
+  if (type !== 'text/html' && type !== 'application/xhtml+xml') {
+    throw new Error(`This address is not a web page (${type}). Download the file and upload it instead.`);
+  }
+
+  const article = extractArticle(page.body, page.url);
+  if (!article.markdown.trim()) throw new Error('No readable text was found on this page.');
+  return {
+    content: article.markdown,
+    metadata: {
+      ...metadata,
+      headings: article.headings,
+      ...(article.title ? { documentTitle: article.title } : {}),
+      ...(article.author ? { author: article.author } : {}),
+      ...(article.published ? { published: article.published } : {}),
+      ...(article.canonicalUrl ? { canonicalUrl: article.canonicalUrl } : {}),
+      ...(article.language ? { language: article.language } : {}),
+      ...(article.siteName ? { siteName: article.siteName } : {}),
+    },
+  };
+}
+
+/**
+ * The page of a paged source that contains the given content offset.
+ */
+export function pageAt(source: Source, offset: number): number | undefined {
+  const pages: PageRange[] | undefined = source.metadata?.pages;
+  return pages?.find((p) => offset >= p.start && offset <= p.end)?.page;
+}
+
+/**
+ * The time, in seconds, of the transcript line of an audio or video source
+ * that contains the given content offset.
+ */
+export function timeAt(source: Source, offset: number): number | undefined {
+  const segments: TimedRange[] | undefined = source.metadata?.segments;
+  if (!segments) return undefined;
+  let found: TimedRange | undefined;
+  for (const segment of segments) {
+    if (segment.start > offset) break;
+    found = segment;
+  }
+  return found?.time;
+}
+
+/**
+ * What went wrong or was left out when the source was read, for showing
+ * next to its content: skipped scanned pages, recordings that were not
+ * transcribed, images whose text or description could not be read.
+ */
+export function extractionIssues(source: Source): string[] {
+  const m = source.metadata ?? {};
+  const issues: string[] = [];
+  if (!source.content.trim()) issues.push('No text was extracted from this source.');
+  if (m.scannedPages?.length) {
+    const pages: number[] = m.scannedPages;
+    issues.push(
+      `${pages.length === 1 ? `Page ${pages[0]} is a scan` : `Pages ${pages.join(', ')} are scans`} without a text layer and ${pages.length === 1 ? 'was' : 'were'} skipped.`
+    );
+  }
+  if (m.untranscribed) {
+    issues.push('This recording was not transcribed: the offline provider only marks where people speak.');
+  }
+  if (m.transcript === 'generatedCaptions') issues.push("The transcript is YouTube's automatic captions and may contain errors.");
+  if (source.type === 'image' && m.ocr === false) {
+    issues.push(`The text in the image could not be read${m.ocrError ? `: ${m.ocrError}` : '.'}`);
+  }
+  if (source.type === 'image' && m.described === false) {
+    issues.push(`The image could not be described${m.descriptionError ? `: ${m.descriptionError}` : '.'}`);
+  }
+  return issues;
+}
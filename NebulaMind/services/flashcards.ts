@@ -0,0 +1,140 @@
+/*
+ * Flashcard deck helpers.
+ *
+ * Decks are stored in `notebook.artifacts` as artifacts of type
+ * `'flashcards'`.  The artifact title is the deck name and its content holds
+ * the cards and the deck's source scope.  A notebook may hold any number of
+ * decks.  These helpers read decks from a notebook and produce updated
+ * notebooks, so components never have to know the artifact layout.
+ */
+
+import { Artifact, Flashcard, Notebook } from '../types';
+import { isDueToday } from './scheduler';
+
+/** Content stored in a `'flashcards'` artifact. */
+export interface FlashcardDeckContent {
+  cards: Flashcard[];
+  /**
+   * Sources the deck's cards are generated from.  Undefined means every
+   * source in the notebook.
+   */
+  sourceIds?: string[];
+}
+
+export type FlashcardDeck = Omit<Artifact, 'type' | 'content'> & { type: 'flashcards'; content: FlashcardDeckContent };
+
+/**
+ * A card together with the deck it belongs to.
+ */
+export interface DeckCard {
+  deck: FlashcardDeck;
+  card: Flashcard;
+}
+
+export function getDecks(notebook: Notebook): FlashcardDeck[] {
+  return notebook.artifacts.filter(
+    (a): a is FlashcardDeck => a.type === 'flashcards' && a.status === 'completed' && Array.isArray(a.content?.cards)
+  );
+}
+
+/**
+ * Create a new deck artifact from a list of cards.
+ */
+export function createDeck(cards: Flashcard[], title = 'Flashcards', sourceIds?: string[]): FlashcardDeck {
+  return {
+    id: crypto.randomUUID(),
+    type: 'flashcards',
+    title,
+    content: { cards, sourceIds },
+    createdAt: Date.now(),
+    status: 'completed',
+  };
+}
+
+/**
+ * Return a copy of the notebook with one deck replaced (or appended when it
+ * is not part of the notebook yet).
+ */
+export function putDeck(notebook: Notebook, deck: FlashcardDeck): Notebook {
+  const exists = notebook.artifacts.some((a) => a.id === deck.id);
+  return {
+    ...notebook,
+    artifacts: exists ? notebook.artifacts.map((a) => (a.id === deck.id ? deck : a)) : [...notebook.artifacts, deck],
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Return a copy of the notebook without the given deck.
+ */
+export function removeDeck(notebook: Notebook, deckId: string): Notebook {
+  return { ...notebook, artifacts: notebook.artifacts.filter((a) => a.id !== deckId), updatedAt: Date.now() };
+}
+
+/**
+ * Return a copy of a deck with its cards replaced.
+ */
+export function withCards(deck: FlashcardDeck, cards: Flashcard[]): FlashcardDeck {
+  return { ...deck, content: { ...deck.content, cards } };
+}
+
+/**
+ * Return a copy of a deck with new cards added after its own.  Cards it
+ * already has, by id or by question, are left out, so generating more cards
+ * never repeats one.
+ */
+export function appendCards(deck: FlashcardDeck, cards: Flashcard[]): FlashcardDeck {
+  const key = (question: string) => question.replace(/\s+/g, ' ').trim().toLowerCase();
+  const ids = new Set(deck.content.cards.map((c) => c.id));
+  const questions = new Set(deck.content.cards.map((c) => key(c.question)));
+  const added = cards.filter((card) => {
+    if (ids.has(card.id) || questions.has(key(card.question))) return false;
+    ids.add(card.id);
+    questions.add(key(card.question));
+    return true;
+  });
+  return withCards(deck, [...deck.content.cards, ...added]);
+}
+
+/**
+ * Return a copy of the notebook with a card added to its first deck, or to
+ * a new deck when it has none, and the deck the card went into.
+ */
+export function addCard(notebook: Notebook, card: Flashcard): { notebook: Notebook; deck: FlashcardDeck } {
+  const existing = getDecks(notebook)[0] ?? createDeck([]);
+  const deck = withCards(existing, [...existing.content.cards, card]);
+  return { notebook: putDeck(notebook, deck), deck };
+}
+
+/**
+ * Return a copy of the notebook with one card of a deck replaced.
+ */
+export function putCard(notebook: Notebook, deckId: string, card: Flashcard): Notebook {
+  const deck = getDecks(notebook).find((d) => d.id === deckId);
+  if (!deck) return notebook;
+  return putDeck(notebook, withCards(deck, deck.content.cards.map((c) => (c.id === card.id ? card : c))));
+}
+
+/**
+ * Cards from every deck of the notebook that are due for review today.
+ * Overdue reviews come first (oldest first), then cards that have never
+ * been studied in deck order, then cards that became due again later today
+ * (for example after being failed a few minutes ago).
+ */
+export function dueCards(notebook: Notebook, now = Date.now()): DeckCard[] {
+  const due = getDecks(notebook).flatMap((deck) =>
+    deck.content.cards.filter((card) => isDueToday(card, now)).map((card) => ({ deck, card }))
+  );
+  const rank = ({ card }: DeckCard) => (!card.review ? 1 : card.review.due <= now ? 0 : 2);
+  return due
+    .map((entry, i) => ({ entry, i }))
+    .sort((a, b) => {
+      const ra = rank(a.entry);
+      const rb = rank(b.entry);
+      if (ra !== rb) return ra - rb;
+      const da = a.entry.card.review?.due ?? 0;
+      const db = b.entry.card.review?.due ?? 0;
+      return da - db || a.i - b.i;
+    })
+    .map(({ entry }) => entry);
+}
@@ -0,0 +1,299 @@
+/*
+ * Quiz grading.
+ *
+ * Choice, ordering and matching questions are graded by the options or
+ * positions chosen, with partial credit where several parts can be right.
+ * Short free-form answers and blanks are graded locally: answers are
+ * normalised (case, punctuation, accents and articles are ignored) and
+ * small spelling mistakes are forgiven with a fuzzy match.  Long answers,
+ * and any question with a rubric, are sent to the AI provider's grading
+ * endpoint, which can award partial credit.  Every result carries an
+ * explanation for the learner.
+ */
+
+import { Notebook, QuestionResult, QuizAnswer, QuizQuestion, QuizQuestionType } from '../types';
+import { AIProvider, GradingRequest } from './ai';
+
+// Minimum similarity (1 = identical) for a short answer to count as a
+// misspelling of the expected one.
+const FUZZY_THRESHOLD = 0.8;
+// Reference answers longer than this many words are graded by the AI.
+const SHORT_ANSWER_WORDS = 6;
+// An answer that contains the expected one is accepted if it adds at most
+// this many words ("it was Paris" for "Paris"), so that longer answers that
+// merely mention it ("Lyon rather than Paris") are not.
+const MAX_EXTRA_WORDS = 2;
+// Words that turn an answer into its opposite ("not Paris").
+const NEGATION =
+  /\b(?:not|no|never|none|neither|nor|nothing|cannot|(?:is|are|was|were|do|does|did|ca|wo|has|have|had|could|would|should)n['’]?t)\b/i;
+
+// Numbers in an answer: digits, optionally in groups of three ("12,345")
+// and with decimals, or upper-case roman numerals below 90 standing on
+// their own ("Henry VIII").  Larger numerals are left out, as they are
+// rarely written and collide with abbreviations ("DC", "CD"), and so is a
+// lone "I", which is usually the pronoun.
+const NUMBER = /\d{1,3}(?:[, ]\d{3}(?!\d))+(?:\.\d+)?|\d+(?:\.\d+)?|(?<![\w.])(?!I\b)[IVXL]+(?![\w.])/g;
+const ROMAN = /^(XL|L?X{0,3})(IX|IV|V?I{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50 };
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+/**
+ * Summary of a graded quiz.  `score` is the total credit earned out of
+ * `total` (one point per question).
+ */
+export interface QuizResult {
+  results: QuestionResult[];
+  score: number;
+  total: number;
+}
+
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}.]+/u)
+    .map((w) => w.replace(/^\.+|\.+$/g, ''))
+    .filter((w) => w && !ARTICLES.has(w))
+    .join(' ');
+}
+
+function romanValue(numeral: string): number {
+  let value = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const digit = ROMAN_VALUES[numeral[i]];
+    value += digit < (ROMAN_VALUES[numeral[i + 1]] ?? 0) ? -digit : digit;
+  }
+  return value;
+}
+
+// The numbers in a text, in order, so that "1,000" and "1000" or "VIII"
+// and "8" compare equal.
+function numbersIn(text: string): string {
+  return Array.from(text.match(NUMBER) || [])
+    .filter((n) => /\d/.test(n) || ROMAN.test(n))
+    .map((n) => (/\d/.test(n) ? Number(n.replace(/[, ]/g, '')) : romanValue(n)))
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity of two strings between 0 and 1, based on edit distance.
+ */
+export function similarity(a: string, b: string): number {
+  if (!a && !b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * A question's type.  Questions saved before types existed are multiple
+ * choice when they have options and free-form otherwise.
+ */
+export function questionType(question: QuizQuestion): QuizQuestionType {
+  return question.type || (question.options ? 'multipleChoice' : 'shortAnswer');
+}
+
+/**
+ * Whether a question's answer needs rubric grading by the AI provider
+ * rather than local matching.
+ */
+export function needsRubric(question: QuizQuestion): boolean {
+  if (questionType(question) !== 'shortAnswer') return false;
+  if (question.rubric) return true;
+  return (question.answer || '').trim().split(/\s+/).length > SHORT_ANSWER_WORDS;
+}
+
+function result(
+  question: QuizQuestion,
+  score: number,
+  method: QuestionResult['method'],
+  explanation: string
+): QuestionResult {
+  return { questionId: question.id, score, correct: score >= 1, explanation, method };
+}
+
+function isBlank(answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined) return true;
+  if (typeof answer === 'string') return !answer.trim();
+  if (Array.isArray(answer)) return answer.every((a) => a === -1 || (typeof a === 'string' && !a.trim()));
+  return false;
+}
+
+/**
+ * Compare a short text answer with the expected one.  Returns how it
+ * matched, or null if it does not.  The numbers in both must be the same
+ * ("World War 2" is not "World War 1"), since a number one digit off is a
+ * wrong answer rather than a misspelling, and an answer that negates the
+ * expected one never matches.
+ */
+function matchText(expected: string, response: string): 'exact' | 'fuzzy' | null {
+  const want = normalizeAnswer(expected);
+  const got = normalizeAnswer(response);
+  if (!got) return null;
+  if (got === want) return 'exact';
+  if (numbersIn(response) !== numbersIn(expected)) return null;
+  // Digit groups ("12,345") normalise to separate words.
+  if (want && Number(got.replace(/ /g, '')) === Number(want)) return 'exact';
+  if (!want || !Number.isNaN(Number(want))) return null;
+  if (NEGATION.test(response) && !NEGATION.test(expected)) return null;
+  const extraWords = got.split(' ').length - want.split(' ').length;
+  if (extraWords <= MAX_EXTRA_WORDS && ` ${got} `.includes(` ${want} `)) return 'fuzzy';
+  return similarity(got, want) >= FUZZY_THRESHOLD ? 'fuzzy' : null;
+}
+
+const quote = (texts: string[]) => texts.map((t) => `"${t}"`).join(', ');
+
+function gradeChoice(question: QuizQuestion, answer: QuizAnswer): QuestionResult {
+  const correctOption = question.options![question.correctIndex ?? -1];
+  if (answer === question.correctIndex) return result(question, 1, 'choice', 'Correct.');
+  return result(question, 0, 'choice', `The correct answer is "${correctOption}".`);
+}
+
+// One point shared among the correct options; each wrong pick cancels a
+// right one.
+function gradeMultiSelect(question: QuizQuestion, answer: QuizAnswer): QuestionResult {
+  const correct = new Set(question.correctIndices || []);
+  const chosen = Array.isArray(answer) ? (answer as number[]) : [];
+  const right = chosen.filter((i) => correct.has(i)).length;
+  const wrong = chosen.length - right;
+  const score = correct.size ? Math.max(0, (right - wrong) / correct.size) : 0;
+  if (score >= 1) return result(question, 1, 'choice', 'Correct.');
+  const options = question.options || [];
+  return result(
+    question,
+    score,
+    'choice',
+    `${right} of ${correct.size} correct${wrong ? `, ${wrong} wrong` : ''}. The correct options are ${quote(
+      Array.from(correct, (i) => options[i])
+    )}.`
+  );
+}
+
+function gradeBlanks(question: QuizQuestion, answer: QuizAnswer): QuestionResult {
+  const blanks = question.blanks || [];
+  const responses = Array.isArray(answer) ? answer.map(String) : [String(answer)];
+  const matches = blanks.map((expected, i) => matchText(expected, responses[i] || ''));
+  const right = matches.filter(Boolean).length;
+  const score = blanks.length ? right / blanks.length : 0;
+  const method = matches.includes('fuzzy') ? 'fuzzy' : 'exact';
+  if (score >= 1) return result(question, 1, method, method === 'fuzzy' ? 'Correct, allowing for spelling.' : 'Correct.');
+  return result(question, score, method, `Expected ${quote(blanks)}.`);
+}
+
+// Credit for each item (ordering) or pair (matching) in the right place.
+function gradePlacement(question: QuizQuestion, answer: QuizAnswer, expected: string[]): QuestionResult {
+  const placed = Array.isArray(answer) ? (answer as number[]) : [];
+  const right = expected.filter((_, i) => placed[i] === i).length;
+  const score = expected.length ? right / expected.length : 0;
+  if (score >= 1) return result(question, 1, 'choice', 'Correct.');
+  const solution =
+    questionType(question) === 'ordering'
+      ? `The correct order is: ${expected.map((item, i) => `${i + 1}. ${item}`).join(' ')}`
+      : `The correct pairs are: ${(question.pairs || []).map((p) => `${p.left} → ${p.right}`).join('; ')}`;
+  return result(question, score, 'choice', `${right} of ${expected.length} in the right place. ${solution}`);
+}
+
+function gradeShortAnswer(question: QuizQuestion, answer: QuizAnswer): QuestionResult {
+  const expected = question.answer || '';
+  const match = matchText(expected, String(answer));
+  if (match === 'exact') return result(question, 1, 'exact', 'Correct.');
+  if (match === 'fuzzy') return result(question, 1, 'fuzzy', `Accepted as matching "${expected}".`);
+  return result(question, 0, 'exact', `Expected "${expected}".`);
+}
+
+/**
+ * Grade an answer to any question that does not need rubric grading.
+ */
+export function gradeLocally(question: QuizQuestion, answer: QuizAnswer | undefined): QuestionResult {
+  const type = questionType(question);
+  if (answer === undefined || isBlank(answer)) {
+    return result(question, 0, type === 'shortAnswer' || type === 'fillBlank' ? 'exact' : 'choice', 'No answer given.');
+  }
+  switch (type) {
+    case 'multipleChoice':
+    case 'trueFalse':
+      return gradeChoice(question, answer);
+    case 'multiSelect':
+      return gradeMultiSelect(question, answer);
+    case 'fillBlank':
+      return gradeBlanks(question, answer);
+    case 'ordering':
+      return gradePlacement(question, answer, question.items || []);
+    case 'matching':
+      return gradePlacement(question, answer, (question.pairs || []).map((p) => p.right));
+    case 'shortAnswer':
+      return gradeShortAnswer(question, answer);
+  }
+}
+
+export function summarize(results: QuestionResult[]): QuizResult {
+  return { results, score: results.reduce((n, r) => n + r.score, 0), total: results.length };
+}
+
+/**
+ * Grade a whole quiz.  Answers that need rubric grading are sent to the AI
+ * provider in a single request; all others are graded locally.  If the
+ * provider fails, the affected questions are reported as ungraded (zero
+ * credit, with the reason as explanation) rather than failing the quiz.
+ */
+export async function gradeQuiz(
+  ai: AIProvider,
+  notebook: Notebook,
+  questions: QuizQuestion[],
+  answers: Record<string, QuizAnswer>
+): Promise<QuizResult> {
+  const results = new Map<string, QuestionResult>();
+  const requests: GradingRequest[] = [];
+  for (const question of questions) {
+    const answer = answers[question.id];
+    if (!needsRubric(question)) {
+      results.set(question.id, gradeLocally(question, answer));
+    } else if (typeof answer !== 'string' || !answer.trim()) {
+      results.set(question.id, result(question, 0, 'rubric', 'No answer given.'));
+    } else {
+      requests.push({
+        questionId: question.id,
+        prompt: question.prompt,
+        expected: question.answer,
+        rubric: question.rubric,
+        response: answer,
+      });
+    }
+  }
+
+  if (requests.length) {
+    try {
+      const graded = await ai.gradeAnswers(notebook, requests);
+      for (const { questionId, score, explanation } of graded) {
+        const question = questions.find((q) => q.id === questionId);
+        if (!question) continue;
+        const credit = Math.min(1, Math.max(0, Number(score) || 0));
+        results.set(questionId, result(question, credit, 'rubric', explanation));
+      }
+    } catch (err: any) {
+      console.error('Failed to grade answers', err);
+      for (const { questionId } of requests) {
+        const question = questions.find((q) => q.id === questionId)!;
+        results.set(questionId, result(question, 0, 'rubric', `Could not be graded: ${err.message || 'unknown error'}`));
+      }
+    }
+  }
+
+  return summarize(
+    questions.map(
+      (q) => results.get(q.id) || result(q, 0, 'rubric', 'The grader returned no result for this question.')
+    )
+  );
+}
@@ -0,0 +1,67 @@
+/*
+ * Image helpers for image sources.
+ *
+ * Uploaded images are decoded once with `loadImage`, then scaled down for
+ * two purposes: a small JPEG thumbnail stored with the source so the source
+ * list can show a preview, and a copy of bounded size that is sent to OCR
+ * engines and vision models, whose request size and resolution are limited.
+ */
+
+export interface LoadedImage {
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+}
+
+const THUMBNAIL_SIZE = 320;
+// Longest side of the copy sent to models; large enough for slide text.
+const MODEL_IMAGE_SIZE = 2048;
+
+export async function loadImage(file: Blob): Promise<LoadedImage> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    return { bitmap, width: bitmap.width, height: bitmap.height };
+  } catch {
+    throw new Error('This image could not be read. Try saving it as PNG or JPEG.');
+  }
+}
+
+// Draw the image into a canvas whose longest side is at most `size`.
+function drawScaled(image: LoadedImage, size: number): HTMLCanvasElement {
+  const scale = Math.min(1, size / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  canvas.getContext('2d')!.drawImage(image.bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * A JPEG data URL of the image scaled to fit a small square.
+ */
+export function thumbnail(image: LoadedImage): string {
+  return drawScaled(image, THUMBNAIL_SIZE).toDataURL('image/jpeg', 0.8);
+}
+
+/**
+ * The image as it should be sent to a model: the original file when it is
+ * small enough, otherwise a scaled-down PNG.
+ */
+export async function imageForModel(file: Blob, image: LoadedImage): Promise<Blob> {
+  if (Math.max(image.width, image.height) <= MODEL_IMAGE_SIZE && /^image\/(png|jpeg|webp|gif)$/.test(file.type)) {
+    return file;
+  }
+  const canvas = drawScaled(image, MODEL_IMAGE_SIZE);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), 'image/png')
+  );
+}
+
+export function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
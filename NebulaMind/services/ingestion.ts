@@ -0,0 +1,415 @@
+/*
+ * Importing many sources at once.
+ *
+ * Files dropped on the sources tab, picked from a folder or read from a ZIP
+ * archive, and lists of pasted links, are put on an ingestion queue.  Each
+ * item's source type is detected from its file type or address, and the
+ * queue extracts a few items at a time, adding each source to the notebook
+ * as soon as it is read.  Items keep their status and error so that failed
+ * ones can be retried or skipped, and sources that duplicate one already in
+ * the notebook are held back until they are added anyway or skipped.
+ */
+
+import { Source } from '../types';
+import { AIProvider } from './ai';
+import { AIConfig, createOcrEngine, createPageFetcher, createTranscriber, createYouTubeAdapter } from './aiConfig';
+import { ExtractedContent, extractAudio, extractImage, extractPdf, extractWebsite, extractYouTube } from './extraction';
+import { isPasswordError } from './pdfCrypto';
+import { extractArticle } from './readability';
+import { parseYouTubeUrl } from './youtube';
+import { readZip } from './zip';
+
+/** A file to import, with its path inside a dropped folder or archive. */
+export interface FileInput {
+  file: File;
+  path?: string;
+}
+
+export type IngestInput = FileInput | { url: string };
+
+export type IngestStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped' | 'duplicate';
+
+export interface IngestItem {
+  id: string;
+  /** File path or address shown in the queue. */
+  name: string;
+  input: IngestInput;
+  /** Detected source type; null for files that cannot be imported. */
+  type: Source['type'] | null;
+  status: IngestStatus;
+  error?: string;
+  progress?: { done: number; total: number };
+  /** Id of the source added for the item once it is done. */
+  sourceId?: string;
+  /** For held duplicates, what the source duplicates. */
+  duplicateOf?: string;
+}
+
+/** Everything extraction needs besides the item itself. */
+export interface IngestContext {
+  config: AIConfig;
+  ai: AIProvider;
+  /**
+   * Asks for the password of a protected PDF; null gives up.  Without it
+   * protected PDFs fail.
+   */
+  requestPassword?: (name: string, incorrect: boolean) => string | null;
+}
+
+const EXTENSIONS: Record<string, Source['type']> = {
+  pdf: 'pdf',
+  mp3: 'audio',
+  wav: 'audio',
+  m4a: 'audio',
+  aac: 'audio',
+  ogg: 'audio',
+  oga: 'audio',
+  opus: 'audio',
+  flac: 'audio',
+  weba: 'audio',
+  mp4: 'audio',
+  webm: 'audio',
+  mov: 'audio',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  bmp: 'image',
+  avif: 'image',
+  txt: 'copiedText',
+  md: 'copiedText',
+  markdown: 'copiedText',
+  csv: 'copiedText',
+  tsv: 'copiedText',
+  json: 'copiedText',
+  html: 'copiedText',
+  htm: 'copiedText',
+};
+
+const extension = (name: string) => /\.([^./]+)$/.exec(name)?.[1].toLowerCase() ?? '';
+
+const isArchive = (file: File) => extension(file.name) === 'zip' || file.type === 'application/zip';
+
+/**
+ * The source type an item is imported as.  Files are recognised by their
+ * extension, then their MIME type; videos are imported as audio, and text,
+ * markdown and HTML files as text.  Links are videos when they point at
+ * YouTube and web pages otherwise.
+ */
+export function detectSourceType(input: IngestInput): Source['type'] | null {
+  if ('url' in input) return parseYouTubeUrl(input.url) ? 'youtube' : /^https?:\/\/\S+$/.test(input.url) ? 'website' : null;
+  const { name, type } = input.file;
+  if (EXTENSIONS[extension(name)]) return EXTENSIONS[extension(name)];
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('audio/') || type.startsWith('video/')) return 'audio';
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('text/')) return 'copiedText';
+  return null;
+}
+
+/**
+ * The links in pasted text, one per line or separated by spaces.  Anything
+ * that is not an http(s) address is ignored, and repeated links are kept once.
+ */
+export function parseUrlList(text: string): string[] {
+  const urls = text.match(/https?:\/\/[^\s<>"']+/g) ?? [];
+  return [...new Set(urls.map((url) => url.replace(/[),.;]+$/, '')))];
+}
+
+// Files the operating system leaves in folders and archives.
+const isJunk = (path: string) => path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+
+/**
+ * Replace ZIP archives with the files they contain and drop hidden files.
+ * An archive that cannot be read is kept, so that its error is shown.
+ */
+export async function expandArchives(inputs: IngestInput[]): Promise<IngestInput[]> {
+  const expanded: IngestInput[] = [];
+  for (const input of inputs) {
+    if ('url' in input) {
+      expanded.push(input);
+      continue;
+    }
+    const path = input.path || input.file.name;
+    if (isJunk(path)) continue;
+    if (!isArchive(input.file)) {
+      expanded.push(input);
+      continue;
+    }
+    try {
+      const entries = await readZip(new Uint8Array(await input.file.arrayBuffer()));
+      for (const entry of entries) {
+        if (isJunk(entry.name)) continue;
+        const name = entry.name.split('/').pop()!;
+        expanded.push({ file: new File([entry.data as BlobPart], name), path: `${path}/${entry.name}` });
+      }
+    } catch (err) {
+      console.warn(`Could not read ${path}`, err);
+      expanded.push(input);
+    }
+  }
+  return expanded;
+}
+
+function readEntry(entry: FileSystemEntry): Promise<FileInput[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) =>
+      (entry as FileSystemFileEntry).file((file) => resolve([{ file, path: entry.fullPath.replace(/^\//, '') }]), reject)
+    );
+  }
+  // A directory reader returns its entries in batches until an empty one.
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const readBatch = () => new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+  return (async () => {
+    const files: FileInput[] = [];
+    for (let batch = await readBatch(); batch.length; batch = await readBatch()) {
+      for (const child of batch) files.push(...(await readEntry(child)));
+    }
+    return files;
+  })();
+}
+
+/**
+ * The files and links dropped on the page.  Dropped folders are read
+ * recursively.
+ */
+export async function readDataTransfer(data: DataTransfer): Promise<IngestInput[]> {
+  // Entries must be taken from the items before the first await, while the
+  // drop event's data is still accessible.
+  const entries = Array.from(data.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.());
+  const files = Array.from(data.files);
+  const links = parseUrlList(data.getData('text/uri-list') || data.getData('text/plain'));
+
+  if (!files.length) return links.map((url) => ({ url }));
+  const inputs: IngestInput[] = [];
+  for (const [i, entry] of entries.entries()) {
+    if (entry) inputs.push(...(await readEntry(entry)));
+    else if (files[i]) inputs.push({ file: files[i] });
+  }
+  return inputs;
+}
+
+/**
+ * Files picked with a file input.  Files of a picked folder carry their
+ * path within it.
+ */
+export function fromFileList(files: FileList): FileInput[] {
+  return Array.from(files).map((file) => ({ file, path: file.webkitRelativePath || undefined }));
+}
+
+// Extract a PDF, asking for its password when it is protected.
+async function readPdf(
+  file: File,
+  context: IngestContext,
+  onProgress?: (done: number, total: number) => void
+): Promise<ExtractedContent> {
+  let password: string | undefined;
+  for (;;) {
+    try {
+      return await extractPdf(file, { password, onProgress, ocr: createOcrEngine(context.config) });
+    } catch (err) {
+      if (!isPasswordError(err) || !context.requestPassword) throw err;
+      const entered = context.requestPassword(file.name, err.incorrect);
+      if (entered === null) throw err;
+      password = entered;
+    }
+  }
+}
+
+async function readText(file: File): Promise<ExtractedContent> {
+  const text = await file.text();
+  if (!/^html?$/.test(extension(file.name)) && file.type !== 'text/html') return { content: text.trim(), metadata: {} };
+  const article = extractArticle(text, `file:///${encodeURIComponent(file.name)}`);
+  return {
+    content: article.markdown,
+    metadata: { headings: article.headings, ...(article.title ? { documentTitle: article.title } : {}) },
+  };
+}
+
+/**
+ * Read one item as a source of the given type.  Sources are titled with
+ * the document's own title when it has one, otherwise with the file name or
+ * address.
+ */
+export async function readSource(
+  input: IngestInput,
+  type: Source['type'],
+  context: IngestContext,
+  onProgress?: (done: number, total: number) => void
+): Promise<Source> {
+  let extracted: ExtractedContent;
+  let title: string;
+
+  if ('url' in input) {
+    if (type === 'youtube') {
+      extracted = await extractYouTube(input.url, createYouTubeAdapter(context.config), createTranscriber(context.config), {
+        onProgress,
+      });
+    } else {
+      extracted = await extractWebsite(input.url, createPageFetcher(context.config));
+    }
+    title = extracted.metadata.documentTitle || input.url;
+  } else {
+    const { file, path } = input;
+    if (type === 'pdf') {
+      extracted = await readPdf(file, context, onProgress);
+    } else if (type === 'audio') {
+      extracted = await extractAudio(file, createTranscriber(context.config), { onProgress });
+    } else if (type === 'image') {
+      extracted = await extractImage(file, createOcrEngine(context.config), context.ai, { onProgress });
+    } else {
+      extracted = await readText(file);
+    }
+    extracted.metadata = { filename: file.name, size: file.size, ...(path ? { path } : {}), ...extracted.metadata };
+    title = type === 'copiedText' && extracted.metadata.documentTitle ? extracted.metadata.documentTitle : file.name;
+  }
+
+  if (!extracted.content) throw new Error('No content could be extracted.');
+  return {
+    id: crypto.randomUUID(),
+    type,
+    title,
+    content: extracted.content,
+    createdAt: Date.now(),
+    metadata: extracted.metadata,
+  };
+}
+
+export interface IngestionQueue {
+  items(): IngestItem[];
+  subscribe(listener: () => void): () => void;
+  /** Queue files and links; archives are expanded first. */
+  add(inputs: IngestInput[]): Promise<void>;
+  /** Queue a failed or skipped item again. */
+  retry(id: string): void;
+  /** Add a held duplicate after all. */
+  accept(id: string): void;
+  /** Leave an item out.  A running item's result is discarded. */
+  skip(id: string): void;
+  /** Remove finished, failed and skipped items from the list. */
+  clear(): void;
+}
+
+export interface IngestionQueueOptions {
+  /** How many items are extracted at the same time. */
+  concurrency?: number;
+  /**
+   * Describes what a read source duplicates, e.g. the title of the source
+   * it repeats, or returns undefined to add it.
+   */
+  duplicateOf?: (source: Source) => string | undefined;
+}
+
+/**
+ * Create an ingestion queue.  `read` extracts an item and `onRead` receives
+ * each source as it is read; both are called with the queue's latest
+ * settings, so callers can pass functions that read the current config.
+ */
+export function createIngestionQueue(
+  read: (item: IngestItem, onProgress: (done: number, total: number) => void) => Promise<Source>,
+  onRead: (source: Source, item: IngestItem) => void,
+  { concurrency = 3, duplicateOf }: IngestionQueueOptions = {}
+): IngestionQueue {
+  let list: IngestItem[] = [];
+  // Results of held duplicates, by item id.
+  const held = new Map<string, Source>();
+  const listeners = new Set<() => void>();
+  // Items being extracted, by id, each with a token so that the result of a
+  // run that was skipped and retried meanwhile is recognised as stale.
+  const running = new Map<string, object>();
+
+  const update = (id: string, fields: Partial<IngestItem>) => {
+    list = list.map((item) => (item.id === id ? { ...item, ...fields } : item));
+    listeners.forEach((l) => l());
+  };
+
+  const run = async (item: IngestItem) => {
+    const token = {};
+    running.set(item.id, token);
+    update(item.id, { status: 'running', error: undefined, progress: undefined });
+    const current = () => running.get(item.id) === token;
+    try {
+      const source = await read(item, (done, total) => current() && update(item.id, { progress: { done, total } }));
+      if (!current()) return;
+      const duplicate = duplicateOf?.(source);
+      if (duplicate) {
+        held.set(item.id, source);
+        update(item.id, { status: 'duplicate', progress: undefined, duplicateOf: duplicate });
+        return;
+      }
+      onRead(source, item);
+      update(item.id, { status: 'done', progress: undefined, sourceId: source.id });
+    } catch (err: any) {
+      if (!current()) return;
+      console.error(err);
+      update(item.id, { status: 'failed', progress: undefined, error: err?.message || 'Failed to add source.' });
+    } finally {
+      if (current()) running.delete(item.id);
+      schedule();
+    }
+  };
+
+  function schedule() {
+    for (const item of list) {
+      if (running.size >= concurrency) break;
+      if (item.status === 'queued' && !running.has(item.id)) run(item);
+    }
+  }
+
+  return {
+    items: () => list,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async add(inputs) {
+      const added = (await expandArchives(inputs)).map((input): IngestItem => {
+        const type = detectSourceType(input);
+        const name = 'url' in input ? input.url : input.path || input.file.name;
+        return type
+          ? { id: crypto.randomUUID(), name, input, type, status: 'queued' }
+          : { id: crypto.randomUUID(), name, input, type, status: 'skipped', error: 'This type of file cannot be imported.' };
+      });
+      list = [...list, ...added];
+      listeners.forEach((l) => l());
+      schedule();
+    },
+
+    retry(id) {
+      const item = list.find((i) => i.id === id);
+      if (!item?.type || (item.status !== 'failed' && item.status !== 'skipped')) return;
+      update(id, { status: 'queued', error: undefined, duplicateOf: undefined });
+      schedule();
+    },
+
+    accept(id) {
+      const item = list.find((i) => i.id === id);
+      const source = held.get(id);
+      if (!item || !source) return;
+      held.delete(id);
+      onRead(source, item);
+      update(id, { status: 'done', duplicateOf: undefined, sourceId: source.id });
+    },
+
+    skip(id) {
+      const item = list.find((i) => i.id === id);
+      if (!item || (item.status !== 'queued' && item.status !== 'running' && item.status !== 'duplicate')) return;
+      running.delete(id);
+      held.delete(id);
+      update(id, { status: 'skipped', progress: undefined, duplicateOf: undefined });
+      schedule();
+    },
+
+    clear() {
+      list = list.filter((item) => item.status === 'queued' || item.status === 'running' || item.status === 'duplicate');
+      listeners.forEach((l) => l());
+    },
+  };
+}
@@ -0,0 +1,395 @@
+/*
+ * Background generation jobs.
+ *
+ * Generating flashcards, quizzes, reports, audio overviews and mind maps can
+ * take a while, so instead of awaiting the AI provider inside a tab, the tab
+ * enqueues a job with the job manager and renders whatever the job writes
+ * into `notebook.artifacts`.  Switching tabs or notebooks does not interrupt
+ * a job.
+ *
+ * Each job owns one artifact.  It is added as a `'generating'` placeholder
+ * when the job is enqueued and becomes `'completed'` with the result once
+ * the job ends; if the job fails or is cancelled the placeholder is removed
+ * and the error stays with the job.  Flashcard jobs are the exception: they
+ * append cards to an existing deck, which stays usable while the job runs.
+ *
+ * At most `concurrency` jobs run at once.  Failed attempts are retried with
+ * exponential backoff, unless the error says retrying cannot help.  Jobs are
+ * persisted, so jobs that were queued or running when the page was closed
+ * start again on the next load.  Placeholders that no job will complete,
+ * such as one whose result was never saved because the page was closed
+ * first, are removed when their notebook is opened.
+ *
+ * Results for the notebook that is open are written through the route that
+ * owns it (see `attachNotebook`), so they go through the same state and
+ * debounced save as the user's own edits; other notebooks are updated in
+ * storage directly.
+ */
+
+import { Artifact, BackgroundJob, Notebook, QuizMode } from '../types';
+import { AIProvider, AudioFormat, AudioLength, QuizOptions, ReportStyle } from './ai';
+import { describeError, isRetryable } from './errors';
+import { appendCards, getDecks, putDeck } from './flashcards';
+import { readAsDataUrl } from './images';
+import { deleteJob, getJobs, getNotebook, saveJob, saveNotebook } from './storage';
+
+/**
+ * What to generate.  Flashcard jobs add cards to the deck `deckId`; every
+ * other job creates a new artifact of its type, which replaces the
+ * notebook's earlier artifacts of that type once it completes.
+ */
+export type JobRequest =
+  | { type: 'flashcards'; deckId: string; count: number; sourceIds?: string[] }
+  | { type: 'quiz'; options: QuizOptions; mode: QuizMode }
+  | { type: 'report'; style: ReportStyle }
+  | { type: 'audioOverview'; format: AudioFormat; length: AudioLength; language: string }
+  | { type: 'mindMap' };
+
+/**
+ * Read and update access to a notebook that is open in the UI.
+ */
+export interface NotebookAccess {
+  get: () => Notebook;
+  update: (fn: (notebook: Notebook) => Notebook) => void;
+}
+
+export interface JobManagerOptions {
+  /** Number of jobs that may run at the same time. */
+  concurrency?: number;
+  /** Attempts made before a job is marked as failed. */
+  maxAttempts?: number;
+  /** Delay before the first retry; it doubles with every further attempt. */
+  retryDelayMs?: number;
+}
+
+export interface JobManager {
+  /** Every job known to the manager, oldest first.  The array is replaced on each change. */
+  jobs(): BackgroundJob[];
+  /** Call `listener` whenever a job changes.  Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+  enqueue(notebookId: string, title: string, request: JobRequest): BackgroundJob;
+  /** Stop a queued or running job.  Ignored once its result is being saved. */
+  cancel(id: string): void;
+  /** Run a failed or cancelled job again from its first attempt. */
+  retry(id: string): void;
+  /** Forget a job that is no longer queued or running. */
+  dismiss(id: string): void;
+  /**
+   * Route updates of an open notebook through `access` until the returned
+   * function is called.
+   */
+  attachNotebook(notebookId: string, access: NotebookAccess): () => void;
+  /** Load persisted jobs and resume those that had not finished. */
+  restore(): Promise<void>;
+}
+
+export function isActiveJob(job: BackgroundJob): boolean {
+  return job.status === 'pending' || job.status === 'processing';
+}
+
+/**
+ * The most recent job of a type among `jobs`.
+ */
+export function latestJob(jobs: BackgroundJob[], type: BackgroundJob['type']): BackgroundJob | null {
+  return jobs.filter((j) => j.type === type).pop() ?? null;
+}
+
+/**
+ * The notebook's completed artifact of a type.  Jobs replace the earlier
+ * artifact when they complete, so there is at most one of each type (other
+ * than flashcard decks).
+ */
+export function completedArtifact(notebook: Notebook, type: Artifact['type']): Artifact | null {
+  return notebook.artifacts.find((a) => a.type === type && a.status === 'completed') ?? null;
+}
+
+// Flashcard jobs write into an existing deck instead of a placeholder.
+const appendsCards = (job: BackgroundJob) => job.type === 'flashcards';
+
+function putArtifact(notebook: Notebook, artifact: Artifact): Notebook {
+  const exists = notebook.artifacts.some((a) => a.id === artifact.id);
+  return {
+    ...notebook,
+    artifacts: exists ? notebook.artifacts.map((a) => (a.id === artifact.id ? artifact : a)) : [...notebook.artifacts, artifact],
+    updatedAt: Date.now(),
+  };
+}
+
+function withoutArtifacts(notebook: Notebook, remove: (artifact: Artifact) => boolean): Notebook {
+  return { ...notebook, artifacts: notebook.artifacts.filter((a) => !remove(a)), updatedAt: Date.now() };
+}
+
+function placeholder(job: BackgroundJob): Artifact {
+  return { id: job.artifactId, type: job.type, title: job.title, content: null, createdAt: job.createdAt, status: 'generating' };
+}
+
+// Object URLs only live as long as the page, so audio is stored inline.
+async function persistableUrl(url: string): Promise<string> {
+  if (!url.startsWith('blob:')) return url;
+  const blob = await (await fetch(url)).blob();
+  URL.revokeObjectURL(url);
+  return readAsDataUrl(blob);
+}
+
+/**
+ * Run the AI provider for a job and return an update that writes the result
+ * into the job's notebook.
+ */
+async function generate(
+  ai: AIProvider,
+  notebook: Notebook,
+  job: BackgroundJob,
+  signal: AbortSignal
+): Promise<(notebook: Notebook) => Notebook> {
+  const p = job.params;
+  const done = (content: any, title = job.title) => (nb: Notebook) => {
+    const others = nb.artifacts.filter((a) => a.type !== job.type || a.status !== 'completed');
+    return putArtifact({ ...nb, artifacts: others }, { ...placeholder(job), title, content, status: 'completed' });
+  };
+  switch (job.type) {
+    case 'flashcards': {
+      const cards = await ai.generateFlashcards(notebook, p.count, p.sourceIds, signal);
+      return (nb) => {
+        const deck = getDecks(nb).find((d) => d.id === job.artifactId);
+        return deck ? putDeck(nb, appendCards(deck, cards)) : nb;
+      };
+    }
+    case 'quiz': {
+      const questions = await ai.generateQuiz(notebook, p.options, signal);
+      return done({ questions, options: p.options, mode: p.mode });
+    }
+    case 'report': {
+      const report = await ai.generateReport(notebook, p.style, signal);
+      return done({ ...report, style: p.style }, report.title);
+    }
+    case 'audioOverview': {
+      const audio = await ai.generateAudioOverview(notebook, p.format, p.length, p.language, signal);
+      const audioUrl = await persistableUrl(audio.audioUrl);
+      return done({ audioUrl, format: p.format, length: p.length, language: p.language }, audio.title);
+    }
+    case 'mindMap':
+      return done(await ai.generateMindMap(notebook, signal));
+    default:
+      throw new Error(`Cannot generate artifacts of type "${job.type}" in the background.`);
+  }
+}
+
+export function createJobManager(
+  getProvider: () => AIProvider,
+  { concurrency = 2, maxAttempts = 3, retryDelayMs = 2000 }: JobManagerOptions = {}
+): JobManager {
+  let list: BackgroundJob[] = [];
+  const listeners = new Set<() => void>();
+  const controllers = new Map<string, AbortController>();
+  // Jobs whose result has been handed to `writeNotebook`; cancelling them
+  // would remove the artifact that was just written.
+  const saving = new Set<string>();
+  const attached = new Map<string, NotebookAccess>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Updates of notebooks that are not open are read-modify-write cycles on
+  // storage, so they run one at a time.
+  let writes: Promise<void> = Promise.resolve();
+
+  const find = (id: string) => list.find((j) => j.id === id);
+
+  const persist = (job: BackgroundJob) => {
+    const done = job.status === 'completed' || job.status === 'cancelled';
+    (done ? deleteJob(job.id) : saveJob(job)).catch((err) => console.error('Failed to save background job', err));
+  };
+
+  const update = (id: string, fields: Partial<BackgroundJob>): BackgroundJob | undefined => {
+    const current = find(id);
+    if (!current) return undefined;
+    const job = { ...current, ...fields, updatedAt: Date.now() };
+    list = list.map((j) => (j.id === id ? job : j));
+    persist(job);
+    listeners.forEach((l) => l());
+    return job;
+  };
+
+  const readNotebook = async (id: string): Promise<Notebook | null> => attached.get(id)?.get() ?? getNotebook(id);
+
+  const writeNotebook = (id: string, fn: (notebook: Notebook) => Notebook): Promise<void> => {
+    const next = writes.then(async () => {
+      const open = attached.get(id);
+      if (open) return open.update(fn);
+      const notebook = await getNotebook(id);
+      if (notebook) await saveNotebook(fn(notebook));
+    });
+    writes = next.catch(() => undefined);
+    return next;
+  };
+
+  const removePlaceholder = (job: BackgroundJob): Promise<void> =>
+    appendsCards(job)
+      ? Promise.resolve()
+      : writeNotebook(job.notebookId, (nb) => withoutArtifacts(nb, (a) => a.id === job.artifactId)).catch((err) =>
+          console.error('Failed to remove artifact placeholder', err)
+        );
+
+  // Remove the notebook's unfinished artifacts that no queued or running job
+  // will complete.  Until persisted jobs are restored it cannot be told
+  // which those are.
+  let restored = false;
+  const sweep = (notebookId: string) => {
+    if (!restored) return;
+    const owned = new Set(list.filter((j) => j.notebookId === notebookId && isActiveJob(j)).map((j) => j.artifactId));
+    const orphaned = (a: Artifact) => a.status !== 'completed' && !owned.has(a.id);
+    if (!attached.get(notebookId)?.get().artifacts.some(orphaned)) return;
+    writeNotebook(notebookId, (nb) => withoutArtifacts(nb, orphaned)).catch((err) =>
+      console.error('Failed to remove orphaned artifacts', err)
+    );
+  };
+
+  const run = async (job: BackgroundJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    const attempts = job.attempts + 1;
+    update(job.id, {
+      status: 'processing',
+      attempts,
+      retryAt: undefined,
+      progress: attempts > 1 ? `Generating (attempt ${attempts} of ${maxAttempts})…` : 'Generating…',
+    });
+    try {
+      const notebook = await readNotebook(job.notebookId);
+      if (!notebook) throw new Error('The notebook no longer exists.');
+      const apply = await generate(getProvider(), notebook, job, controller.signal);
+      if (controller.signal.aborted) return;
+      saving.add(job.id);
+      update(job.id, { progress: 'Saving…' });
+      await writeNotebook(job.notebookId, apply);
+      update(job.id, { status: 'completed', progress: undefined, error: undefined });
+    } catch (err: any) {
+      // Cancellation has already been recorded by `cancel`.
+      if (controller.signal.aborted) return;
+      console.error(err);
+      const error = describeError(err, 'Generation failed.');
+      if (attempts < maxAttempts && isRetryable(err)) {
+        const wait = retryDelayMs * 2 ** (attempts - 1);
+        update(job.id, {
+          status: 'pending',
+          error,
+          retryAt: Date.now() + wait,
+          progress: `Attempt ${attempts} failed; retrying in ${Math.round(wait / 1000)}s`,
+        });
+      } else {
+        update(job.id, { status: 'failed', error, progress: undefined });
+        await removePlaceholder(job);
+      }
+    } finally {
+      saving.delete(job.id);
+      controllers.delete(job.id);
+      schedule();
+    }
+  };
+
+  // Start queued jobs while there are free slots, and wake up again when
+  // the next retry is due.
+  function schedule() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const now = Date.now();
+    for (const job of list) {
+      if (controllers.size >= concurrency) break;
+      if (job.status === 'pending' && (job.retryAt ?? 0) <= now && !controllers.has(job.id)) run(job);
+    }
+    const waiting = list.filter((j) => j.status === 'pending' && (j.retryAt ?? 0) > now).map((j) => j.retryAt!);
+    if (waiting.length && controllers.size < concurrency) timer = setTimeout(schedule, Math.min(...waiting) - now);
+  }
+
+  const add = (job: BackgroundJob) => {
+    list = [...list, job];
+    persist(job);
+    listeners.forEach((l) => l());
+  };
+
+  return {
+    jobs: () => list,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    enqueue(notebookId, title, { type, ...params }) {
+      const now = Date.now();
+      const job: BackgroundJob = {
+        id: crypto.randomUUID(),
+        notebookId,
+        type,
+        status: 'pending',
+        progress: 'Queued',
+        artifactId: type === 'flashcards' ? (params as { deckId: string }).deckId : crypto.randomUUID(),
+        title,
+        params,
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      if (!appendsCards(job)) {
+        writeNotebook(notebookId, (nb) => putArtifact(nb, placeholder(job))).catch((err) =>
+          console.error('Failed to add artifact placeholder', err)
+        );
+      }
+      add(job);
+      schedule();
+      return job;
+    },
+
+    cancel(id) {
+      const job = find(id);
+      if (!job || !isActiveJob(job) || saving.has(id)) return;
+      update(id, { status: 'cancelled', progress: undefined, retryAt: undefined });
+      controllers.get(id)?.abort();
+      removePlaceholder(job);
+      schedule();
+    },
+
+    retry(id) {
+      const job = find(id);
+      if (!job || isActiveJob(job)) return;
+      if (!appendsCards(job)) {
+        writeNotebook(job.notebookId, (nb) => putArtifact(nb, placeholder(job))).catch((err) =>
+          console.error('Failed to add artifact placeholder', err)
+        );
+      }
+      update(id, { status: 'pending', attempts: 0, error: undefined, retryAt: undefined, progress: 'Queued' });
+      schedule();
+    },
+
+    dismiss(id) {
+      const job = find(id);
+      if (!job || isActiveJob(job)) return;
+      list = list.filter((j) => j.id !== id);
+      deleteJob(id).catch((err) => console.error('Failed to delete background job', err));
+      listeners.forEach((l) => l());
+    },
+
+    attachNotebook(notebookId, access) {
+      attached.set(notebookId, access);
+      sweep(notebookId);
+      return () => {
+        if (attached.get(notebookId) === access) attached.delete(notebookId);
+      };
+    },
+
+    async restore() {
+      const stored = await getJobs();
+      const resumed = stored
+        .filter((job) => !find(job.id))
+        .map<BackgroundJob>((job) =>
+          isActiveJob(job) ? { ...job, status: 'pending', retryAt: undefined, progress: 'Resumed after reload' } : job
+        );
+      if (resumed.length > 0) {
+        list = [...list, ...resumed].sort((a, b) => a.createdAt - b.createdAt);
+        listeners.forEach((l) => l());
+        schedule();
+      }
+      restored = true;
+      attached.forEach((_, notebookId) => sweep(notebookId));
+    },
+  };
+}
@@ -0,0 +1,490 @@
+/*
+ * Offline, deterministic AI provider.
+ *
+ * The mock provider needs no network access and always produces the same
+ * output for the same notebook and input.  Results are assembled from the
+ * notebook's own sources with simple text heuristics, so they are plausible
+ * enough to exercise every screen of the app in development, in demos and
+ * in tests, without a backend or a model server.
+ */
+
+import { Citation, CritiqueEvidence, Flashcard, Notebook, QuizQuestion, QuizQuestionType, Source } from '../types';
+import { AIProvider, CritiqueFinding, QUIZ_QUESTION_TYPES, QuizDifficulty, scopeNotebook } from './ai';
+import { getDecks } from './flashcards';
+import { loadImage } from './images';
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by for from has have in is it its of on or that the this to was were which with what who why how when where does do did can will would should about into than then there their they these those not no'.split(
+    ' '
+  )
+);
+
+const NEGATION = /\b(not|no|never|none|cannot|can't|isn't|aren't|wasn't|weren't|doesn't|don't|didn't)\b/i;
+
+// Small, stable string hash (FNV-1a) used to derive deterministic choices.
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Deterministic ids so repeated calls produce identical results.
+function stableId(prefix: string, ...parts: (string | number)[]): string {
+  return `${prefix}-${hash(parts.join('|')).toString(36)}`;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.split(' ').length >= 6 && s.length <= 400);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 2 && !STOPWORDS.has(w));
+}
+
+// Most frequent non-stopword terms of a text, ties broken alphabetically.
+function topKeywords(text: string, n: number): string[] {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach((w) => counts.set(w, (counts.get(w) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, n)
+    .map(([w]) => w);
+}
+
+interface SentenceRef {
+  source: Source;
+  text: string;
+}
+
+function allSentences(notebook: Notebook): SentenceRef[] {
+  return notebook.sources.flatMap((source) => splitSentences(source.content).map((text) => ({ source, text })));
+}
+
+// Pick `count` items spread evenly across the list, starting at an offset
+// derived from `seed`.
+function pickSpread<T>(items: T[], count: number, seed: string): T[] {
+  if (items.length <= count) return items;
+  const step = items.length / count;
+  const offset = hash(seed) % Math.max(1, Math.floor(step));
+  return Array.from({ length: count }, (_, i) => items[Math.floor(offset + i * step)]);
+}
+
+function requireSentences(notebook: Notebook): SentenceRef[] {
+  const sentences = allSentences(notebook);
+  if (sentences.length === 0) {
+    throw new Error('The offline provider needs sources with some text to work with.');
+  }
+  return sentences;
+}
+
+// Build a silent WAV file so the audio player has something to load.
+function silentWavDataUrl(seconds: number): string {
+  const sampleRate = 8000;
+  const samples = sampleRate * seconds;
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples, true);
+  new Uint8Array(buffer, 44).fill(128);
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return `data:audio/wav;base64,${btoa(binary)}`;
+}
+
+// Resolve after `ms`, or reject with an AbortError if the signal fires first.
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
+}
+
+// Name of the hue nearest to an RGB colour, or a shade of grey for
+// unsaturated colours.
+function colourName(r: number, g: number, b: number): string {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max - min < 30) return max > 200 ? 'white' : max < 60 ? 'black' : 'grey';
+  const hue =
+    max === r ? ((g - b) / (max - min) + 6) % 6 : max === g ? (b - r) / (max - min) + 2 : (r - g) / (max - min) + 4;
+  return ['red', 'orange', 'yellow', 'green', 'green', 'cyan', 'cyan', 'blue', 'blue', 'purple', 'magenta', 'red'][
+    Math.floor(hue * 2) % 12
+  ];
+}
+
+// Order items deterministically but unpredictably, seeded by `seed`.
+function shuffled<T>(items: T[], seed: string): T[] {
+  return items
+    .map((item, i) => ({ item, key: hash(`${seed}:${i}`) }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+}
+
+function blankOut(text: string, word: string): string {
+  return text.replace(new RegExp(`\\b${word}\\b`, 'i'), '___');
+}
+
+/**
+ * Build a quiz question of the given type around a sentence, or return
+ * null when the sentence does not suit the type (for example when it has
+ * no usable keyword).  Harder questions offer more options and longer
+ * sequences.
+ */
+function quizQuestion(
+  type: QuizQuestionType,
+  id: string,
+  { source, text }: SentenceRef,
+  vocabulary: string[],
+  difficulty: QuizDifficulty
+): QuizQuestion | null {
+  const base = {
+    id,
+    type,
+    explanation: `"${source.title}" says: ${text}`,
+    reference: { sourceId: source.id, snippet: text },
+  };
+  const words = tokenize(text);
+  const keyword = topKeywords(text, 1)[0];
+  const distractors = vocabulary.filter((w) => !words.includes(w));
+  const size = difficulty === 'easy' ? 3 : difficulty === 'hard' ? 5 : 4;
+  // Consecutive sentences of the same source, starting with this one.
+  const run = () => {
+    const all = splitSentences(source.content);
+    const at = all.indexOf(text);
+    return all.slice(at, at + size);
+  };
+
+  switch (type) {
+    case 'multipleChoice':
+    case 'trueFalse': {
+      if (!keyword || distractors.length < size - 1) return null;
+      if (type === 'trueFalse') {
+        const isTrue = hash(`${id}:tf`) % 2 === 0;
+        const swapped = distractors[hash(id) % distractors.length];
+        return {
+          ...base,
+          prompt: `True or false: ${isTrue ? text : text.replace(new RegExp(`\\b${keyword}\\b`, 'i'), swapped)}`,
+          options: ['True', 'False'],
+          correctIndex: isTrue ? 0 : 1,
+          explanation: isTrue ? base.explanation : `The source says "${keyword}", not "${swapped}": ${text}`,
+        };
+      }
+      const start = hash(id) % (distractors.length - size + 2);
+      const options = shuffled([keyword, ...distractors.slice(start, start + size - 1)], id);
+      return {
+        ...base,
+        prompt: `Which word completes this statement? ${blankOut(text, keyword)}`,
+        options,
+        correctIndex: options.indexOf(keyword),
+      };
+    }
+    case 'multiSelect': {
+      const removed = topKeywords(text, 2);
+      if (removed.length < 2 || distractors.length < size - 2) return null;
+      const start = hash(id) % (distractors.length - size + 3);
+      const options = shuffled([...removed, ...distractors.slice(start, start + size - 2)], id);
+      return {
+        ...base,
+        prompt: `Which of these words were removed from the statement? ${removed.reduce(blankOut, text)}`,
+        options,
+        correctIndices: removed.map((w) => options.indexOf(w)).sort((a, b) => a - b),
+      };
+    }
+    case 'fillBlank': {
+      const removed = topKeywords(text, difficulty === 'hard' ? 2 : 1);
+      if (removed.length === 0) return null;
+      const order = removed.sort((a, b) => text.toLowerCase().indexOf(a) - text.toLowerCase().indexOf(b));
+      return { ...base, prompt: `Fill in the blank: ${order.reduce(blankOut, text)}`, blanks: order };
+    }
+    case 'ordering': {
+      const items = run();
+      if (items.length < 3) return null;
+      return {
+        ...base,
+        prompt: `Put these statements from "${source.title}" in the order they appear.`,
+        items,
+        reference: { sourceId: source.id, snippet: items[0] },
+      };
+    }
+    case 'matching': {
+      const pairs = run()
+        .map((s) => ({ s, word: topKeywords(s, 1)[0] }))
+        .filter(({ word }, i, all) => word && all.findIndex((p) => p.word === word) === i)
+        .map(({ s, word }) => ({ left: blankOut(s, word), right: word }));
+      if (pairs.length < 3) return null;
+      return { ...base, prompt: 'Match each statement with its missing word.', pairs };
+    }
+    case 'shortAnswer': {
+      const terms = topKeywords(text, 3);
+      return {
+        ...base,
+        prompt: `In your own words, what does "${source.title}" say about ${terms.join(', ') || 'this'}?`,
+        answer: text,
+      };
+    }
+  }
+}
+
+export const mockProvider: AIProvider = {
+  async generateAnswer(notebook, prompt, { history = [], passages } = {}) {
+    // Follow-up questions often lack the subject ("explain that more"), so
+    // the previous question's terms also count, at a lower weight.
+    const previous = [...history].reverse().find((m) => m.role === 'user');
+    const terms = new Map<string, number>();
+    if (previous) tokenize(previous.text).forEach((w) => terms.set(w, 0.5));
+    tokenize(prompt).forEach((w) => terms.set(w, 1));
+    // Prefer the passages retrieved for the question when there are any.
+    const pool = passages?.length
+      ? passages.flatMap((p) => {
+          const source = notebook.sources.find((s) => s.id === p.sourceId);
+          return source ? splitSentences(p.text).map((text) => ({ source, text })) : [];
+        })
+      : allSentences(notebook);
+    const scored = pool
+      .filter((ref, i) => pool.findIndex((o) => o.text === ref.text) === i)
+      .map((ref, i) => ({ ref, i, score: tokenize(ref.text).reduce((sum, w) => sum + (terms.get(w) || 0), 0) }))
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .slice(0, 3);
+    if (scored.length === 0) {
+      return { text: "I couldn't find anything in this notebook's sources that addresses that question.", citations: [] };
+    }
+    // Each sentence is quoted verbatim, so it doubles as the citation snippet.
+    const citations: Citation[] = scored.map((s, i) => ({ index: i + 1, sourceId: s.ref.source.id, snippet: s.ref.text }));
+    const text = scored.map((s, i) => `${s.ref.text} [${i + 1}]`).join(' ');
+    return { text, citations };
+  },
+
+  async streamAnswer(notebook, prompt, { onText, signal, ...answerOptions }) {
+    const result = await mockProvider.generateAnswer(notebook, prompt, answerOptions);
+    // Replay the answer word by word to mimic a streaming model.
+    for (const word of result.text.match(/\S+\s*/g) || []) {
+      await delay(25, signal);
+      onText(word);
+    }
+    return result;
+  },
+
+  // Statements that already have a card in one of the notebook's decks are
+  // left out, so generating more cards gives new ones.
+  async generateFlashcards(notebook, count = 10, sourceIds) {
+    const existing = new Set(getDecks(notebook).flatMap((deck) => deck.content.cards.map((c) => c.question)));
+    const cards = requireSentences(scopeNotebook(notebook, sourceIds))
+      .map<Flashcard>(({ source, text }) => {
+        const words = text.split(' ');
+        const cut = Math.ceil(words.length / 2);
+        return {
+          id: stableId('card', notebook.id, text),
+          question: `Complete this statement from "${source.title}": ${words.slice(0, cut).join(' ')} …`,
+          answer: words.slice(cut).join(' '),
+        };
+      })
+      .filter((card) => !existing.has(card.question));
+    if (cards.length === 0) throw new Error('Every statement in these sources already has a flashcard.');
+    return pickSpread(cards, count, `${notebook.id}:${existing.size}`);
+  },
+
+  async generateQuiz(notebook, { count = 5, difficulty = 'medium', topic, sourceIds, types } = {}) {
+    const allowed = types?.length ? types : QUIZ_QUESTION_TYPES;
+    let sentences = requireSentences(scopeNotebook(notebook, sourceIds));
+    // Focus on sentences that mention the topic, if any do.
+    const topicTerms = tokenize(topic || '');
+    const focused = sentences.filter(({ text }) => tokenize(text).some((w) => topicTerms.includes(w)));
+    if (focused.length) sentences = focused;
+    const vocabulary = topKeywords(sentences.map((s) => s.text).join(' '), 50);
+    return pickSpread(sentences, count, `${notebook.id}:quiz:${topic || ''}`).map((ref, i) => {
+      const id = stableId('q', notebook.id, i, ref.text);
+      // Rotate through the allowed types, skipping those the sentence does
+      // not suit.
+      for (let k = 0; k < allowed.length; k++) {
+        const question = quizQuestion(allowed[(i + k) % allowed.length], id, ref, vocabulary, difficulty);
+        if (question) return question;
+      }
+      return quizQuestion('shortAnswer', id, ref, vocabulary, difficulty)!;
+    });
+  },
+
+  // Credit is the share of the reference's key terms the answer mentions,
+  // in quarter steps.
+  async gradeAnswers(_notebook, items) {
+    return items.map(({ questionId, expected, rubric, response }) => {
+      const terms = topKeywords(rubric || expected || '', 8);
+      if (terms.length === 0) return { questionId, score: 0, explanation: 'There is no reference to grade against.' };
+      const used = new Set(tokenize(response));
+      const covered = terms.filter((t) => used.has(t));
+      const missing = terms.filter((t) => !used.has(t));
+      const score = Math.round((covered.length / terms.length) * 4) / 4;
+      const explanation = [
+        covered.length ? `Covers ${covered.join(', ')}.` : 'Does not cover the key points.',
+        missing.length ? `Missing ${missing.join(', ')}.` : '',
+      ]
+        .filter(Boolean)
+        .join(' ');
+      return { questionId, score, explanation };
+    });
+  },
+
+  async generateReport(notebook, style = 'briefing') {
+    const sections = notebook.sources
+      .map((source) => {
+        const points = splitSentences(source.content).slice(0, 3);
+        if (points.length === 0) return '';
+        return `### ${source.title}\n\n${points.map((p) => `- ${p.replace(/\s+/g, ' ')}`).join('\n')}`;
+      })
+      .filter(Boolean)
+      .join('\n\n');
+    const keywords = topKeywords(notebook.sources.map((s) => s.content).join(' '), 8);
+    return {
+      title: `${notebook.title}: ${style}`,
+      body: `## Key themes\n\n${keywords.join(', ') || 'None found'}\n\n${sections}`,
+    };
+  },
+
+  async generateAudioOverview(notebook, format = 'deepDive', length = 'default') {
+    const seconds = length === 'short' ? 2 : length === 'long' ? 6 : 4;
+    return { audioUrl: silentWavDataUrl(seconds), title: `${notebook.title}: ${format} (offline preview)` };
+  },
+
+  async generateMindMap(notebook) {
+    return {
+      title: notebook.title,
+      children: notebook.sources.map((source) => ({
+        title: source.title,
+        children: topKeywords(source.content, 5).map((k) => ({ title: k, children: [] })),
+      })),
+    };
+  },
+
+  async unifyNotes(_notebook, notes) {
+    const seen = new Set<string>();
+    const lines: string[] = [];
+    notes.forEach((note) =>
+      note.content.split('\n').forEach((line) => {
+        const key = line.trim().toLowerCase();
+        if (!key || seen.has(key)) return;
+        seen.add(key);
+        lines.push(line);
+      })
+    );
+    return { content: lines.join('\n') };
+  },
+
+  async critiqueText(notebook, text) {
+    const sentences = text.split(/(?<=[.!?])\s+/).filter((s) => s.trim());
+    const sourceSentences = allSentences(notebook);
+    const comments: CritiqueFinding[] = [];
+    let long = 0;
+    let passive = 0;
+    let unsupported = 0;
+    for (const sentence of sentences) {
+      const quote = sentence.trim();
+      const words = quote.split(/\s+/).length;
+      if (words > 30) {
+        long++;
+        comments.push({ quote, kind: 'suggestion', comment: `This sentence runs to ${words} words; consider splitting it.` });
+      }
+      if (/\b(was|were|is|are|been|being)\s+\w+ed\b/i.test(quote)) {
+        passive++;
+        comments.push({ quote, kind: 'suggestion', comment: 'This sentence appears to use the passive voice.' });
+      }
+      // Check the sentence against the sources: passages sharing several of
+      // its key terms count as evidence, contradicting it when exactly one
+      // of the two is negated.
+      const terms = new Set(tokenize(quote));
+      if (terms.size < 3) continue;
+      const evidence: CritiqueEvidence[] = sourceSentences
+        .map((ref) => ({ ref, overlap: tokenize(ref.text).filter((w, i, all) => terms.has(w) && all.indexOf(w) === i).length }))
+        .filter(({ overlap }) => overlap >= Math.min(3, terms.size))
+        .sort((a, b) => b.overlap - a.overlap)
+        .slice(0, 2)
+        .map(({ ref }) => ({
+          sourceId: ref.source.id,
+          quote: ref.text,
+          stance: NEGATION.test(ref.text) !== NEGATION.test(quote) ? 'contradicts' : 'supports',
+        }));
+      const contradicting = evidence.find((e) => e.stance === 'contradicts');
+      const title = (sourceId: string) => notebook.sources.find((s) => s.id === sourceId)?.title;
+      if (contradicting) {
+        comments.push({ quote, kind: 'issue', comment: `"${title(contradicting.sourceId)}" appears to say otherwise.`, evidence });
+      } else if (evidence.length) {
+        comments.push({ quote, kind: 'praise', comment: `Backed by "${title(evidence[0].sourceId)}".`, evidence });
+      } else if (words >= 8) {
+        unsupported++;
+        comments.push({ quote, kind: 'issue', comment: 'No passage in the sources supports this claim.' });
+      }
+    }
+    const feedback: string[] = [];
+    if (long) feedback.push(`${long} sentence(s) run over 30 words; consider splitting them.`);
+    if (passive) feedback.push(`${passive} sentence(s) appear to use the passive voice.`);
+    if (unsupported) feedback.push(`${unsupported} claim(s) could not be matched to the sources.`);
+    const repeated = topKeywords(text, 3).filter((w) => tokenize(text).filter((t) => t === w).length > 3);
+    if (repeated.length) {
+      feedback.push(`Frequently repeated words: ${repeated.join(', ')}.`);
+      comments.push({ quote: '', kind: 'suggestion', comment: `Try varying these words: ${repeated.join(', ')}.` });
+    }
+    if (!feedback.length) feedback.push('No structural issues detected.');
+    return { critique: feedback.join('\n'), comments };
+  },
+
+  // Describes only what can be measured: size, shape, brightness and the
+  // most common colours, sampled on a small grid.
+  async describeImage(image) {
+    const loaded = await loadImage(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 32;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(loaded.bitmap, 0, 0, 32, 32);
+    const { data } = context.getImageData(0, 0, 32, 32);
+    const counts = new Map<string, number>();
+    let brightness = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      const name = colourName(data[i], data[i + 1], data[i + 2]);
+      counts.set(name, (counts.get(name) || 0) + 1);
+      brightness += (data[i] + data[i + 1] + data[i + 2]) / 3;
+    }
+    const colours = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .filter(([, n], i) => i === 0 || n >= 64)
+      .slice(0, 3)
+      .map(([name]) => name);
+    const shape = loaded.width > loaded.height * 1.1 ? 'landscape' : loaded.height > loaded.width * 1.1 ? 'portrait' : 'square';
+    const tone = brightness / 1024 > 160 ? 'light' : brightness / 1024 < 80 ? 'dark' : 'medium-toned';
+    return (
+      `A ${tone} ${shape} image of ${loaded.width}×${loaded.height} pixels, mostly ${colours.join(' and ')}. ` +
+      '(Offline description: no vision model was used.)'
+    );
+  },
+};
@@ -0,0 +1,96 @@
+/*
+ * Note helpers.
+ *
+ * Notes are stored per notebook in their own object store (see
+ * `storage.ts`) and loaded by the components that show them, like chat
+ * threads.  These helpers create notes, order and search them, and turn a
+ * note into a source so it can ground future answers.
+ */
+
+import { ChatMessage, Note, Source } from '../types';
+import { pageAt } from './extraction';
+import { Passage } from './retrieval';
+
+export function createNote(content: string, fields: Partial<Pick<Note, 'title' | 'citations'>> = {}): Note {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), content, createdAt: now, updatedAt: now, ...fields };
+}
+
+/**
+ * Save a chat answer as a note, keeping its citations.
+ */
+export function noteFromMessage(message: ChatMessage, question?: string): Note {
+  return createNote(message.text, {
+    title: question ? question.replace(/\s+/g, ' ').trim().slice(0, 80) : undefined,
+    citations: message.citations,
+  });
+}
+
+/**
+ * The note's title, or its first line of text without markdown markers.
+ */
+export function noteTitle(note: Note): string {
+  if (note.title?.trim()) return note.title.trim();
+  const firstLine = note.content.split('\n').find((l) => l.trim()) || '';
+  const plain = firstLine.replace(/^\s*(#+|[-*+]|\d+[.)]|>)\s*/, '').replace(/[*_`]/g, '').trim();
+  if (!plain) return 'Untitled note';
+  return plain.length > 60 ? `${plain.slice(0, 57)}…` : plain;
+}
+
+/**
+ * Pinned notes first, then the most recently edited.
+ */
+export function sortNotes(notes: Note[]): Note[] {
+  return [...notes].sort(
+    (a, b) => Number(!!b.pinned) - Number(!!a.pinned) || (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt)
+  );
+}
+
+/**
+ * Notes whose title or content contains every word of the query.
+ */
+export function searchNotes(notes: Note[], query: string): Note[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return notes;
+  return notes.filter((note) => {
+    const text = `${note.title || ''}\n${note.content}`.toLowerCase();
+    return words.every((w) => text.includes(w));
+  });
+}
+
+/**
+ * Turn a note into a source.  Citation markers are dropped, since they
+ * refer to the note's own citation list rather than to the new source.
+ */
+export function noteToSource(note: Note): Source {
+  return {
+    id: crypto.randomUUID(),
+    type: 'copiedText',
+    title: noteTitle(note),
+    content: note.content.replace(/\[\d+\]/g, ''),
+    createdAt: Date.now(),
+    metadata: { noteId: note.id },
+  };
+}
+
+/**
+ * Save a passage of a source as a note: the passage is quoted and cited, so
+ * the note leads back to where it was taken from.
+ */
+export function noteFromPassage(source: Source, passage: Passage): Note {
+  const quoted = passage.text.trim().split('\n').map((line) => `> ${line}`).join('\n');
+  const page = pageAt(source, passage.start);
+  return createNote(`${quoted} [1]`, {
+    title: `From "${source.title}"`,
+    citations: [
+      {
+        index: 1,
+        sourceId: source.id,
+        start: passage.start,
+        end: passage.end,
+        ...(page !== undefined ? { page } : {}),
+        snippet: passage.text.trim().slice(0, 200),
+      },
+    ],
+  });
+}
@@ -0,0 +1,143 @@
+/*
+ * Notification centre.
+ *
+ * Components report successes and failures here instead of calling
+ * `alert()`.  Each notification is shown as a toast that dismisses itself
+ * after a while and is kept in a history the user can open later.  A
+ * notification that repeats one raised shortly before (same type, title and
+ * message) is merged into it, so an error that recurs does not pile up
+ * toasts.
+ */
+
+import { Notification, NotificationAction } from '../types';
+import { describeError, needsSettings } from './errors';
+
+export interface NotifyOptions {
+  title?: string;
+  actions?: NotificationAction[];
+  /** Milliseconds before the toast hides itself; 0 keeps it until dismissed. */
+  duration?: number;
+}
+
+export interface NotificationState {
+  /** Every notification, newest first. */
+  notifications: Notification[];
+  /** Ids of the notifications currently shown as toasts, oldest first. */
+  toasts: string[];
+}
+
+export interface NotificationCenter {
+  /** The current state.  The object is replaced on each change. */
+  state(): NotificationState;
+  subscribe(listener: () => void): () => void;
+  notify(type: Notification['type'], message: string, options?: NotifyOptions): Notification;
+  /**
+   * Report a caught error.  The message is derived from the error, with an
+   * "Open settings" action when the AI settings are the likely cause.
+   */
+  error(err: unknown, fallback: string, options?: NotifyOptions): Notification;
+  /** Hide a toast; the notification stays in the history. */
+  dismiss(id: string): void;
+  /** Remove a notification from the history. */
+  remove(id: string): void;
+  clear(): void;
+  markAllRead(): void;
+}
+
+const DEFAULT_TITLES: Record<Notification['type'], string> = {
+  success: 'Done',
+  error: 'Something went wrong',
+  info: 'Note',
+};
+
+const DEFAULT_DURATIONS: Record<Notification['type'], number> = {
+  success: 4000,
+  error: 8000,
+  info: 5000,
+};
+
+// Repeats within this window are merged into the earlier notification.
+const DEDUPE_WINDOW_MS = 30000;
+
+const MAX_HISTORY = 50;
+
+const MAX_TOASTS = 4;
+
+export function createNotificationCenter(): NotificationCenter {
+  let current: NotificationState = { notifications: [], toasts: [] };
+  const listeners = new Set<() => void>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const set = (next: NotificationState) => {
+    current = next;
+    listeners.forEach((l) => l());
+  };
+
+  const hide = (id: string) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+    if (current.toasts.includes(id)) set({ ...current, toasts: current.toasts.filter((t) => t !== id) });
+  };
+
+  const show = (id: string, duration: number) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+    const toasts = [...current.toasts.filter((t) => t !== id), id];
+    toasts.slice(0, -MAX_TOASTS).forEach((t) => clearTimeout(timers.get(t)));
+    set({ ...current, toasts: toasts.slice(-MAX_TOASTS) });
+    if (duration > 0) timers.set(id, setTimeout(() => hide(id), duration));
+  };
+
+  const notify = (type: Notification['type'], message: string, options: NotifyOptions = {}): Notification => {
+    const title = options.title || DEFAULT_TITLES[type];
+    const now = Date.now();
+    const repeat = current.notifications.find(
+      (n) => n.type === type && n.title === title && n.message === message && now - n.createdAt < DEDUPE_WINDOW_MS
+    );
+    const notification: Notification = repeat
+      ? { ...repeat, createdAt: now, count: repeat.count + 1, read: false, actions: options.actions ?? repeat.actions }
+      : { id: crypto.randomUUID(), title, message, type, createdAt: now, count: 1, read: false, actions: options.actions };
+    const others = current.notifications.filter((n) => n.id !== notification.id);
+    const notifications = [notification, ...others].slice(0, MAX_HISTORY);
+    set({ notifications, toasts: current.toasts.filter((t) => notifications.some((n) => n.id === t)) });
+    show(notification.id, options.duration ?? DEFAULT_DURATIONS[type]);
+    return notification;
+  };
+
+  return {
+    state: () => current,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    notify,
+
+    error(err, fallback, options = {}) {
+      const actions = [...(options.actions || [])];
+      if (needsSettings(err)) actions.push({ label: 'Open settings', to: '/settings' });
+      return notify('error', describeError(err, fallback), { ...options, title: options.title || fallback, actions });
+    },
+
+    dismiss: hide,
+
+    remove(id) {
+      hide(id);
+      set({ ...current, notifications: current.notifications.filter((n) => n.id !== id) });
+    },
+
+    clear() {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      set({ notifications: [], toasts: [] });
+    },
+
+    markAllRead() {
+      if (current.notifications.every((n) => n.read)) return;
+      set({ ...current, notifications: current.notifications.map((n) => ({ ...n, read: true })) });
+    },
+  };
+}
@@ -0,0 +1,152 @@
+/*
+ * Recognising the text in images (OCR).
+ *
+ * An `OcrEngine` returns the text it can read in an image, line by line.
+ * Images can be read by the NebulaMind backend, by a vision model behind an
+ * OpenAI-compatible API, or on the device.  The on-device engine is
+ * pluggable: an app that bundles an OCR library (Tesseract compiled to
+ * WebAssembly, for instance) registers it with `setLocalOcrEngine`, and
+ * otherwise the browser's built-in `TextDetector` is used where it exists.
+ */
+
+import { requestError } from './errors';
+import { readAsDataUrl } from './images';
+
+export interface OcrOptions {
+  /** Expected language of the text, e.g. `en`; engines may ignore it. */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface OcrEngine {
+  recognize(image: Blob, options?: OcrOptions): Promise<string>;
+}
+
+/**
+ * OCR engine backed by the NebulaMind backend.
+ */
+export function createHttpOcrEngine(baseUrl = '/api/ai'): OcrEngine {
+  return {
+    async recognize(image, { language, signal } = {}) {
+      const url = `${baseUrl}/ocr`;
+      const form = new FormData();
+      form.append('file', image);
+      if (language) form.append('language', language);
+      const res = await fetch(url, { method: 'POST', body: form, signal });
+      if (!res.ok) throw requestError(url, res);
+      const data = await res.json();
+      return String(data.text ?? '').trim();
+    },
+  };
+}
+
+export interface VisionOcrOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** A chat model that accepts images. */
+  model: string;
+}
+
+// Models asked for the text of an image without any answer with this.
+const NO_TEXT = 'NO_TEXT';
+
+/**
+ * OCR engine that asks a vision model behind an OpenAI-compatible chat
+ * completions API to transcribe the text in the image.
+ */
+export function createVisionOcrEngine(options: VisionOcrOptions): OcrEngine {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  return {
+    async recognize(image, { language, signal } = {}) {
+      const url = `${baseUrl}/chat/completions`;
+      const instruction =
+        'Transcribe all legible text in this image exactly as written, one line of text per line. ' +
+        `${language ? `The text is in language "${language}". ` : ''}` +
+        `Respond with the text only. If the image contains no text, respond with ${NO_TEXT}.`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: instruction },
+                { type: 'image_url', image_url: { url: await readAsDataUrl(image) } },
+              ],
+            },
+          ],
+        }),
+        signal,
+      });
+      if (!res.ok) throw requestError(url, res);
+      const data = await res.json();
+      if (data.error) throw new Error(data.error.message || String(data.error));
+      const text: string = (data.choices?.[0]?.message?.content ?? '').trim();
+      return text === NO_TEXT ? '' : text;
+    },
+  };
+}
+
+// The Shape Detection API's text detector, which the DOM typings leave out.
+interface TextDetectorConstructor {
+  new (): { detect(image: ImageBitmap): Promise<{ rawValue: string; boundingBox: DOMRectReadOnly }[]> };
+}
+
+/**
+ * Uses the Shape Detection API's `TextDetector`, available in some
+ * Chromium builds.  Detected words are put back into reading order: top to
+ * bottom, then left to right within a line.
+ */
+const browserOcrEngine: OcrEngine = {
+  async recognize(image) {
+    const Detector = (globalThis as typeof globalThis & { TextDetector?: TextDetectorConstructor }).TextDetector;
+    if (!Detector) {
+      throw new Error('No text recognition engine is available on this device. Use the AI provider for OCR in Settings.');
+    }
+    const bitmap = await createImageBitmap(image);
+    const detected = await new Detector().detect(bitmap);
+    const words = detected
+      .filter((d) => d.rawValue.trim())
+      .sort((a, b) => a.boundingBox.top - b.boundingBox.top || a.boundingBox.left - b.boundingBox.left);
+    const lines: (typeof words)[] = [];
+    for (const word of words) {
+      const line = lines[lines.length - 1];
+      // Words whose vertical centre lies within the previous word's box
+      // belong to the same line.
+      const centre = word.boundingBox.top + word.boundingBox.height / 2;
+      const previous = line?.[line.length - 1].boundingBox;
+      if (previous && centre >= previous.top && centre <= previous.bottom) line.push(word);
+      else lines.push([word]);
+    }
+    return lines
+      .map((line) =>
+        line
+          .sort((a, b) => a.boundingBox.left - b.boundingBox.left)
+          .map((w) => w.rawValue.trim())
+          .join(' ')
+      )
+      .join('\n');
+  },
+};
+
+let localOcrEngine: OcrEngine = browserOcrEngine;
+
+/**
+ * Replace the on-device OCR engine, e.g. with a bundled OCR library.
+ */
+export function setLocalOcrEngine(engine: OcrEngine): void {
+  localOcrEngine = engine;
+}
+
+/**
+ * The on-device OCR engine.  Looked up on each call so that an engine
+ * registered later is still picked up.
+ */
+export const localOcr: OcrEngine = {
+  recognize: (image, options) => localOcrEngine.recognize(image, options),
+};
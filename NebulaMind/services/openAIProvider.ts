@@ -0,0 +1,305 @@
+/*
+ * AI provider for OpenAI-compatible chat completion APIs.
+ *
+ * Any server that implements `POST {baseUrl}/chat/completions` can be used,
+ * including OpenAI itself and local model servers such as Ollama, LM Studio,
+ * llama.cpp or vLLM.  Unlike the HTTP provider, the model has no copy of the
+ * notebook, so every request includes the notebook's sources as context.
+ * Structured results (flashcards, quizzes, mind maps) are requested as JSON
+ * and parsed leniently, because local models often wrap JSON in prose.
+ */
+
+import { Flashcard, Notebook, QuizQuestion } from '../types';
+import { AIProvider, AnswerOptions, AnswerResult, Critique, GradingResult, QUIZ_QUESTION_TYPES, scopeNotebook } from './ai';
+import { readJsonStream } from './streaming';
+import { requestError } from './errors';
+import { numberPassageMarkers } from './citations';
+import { Passage } from './retrieval';
+import { readAsDataUrl } from './images';
+
+export interface OpenAICompatibleOptions {
+  /** Base URL of the API, e.g. `https://api.openai.com/v1` or `http://localhost:11434/v1`. */
+  baseUrl: string;
+  /** Optional bearer token; local servers usually do not need one. */
+  apiKey?: string;
+  /** Chat model name. */
+  model: string;
+  /** Text-to-speech model used for audio overviews. */
+  ttsModel?: string;
+}
+
+// Upper bound on the amount of source text sent with each request.  Keeps
+// prompts within the context window of small local models.
+const MAX_CONTEXT_CHARS = 24000;
+
+// Message content is plain text, or text and images for vision models.
+type ChatContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+/**
+ * Concatenate the notebook's sources into a single context block, each
+ * prefixed with its id and title so the model can cite it.  Long sources are
+ * truncated so every source gets a share of the budget.
+ */
+function buildSourceContext(notebook: Notebook): string {
+  if (notebook.sources.length === 0) return '(This notebook has no sources.)';
+  const perSource = Math.floor(MAX_CONTEXT_CHARS / notebook.sources.length);
+  return notebook.sources
+    .map((s) => `[source:${s.id}] ${s.title}\n${s.content.slice(0, perSource)}`)
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Format retrieved passages as context, labelled `[P1]`, `[P2]`… so the
+ * model can cite the exact passage it used.
+ */
+function buildPassageContext(notebook: Notebook, passages: Passage[]): string {
+  return passages
+    .map((p, i) => {
+      const title = notebook.sources.find((s) => s.id === p.sourceId)?.title || 'Untitled';
+      return `[P${i + 1}] from "${title}"\n${p.text}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Extract the first JSON value from a model response.  Handles responses
+ * wrapped in markdown code fences or surrounded by explanatory text.
+ */
+function parseJson<T>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.search(/[[{]/);
+  if (start === -1) throw new Error('The model did not return JSON.');
+  const open = candidate[start];
+  const end = candidate.lastIndexOf(open === '{' ? '}' : ']');
+  return JSON.parse(candidate.slice(start, end + 1)) as T;
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): AIProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+  const chat = async (messages: ChatCompletionMessage[], signal?: AbortSignal): Promise<string> => {
+    const url = `${baseUrl}/chat/completions`;
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: options.model, messages }),
+      signal,
+    });
+    if (!res.ok) {
+      throw requestError(url, res);
+    }
+    const data = await res.json();
+    if (data.error) throw new Error(data.error.message || String(data.error));
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  // Messages for a question about the notebook with its sources (or the
+  // passages retrieved for it) as system context, preceded by any earlier
+  // turns of the conversation.
+  const withSources = (notebook: Notebook, instruction: string, { history = [], passages }: AnswerOptions = {}): ChatCompletionMessage[] => [
+    {
+      role: 'system',
+      content:
+        `You are NebulaMind, a research assistant for the notebook "${notebook.title}". ` +
+        'Base everything you write on the sources below.\n\n' +
+        (passages?.length ? buildPassageContext(notebook, passages) : buildSourceContext(notebook)),
+    },
+    ...history.map<ChatCompletionMessage>((m) => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+    { role: 'user', content: instruction },
+  ];
+
+  const ask = (notebook: Notebook, instruction: string, signal?: AbortSignal): Promise<string> =>
+    chat(withSources(notebook, instruction), signal);
+
+  const answerInstruction = (prompt: string, passages?: Passage[]) =>
+    passages?.length
+      ? `${prompt}\n\nWhen you use a passage, cite it inline by its label, e.g. [P1].`
+      : `${prompt}\n\nWhen you use a source, cite it inline as [source:<id>].`;
+
+  return {
+    async generateAnswer(notebook, prompt, answerOptions = {}): Promise<AnswerResult> {
+      const text = await chat(withSources(notebook, answerInstruction(prompt, answerOptions.passages), answerOptions));
+      return numberPassageMarkers(text, answerOptions.passages);
+    },
+
+    async streamAnswer(notebook, prompt, { onText, signal, ...answerOptions }) {
+      const url = `${baseUrl}/chat/completions`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          messages: withSources(notebook, answerInstruction(prompt, answerOptions.passages), answerOptions),
+          stream: true,
+        }),
+        signal,
+      });
+      if (!res.ok) {
+        throw requestError(url, res);
+      }
+      let text = '';
+      await readJsonStream(res, (chunk) => {
+        const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      });
+      // The raw `[P1]` / `[source:<id>]` markers are shown while streaming
+      // and replaced by numbered markers in the final text.
+      return numberPassageMarkers(text, answerOptions.passages);
+    },
+
+    async generateFlashcards(notebook, count = 10, sourceIds, signal) {
+      const text = await ask(
+        scopeNotebook(notebook, sourceIds),
+        `Write ${count} flashcards that test the key facts and ideas in the sources. ` +
+          'Respond only with JSON of the form {"flashcards": [{"question": string, "answer": string}]}.',
+        signal
+      );
+      const { flashcards } = parseJson<{ flashcards: Omit<Flashcard, 'id'>[] }>(text);
+      return flashcards.map((c) => ({ ...c, id: crypto.randomUUID() }));
+    },
+
+    async generateQuiz(notebook, { count = 5, difficulty = 'medium', topic, sourceIds, types } = {}, signal) {
+      const scoped = scopeNotebook(notebook, sourceIds);
+      const allowed = types?.length ? types : QUIZ_QUESTION_TYPES;
+      const text = await ask(
+        scoped,
+        `Write ${count} ${difficulty} quiz questions about the sources${topic ? `, focusing on: ${topic}` : ''}. ` +
+          `Use a mix of these question types: ${allowed.join(', ')}. ` +
+          'Respond only with JSON of the form {"questions": [...]}, where every question has "type", "prompt", ' +
+          '"explanation" (why the answer is right), "sourceId" and "quote" (a short exact quote of the passage it ' +
+          'is based on), plus, by type: multipleChoice: "options" (four strings) and "correctIndex"; ' +
+          'trueFalse: "correctIndex" (0 for true, 1 for false); multiSelect: "options" and "correctIndices"; ' +
+          'fillBlank: a prompt with each blank written as ___ and "blanks" (the missing text, in order); ' +
+          'ordering: "items" in the correct order; matching: "pairs" of {"left": string, "right": string}; ' +
+          'shortAnswer: "answer" and, when a longer answer is expected, a "rubric" of the points that earn credit.',
+        signal
+      );
+      type RawQuestion = Omit<QuizQuestion, 'id' | 'reference'> & { sourceId?: string; quote?: string };
+      const { questions } = parseJson<{ questions: RawQuestion[] }>(text);
+      return questions
+        .filter((q) => !q.type || allowed.includes(q.type))
+        .map(({ sourceId, quote, ...q }) => ({
+          ...q,
+          id: crypto.randomUUID(),
+          options: q.type === 'trueFalse' ? ['True', 'False'] : q.options,
+          reference: scoped.sources.some((s) => s.id === sourceId) ? { sourceId: sourceId!, snippet: quote } : undefined,
+        }));
+    },
+
+    async gradeAnswers(notebook, items) {
+      const text = await ask(
+        notebook,
+        'Grade these quiz answers against the expected answer or rubric, using the sources to judge accuracy. ' +
+          'Give partial credit in steps of 0.25 and a one or two sentence explanation addressed to the learner. ' +
+          'Respond only with JSON of the form {"results": [{"questionId": string, "score": number, "explanation": string}]}.\n\n' +
+          JSON.stringify(items)
+      );
+      return parseJson<{ results: GradingResult[] }>(text).results;
+    },
+
+    async generateReport(notebook, style = 'briefing', signal) {
+      const text = await ask(
+        notebook,
+        `Write a ${style} document about the sources in markdown (use ## and ### headings, paragraphs and - lists only). ` +
+          'Respond only with JSON of the form {"title": string, "body": string}.',
+        signal
+      );
+      return parseJson<{ title: string; body: string }>(text);
+    },
+
+    async generateAudioOverview(notebook, format = 'deepDive', length = 'default', language = 'en', signal) {
+      const words = length === 'short' ? 250 : length === 'long' ? 1200 : 600;
+      const script = await ask(
+        notebook,
+        `Write a spoken ${format} overview of the sources in about ${words} words, in language "${language}". ` +
+          'Respond with the spoken text only.',
+        signal
+      );
+      const url = `${baseUrl}/audio/speech`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: options.ttsModel || 'tts-1', voice: 'alloy', input: script }),
+        signal,
+      });
+      if (!res.ok) {
+        throw requestError(url, res);
+      }
+      const audio = await res.blob();
+      return { audioUrl: URL.createObjectURL(audio), title: `${notebook.title}: Audio Overview` };
+    },
+
+    async generateMindMap(notebook, signal) {
+      const text = await ask(
+        notebook,
+        'Build a mind map of the main topics in the sources. ' +
+          'Respond only with JSON where each node has the form {"title": string, "children": node[]}.',
+        signal
+      );
+      return parseJson<any>(text);
+    },
+
+    async unifyNotes(notebook, notes) {
+      const content = await chat([
+        {
+          role: 'system',
+          content: `You merge research notes for the notebook "${notebook.title}" into one well-organised note.`,
+        },
+        { role: 'user', content: notes.map((n, i) => `Note ${i + 1}:\n${n.content}`).join('\n\n') },
+      ]);
+      return { content };
+    },
+
+    async critiqueText(notebook, text) {
+      const response = await ask(
+        notebook,
+        'Give constructive, specific feedback on the writing below, checking its claims against the sources. ' +
+          'Comment on individual passages: quote the exact words of the writing each comment is about, say whether it is ' +
+          'an "issue", a "suggestion" or "praise", optionally propose replacement text, and list source passages that ' +
+          'support or contradict it, quoting them exactly. ' +
+          'Respond only with JSON of the form {"critique": string, "comments": [{"quote": string, "comment": string, ' +
+          '"kind": "issue" | "suggestion" | "praise", "replacement"?: string, ' +
+          '"evidence": [{"sourceId": string, "quote": string, "stance": "supports" | "contradicts"}]}]}.\n\n' +
+          text
+      );
+      const result = parseJson<Critique>(response);
+      return {
+        critique: result.critique || '',
+        comments: (result.comments || []).map((c) => ({
+          ...c,
+          evidence: (c.evidence || []).filter((e) => notebook.sources.some((s) => s.id === e.sourceId)),
+        })),
+      };
+    },
+
+    async describeImage(image, signal) {
+      const instruction =
+        'Describe this image so that it can be searched and cited as a research source. Say what it shows. ' +
+        'For a diagram, chart or table, explain its structure and list its labels, axes, values and conclusions. ' +
+        'Respond with the description only, as plain prose.';
+      return chat(
+        [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: instruction },
+              { type: 'image_url', image_url: { url: await readAsDataUrl(image) } },
+            ],
+          },
+        ],
+        signal
+      );
+    },
+  };
+}
@@ -0,0 +1,1364 @@
+/*
+ * PDF text extraction.
+ *
+ * Reads a PDF in the browser and returns the text of each page together
+ * with the document's headings and title.  The parser is written for
+ * extraction only: objects are found by scanning the file for `N G obj`
+ * headers rather than by trusting the cross-reference table, so files whose
+ * table is damaged or missing still open.  It understands compressed object
+ * streams, the common stream filters, the standard security handler (see
+ * `pdfCrypto.ts`) and the font encodings needed to map glyphs back to
+ * characters (see `pdfFonts.ts`).
+ *
+ * Text is ordered as it is drawn, which for nearly all documents is reading
+ * order; glyph positions are used to insert spaces between words and breaks
+ * between lines and paragraphs.  Pages that draw no text but do draw an
+ * image are reported as scanned, and can be passed to an OCR function.
+ */
+
+import { CryptMethod, PdfDecryptor, SecuritySettings, createDecryptor } from './pdfCrypto';
+import { FontInfo, PdfFont, createFont, trueTypeGlyphUnicode } from './pdfFonts';
+
+export interface PdfPage {
+  /** 1-based page number. */
+  number: number;
+  text: string;
+  /** True when the page has no text layer but shows an image. */
+  scanned: boolean;
+  /** True when `text` was produced by OCR. */
+  ocr: boolean;
+}
+
+export interface PdfHeading {
+  title: string;
+  /** 1 for top-level headings. */
+  level: number;
+  page: number;
+}
+
+export interface PdfText {
+  pages: PdfPage[];
+  /** From the document outline when it has one, otherwise guessed from font sizes. */
+  headings: PdfHeading[];
+  title?: string;
+  author?: string;
+  encrypted: boolean;
+}
+
+export interface PdfOptions {
+  /** Password for encrypted PDFs; the empty password is tried by default. */
+  password?: string;
+  /** Called after each page with the number of pages read so far. */
+  onProgress?: (done: number, total: number) => void;
+  /** Recognises the text of a scanned page from its image. */
+  ocr?: (image: Blob, page: number) => Promise<string>;
+}
+
+interface PdfRef {
+  kind: 'ref';
+  num: number;
+  gen: number;
+}
+
+interface PdfString {
+  kind: 'string';
+  /** Raw bytes, one character per byte. */
+  bytes: string;
+}
+
+interface PdfDict {
+  kind: 'dict';
+  entries: Record<string, PdfValue>;
+}
+
+interface PdfStream {
+  kind: 'stream';
+  dict: PdfDict;
+  raw: string;
+  num: number;
+  gen: number;
+}
+
+// Names are plain strings.
+type PdfValue = number | boolean | null | string | PdfValue[] | PdfRef | PdfString | PdfDict | PdfStream;
+
+interface Keyword {
+  kind: 'keyword';
+  name: string;
+}
+
+type Token = PdfValue | Keyword;
+
+interface Lexer {
+  text: string;
+  pos: number;
+}
+
+interface PdfDocument {
+  text: string;
+  /** Offsets of the `N G obj` headers for each object number, in file order. */
+  offsets: Map<number, number[]>;
+  /** Objects stored in object streams, with the file offset of their stream. */
+  packed: Map<number, { text: string; offset: number; streamOffset: number }>;
+  cache: Map<number, PdfValue>;
+  decryptor: PdfDecryptor | null;
+  /** Object number of the `/Encrypt` dictionary, which is never encrypted. */
+  encryptNum: number;
+}
+
+function isObject(value: unknown, kind: string): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'kind' in value && value.kind === kind;
+}
+
+const isKeyword = (value: unknown): value is Keyword => isObject(value, 'keyword');
+const isRef = (value: unknown): value is PdfRef => isObject(value, 'ref');
+const isString = (value: unknown): value is PdfString => isObject(value, 'string');
+const isDict = (value: unknown): value is PdfDict => isObject(value, 'dict');
+const isStream = (value: unknown): value is PdfStream => isObject(value, 'stream');
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
+
+function latin1ToBytes(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i);
+  return out;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/* ---------------------------------------------------------------------- */
+/* Lexer                                                                  */
+/* ---------------------------------------------------------------------- */
+
+// 1 for whitespace, 2 for delimiters, 0 for regular characters.
+const CHAR_CLASS = new Uint8Array(256);
+[0, 9, 10, 12, 13, 32].forEach((c) => (CHAR_CLASS[c] = 1));
+'()<>[]{}/%'.split('').forEach((c) => (CHAR_CLASS[c.charCodeAt(0)] = 2));
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+function skipSpace(lx: Lexer) {
+  const { text } = lx;
+  while (lx.pos < text.length) {
+    const c = text.charCodeAt(lx.pos);
+    if (CHAR_CLASS[c] === 1) {
+      lx.pos++;
+    } else if (c === 0x25) {
+      while (lx.pos < text.length && text[lx.pos] !== '\n' && text[lx.pos] !== '\r') lx.pos++;
+    } else {
+      break;
+    }
+  }
+}
+
+function readLiteralString(lx: Lexer): string {
+  const { text } = lx;
+  let depth = 1;
+  let out = '';
+  lx.pos++;
+  while (lx.pos < text.length) {
+    const ch = text[lx.pos++];
+    if (ch === '\\') {
+      const next = text[lx.pos++];
+      if (next === undefined) break;
+      if (ESCAPES[next]) {
+        out += ESCAPES[next];
+      } else if (next >= '0' && next <= '7') {
+        let octal = next;
+        while (octal.length < 3 && text[lx.pos] >= '0' && text[lx.pos] <= '7') octal += text[lx.pos++];
+        out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+      } else if (next === '\r') {
+        if (text[lx.pos] === '\n') lx.pos++;
+      } else if (next !== '\n') {
+        out += next;
+      }
+    } else if (ch === '(') {
+      depth++;
+      out += ch;
+    } else if (ch === ')') {
+      if (--depth === 0) break;
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+function hexToLatin1(hex: string): string {
+  const clean = hex.length % 2 ? `${hex}0` : hex;
+  let out = '';
+  for (let i = 0; i < clean.length; i += 2) out += String.fromCharCode(parseInt(clean.slice(i, i + 2), 16));
+  return out;
+}
+
+function readToken(lx: Lexer): Token | undefined {
+  skipSpace(lx);
+  const { text } = lx;
+  if (lx.pos >= text.length) return undefined;
+  const ch = text[lx.pos];
+  if (ch === '/') {
+    const start = ++lx.pos;
+    while (lx.pos < text.length && CHAR_CLASS[text.charCodeAt(lx.pos)] === 0) lx.pos++;
+    const name = text.slice(start, lx.pos);
+    return name.includes('#')
+      ? name.replace(/#([0-9a-fA-F]{2})/g, (_, h: string) => String.fromCharCode(parseInt(h, 16)))
+      : name;
+  }
+  if (ch === '(') return { kind: 'string', bytes: readLiteralString(lx) };
+  if (ch === '<') {
+    if (text[lx.pos + 1] === '<') {
+      lx.pos += 2;
+      return { kind: 'keyword', name: '<<' };
+    }
+    const end = text.indexOf('>', lx.pos);
+    const stop = end === -1 ? text.length : end;
+    const hex = text.slice(lx.pos + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+    lx.pos = stop + 1;
+    return { kind: 'string', bytes: hexToLatin1(hex) };
+  }
+  if (ch === '>') {
+    lx.pos += text[lx.pos + 1] === '>' ? 2 : 1;
+    return { kind: 'keyword', name: '>>' };
+  }
+  if (CHAR_CLASS[text.charCodeAt(lx.pos)] === 2) {
+    lx.pos++;
+    return { kind: 'keyword', name: ch };
+  }
+  const start = lx.pos;
+  while (lx.pos < text.length && CHAR_CLASS[text.charCodeAt(lx.pos)] === 0) lx.pos++;
+  const word = text.slice(start, lx.pos);
+  if (/^[+\-.\d]/.test(word)) {
+    const value = parseFloat(word.replace(/^[+-]+(?=[+-])/, ''));
+    if (!Number.isNaN(value)) return value;
+  }
+  if (word === 'true') return true;
+  if (word === 'false') return false;
+  if (word === 'null') return null;
+  return { kind: 'keyword', name: word };
+}
+
+/**
+ * Read one value, building arrays and dictionaries.  Keywords other than
+ * the brackets are returned as they are.  `refs` enables the look-ahead for
+ * `N G R` references, which content streams do not contain.
+ */
+function readValue(lx: Lexer, refs: boolean): Token | undefined {
+  const token = readToken(lx);
+  if (isKeyword(token)) {
+    if (token.name === '[') {
+      const items: PdfValue[] = [];
+      for (;;) {
+        const item = readValue(lx, refs);
+        if (item === undefined || (isKeyword(item) && item.name === ']')) break;
+        if (!isKeyword(item)) items.push(item);
+      }
+      return items;
+    }
+    if (token.name === '<<') {
+      const entries: Record<string, PdfValue> = Object.create(null);
+      for (;;) {
+        const key = readValue(lx, refs);
+        if (key === undefined || (isKeyword(key) && key.name === '>>')) break;
+        if (typeof key !== 'string') continue;
+        const value = readValue(lx, refs);
+        if (value === undefined || (isKeyword(value) && value.name === '>>')) break;
+        if (!isKeyword(value)) entries[key] = value;
+      }
+      return { kind: 'dict', entries };
+    }
+    return token;
+  }
+  if (refs && typeof token === 'number' && Number.isInteger(token) && token >= 0) {
+    const save = lx.pos;
+    const gen = readToken(lx);
+    if (typeof gen === 'number' && Number.isInteger(gen)) {
+      const r = readToken(lx);
+      if (isKeyword(r) && r.name === 'R') return { kind: 'ref', num: token, gen };
+    }
+    lx.pos = save;
+  }
+  return token;
+}
+
+/* ---------------------------------------------------------------------- */
+/* Objects                                                                */
+/* ---------------------------------------------------------------------- */
+
+async function resolve(doc: PdfDocument, value: PdfValue | undefined): Promise<PdfValue | undefined> {
+  let current = value;
+  for (let depth = 0; isRef(current) && depth < 16; depth++) current = await loadObject(doc, current.num);
+  return isRef(current) ? undefined : current;
+}
+
+async function get(doc: PdfDocument, dict: PdfDict | undefined, key: string): Promise<PdfValue | undefined> {
+  return dict ? resolve(doc, dict.entries[key]) : undefined;
+}
+
+async function resolveDict(doc: PdfDocument, value: PdfValue | undefined): Promise<PdfDict | undefined> {
+  const resolved = await resolve(doc, value);
+  return isStream(resolved) ? resolved.dict : isDict(resolved) ? resolved : undefined;
+}
+
+async function getDict(doc: PdfDocument, dict: PdfDict | undefined, key: string): Promise<PdfDict | undefined> {
+  return dict ? resolveDict(doc, dict.entries[key]) : undefined;
+}
+
+async function getName(doc: PdfDocument, dict: PdfDict | undefined, key: string): Promise<string | undefined> {
+  const value = await get(doc, dict, key);
+  return typeof value === 'string' ? value : undefined;
+}
+
+async function getNumber(doc: PdfDocument, dict: PdfDict | undefined, key: string): Promise<number | undefined> {
+  const value = await get(doc, dict, key);
+  return typeof value === 'number' ? value : undefined;
+}
+
+async function getArray(doc: PdfDocument, dict: PdfDict | undefined, key: string): Promise<PdfValue[]> {
+  const value = await get(doc, dict, key);
+  if (!Array.isArray(value)) return [];
+  const items: PdfValue[] = [];
+  for (const item of value) items.push((await resolve(doc, item)) ?? null);
+  return items;
+}
+
+async function getNumbers(doc: PdfDocument, dict: PdfDict | undefined, key: string): Promise<number[] | undefined> {
+  const value = await get(doc, dict, key);
+  if (!Array.isArray(value)) return undefined;
+  return (await getArray(doc, dict, key)).map((item) => (typeof item === 'number' ? item : 0));
+}
+
+/**
+ * Decode a PDF text string: UTF-16 or UTF-8 with a byte order mark,
+ * otherwise PDFDocEncoding (read as Latin-1, which it matches for text).
+ */
+function textString(value: PdfValue | undefined): string {
+  if (!isString(value)) return typeof value === 'string' ? value : '';
+  const { bytes } = value;
+  let text: string;
+  if (bytes.startsWith('\xfe\xff')) {
+    text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+  } else if (bytes.startsWith('\xef\xbb\xbf')) {
+    text = new TextDecoder().decode(latin1ToBytes(bytes.slice(3)));
+  } else {
+    text = bytes;
+  }
+  return text.replace(/[\x00-\x1f]+/g, ' ').trim();
+}
+
+async function decryptStrings(doc: PdfDocument, value: PdfValue, num: number, gen: number): Promise<PdfValue> {
+  if (isString(value)) {
+    const bytes = await doc.decryptor!.decryptString(latin1ToBytes(value.bytes), num, gen);
+    return { kind: 'string', bytes: bytesToLatin1(bytes) };
+  }
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) value[i] = await decryptStrings(doc, value[i], num, gen);
+  } else if (isDict(value)) {
+    for (const key of Object.keys(value.entries)) {
+      value.entries[key] = await decryptStrings(doc, value.entries[key], num, gen);
+    }
+  } else if (isStream(value)) {
+    await decryptStrings(doc, value.dict, num, gen);
+  }
+  return value;
+}
+
+/**
+ * Parse the object whose header is at `offset`.  Returns undefined when
+ * there is no well-formed object there.
+ */
+async function loadDirect(doc: PdfDocument, offset: number): Promise<PdfValue | undefined> {
+  const { text } = doc;
+  const lx: Lexer = { text, pos: offset };
+  const num = readToken(lx);
+  const gen = readToken(lx);
+  const obj = readToken(lx);
+  if (typeof num !== 'number' || typeof gen !== 'number' || !isKeyword(obj) || obj.name !== 'obj') return undefined;
+  const value = readValue(lx, true);
+  if (value === undefined) return undefined;
+  if (isKeyword(value)) return value.name === 'endobj' ? null : undefined;
+
+  let result: PdfValue = value;
+  if (isDict(value)) {
+    const next = readToken(lx);
+    if (isKeyword(next) && next.name === 'stream') {
+      let start = lx.pos;
+      if (text[start] === '\r') start++;
+      if (text[start] === '\n') start++;
+      const length = await resolve(doc, value.entries.Length);
+      const declaredEnd = typeof length === 'number' && length >= 0 ? start + length : -1;
+      let end = -1;
+      if (declaredEnd !== -1 && /^\s*endstream/.test(text.slice(declaredEnd, declaredEnd + 32))) {
+        end = declaredEnd;
+      } else {
+        end = text.indexOf('endstream', start);
+        if (end === -1) end = text.length;
+        if (text[end - 1] === '\n') end--;
+        if (text[end - 1] === '\r') end--;
+      }
+      result = { kind: 'stream', dict: value, raw: text.slice(start, end), num, gen };
+    }
+  }
+  if (doc.decryptor && num !== doc.encryptNum) result = await decryptStrings(doc, result, num, gen);
+  return result;
+}
+
+async function loadObject(doc: PdfDocument, num: number): Promise<PdfValue> {
+  if (doc.cache.has(num)) return doc.cache.get(num)!;
+  // Guards against reference cycles while the object is loaded.
+  doc.cache.set(num, null);
+  let value: PdfValue | undefined;
+  const offsets = doc.offsets.get(num) || [];
+  const packed = doc.packed.get(num);
+  const latest = offsets.length ? offsets[offsets.length - 1] : -1;
+  // An object stored later in the file (an incremental update) wins.
+  if (!packed || packed.streamOffset < latest) {
+    for (let i = offsets.length - 1; i >= 0 && value === undefined; i--) value = await loadDirect(doc, offsets[i]);
+  }
+  if (value === undefined && packed) {
+    const parsed = readValue({ text: packed.text, pos: packed.offset }, true);
+    value = isKeyword(parsed) ? undefined : parsed;
+  }
+  doc.cache.set(num, value ?? null);
+  return value ?? null;
+}
+
+/* ---------------------------------------------------------------------- */
+/* Streams                                                                */
+/* ---------------------------------------------------------------------- */
+
+const IMAGE_FILTERS = new Set(['DCTDecode', 'DCT', 'JPXDecode', 'JBIG2Decode', 'CCITTFaxDecode', 'CCF']);
+
+async function decompress(data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Truncated streams and trailing garbage are common; keep what was inflated.
+  }
+  return concatBytes(chunks);
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const out = await decompress(data, 'deflate');
+  // Some writers omit the zlib header.
+  return out.length > 0 || data.length < 3 ? out : decompress(data, 'deflate-raw');
+}
+
+function lzwDecode(data: Uint8Array, earlyChange: number): Uint8Array {
+  const out: number[] = [];
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => [i]);
+  };
+  reset();
+  let codeLength = 9;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+  let previous: number[] | null = null;
+  for (;;) {
+    while (bitCount < codeLength && pos < data.length) {
+      bitBuffer = ((bitBuffer << 8) | data[pos++]) >>> 0;
+      bitCount += 8;
+    }
+    if (bitCount < codeLength) break;
+    const code = (bitBuffer >>> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+    bitCount -= codeLength;
+    bitBuffer &= (1 << bitCount) - 1;
+    if (code === 256) {
+      reset();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+    if (code === 257) break;
+    const entry: number[] | null = code < table.length ? table[code] : previous ? [...previous, previous[0]] : null;
+    if (!entry) break;
+    out.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length + earlyChange >= 1 << codeLength && codeLength < 12) codeLength++;
+  }
+  return Uint8Array.from(out);
+}
+
+function asciiHexDecode(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data);
+  const end = text.indexOf('>');
+  return latin1ToBytes(hexToLatin1((end === -1 ? text : text.slice(0, end)).replace(/[^0-9a-fA-F]/g, '')));
+}
+
+function ascii85Decode(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  const group: number[] = [];
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((n, c) => n * 85 + c, 0);
+    for (let i = 0; i < count - 1; i++) out.push((value >>> (24 - 8 * i)) & 0xff);
+    group.length = 0;
+  };
+  for (let i = 0; i < data.length; i++) {
+    const c = data[i];
+    if (c === 0x7e) break; // "~>"
+    if (c === 0x7a && group.length === 0) {
+      out.push(0, 0, 0, 0);
+    } else if (c >= 0x21 && c <= 0x75) {
+      group.push(c - 0x21);
+      if (group.length === 5) flush(5);
+    }
+  }
+  if (group.length > 1) flush(group.length);
+  return Uint8Array.from(out);
+}
+
+function runLengthDecode(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; ) {
+    const length = data[i++];
+    if (length === 128) break;
+    if (length < 128) {
+      for (let k = 0; k <= length && i < data.length; k++) out.push(data[i++]);
+    } else {
+      const byte = data[i++];
+      for (let k = 0; k < 257 - length; k++) out.push(byte);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function numberIn(dict: PdfDict | undefined, key: string, fallback: number): number {
+  const value = dict?.entries[key];
+  return typeof value === 'number' ? value : fallback;
+}
+
+function unpredict(data: Uint8Array, parms: PdfDict | undefined): Uint8Array {
+  const predictor = numberIn(parms, 'Predictor', 1);
+  if (predictor < 2) return data;
+  const colors = numberIn(parms, 'Colors', 1);
+  const bits = numberIn(parms, 'BitsPerComponent', 8);
+  const columns = numberIn(parms, 'Columns', 1);
+  const bpp = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((colors * bits * columns) / 8);
+
+  if (predictor === 2) {
+    if (bits !== 8) return data;
+    const out = data.slice();
+    for (let row = 0; row < out.length; row += rowLength) {
+      for (let i = bpp; i < rowLength && row + i < out.length; i++) {
+        out[row + i] = (out[row + i] + out[row + i - bpp]) & 0xff;
+      }
+    }
+    return out;
+  }
+
+  // PNG predictors: each row starts with its own filter type byte.
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const src = row * (rowLength + 1) + 1;
+    const dst = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = row > 0 ? out[dst + i - rowLength] : 0;
+      const upLeft = row > 0 && i >= bpp ? out[dst + i - rowLength - bpp] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[dst + i] = (data[src + i] + predicted) & 0xff;
+    }
+  }
+  return out;
+}
+
+async function streamFilters(doc: PdfDocument, stream: PdfStream): Promise<{ name: string; parms?: PdfDict }[]> {
+  const filter = await get(doc, stream.dict, 'Filter');
+  const names = Array.isArray(filter) ? filter : filter ? [filter] : [];
+  const parmsValue = (await get(doc, stream.dict, 'DecodeParms')) ?? (await get(doc, stream.dict, 'DP'));
+  const filters: { name: string; parms?: PdfDict }[] = [];
+  for (let i = 0; i < names.length; i++) {
+    const name = await resolve(doc, names[i]);
+    if (typeof name !== 'string') break;
+    const parms = await resolveDict(doc, Array.isArray(parmsValue) ? parmsValue[i] : parmsValue);
+    filters.push({ name, parms });
+  }
+  return filters;
+}
+
+/**
+ * Decrypt and decode a stream's data.  Decoding stops before image codecs
+ * (JPEG and the like), whose data is returned still encoded.
+ */
+async function decodeStream(doc: PdfDocument, stream: PdfStream): Promise<Uint8Array> {
+  let data = latin1ToBytes(stream.raw);
+  if (doc.decryptor && stream.num !== doc.encryptNum && stream.dict.entries.Type !== 'XRef') {
+    data = await doc.decryptor.decryptStream(data, stream.num, stream.gen);
+  }
+  for (const { name, parms } of await streamFilters(doc, stream)) {
+    if (name === 'FlateDecode' || name === 'Fl') data = unpredict(await inflate(data), parms);
+    else if (name === 'LZWDecode' || name === 'LZW') {
+      data = unpredict(lzwDecode(data, numberIn(parms, 'EarlyChange', 1)), parms);
+    }
+    else if (name === 'ASCIIHexDecode' || name === 'AHx') data = asciiHexDecode(data);
+    else if (name === 'ASCII85Decode' || name === 'A85') data = ascii85Decode(data);
+    else if (name === 'RunLengthDecode' || name === 'RL') data = runLengthDecode(data);
+    else if (name !== 'Crypt') break;
+  }
+  return data;
+}
+
+/* ---------------------------------------------------------------------- */
+/* Document structure                                                     */
+/* ---------------------------------------------------------------------- */
+
+/** Offset of the last object header before `position`, or -1. */
+function enclosingObject(headers: number[], position: number): number {
+  let low = 0;
+  let high = headers.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (headers[mid] < position) {
+      found = headers[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+async function securitySettings(doc: PdfDocument, encrypt: PdfDict, trailer: PdfDict): Promise<SecuritySettings> {
+  const filter = await getName(doc, encrypt, 'Filter');
+  if (filter !== 'Standard') {
+    throw new Error(`This PDF is protected by an unsupported security handler (${filter || 'unknown'}).`);
+  }
+  const bytes = async (key: string) => {
+    const value = await get(doc, encrypt, key);
+    return isString(value) ? latin1ToBytes(value.bytes) : undefined;
+  };
+  const v = (await getNumber(doc, encrypt, 'V')) ?? 0;
+  let length = (await getNumber(doc, encrypt, 'Length')) ?? (v >= 4 ? 128 : 40);
+  // Some writers give the key length in bytes.
+  if (length < 40) length *= 8;
+
+  let streamMethod: CryptMethod = 'V2';
+  let stringMethod: CryptMethod = 'V2';
+  if (v >= 4) {
+    const filters = await getDict(doc, encrypt, 'CF');
+    const method = async (name: string | undefined): Promise<CryptMethod> => {
+      if (!name || name === 'Identity') return 'None';
+      const cfm = await getName(doc, await getDict(doc, filters, name), 'CFM');
+      return cfm === 'V2' || cfm === 'AESV2' || cfm === 'AESV3' ? cfm : 'None';
+    };
+    streamMethod = await method(await getName(doc, encrypt, 'StmF'));
+    stringMethod = await method(await getName(doc, encrypt, 'StrF'));
+  }
+
+  const ids = await getArray(doc, trailer, 'ID');
+  return {
+    v,
+    r: (await getNumber(doc, encrypt, 'R')) ?? 2,
+    length,
+    o: (await bytes('O')) || new Uint8Array(0),
+    u: (await bytes('U')) || new Uint8Array(0),
+    oe: await bytes('OE'),
+    ue: await bytes('UE'),
+    p: ((await getNumber(doc, encrypt, 'P')) ?? 0) | 0,
+    encryptMetadata: (await get(doc, encrypt, 'EncryptMetadata')) !== false,
+    streamMethod,
+    stringMethod,
+    id: isString(ids[0]) ? latin1ToBytes(ids[0].bytes) : new Uint8Array(0),
+  };
+}
+
+async function openDocument(data: Uint8Array, password: string) {
+  const text = bytesToLatin1(data);
+  const header = text.indexOf('%PDF-');
+  if (header === -1 || header > 1024) throw new Error('This file is not a PDF.');
+
+  const doc: PdfDocument = {
+    text,
+    offsets: new Map(),
+    packed: new Map(),
+    cache: new Map(),
+    decryptor: null,
+    encryptNum: -1,
+  };
+  const headers: number[] = [];
+  for (const match of text.matchAll(/(?<!\d)(\d+)\s+\d+\s+obj\b/g)) {
+    const num = Number(match[1]);
+    headers.push(match.index!);
+    if (!doc.offsets.has(num)) doc.offsets.set(num, []);
+    doc.offsets.get(num)!.push(match.index!);
+  }
+  const objectsAt = async (pattern: RegExp) => {
+    const found: { offset: number; value: PdfValue }[] = [];
+    for (const match of text.matchAll(pattern)) {
+      const offset = enclosingObject(headers, match.index!);
+      if (offset === -1 || found.some((f) => f.offset === offset)) continue;
+      const value = await loadDirect(doc, offset);
+      if (value !== undefined) found.push({ offset, value });
+    }
+    return found;
+  };
+
+  // The trailer is the classic `trailer` dictionary or the dictionary of a
+  // cross-reference stream.  Later ones (incremental updates) take precedence.
+  const trailers: { offset: number; dict: PdfDict }[] = [];
+  for (const match of text.matchAll(/trailer\s*<</g)) {
+    const value = readValue({ text, pos: match.index! + 7 }, true);
+    if (isDict(value)) trailers.push({ offset: match.index!, dict: value });
+  }
+  for (const { offset, value } of await objectsAt(/\/Type\s*\/XRef\b/g)) {
+    if (isStream(value)) trailers.push({ offset, dict: value.dict });
+  }
+  trailers.sort((a, b) => a.offset - b.offset);
+  const trailer: PdfDict = {
+    kind: 'dict',
+    entries: Object.assign(Object.create(null), ...trailers.map((t) => t.dict.entries)),
+  };
+
+  const encryptValue = trailer.entries.Encrypt;
+  if (encryptValue) {
+    if (isRef(encryptValue)) doc.encryptNum = encryptValue.num;
+    const encrypt = await resolveDict(doc, encryptValue);
+    if (encrypt) {
+      doc.decryptor = await createDecryptor(await securitySettings(doc, encrypt, trailer), password);
+      // Objects read so far were not decrypted.
+      doc.cache.clear();
+    }
+  }
+
+  for (const { offset, value } of await objectsAt(/\/Type\s*\/ObjStm\b/g)) {
+    if (!isStream(value)) continue;
+    const content = bytesToLatin1(await decodeStream(doc, value));
+    const count = numberIn(value.dict, 'N', 0);
+    const first = numberIn(value.dict, 'First', 0);
+    const lx: Lexer = { text: content, pos: 0 };
+    for (let i = 0; i < count; i++) {
+      const num = readToken(lx);
+      const at = readToken(lx);
+      if (typeof num !== 'number' || typeof at !== 'number') break;
+      const existing = doc.packed.get(num);
+      if (!existing || existing.streamOffset < offset) {
+        doc.packed.set(num, { text: content, offset: first + at, streamOffset: offset });
+      }
+    }
+  }
+
+  let root = await getDict(doc, trailer, 'Root');
+  if (!root) {
+    const catalogs = await objectsAt(/\/Type\s*\/Catalog\b/g);
+    root = await resolveDict(doc, catalogs[catalogs.length - 1]?.value);
+  }
+  if (!root) throw new Error('This PDF is damaged: its page list could not be found.');
+  return { doc, trailer, root, headers };
+}
+
+interface PageRecord {
+  dict: PdfDict;
+  resources?: PdfDict;
+  num?: number;
+}
+
+async function collectPages(doc: PdfDocument, root: PdfDict, headers: number[]): Promise<PageRecord[]> {
+  const pages: PageRecord[] = [];
+  const seen = new Set<number>();
+  const visit = async (value: PdfValue | undefined, inherited: PdfDict | undefined, depth: number) => {
+    if (isRef(value)) {
+      if (seen.has(value.num)) return;
+      seen.add(value.num);
+    }
+    const node = await resolveDict(doc, value);
+    if (!node || depth > 64) return;
+    const resources = (await getDict(doc, node, 'Resources')) || inherited;
+    const kids = await get(doc, node, 'Kids');
+    if (Array.isArray(kids) && node.entries.Type !== 'Page') {
+      for (const kid of kids) await visit(kid, resources, depth + 1);
+    } else {
+      pages.push({ dict: node, resources, num: isRef(value) ? value.num : undefined });
+    }
+  };
+  await visit(root.entries.Pages, undefined, 0);
+  if (pages.length > 0) return pages;
+
+  // A broken page tree: fall back to the page objects in file order.
+  for (const match of doc.text.matchAll(/\/Type\s*\/Page\b(?!s)/g)) {
+    const offset = enclosingObject(headers, match.index!);
+    const num = offset === -1 ? NaN : Number(/^\d+/.exec(doc.text.slice(offset, offset + 12))?.[0]);
+    if (Number.isNaN(num) || seen.has(num)) continue;
+    seen.add(num);
+    const dict = await resolveDict(doc, { kind: 'ref', num, gen: 0 });
+    if (dict) pages.push({ dict, resources: await getDict(doc, dict, 'Resources'), num });
+  }
+  return pages;
+}
+
+async function lookupNameTree(
+  doc: PdfDocument,
+  node: PdfDict | undefined,
+  key: string,
+  depth = 0
+): Promise<PdfValue | undefined> {
+  if (!node || depth > 32) return undefined;
+  const names = await get(doc, node, 'Names');
+  if (Array.isArray(names)) {
+    for (let i = 0; i + 1 < names.length; i += 2) {
+      if (textString(await resolve(doc, names[i])) === key) return resolve(doc, names[i + 1]);
+    }
+  }
+  for (const kid of await getArray(doc, node, 'Kids')) {
+    if (!isDict(kid)) continue;
+    const limits = await getArray(doc, kid, 'Limits');
+    if (limits.length === 2 && (key < textString(limits[0]) || key > textString(limits[1]))) continue;
+    const found = await lookupNameTree(doc, kid, key, depth + 1);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+async function destinationPage(
+  doc: PdfDocument,
+  root: PdfDict,
+  item: PdfDict,
+  pageIndex: Map<number, number>
+): Promise<number | undefined> {
+  let dest = await get(doc, item, 'Dest');
+  if (dest === undefined) {
+    const action = await getDict(doc, item, 'A');
+    if ((await getName(doc, action, 'S')) === 'GoTo') dest = await get(doc, action, 'D');
+  }
+  if (typeof dest === 'string') {
+    dest = await get(doc, await getDict(doc, root, 'Dests'), dest);
+  } else if (isString(dest)) {
+    const names = await getDict(doc, await getDict(doc, root, 'Names'), 'Dests');
+    dest = await lookupNameTree(doc, names, textString(dest));
+  }
+  if (isDict(dest)) dest = await get(doc, dest, 'D');
+  if (!Array.isArray(dest)) return undefined;
+  const target = dest[0];
+  if (isRef(target)) return pageIndex.get(target.num);
+  return typeof target === 'number' ? target + 1 : undefined;
+}
+
+async function readOutline(doc: PdfDocument, root: PdfDict, pageIndex: Map<number, number>): Promise<PdfHeading[]> {
+  const headings: PdfHeading[] = [];
+  const seen = new Set<PdfDict>();
+  const walk = async (first: PdfValue | undefined, level: number) => {
+    let item = await resolveDict(doc, first);
+    while (item && !seen.has(item) && headings.length < 5000 && level < 16) {
+      seen.add(item);
+      const title = textString(await get(doc, item, 'Title'));
+      const page = await destinationPage(doc, root, item, pageIndex);
+      if (title && page !== undefined) headings.push({ title, level, page });
+      await walk(item.entries.First, level + 1);
+      item = await resolveDict(doc, item.entries.Next);
+    }
+  };
+  const outlines = await getDict(doc, root, 'Outlines');
+  if (outlines) await walk(outlines.entries.First, 1);
+  return headings;
+}
+
+/* ---------------------------------------------------------------------- */
+/* Fonts and images                                                       */
+/* ---------------------------------------------------------------------- */
+
+/**
+ * Characters for the CIDs of a TrueType-based CID font, from the embedded
+ * font program's cmap table and the font's CID-to-glyph mapping.
+ */
+async function cidFontUnicode(doc: PdfDocument, cidFont: PdfDict | undefined): Promise<Map<number, string> | undefined> {
+  const program = await get(doc, await getDict(doc, cidFont, 'FontDescriptor'), 'FontFile2');
+  if (!isStream(program)) return undefined;
+  const glyphs = trueTypeGlyphUnicode(await decodeStream(doc, program));
+  if (glyphs.size === 0) return undefined;
+  const cidToGid = await get(doc, cidFont, 'CIDToGIDMap');
+  if (!isStream(cidToGid)) return glyphs;
+  const table = await decodeStream(doc, cidToGid);
+  const byCid = new Map<number, string>();
+  for (let cid = 0; cid * 2 + 1 < table.length; cid++) {
+    const text = glyphs.get((table[cid * 2] << 8) | table[cid * 2 + 1]);
+    if (text !== undefined) byCid.set(cid, text);
+  }
+  return byCid;
+}
+
+async function loadFont(doc: PdfDocument, font: PdfDict): Promise<PdfFont> {
+  const subtype = (await getName(doc, font, 'Subtype')) || 'Type1';
+  const info: FontInfo = { subtype, baseFont: (await getName(doc, font, 'BaseFont')) || '' };
+
+  const encoding = await get(doc, font, 'Encoding');
+  if (typeof encoding === 'string') {
+    info.encoding = encoding;
+  } else if (isStream(encoding)) {
+    info.encoding = await getName(doc, encoding.dict, 'CMapName');
+  } else if (isDict(encoding)) {
+    info.encoding = await getName(doc, encoding, 'BaseEncoding');
+    info.differences = (await getArray(doc, encoding, 'Differences')).filter(
+      (d): d is number | string => typeof d === 'number' || typeof d === 'string'
+    );
+  }
+  const toUnicode = await get(doc, font, 'ToUnicode');
+  if (isStream(toUnicode)) info.toUnicode = bytesToLatin1(await decodeStream(doc, toUnicode));
+
+  if (subtype === 'Type0') {
+    const descendants = await getArray(doc, font, 'DescendantFonts');
+    const cidFont = await resolveDict(doc, descendants[0]);
+    info.defaultWidth = await getNumber(doc, cidFont, 'DW');
+    const widths: (number | number[])[] = [];
+    for (const item of await getArray(doc, cidFont, 'W')) {
+      if (typeof item === 'number') widths.push(item);
+      else if (Array.isArray(item)) {
+        const resolved: number[] = [];
+        for (const w of item) {
+          const value = await resolve(doc, w);
+          resolved.push(typeof value === 'number' ? value : 0);
+        }
+        widths.push(resolved);
+      }
+    }
+    info.cidWidths = widths;
+    if (!info.toUnicode) info.fontUnicode = await cidFontUnicode(doc, cidFont);
+  } else {
+    info.firstChar = await getNumber(doc, font, 'FirstChar');
+    info.widths = await getNumbers(doc, font, 'Widths');
+    info.defaultWidth = await getNumber(doc, await getDict(doc, font, 'FontDescriptor'), 'MissingWidth');
+    if (subtype === 'Type3') info.fontMatrix = await getNumbers(doc, font, 'FontMatrix');
+  }
+  return createFont(info);
+}
+
+/**
+ * The image as a file an OCR engine can read: JPEG data as it is stored,
+ * or 8-bit grey and RGB pixels drawn to a PNG where the browser can.
+ */
+async function imageBlob(doc: PdfDocument, image: PdfStream): Promise<Blob | undefined> {
+  const filters = await streamFilters(doc, image);
+  const codec = filters.find((f) => IMAGE_FILTERS.has(f.name))?.name;
+  if (codec === 'DCTDecode' || codec === 'DCT') {
+    return new Blob([(await decodeStream(doc, image)) as BlobPart], { type: 'image/jpeg' });
+  }
+  if (codec || typeof OffscreenCanvas === 'undefined') return undefined;
+
+  const width = (await getNumber(doc, image.dict, 'Width')) ?? 0;
+  const height = (await getNumber(doc, image.dict, 'Height')) ?? 0;
+  if ((await getNumber(doc, image.dict, 'BitsPerComponent')) !== 8 || width <= 0 || height <= 0) return undefined;
+  const colorSpace = await get(doc, image.dict, 'ColorSpace');
+  let components = colorSpace === 'DeviceGray' ? 1 : colorSpace === 'DeviceRGB' ? 3 : 0;
+  if (Array.isArray(colorSpace) && colorSpace[0] === 'ICCBased') {
+    components = (await getNumber(doc, await resolveDict(doc, colorSpace[1]), 'N')) ?? 0;
+  }
+  if (components !== 1 && components !== 3) return undefined;
+
+  const pixels = await decodeStream(doc, image);
+  if (pixels.length < width * height * components) return undefined;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) rgba[i * 4 + c] = pixels[i * components + (components === 3 ? c : 0)];
+    rgba[i * 4 + 3] = 255;
+  }
+  const canvas = new OffscreenCanvas(width, height);
+  canvas.getContext('2d')?.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+/* ---------------------------------------------------------------------- */
+/* Page text                                                              */
+/* ---------------------------------------------------------------------- */
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function translate(m: Matrix, tx: number, ty: number): Matrix {
+  return multiply([1, 0, 0, 1, tx, ty], m);
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  /** Horizontal scaling as a fraction. */
+  scale: number;
+  leading: number;
+  rise: number;
+}
+
+interface Line {
+  text: string;
+  /** Font size in device units. */
+  size: number;
+  y: number;
+  end: number;
+  /** True when a paragraph-sized gap separates the line from the previous one. */
+  paragraph: boolean;
+}
+
+interface PageContent {
+  lines: Line[];
+  /** Images drawn on the page; inline images have no stream. */
+  images: { stream: PdfStream | null; area: number }[];
+}
+
+/**
+ * Assembles glyphs into lines.  A glyph continues the current line when it
+ * sits on the same baseline and not far before the previous glyph's end; a
+ * gap wider than a fifth of the font size becomes a space.
+ */
+function createLayout() {
+  const lines: Line[] = [];
+  let line: Line | null = null;
+  return {
+    lines,
+    add(text: string, x: number, y: number, end: number, size: number) {
+      if (!text) return;
+      if (line && Math.abs(y - line.y) < Math.max(size, line.size) * 0.5 && x > line.end - size * 2) {
+        if (x - line.end > size * 0.2 && !/\s$/.test(line.text) && !/^\s/.test(text)) line.text += ' ';
+        line.text += text;
+        line.end = end;
+        line.size = Math.max(line.size, size);
+        return;
+      }
+      const previous: Line | null = line;
+      line = { text, size, y, end, paragraph: false };
+      if (previous) line.paragraph = Math.abs(previous.y - y) > Math.max(previous.size, size) * 1.8;
+      lines.push(line);
+    },
+  };
+}
+
+async function readPageContent(doc: PdfDocument, page: PageRecord, fonts: Map<PdfDict, PdfFont>): Promise<PageContent> {
+  const layout = createLayout();
+  const images: PageContent['images'] = [];
+  let state: GraphicsState = {
+    ctm: IDENTITY,
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    scale: 1,
+    leading: 0,
+    rise: 0,
+  };
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+
+  const fontFor = async (resources: PdfDict | undefined, name: string): Promise<PdfFont | null> => {
+    const font = await resolveDict(doc, (await getDict(doc, resources, 'Font'))?.entries[name]);
+    if (!font) return null;
+    if (!fonts.has(font)) {
+      try {
+        fonts.set(font, await loadFont(doc, font));
+      } catch (err) {
+        console.warn('Could not read PDF font', name, err);
+        fonts.set(font, createFont({ subtype: 'Type1', baseFont: '' }));
+      }
+    }
+    return fonts.get(font)!;
+  };
+
+  const show = (bytes: string) => {
+    const { font, fontSize, scale, rise } = state;
+    if (!font) return;
+    for (const glyph of font.decode(bytes)) {
+      const trm = multiply([fontSize * scale, 0, 0, fontSize, 0, rise], multiply(tm, state.ctm));
+      const advance = (glyph.width * fontSize + state.charSpacing + (glyph.space ? state.wordSpacing : 0)) * scale;
+      tm = translate(tm, advance, 0);
+      const end = multiply([1, 0, 0, 1, 0, rise], multiply(tm, state.ctm))[4];
+      layout.add(glyph.text, trm[4], trm[5], end, Math.hypot(trm[2], trm[3]));
+    }
+  };
+
+  const nextLine = (tx: number, ty: number) => {
+    tlm = translate(tlm, tx, ty);
+    tm = tlm;
+  };
+
+  const run = async (content: string, resources: PdfDict | undefined, forms: Set<PdfStream>) => {
+    const lx: Lexer = { text: content, pos: 0 };
+    const operands: Token[] = [];
+    const stack: GraphicsState[] = [];
+    const n = (i: number) => (typeof operands[i] === 'number' ? (operands[i] as number) : 0);
+    for (;;) {
+      const token = readValue(lx, false);
+      if (token === undefined) break;
+      if (!isKeyword(token)) {
+        if (operands.length < 64) operands.push(token);
+        continue;
+      }
+      switch (token.name) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          state = stack.pop() || state;
+          break;
+        case 'cm':
+          state.ctm = multiply([n(0), n(1), n(2), n(3), n(4), n(5)], state.ctm);
+          break;
+        case 'BT':
+          tm = IDENTITY;
+          tlm = IDENTITY;
+          break;
+        case 'Tc':
+          state.charSpacing = n(0);
+          break;
+        case 'Tw':
+          state.wordSpacing = n(0);
+          break;
+        case 'Tz':
+          state.scale = n(0) / 100;
+          break;
+        case 'TL':
+          state.leading = n(0);
+          break;
+        case 'Ts':
+          state.rise = n(0);
+          break;
+        case 'Tf':
+          state.font = typeof operands[0] === 'string' ? await fontFor(resources, operands[0]) : null;
+          state.fontSize = n(1);
+          break;
+        case 'Td':
+          nextLine(n(0), n(1));
+          break;
+        case 'TD':
+          state.leading = -n(1);
+          nextLine(n(0), n(1));
+          break;
+        case 'Tm':
+          tlm = [n(0), n(1), n(2), n(3), n(4), n(5)];
+          tm = tlm;
+          break;
+        case 'T*':
+          nextLine(0, -state.leading);
+          break;
+        case 'Tj':
+          if (isString(operands[0])) show(operands[0].bytes);
+          break;
+        case "'":
+          nextLine(0, -state.leading);
+          if (isString(operands[0])) show(operands[0].bytes);
+          break;
+        case '"':
+          state.wordSpacing = n(0);
+          state.charSpacing = n(1);
+          nextLine(0, -state.leading);
+          if (isString(operands[2])) show(operands[2].bytes);
+          break;
+        case 'TJ':
+          if (Array.isArray(operands[0])) {
+            for (const item of operands[0]) {
+              if (isString(item)) show(item.bytes);
+              else if (typeof item === 'number') tm = translate(tm, (-item / 1000) * state.fontSize * state.scale, 0);
+            }
+          }
+          break;
+        case 'Do': {
+          const name = operands[0];
+          const xobjects = await getDict(doc, resources, 'XObject');
+          const xobject = typeof name === 'string' ? await resolve(doc, xobjects?.entries[name]) : undefined;
+          if (!isStream(xobject)) break;
+          const subtype = await getName(doc, xobject.dict, 'Subtype');
+          if (subtype === 'Image') {
+            const { ctm } = state;
+            images.push({ stream: xobject, area: Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]) });
+          } else if (subtype === 'Form' && !forms.has(xobject) && forms.size < 12) {
+            const saved = { ...state };
+            const matrix = await getNumbers(doc, xobject.dict, 'Matrix');
+            if (matrix?.length === 6) state.ctm = multiply(matrix as Matrix, state.ctm);
+            const formResources = (await getDict(doc, xobject.dict, 'Resources')) || resources;
+            await run(bytesToLatin1(await decodeStream(doc, xobject)), formResources, new Set([...forms, xobject]));
+            state = saved;
+          }
+          break;
+        }
+        case 'BI': {
+          // Inline image: skip its parameters and data.
+          const rest = content.slice(lx.pos);
+          const data = rest.search(/\sID\s/);
+          const end = data === -1 ? -1 : rest.slice(data + 4).search(/\sEI(?=\s|$)/);
+          lx.pos = end === -1 ? content.length : lx.pos + data + 4 + end + 3;
+          images.push({ stream: null, area: Math.abs(state.ctm[0] * state.ctm[3] - state.ctm[1] * state.ctm[2]) });
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+  };
+
+  const contents = await get(doc, page.dict, 'Contents');
+  const streams = Array.isArray(contents) ? contents : contents ? [contents] : [];
+  const parts: string[] = [];
+  for (const item of streams) {
+    const stream = await resolve(doc, item);
+    if (isStream(stream)) parts.push(bytesToLatin1(await decodeStream(doc, stream)));
+  }
+  await run(parts.join('\n'), page.resources, new Set());
+  return { lines: layout.lines, images };
+}
+
+function pageText(lines: Line[]): string {
+  let text = '';
+  for (const line of lines) {
+    const clean = line.text.replace(/\s+/g, ' ').trim();
+    if (!clean) continue;
+    if (text) text += line.paragraph ? '\n\n' : '\n';
+    text += clean;
+  }
+  return text;
+}
+
+/**
+ * Guess headings for documents without an outline: short lines set in a
+ * font clearly larger than the body text, ranked into levels by size.
+ * Lines that repeat on several pages are running headers, not headings.
+ */
+function headingsFromLayout(pages: Line[][]): PdfHeading[] {
+  const weights = new Map<number, number>();
+  const repeats = new Map<string, number>();
+  for (const lines of pages) {
+    const seen = new Set<string>();
+    for (const line of lines) {
+      const size = Math.round(line.size * 2) / 2;
+      weights.set(size, (weights.get(size) || 0) + line.text.length);
+      const text = line.text.trim();
+      if (!seen.has(text)) repeats.set(text, (repeats.get(text) || 0) + 1);
+      seen.add(text);
+    }
+  }
+  let body = 0;
+  let best = -1;
+  weights.forEach((weight, size) => {
+    if (weight > best) {
+      best = weight;
+      body = size;
+    }
+  });
+  if (body <= 0) return [];
+
+  const candidates: { title: string; size: number; page: number; line: number }[] = [];
+  pages.forEach((lines, i) => {
+    lines.forEach((line, index) => {
+      const title = line.text.replace(/\s+/g, ' ').trim();
+      if (line.size < body * 1.2 || title.length < 2 || title.length > 120 || !/\p{L}/u.test(title)) return;
+      if ((repeats.get(line.text.trim()) || 0) > 2) return;
+      const previous = candidates[candidates.length - 1];
+      // A heading broken over two lines.
+      const continues = previous?.page === i + 1 && previous.line === index - 1 && previous.size === line.size;
+      if (previous && continues && !line.paragraph) {
+        previous.title = `${previous.title} ${title}`;
+        previous.line = index;
+        return;
+      }
+      candidates.push({ title, size: line.size, page: i + 1, line: index });
+    });
+  });
+  const sizes = [...new Set(candidates.map((c) => Math.round(c.size)))].sort((a, b) => b - a);
+  return candidates.map((c) => ({
+    title: c.title,
+    page: c.page,
+    level: Math.min(sizes.indexOf(Math.round(c.size)) + 1, 3),
+  }));
+}
+
+const yieldToBrowser = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Extract the text of every page of a PDF.  Throws a `PasswordError` (see
+ * `pdfCrypto.ts`) when the file needs a password that was not given.
+ */
+export async function extractPdfText(data: Uint8Array, options: PdfOptions = {}): Promise<PdfText> {
+  const { doc, trailer, root, headers } = await openDocument(data, options.password || '');
+  const pages = await collectPages(doc, root, headers);
+  const pageIndex = new Map<number, number>();
+  pages.forEach((page, i) => page.num !== undefined && pageIndex.set(page.num, i + 1));
+
+  const fonts = new Map<PdfDict, PdfFont>();
+  const results: PdfPage[] = [];
+  const layouts: Line[][] = [];
+  options.onProgress?.(0, pages.length);
+  for (let i = 0; i < pages.length; i++) {
+    let content: PageContent = { lines: [], images: [] };
+    try {
+      content = await readPageContent(doc, pages[i], fonts);
+    } catch (err) {
+      console.warn(`Could not read the text of PDF page ${i + 1}`, err);
+    }
+    let text = pageText(content.lines);
+    const scanned = !/[\p{L}\p{N}]/u.test(text) && content.images.length > 0;
+    let ocr = false;
+    if (scanned && options.ocr) {
+      const largest = content.images.reduce((a, b) => (b.area > a.area ? b : a));
+      const image = largest.stream ? await imageBlob(doc, largest.stream).catch(() => undefined) : undefined;
+      if (image) {
+        try {
+          text = (await options.ocr(image, i + 1)).trim();
+          ocr = true;
+        } catch (err) {
+          console.warn(`Could not recognise the text of PDF page ${i + 1}`, err);
+        }
+      }
+    }
+    results.push({ number: i + 1, text, scanned, ocr });
+    layouts.push(content.lines);
+    options.onProgress?.(i + 1, pages.length);
+    if (i % 4 === 3) await yieldToBrowser();
+  }
+
+  const outline = await readOutline(doc, root, pageIndex).catch(() => []);
+  const info = await getDict(doc, trailer, 'Info');
+  return {
+    pages: results,
+    headings: outline.length > 0 ? outline : headingsFromLayout(layouts),
+    title: textString(await get(doc, info, 'Title')) || undefined,
+    author: textString(await get(doc, info, 'Author')) || undefined,
+    encrypted: doc.decryptor !== null,
+  };
+}
@@ -0,0 +1,320 @@
+/*
+ * Decryption for PDFs protected by the standard security handler.
+ *
+ * Most "encrypted" PDFs only restrict printing or copying and open with an
+ * empty user password; others need the password the author set.  Both the
+ * older RC4/AES-128 schemes (revisions 2-4, keyed with MD5) and AES-256
+ * (revisions 5 and 6, keyed with SHA-2) are handled.  MD5 and RC4 are not
+ * available in WebCrypto and are implemented here; AES and SHA-2 use
+ * `crypto.subtle`.
+ */
+
+export type CryptMethod = 'None' | 'V2' | 'AESV2' | 'AESV3';
+
+/**
+ * The parts of a PDF's `/Encrypt` dictionary and trailer `/ID` needed to
+ * derive the file key.
+ */
+export interface SecuritySettings {
+  v: number;
+  r: number;
+  /** Key length in bits. */
+  length: number;
+  o: Uint8Array;
+  u: Uint8Array;
+  oe?: Uint8Array;
+  ue?: Uint8Array;
+  p: number;
+  encryptMetadata: boolean;
+  streamMethod: CryptMethod;
+  stringMethod: CryptMethod;
+  /** First element of the trailer's `/ID` array. */
+  id: Uint8Array;
+}
+
+export interface PdfDecryptor {
+  decryptStream(data: Uint8Array, num: number, gen: number): Promise<Uint8Array>;
+  decryptString(data: Uint8Array, num: number, gen: number): Promise<Uint8Array>;
+}
+
+/**
+ * Thrown when the PDF needs a password and none, or a wrong one, was given.
+ */
+export interface PasswordError extends Error {
+  /** True when a password was given but did not match. */
+  incorrect: boolean;
+}
+
+export function isPasswordError(err: unknown): err is PasswordError {
+  return err instanceof Error && err.name === 'PdfPasswordError' && 'incorrect' in err;
+}
+
+function passwordError(incorrect: boolean): PasswordError {
+  const message = incorrect ? 'The password for this PDF is incorrect.' : 'This PDF is protected with a password.';
+  return Object.assign(new Error(message), { name: 'PdfPasswordError', incorrect });
+}
+
+// Padding string from the PDF specification (7.6.4.3).
+const PAD = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08, 0x2e, 0x2e, 0x00, 0xb6,
+  0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+function md5(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(((data.length + 72) >> 6) << 6);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor(data.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const m = new Uint32Array(16);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) m[i] = view.getUint32(block + i * 4, true);
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+      const sum = (a + f + MD5_CONSTANTS[i] + m[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => outView.setUint32(i * 4, word >>> 0, true));
+  return out;
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function xorKey(key: Uint8Array, value: number): Uint8Array {
+  return key.map((byte) => byte ^ value);
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+}
+
+async function aesKey(key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, [usage]);
+}
+
+async function aesEncryptNoPadding(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    await aesKey(key, 'encrypt'),
+    data as BufferSource
+  );
+  return new Uint8Array(encrypted, 0, data.length);
+}
+
+/*
+ * WebCrypto only decrypts PKCS#7-padded data.  For unpadded data, encrypt a
+ * full block of padding under the last ciphertext block and append it: the
+ * decryption then ends with valid padding that WebCrypto strips again.
+ */
+async function aesDecryptNoPadding(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const last = data.length >= 16 ? data.slice(data.length - 16) : iv;
+  const filler = await aesEncryptNoPadding(key, last, new Uint8Array(16).fill(16));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    await aesKey(key, 'decrypt'),
+    concat(data, filler) as BufferSource
+  );
+  return new Uint8Array(decrypted);
+}
+
+async function aesDecrypt(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (data.length < 32) return new Uint8Array(0);
+  const iv = data.slice(0, 16);
+  const body = data.slice(16, 16 + Math.floor((data.length - 16) / 16) * 16);
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-CBC', iv: iv as BufferSource },
+      await aesKey(key, 'decrypt'),
+      body as BufferSource
+    );
+    return new Uint8Array(decrypted);
+  } catch {
+    // Some writers pad incorrectly; keep the data and drop what looks like padding.
+    const raw = await aesDecryptNoPadding(key, iv, body);
+    const pad = raw[raw.length - 1];
+    return pad > 0 && pad <= 16 ? raw.slice(0, raw.length - pad) : raw;
+  }
+}
+
+function padPassword(password: Uint8Array): Uint8Array {
+  const out = new Uint8Array(32);
+  const used = password.slice(0, 32);
+  out.set(used);
+  out.set(PAD.slice(0, 32 - used.length), used.length);
+  return out;
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (ch) => ch.charCodeAt(0) & 0xff);
+}
+
+// Algorithm 2: the file key for revisions 2-4.
+function legacyFileKey(settings: SecuritySettings, password: Uint8Array): Uint8Array {
+  const size = settings.r === 2 ? 5 : settings.length / 8;
+  const p = new Uint8Array(4);
+  new DataView(p.buffer).setInt32(0, settings.p, true);
+  const parts = [padPassword(password), settings.o.slice(0, 32), p, settings.id];
+  if (settings.r >= 4 && !settings.encryptMetadata) parts.push(new Uint8Array([0xff, 0xff, 0xff, 0xff]));
+  let hash = md5(concat(...parts));
+  if (settings.r >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.slice(0, size));
+  }
+  return hash.slice(0, size);
+}
+
+// Algorithms 4 and 5: check a candidate key against /U.
+function legacyUserKeyMatches(settings: SecuritySettings, key: Uint8Array): boolean {
+  if (settings.r === 2) return equalBytes(rc4(key, PAD), settings.u.slice(0, 32));
+  let hash = rc4(key, md5(concat(PAD, settings.id)));
+  for (let i = 1; i <= 19; i++) hash = rc4(xorKey(key, i), hash);
+  return equalBytes(hash, settings.u.slice(0, 16));
+}
+
+// Algorithm 7: recover the user password from /O using the owner password.
+function legacyUserPasswordFromOwner(settings: SecuritySettings, owner: Uint8Array): Uint8Array {
+  const size = settings.r === 2 ? 5 : settings.length / 8;
+  let hash = md5(padPassword(owner));
+  if (settings.r >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  const key = hash.slice(0, size);
+  let user: Uint8Array = settings.o.slice(0, 32);
+  if (settings.r === 2) return rc4(key, user);
+  for (let i = 19; i >= 0; i--) user = rc4(xorKey(key, i), user);
+  return user;
+}
+
+// Algorithm 2.B: the password hash for revisions 5 and 6.
+async function strongHash(settings: SecuritySettings, password: Uint8Array, salt: Uint8Array, userKey: Uint8Array) {
+  let k: Uint8Array = await digest('SHA-256', concat(password, salt, userKey));
+  if (settings.r === 5) return k;
+  for (let round = 0; ; round++) {
+    const block = concat(password, k, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) repeated.set(block, i * block.length);
+    const e = await aesEncryptNoPadding(k.slice(0, 16), k.slice(16, 32), repeated);
+    // The first 16 bytes of E as a big-endian number, modulo 3.
+    const mod = e.slice(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    k = await digest(['SHA-256', 'SHA-384', 'SHA-512'][mod], e);
+    if (round >= 63 && e[e.length - 1] <= round - 31) break;
+  }
+  return k.slice(0, 32);
+}
+
+async function strongFileKey(settings: SecuritySettings, password: string): Promise<Uint8Array | null> {
+  const pw = new TextEncoder().encode(password.normalize('NFKC')).slice(0, 127);
+  const { o, u } = settings;
+  const zeroIv = new Uint8Array(16);
+  if (equalBytes(await strongHash(settings, pw, u.slice(32, 40), new Uint8Array(0)), u.slice(0, 32))) {
+    const key = await strongHash(settings, pw, u.slice(40, 48), new Uint8Array(0));
+    return settings.ue ? aesDecryptNoPadding(key, zeroIv, settings.ue.slice(0, 32)) : null;
+  }
+  if (equalBytes(await strongHash(settings, pw, o.slice(32, 40), u.slice(0, 48)), o.slice(0, 32))) {
+    const key = await strongHash(settings, pw, o.slice(40, 48), u.slice(0, 48));
+    return settings.oe ? aesDecryptNoPadding(key, zeroIv, settings.oe.slice(0, 32)) : null;
+  }
+  return null;
+}
+
+function legacyFileKeyFor(settings: SecuritySettings, password: string): Uint8Array | null {
+  const pw = latin1Bytes(password);
+  const asUser = legacyFileKey(settings, pw);
+  if (legacyUserKeyMatches(settings, asUser)) return asUser;
+  const asOwner = legacyFileKey(settings, legacyUserPasswordFromOwner(settings, pw));
+  return legacyUserKeyMatches(settings, asOwner) ? asOwner : null;
+}
+
+/**
+ * Derive the file key from a password, trying it as both the user and the
+ * owner password.  Throws a `PasswordError` when it matches neither.
+ */
+export async function createDecryptor(settings: SecuritySettings, password = ''): Promise<PdfDecryptor> {
+  if (settings.v !== 1 && settings.v !== 2 && settings.v !== 4 && settings.v !== 5) {
+    throw new Error(`This PDF uses an unsupported encryption scheme (V${settings.v}).`);
+  }
+  const fileKey = settings.r >= 5 ? await strongFileKey(settings, password) : legacyFileKeyFor(settings, password);
+  if (!fileKey) throw passwordError(password !== '');
+
+  const decrypt = async (method: CryptMethod, data: Uint8Array, num: number, gen: number) => {
+    if (method === 'None') return data;
+    if (method === 'AESV3') return aesDecrypt(fileKey, data);
+    const salt = method === 'AESV2' ? [0x73, 0x41, 0x6c, 0x54] : [];
+    const objectKey = md5(
+      concat(fileKey, new Uint8Array([num, num >> 8, num >> 16, gen, gen >> 8].map((b) => b & 0xff)), new Uint8Array(salt))
+    ).slice(0, Math.min(fileKey.length + 5, 16));
+    return method === 'AESV2' ? aesDecrypt(objectKey, data) : rc4(objectKey, data);
+  };
+
+  return {
+    decryptStream: (data, num, gen) => decrypt(settings.streamMethod, data, num, gen),
+    decryptString: (data, num, gen) => decrypt(settings.stringMethod, data, num, gen),
+  };
+}
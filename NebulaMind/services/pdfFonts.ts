@@ -0,0 +1,335 @@
+/*
+ * Mapping the character codes in PDF content streams back to text.
+ *
+ * A PDF shows text as codes in a font, not as characters.  The codes are
+ * turned into Unicode with the font's ToUnicode CMap when it has one, and
+ * otherwise with its encoding: a standard base encoding (WinAnsi, MacRoman
+ * or Standard) patched by a `/Differences` array of glyph names.  Each
+ * glyph's advance width is reported as well, which the text extractor uses
+ * to tell where words end.
+ */
+
+/**
+ * The font properties read from a font dictionary.  Arrays and streams
+ * are resolved by the caller.
+ */
+export interface FontInfo {
+  subtype: string;
+  baseFont: string;
+  /** Name of the base encoding, or of the CMap for Type0 fonts. */
+  encoding?: string;
+  differences?: (number | string)[];
+  /** Text of the ToUnicode CMap. */
+  toUnicode?: string;
+  /** Characters for codes read from the embedded font program, used without a ToUnicode CMap. */
+  fontUnicode?: Map<number, string>;
+  firstChar?: number;
+  widths?: number[];
+  /** `/MissingWidth` for simple fonts, `/DW` for Type0 fonts. */
+  defaultWidth?: number;
+  /** The `/W` array of a Type0 font's descendant. */
+  cidWidths?: (number | number[])[];
+  fontMatrix?: number[];
+}
+
+export interface Glyph {
+  text: string;
+  /** Advance width in text space units at a font size of 1. */
+  width: number;
+  /** True for the single-byte code 32, to which word spacing applies. */
+  space: boolean;
+}
+
+export interface PdfFont {
+  decode(bytes: string): Glyph[];
+}
+
+const ASCII = Array.from({ length: 256 }, (_, i) => (i >= 32 && i < 127 ? String.fromCharCode(i) : ''));
+
+const WIN_ANSI_HIGH = '€\0‚ƒ„…†‡ˆ‰Š‹Œ\0Ž\0\0‘’“”•–—˜™š›œ\0žŸ';
+
+const WIN_ANSI = ASCII.map((ch, i) => {
+  if (i >= 0x80 && i < 0xa0) return WIN_ANSI_HIGH[i - 0x80].replace('\0', '');
+  return i >= 0xa0 ? String.fromCharCode(i) : ch;
+});
+
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø¿¡¬√ƒ≈∆«»… ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\uf8ffÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+const MAC_ROMAN = ASCII.map((ch, i) => (i >= 0x80 ? MAC_ROMAN_HIGH[i - 0x80] : ch));
+
+const STANDARD_HIGH: Record<number, string> = {
+  0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄', 0xa5: '¥', 0xa6: 'ƒ', 0xa7: '§', 0xa8: '¤', 0xa9: "'", 0xaa: '“',
+  0xab: '«', 0xac: '‹', 0xad: '›', 0xae: 'ﬁ', 0xaf: 'ﬂ', 0xb1: '–', 0xb2: '†', 0xb3: '‡', 0xb4: '·', 0xb6: '¶',
+  0xb7: '•', 0xb8: '‚', 0xb9: '„', 0xba: '”', 0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿', 0xc1: '`', 0xc2: '´',
+  0xc3: 'ˆ', 0xc4: '˜', 0xc5: '¯', 0xc6: '˘', 0xc7: '˙', 0xc8: '¨', 0xca: '˚', 0xcb: '¸', 0xcd: '˝', 0xce: '˛',
+  0xcf: 'ˇ', 0xd0: '—', 0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł', 0xe9: 'Ø', 0xea: 'Œ', 0xeb: 'º', 0xf1: 'æ', 0xf5: 'ı',
+  0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ', 0xfb: 'ß',
+};
+
+const STANDARD = ASCII.map((ch, i) => (i === 0x27 ? '’' : i === 0x60 ? '‘' : i >= 0x80 ? STANDARD_HIGH[i] || '' : ch));
+
+const BASE_ENCODINGS: Record<string, string[]> = {
+  WinAnsiEncoding: WIN_ANSI,
+  MacRomanEncoding: MAC_ROMAN,
+  StandardEncoding: STANDARD,
+};
+
+// Glyph names that are not a letter, a `uniXXXX`/`uXXXX` code or an
+// accented letter (handled in `glyphText`).
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',',
+  hyphen: '-', period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+  underscore: '_', grave: '`', quoteleft: '‘', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  bullet: '•', endash: '–', emdash: '—', quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚',
+  quotedblbase: '„', guillemotleft: '«', guillemotright: '»', guilsinglleft: '‹', guilsinglright: '›',
+  ellipsis: '…', dagger: '†', daggerdbl: '‡', perthousand: '‰', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi',
+  ffl: 'ffl', minus: '−', multiply: '×', divide: '÷', plusminus: '±', degree: '°', copyright: '©',
+  registered: '®', trademark: '™', section: '§', paragraph: '¶', periodcentered: '·', nbspace: ' ',
+  nonbreakingspace: ' ', sfthyphen: '-', softhyphen: '-', sterling: '£', yen: '¥', Euro: '€', euro: '€',
+  cent: '¢', currency: '¤', florin: 'ƒ', exclamdown: '¡', questiondown: '¿', ordfeminine: 'ª',
+  ordmasculine: 'º', onehalf: '½', onequarter: '¼', threequarters: '¾', mu: 'µ', AE: 'Æ', ae: 'æ', OE: 'Œ',
+  oe: 'œ', Oslash: 'Ø', oslash: 'ø', germandbls: 'ß', dotlessi: 'ı', Lslash: 'Ł', lslash: 'ł', Eth: 'Ð',
+  eth: 'ð', Thorn: 'Þ', thorn: 'þ', fraction: '⁄', logicalnot: '¬', brokenbar: '¦', dieresis: '¨',
+  acute: '´', circumflex: 'ˆ', tilde: '˜', macron: '¯', cedilla: '¸', arrowright: '→', arrowleft: '←',
+  lessequal: '≤', greaterequal: '≥', notequal: '≠', infinity: '∞',
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', dieresis: '\u0308', tilde: '\u0303', ring: '\u030a',
+  cedilla: '\u0327', caron: '\u030c', macron: '\u0304', breve: '\u0306', ogonek: '\u0328', dotaccent: '\u0307',
+  hungarumlaut: '\u030b',
+};
+
+/**
+ * The text for a glyph name, or '' for names with no known meaning (such
+ * as the `g123` names of subset fonts).
+ */
+function glyphText(name: string): string {
+  const base = name.split('.')[0];
+  if (GLYPH_NAMES[base] !== undefined) return GLYPH_NAMES[base];
+  if (/^[A-Za-z]$/.test(base)) return base;
+  const uni = /^uni([0-9A-Fa-f]{4})+$/.exec(base);
+  if (uni) return String.fromCharCode(...(base.slice(3).match(/.{4}/g) || []).map((h) => parseInt(h, 16)));
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(base);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+  const accent = Object.keys(ACCENTS).find((a) => base.length === a.length + 1 && base.endsWith(a));
+  if (accent && /^[A-Za-z]/.test(base)) return (base[0] + ACCENTS[accent]).normalize('NFC');
+  return '';
+}
+
+interface CMap {
+  /** Code space ranges by code length in bytes. */
+  ranges: { length: number; low: number; high: number }[];
+  map: Map<number, string>;
+}
+
+function hexValue(hex: string): number {
+  return hex ? parseInt(hex, 16) : 0;
+}
+
+function utf16(hex: string): string {
+  const clean = hex.replace(/\s+/g, '');
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= clean.length; i += 4) units.push(parseInt(clean.slice(i, i + 4), 16));
+  if (clean.length % 4 === 2) units.push(parseInt(clean.slice(-2), 16));
+  return String.fromCharCode(...units);
+}
+
+/**
+ * Parse the mappings of a ToUnicode CMap.
+ */
+function parseCMap(text: string): CMap {
+  const ranges: CMap['ranges'] = [];
+  const map = new Map<number, string>();
+  const tokens = (body: string) => body.match(/<[0-9a-fA-F\s]*>|\[|\]/g) || [];
+  const hex = (token: string) => token.slice(1, -1).replace(/\s+/g, '');
+
+  for (const [, body] of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    const t = tokens(body);
+    for (let i = 0; i + 1 < t.length; i += 2) {
+      const low = hex(t[i]);
+      ranges.push({ length: Math.max(1, low.length / 2), low: hexValue(low), high: hexValue(hex(t[i + 1])) });
+    }
+  }
+  for (const [, body] of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    const t = tokens(body);
+    for (let i = 0; i + 1 < t.length; i += 2) map.set(hexValue(hex(t[i])), utf16(hex(t[i + 1])));
+  }
+  for (const [, body] of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const t = tokens(body);
+    for (let i = 0; i + 2 < t.length; ) {
+      const low = hexValue(hex(t[i]));
+      const high = Math.min(hexValue(hex(t[i + 1])), low + 0xffff);
+      if (t[i + 2] === '[') {
+        let j = i + 3;
+        for (let code = low; j < t.length && t[j] !== ']'; j++, code++) map.set(code, utf16(hex(t[j])));
+        i = j + 1;
+      } else {
+        const start = utf16(hex(t[i + 2]));
+        const last = start.charCodeAt(start.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, start.slice(0, -1) + String.fromCharCode(last + code - low));
+        }
+        i += 3;
+      }
+    }
+  }
+  return { ranges, map };
+}
+
+function cidWidthMap(w: (number | number[])[] = []): Map<number, number> {
+  const widths = new Map<number, number>();
+  for (let i = 0; i < w.length; ) {
+    const first = w[i];
+    const next = w[i + 1];
+    if (typeof first !== 'number') {
+      i++;
+    } else if (Array.isArray(next)) {
+      next.forEach((width, k) => widths.set(first + k, width));
+      i += 2;
+    } else if (typeof next === 'number' && typeof w[i + 2] === 'number') {
+      for (let cid = first; cid <= next && cid - first < 0x10000; cid++) widths.set(cid, w[i + 2] as number);
+      i += 3;
+    } else {
+      break;
+    }
+  }
+  return widths;
+}
+
+/**
+ * Read the `cmap` table of a TrueType font program and invert it, giving
+ * the character drawn by each glyph id.  Fonts embedded without a
+ * ToUnicode CMap (common for CJK text) can often be read this way.
+ */
+export function trueTypeGlyphUnicode(data: Uint8Array): Map<number, string> {
+  const glyphs = new Map<number, string>();
+  if (data.length < 12) return glyphs;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const u16 = (pos: number) => (pos + 2 <= data.length ? view.getUint16(pos) : 0);
+  const u32 = (pos: number) => (pos + 4 <= data.length ? view.getUint32(pos) : 0);
+  const add = (gid: number, code: number) => {
+    if (gid !== 0 && !glyphs.has(gid) && code > 0x1f && (code < 0xd800 || code > 0xdfff)) {
+      glyphs.set(gid, String.fromCodePoint(code));
+    }
+  };
+
+  let cmap = -1;
+  for (let i = 0, count = u16(4); i < count; i++) {
+    const record = 12 + i * 16;
+    if (String.fromCharCode(...data.subarray(record, record + 4)) === 'cmap') cmap = u32(record + 8);
+  }
+  if (cmap < 0) return glyphs;
+
+  // Prefer full Unicode subtables, then the BMP.
+  let best = -1;
+  let bestRank = 0;
+  for (let i = 0, count = u16(cmap + 2); i < count; i++) {
+    const platform = u16(cmap + 4 + i * 8);
+    const encoding = u16(cmap + 6 + i * 8);
+    const rank = platform === 3 && encoding === 10 ? 3 : platform === 3 && encoding === 1 ? 2 : platform === 0 ? 1 : 0;
+    if (rank > bestRank) {
+      bestRank = rank;
+      best = cmap + u32(cmap + 8 + i * 8);
+    }
+  }
+  if (best < 0) return glyphs;
+
+  const format = u16(best);
+  if (format === 4) {
+    const segments = u16(best + 6) / 2;
+    const ends = best + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+    for (let seg = 0; seg < segments; seg++) {
+      const start = u16(starts + seg * 2);
+      const end = u16(ends + seg * 2);
+      const delta = u16(deltas + seg * 2);
+      const rangeOffset = u16(rangeOffsets + seg * 2);
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let gid = code;
+        if (rangeOffset !== 0) {
+          gid = u16(rangeOffsets + seg * 2 + rangeOffset + (code - start) * 2);
+          if (gid === 0) continue;
+        }
+        add((gid + delta) & 0xffff, code);
+      }
+    }
+  } else if (format === 12) {
+    for (let i = 0, groups = u32(best + 12); i < groups; i++) {
+      const group = best + 16 + i * 12;
+      const start = u32(group);
+      const end = Math.min(u32(group + 4), start + 0xffff);
+      const firstGlyph = u32(group + 8);
+      for (let code = start; code <= end; code++) add(firstGlyph + code - start, code);
+    }
+  }
+  return glyphs;
+}
+
+/**
+ * Build a decoder for a font.
+ */
+export function createFont(info: FontInfo): PdfFont {
+  const composite = info.subtype === 'Type0';
+  const cmap = info.toUnicode ? parseCMap(info.toUnicode) : null;
+  const scale = info.fontMatrix?.[0] || 0.001;
+  const encodingName = info.encoding || '';
+  // Predefined CMaps such as UniJIS-UCS2-H use UTF-16 codes directly.
+  const unicodeCodes = composite && /UCS2|UTF16/.test(encodingName);
+
+  let encoding: string[] = [];
+  if (!composite) {
+    const symbolic = /Symbol|Dingbats/.test(info.baseFont);
+    encoding = [...(BASE_ENCODINGS[encodingName] || (symbolic ? ASCII : STANDARD))];
+    let code = 0;
+    for (const entry of info.differences || []) {
+      if (typeof entry === 'number') code = entry;
+      else if (code < 256) encoding[code++] = glyphText(entry);
+    }
+  }
+
+  const cidWidths = composite ? cidWidthMap(info.cidWidths) : null;
+  const fallbackWidth = info.defaultWidth || (composite ? 1000 : /Courier/.test(info.baseFont) ? 600 : 500);
+
+  const width = (code: number): number => {
+    if (cidWidths) return (cidWidths.get(code) ?? fallbackWidth) * scale;
+    const w = info.widths?.[code - (info.firstChar ?? 0)];
+    return (typeof w === 'number' && w > 0 ? w : fallbackWidth) * scale;
+  };
+
+  const codeLength = (bytes: string, pos: number): number => {
+    if (cmap && cmap.ranges.length > 0) {
+      let code = 0;
+      for (let n = 1; n <= 4 && pos + n <= bytes.length; n++) {
+        code = code * 256 + bytes.charCodeAt(pos + n - 1);
+        if (cmap.ranges.some((r) => r.length === n && code >= r.low && code <= r.high)) return n;
+      }
+    }
+    return composite ? 2 : 1;
+  };
+
+  return {
+    decode(bytes) {
+      const glyphs: Glyph[] = [];
+      for (let pos = 0; pos < bytes.length; ) {
+        const length = Math.min(codeLength(bytes, pos), bytes.length - pos);
+        let code = 0;
+        for (let k = 0; k < length; k++) code = code * 256 + bytes.charCodeAt(pos + k);
+        pos += length;
+        let text = cmap?.map.get(code) ?? info.fontUnicode?.get(code);
+        if (text === undefined) {
+          if (unicodeCodes) text = String.fromCharCode(code);
+          else text = composite ? '' : encoding[code] ?? '';
+        }
+        glyphs.push({ text, width: width(code), space: length === 1 && code === 32 });
+      }
+      return glyphs;
+    },
+  };
+}
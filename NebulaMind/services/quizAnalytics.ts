@@ -0,0 +1,150 @@
+/*
+ * Quiz history analytics.
+ *
+ * Works over the stored quiz attempts of a notebook to show how scores
+ * develop, which questions are missed most often and which sources and
+ * topics those misses trace back to.  A question counts as missed when it
+ * did not earn full credit.  Questions are matched across attempts by
+ * their (normalised) prompt, since a regenerated quiz gives the same
+ * question a new id.
+ */
+
+import { QuizAttempt, QuizQuestion } from '../types';
+import { QuizOptions } from './ai';
+import { tokenize } from './retrieval';
+
+export interface TrendPoint {
+  attemptId: string;
+  completedAt: number;
+  /** Score as a percentage of the attempt's total. */
+  percent: number;
+}
+
+export interface MissedQuestion {
+  question: QuizQuestion;
+  misses: number;
+  answered: number;
+}
+
+export interface SourceMisses {
+  sourceId: string;
+  misses: number;
+  answered: number;
+}
+
+export interface TopicMisses {
+  term: string;
+  misses: number;
+  answered: number;
+}
+
+// Topics must appear in at least this many answered questions to be
+// reported, so a single unlucky question does not define a weak topic.
+const MIN_TOPIC_QUESTIONS = 2;
+
+export function questionKey(question: QuizQuestion): string {
+  return question.prompt.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Every graded question of every attempt, with whether it was missed.
+function gradedQuestions(attempts: QuizAttempt[]): { question: QuizQuestion; missed: boolean }[] {
+  return attempts.flatMap((attempt) =>
+    attempt.questions.map((question) => {
+      const result = attempt.results.find((r) => r.questionId === question.id);
+      return { question, missed: !result?.correct };
+    })
+  );
+}
+
+function byMisses<T extends { misses: number; answered: number }>(a: T, b: T): number {
+  return b.misses - a.misses || b.misses / b.answered - a.misses / a.answered;
+}
+
+export function scoreTrend(attempts: QuizAttempt[]): TrendPoint[] {
+  return attempts.map((a) => ({
+    attemptId: a.id,
+    completedAt: a.completedAt,
+    percent: a.total ? Math.round((a.score / a.total) * 100) : 0,
+  }));
+}
+
+/**
+ * Questions missed at least once, most often missed first.
+ */
+export function missedQuestions(attempts: QuizAttempt[]): MissedQuestion[] {
+  const byKey = new Map<string, MissedQuestion>();
+  for (const { question, missed } of gradedQuestions(attempts)) {
+    const key = questionKey(question);
+    const entry = byKey.get(key) || { question, misses: 0, answered: 0 };
+    entry.answered++;
+    if (missed) entry.misses++;
+    byKey.set(key, entry);
+  }
+  return Array.from(byKey.values())
+    .filter((e) => e.misses > 0)
+    .sort(byMisses);
+}
+
+/**
+ * Misses per source, for questions that reference the source they were
+ * drawn from.  Sources with the most misses come first.
+ */
+export function missesBySource(attempts: QuizAttempt[]): SourceMisses[] {
+  const bySource = new Map<string, SourceMisses>();
+  for (const { question, missed } of gradedQuestions(attempts)) {
+    const sourceId = question.reference?.sourceId;
+    if (!sourceId) continue;
+    const entry = bySource.get(sourceId) || { sourceId, misses: 0, answered: 0 };
+    entry.answered++;
+    if (missed) entry.misses++;
+    bySource.set(sourceId, entry);
+  }
+  return Array.from(bySource.values()).sort(byMisses);
+}
+
+/**
+ * Terms from the source passages of missed questions (or their prompts,
+ * when they have no reference), ranked by how often questions about them
+ * are missed.
+ */
+export function weakTopics(attempts: QuizAttempt[], limit = 8): TopicMisses[] {
+  const byTerm = new Map<string, TopicMisses>();
+  for (const { question, missed } of gradedQuestions(attempts)) {
+    const terms = new Set(tokenize(question.reference?.snippet || question.prompt).filter((t) => t.length > 3));
+    for (const term of terms) {
+      const entry = byTerm.get(term) || { term, misses: 0, answered: 0 };
+      entry.answered++;
+      if (missed) entry.misses++;
+      byTerm.set(term, entry);
+    }
+  }
+  return Array.from(byTerm.values())
+    .filter((e) => e.misses > 0 && e.answered >= MIN_TOPIC_QUESTIONS && e.misses * 2 >= e.answered)
+    .sort(byMisses)
+    .slice(0, limit);
+}
+
+/**
+ * The questions of an attempt that did not earn full credit.
+ */
+export function missedInAttempt(attempt: QuizAttempt): QuizQuestion[] {
+  return attempt.questions.filter((q) => !attempt.results.find((r) => r.questionId === q.id)?.correct);
+}
+
+/**
+ * Generation options for a quiz on the learner's weak topics: the topics
+ * become the focus and the quiz is drawn from the sources with misses.
+ * Returns null when the history shows no weak spots yet.
+ */
+export function weakTopicOptions(attempts: QuizAttempt[], base: QuizOptions): QuizOptions | null {
+  const topics = weakTopics(attempts, 3).map((t) => t.term);
+  const sourceIds = missesBySource(attempts)
+    .filter((s) => s.misses > 0)
+    .map((s) => s.sourceId);
+  if (topics.length === 0 && sourceIds.length === 0) return null;
+  return {
+    ...base,
+    topic: topics.length ? topics.join(', ') : base.topic,
+    sourceIds: sourceIds.length ? sourceIds : base.sourceIds,
+  };
+}
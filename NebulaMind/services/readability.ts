@@ -0,0 +1,419 @@
+/*
+ * Extracting the readable article from a web page.
+ *
+ * The page is parsed with the browser's `DOMParser`, which also decodes
+ * entities.  Boilerplate (scripts, navigation, footers, share bars, cookie
+ * banners…) is removed, then the main content is found by scoring blocks
+ * of running text, in the manner of Mozilla's Readability: paragraphs give
+ * points to their parent and grandparent, links count against a block and
+ * class names such as `article` or `sidebar` tip the balance.  The result is
+ * converted to markdown that keeps headings, lists, quotes, code and tables.
+ *
+ * Title, author, publish date, canonical URL and language are read from the
+ * page's metadata: Open Graph and other `<meta>` tags, JSON-LD and markup.
+ */
+
+export interface ArticleHeading {
+  title: string;
+  level: number;
+  /** Offset of the heading in the markdown. */
+  start: number;
+}
+
+export interface Article {
+  title?: string;
+  author?: string;
+  /** Publish date as an ISO 8601 string. */
+  published?: string;
+  canonicalUrl?: string;
+  language?: string;
+  siteName?: string;
+  markdown: string;
+  headings: ArticleHeading[];
+}
+
+const REMOVED_TAGS =
+  'script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, footer, aside, dialog, object, embed, link, meta';
+const REMOVED_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alert', 'menu'];
+
+// Class names and ids of boilerplate, and of containers that may hold the
+// content despite matching the first pattern (e.g. `main-header-content`).
+const UNLIKELY =
+  /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|cookie|consent|disqus|footer|gdpr|header|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|toolbar|widget/i;
+const MAYBE = /and|article|body|column|content|main|post|shadow|story/i;
+const POSITIVE = /article|body|content|entry|hentry|main|page|post|text|blog|story/i;
+const NEGATIVE = /-ad-|hidden|banner|combx|comment|contact|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i', 'ins', 'kbd', 'label',
+  'mark', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+function collapse(text: string): string {
+  return text.replace(/[\u200b-\u200d\ufeff]/g, '').replace(/\s+/g, ' ');
+}
+
+function textOf(el: Element): string {
+  return collapse(el.textContent || '').trim();
+}
+
+// Share of an element's text that sits inside links.
+function linkDensity(el: Element): number {
+  const length = textOf(el).length;
+  if (!length) return 0;
+  let linked = 0;
+  el.querySelectorAll('a').forEach((a) => (linked += textOf(a).length));
+  return linked / length;
+}
+
+function classWeight(el: Element): number {
+  const names = `${el.className} ${el.id}`;
+  let weight = 0;
+  if (POSITIVE.test(names)) weight += 25;
+  if (NEGATIVE.test(names)) weight -= 25;
+  return weight;
+}
+
+function tagWeight(el: Element): number {
+  switch (el.tagName.toLowerCase()) {
+    case 'article':
+    case 'main':
+      return 10;
+    case 'div':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'address':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+function removeBoilerplate(root: Element): void {
+  root.querySelectorAll(REMOVED_TAGS).forEach((el) => el.remove());
+  root.querySelectorAll('[hidden], [aria-hidden="true"], [aria-modal="true"]').forEach((el) => el.remove());
+  root.querySelectorAll('[role]').forEach((el) => {
+    if (REMOVED_ROLES.includes(el.getAttribute('role') || '')) el.remove();
+  });
+  root.querySelectorAll('[style]').forEach((el) => {
+    if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.getAttribute('style') || '')) el.remove();
+  });
+  root.querySelectorAll('*').forEach((el) => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'body' || tag === 'article' || tag === 'main' || tag === 'a' || !el.isConnected) return;
+    const names = `${el.className} ${el.id}`;
+    if (UNLIKELY.test(names) && !MAYBE.test(names) && !el.querySelector('article, main, h1')) el.remove();
+  });
+}
+
+/**
+ * The elements holding the main content, or `root` when no block of running
+ * text stands out.  Siblings of the best block that also score well, or
+ * are headings or paragraphs of plain text, are kept with it.
+ */
+function mainContent(root: Element): Element[] {
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, score: number) => {
+    if (!el || !root.contains(el)) return;
+    if (!scores.has(el)) scores.set(el, tagWeight(el) + classWeight(el));
+    scores.set(el, scores.get(el)! + score);
+  };
+  root.querySelectorAll('p, pre, td, blockquote').forEach((el) => {
+    const text = textOf(el);
+    if (text.length < 25) return;
+    // One point for the paragraph, one per comma and up to three for length.
+    const score = text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(el.parentElement, score);
+    addScore(el.parentElement?.parentElement ?? null, score / 2);
+  });
+
+  let top: Element | undefined;
+  let best = 0;
+  for (const [el, score] of Array.from(scores)) {
+    const final = score * (1 - linkDensity(el));
+    scores.set(el, final);
+    if (final > best) {
+      best = final;
+      top = el;
+    }
+  }
+  if (!top) return [root];
+
+  const parent = top.parentElement;
+  if (!parent || top === root) return [top];
+  const threshold = Math.max(10, best * 0.2);
+  return Array.from(parent.children).filter((sibling) => {
+    if (sibling === top) return true;
+    if ((scores.get(sibling) ?? 0) >= threshold) return true;
+    // Keep the article's own title and section headings next to the text.
+    if (/^h[1-6]$/i.test(sibling.tagName)) return true;
+    if (sibling.tagName.toLowerCase() !== 'p') return false;
+    const text = textOf(sibling);
+    return text.length > 80 && linkDensity(sibling) < 0.25;
+  });
+}
+
+type Block = { text: string; heading?: number };
+
+/**
+ * Convert content elements to markdown blocks.  Elements not known to be
+ * inline are treated as blocks, which suits the custom elements and
+ * wrapper `div`s that pages are made of.
+ */
+function toBlocks(nodes: Node[]): Block[] {
+  const blocks: Block[] = [];
+  let inline = '';
+  // Inside headings and list items block elements only break the line.
+  let flat = 0;
+
+  const flush = () => {
+    const text = inline
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .replace(/\n{2,}/g, '\n')
+      .trim();
+    if (text) blocks.push({ text });
+    inline = '';
+  };
+
+  // Text of an element with line breaks kept, for headings and list items.
+  const inlineText = (el: Element): string => {
+    const saved = inline;
+    inline = '';
+    flat++;
+    el.childNodes.forEach((child) => {
+      if (child.nodeType === 1 && /^(ul|ol)$/i.test((child as Element).tagName)) return;
+      walkInline(child);
+    });
+    flat--;
+    const text = inline.replace(/[ \t]+/g, ' ').trim();
+    inline = saved;
+    return text;
+  };
+
+  const walkInline = (node: Node): void => {
+    if (node.nodeType === 3) {
+      inline += collapse(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'br') inline += '\n';
+    else if (tag === 'img') return;
+    else if (INLINE_TAGS.has(tag)) el.childNodes.forEach(walkInline);
+    else if (flat) {
+      inline += '\n';
+      el.childNodes.forEach(walkInline);
+      inline += '\n';
+    } else walkBlock(el);
+  };
+
+  const list = (el: Element, depth: number): string[] => {
+    const ordered = el.tagName.toLowerCase() === 'ol';
+    const lines: string[] = [];
+    let n = Number(el.getAttribute('start')) || 1;
+    for (const item of Array.from(el.children)) {
+      if (item.tagName.toLowerCase() !== 'li') continue;
+      const text = inlineText(item).replace(/\s*\n\s*/g, ' ');
+      if (text) lines.push(`${'  '.repeat(depth)}${ordered ? `${n++}.` : '-'} ${text}`);
+      item.querySelectorAll(':scope > ul, :scope > ol').forEach((nested) => lines.push(...list(nested, depth + 1)));
+    }
+    return lines;
+  };
+
+  const walkBlock = (el: Element): void => {
+    const tag = el.tagName.toLowerCase();
+    const level = /^h([1-6])$/.exec(tag);
+    if (level) {
+      flush();
+      const text = inlineText(el).replace(/\s*\n\s*/g, ' ');
+      if (text) blocks.push({ text: `${'#'.repeat(Number(level[1]))} ${text}`, heading: Number(level[1]) });
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      const lines = list(el, 0);
+      if (lines.length) blocks.push({ text: lines.join('\n') });
+    } else if (tag === 'pre') {
+      flush();
+      const code = (el.textContent || '').replace(/^\n+|\s+$/g, '');
+      if (code) blocks.push({ text: `\`\`\`\n${code}\n\`\`\`` });
+    } else if (tag === 'blockquote') {
+      flush();
+      const text = toBlocks(Array.from(el.childNodes))
+        .map((b) => b.text)
+        .join('\n\n');
+      if (text) blocks.push({ text: text.split('\n').map((line) => `> ${line}`.trimEnd()).join('\n') });
+    } else if (tag === 'table') {
+      flush();
+      const rows = Array.from(el.querySelectorAll('tr')).map((tr) =>
+        Array.from(tr.children).map((cell) => textOf(cell).replace(/\|/g, '\\|'))
+      );
+      const filled = rows.filter((cells) => cells.some(Boolean));
+      if (filled.length) {
+        const lines = filled.map((cells) => `| ${cells.join(' | ')} |`);
+        if (el.querySelector('th')) lines.splice(1, 0, `|${' --- |'.repeat(filled[0].length)}`);
+        blocks.push({ text: lines.join('\n') });
+      }
+    } else if (tag === 'hr' || tag === 'img' || tag === 'picture' || tag === 'video' || tag === 'audio') {
+      flush();
+    } else {
+      flush();
+      el.childNodes.forEach(walkInline);
+      flush();
+    }
+  };
+
+  nodes.forEach(walkInline);
+  flush();
+  return blocks;
+}
+
+function metaContent(doc: Document, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const el = doc.querySelector(`meta[property="${key}"], meta[name="${key}"], meta[itemprop="${key}"]`);
+    const value = el?.getAttribute('content')?.trim();
+    if (value) return collapse(value);
+  }
+  return undefined;
+}
+
+// JSON-LD objects describing the page, with `@graph` containers flattened.
+function linkedData(doc: Document): any[] {
+  const items: any[] = [];
+  const visit = (value: any) => {
+    if (Array.isArray(value)) value.forEach(visit);
+    else if (value && typeof value === 'object') {
+      items.push(value);
+      if (value['@graph']) visit(value['@graph']);
+    }
+  };
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      visit(JSON.parse(script.textContent || ''));
+    } catch {
+      // Malformed JSON-LD is common; ignore it.
+    }
+  });
+  return items.filter((item) => /Article|Posting|Report|WebPage/.test([].concat(item['@type'] ?? []).join(' ')));
+}
+
+function personName(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) {
+    const names = value.map(personName).filter(Boolean);
+    return names.length ? names.join(', ') : undefined;
+  }
+  return typeof value.name === 'string' ? value.name.trim() || undefined : undefined;
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Drop a site name appended to the document title, e.g. "Story | Site".
+function cleanTitle(title: string, siteName?: string): string {
+  const parts = title.split(/\s+[|\-–—»·]\s+/);
+  if (parts.length < 2) return title;
+  if (siteName) {
+    const rest = parts.filter((p) => p.toLowerCase() !== siteName.toLowerCase());
+    if (rest.length && rest.length < parts.length) return rest.join(' – ');
+  }
+  return parts[0].split(' ').length >= 3 ? parts[0] : title;
+}
+
+/**
+ * Extract the article from the HTML of the page at `url`.
+ */
+export function extractArticle(html: string, url: string): Article {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const ld = linkedData(doc);
+  const fromLd = (key: string) => ld.map((item) => item[key]).find((v) => v !== undefined && v !== '');
+
+  const siteName = metaContent(doc, 'og:site_name', 'application-name') || personName(fromLd('publisher'));
+  const heading = doc.querySelector('h1');
+  const documentTitle = collapse(doc.title || '').trim();
+  const title =
+    metaContent(doc, 'og:title', 'twitter:title') ||
+    (typeof fromLd('headline') === 'string' ? collapse(fromLd('headline')).trim() : undefined) ||
+    (documentTitle ? cleanTitle(documentTitle, siteName) : undefined) ||
+    (heading ? textOf(heading) : undefined);
+
+  const author =
+    metaContent(doc, 'author', 'article:author', 'parsely-author', 'dc.creator', 'twitter:creator') ||
+    personName(fromLd('author')) ||
+    (() => {
+      const byline = doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+      return byline ? textOf(byline).replace(/^by\s+/i, '') || undefined : undefined;
+    })();
+  // Author meta tags sometimes hold a profile URL rather than a name.
+  const authorName = author && !/^https?:\/\//.test(author) ? author : personName(fromLd('author'));
+
+  const published = isoDate(
+    metaContent(doc, 'article:published_time', 'datePublished', 'date', 'dc.date', 'dc.date.issued', 'parsely-pub-date') ||
+      fromLd('datePublished') ||
+      doc.querySelector('time[datetime]')?.getAttribute('datetime') ||
+      undefined
+  );
+
+  const canonicalHref =
+    doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || metaContent(doc, 'og:url') || fromLd('url');
+  let canonicalUrl: string | undefined;
+  try {
+    canonicalUrl = canonicalHref ? new URL(canonicalHref, url).href : undefined;
+  } catch {
+    canonicalUrl = undefined;
+  }
+
+  const locale = metaContent(doc, 'og:locale');
+  const language =
+    doc.documentElement.getAttribute('lang')?.trim() ||
+    doc.querySelector('meta[http-equiv="content-language" i]')?.getAttribute('content')?.trim() ||
+    (typeof fromLd('inLanguage') === 'string' ? fromLd('inLanguage') : undefined) ||
+    (locale ? locale.replace('_', '-') : undefined);
+
+  const body = doc.body;
+  let markdown = '';
+  const headings: ArticleHeading[] = [];
+  if (body) {
+    removeBoilerplate(body);
+    const roots = body.querySelectorAll('article, [itemprop="articleBody"]');
+    const container = roots.length === 1 && textOf(roots[0]).length > 250 ? roots[0] : body;
+    let blocks = toBlocks(mainContent(container));
+    // When scoring picked too little, fall back to everything that is left.
+    if (blocks.reduce((n, b) => n + b.text.length, 0) < 250 && container !== body) blocks = toBlocks([body]);
+    for (const block of blocks) {
+      if (markdown) markdown += '\n\n';
+      if (block.heading) headings.push({ title: block.text.replace(/^#+\s*/, ''), level: block.heading, start: markdown.length });
+      markdown += block.text;
+    }
+  }
+
+  return {
+    markdown,
+    headings,
+    ...(title ? { title } : {}),
+    ...(authorName ? { author: authorName } : {}),
+    ...(published ? { published } : {}),
+    ...(canonicalUrl ? { canonicalUrl } : {}),
+    ...(language ? { language } : {}),
+    ...(siteName ? { siteName } : {}),
+  };
+}
@@ -0,0 +1,191 @@
+/*
+ * Client-side retrieval over notebook sources.
+ *
+ * Each source is split into overlapping chunks of roughly CHUNK_SIZE
+ * characters, broken at paragraph or sentence boundaries where possible.
+ * Chunks are indexed with BM25 so the passages most relevant to a question
+ * can be found locally and sent along with it.  The index is updated
+ * incrementally: adding, editing or removing a source only (re)indexes that
+ * source's chunks.
+ */
+
+import { Source } from '../types';
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// BM25 parameters (standard defaults).
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by for from has have in is it its of on or that the this to was were which with what who why how when where does do did can will would should about into than then there their they these those not no'.split(
+    ' '
+  )
+);
+
+/**
+ * A passage of a source.  `start` and `end` are character offsets into
+ * `Source.content`, so a passage can be cited and highlighted exactly.
+ */
+export interface Passage {
+  sourceId: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RetrievedPassage extends Passage {
+  score: number;
+}
+
+interface IndexedChunk extends Passage {
+  id: string;
+  length: number;
+  termFreq: Map<string, number>;
+}
+
+export interface RetrievalIndex {
+  /** Index a new source or re-index one whose content changed. */
+  upsertSource(source: Source): void;
+  /** Drop a source's chunks from the index. */
+  removeSource(sourceId: string): void;
+  /** Bring the index in line with a notebook's current list of sources. */
+  sync(sources: Source[]): void;
+  /** Return the `k` passages that best match the query. */
+  search(query: string, k?: number): RetrievedPassage[];
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w));
+}
+
+// Find a good place to end a chunk that would otherwise end at `hardEnd`:
+// prefer a paragraph break, then a sentence end, then any whitespace, as
+// long as it keeps at least half of the chunk.
+function findBreak(text: string, start: number, hardEnd: number): number {
+  const minEnd = start + Math.floor((hardEnd - start) / 2);
+  const window = text.slice(minEnd, hardEnd);
+  const candidates = [window.lastIndexOf('\n\n'), window.search(/[.!?]\s(?![\s\S]*[.!?]\s)/), window.lastIndexOf(' ')];
+  for (const idx of candidates) {
+    if (idx > 0) return minEnd + idx + 1;
+  }
+  return hardEnd;
+}
+
+/**
+ * Split text into overlapping character ranges.  Consecutive chunks share
+ * about `overlap` characters so a passage that straddles a boundary is
+ * still found whole in one of them.
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let start = 0;
+  while (start < text.length) {
+    const hardEnd = Math.min(text.length, start + size);
+    const end = hardEnd === text.length ? hardEnd : findBreak(text, start, hardEnd);
+    if (text.slice(start, end).trim()) ranges.push({ start, end });
+    if (end >= text.length) break;
+    // Step back by the overlap, then forward to the next word boundary.
+    let next = Math.max(end - overlap, start + 1);
+    while (next < end && !/\s/.test(text[next - 1])) next++;
+    start = next;
+  }
+  return ranges;
+}
+
+export function createRetrievalIndex(): RetrievalIndex {
+  const chunksBySource = new Map<string, IndexedChunk[]>();
+  // Source objects are immutable, so identity tells whether a source needs
+  // re-indexing.
+  const indexedSources = new Map<string, Source>();
+  const docFreq = new Map<string, number>();
+  const postings = new Map<string, Set<IndexedChunk>>();
+  let chunkCount = 0;
+  let totalLength = 0;
+
+  const removeSource = (sourceId: string) => {
+    const chunks = chunksBySource.get(sourceId);
+    if (!chunks) return;
+    for (const chunk of chunks) {
+      for (const term of chunk.termFreq.keys()) {
+        const df = (docFreq.get(term) || 1) - 1;
+        if (df === 0) docFreq.delete(term);
+        else docFreq.set(term, df);
+        const posting = postings.get(term);
+        posting?.delete(chunk);
+        if (posting && posting.size === 0) postings.delete(term);
+      }
+      chunkCount--;
+      totalLength -= chunk.length;
+    }
+    chunksBySource.delete(sourceId);
+    indexedSources.delete(sourceId);
+  };
+
+  const upsertSource = (source: Source) => {
+    const previous = indexedSources.get(source.id);
+    if (previous === source) return;
+    if (previous && previous.content === source.content) {
+      // Only metadata (e.g. the title) changed; the chunks are still valid.
+      indexedSources.set(source.id, source);
+      return;
+    }
+    removeSource(source.id);
+    const chunks = chunkText(source.content).map<IndexedChunk>(({ start, end }, i) => {
+      const text = source.content.slice(start, end);
+      const terms = tokenize(text);
+      const termFreq = new Map<string, number>();
+      terms.forEach((t) => termFreq.set(t, (termFreq.get(t) || 0) + 1));
+      return { id: `${source.id}:${i}`, sourceId: source.id, start, end, text, length: terms.length, termFreq };
+    });
+    for (const chunk of chunks) {
+      for (const term of chunk.termFreq.keys()) {
+        docFreq.set(term, (docFreq.get(term) || 0) + 1);
+        if (!postings.has(term)) postings.set(term, new Set());
+        postings.get(term)!.add(chunk);
+      }
+      chunkCount++;
+      totalLength += chunk.length;
+    }
+    chunksBySource.set(source.id, chunks);
+    indexedSources.set(source.id, source);
+  };
+
+  return {
+    upsertSource,
+    removeSource,
+
+    sync(sources) {
+      const current = new Set(sources.map((s) => s.id));
+      Array.from(indexedSources.keys())
+        .filter((id) => !current.has(id))
+        .forEach(removeSource);
+      sources.forEach(upsertSource);
+    },
+
+    search(query, k = 6) {
+      if (chunkCount === 0) return [];
+      const avgLength = totalLength / chunkCount || 1;
+      const scores = new Map<IndexedChunk, number>();
+      for (const term of new Set(tokenize(query))) {
+        const posting = postings.get(term);
+        if (!posting) continue;
+        const df = posting.size;
+        const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+        for (const chunk of posting) {
+          const tf = chunk.termFreq.get(term)!;
+          const score = (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * chunk.length) / avgLength));
+          scores.set(chunk, (scores.get(chunk) || 0) + score);
+        }
+      }
+      return Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, k)
+        .map(([chunk, score]) => ({ sourceId: chunk.sourceId, start: chunk.start, end: chunk.end, text: chunk.text, score }));
+    },
+  };
+}
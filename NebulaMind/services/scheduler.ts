@@ -0,0 +1,107 @@
+/*
+ * Spaced-repetition scheduling for flashcards.
+ *
+ * This is a variant of the SM-2 algorithm as popularised by Anki.  Each
+ * review is graded Again, Hard, Good or Easy.  Successful reviews multiply
+ * the interval by the card's ease factor; failures ("again") reset the card
+ * to a short relearning step, count a lapse and make the card harder.
+ */
+
+import { Flashcard, ReviewGrade, ReviewState } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A failed card is shown again after this delay, within the same session.
+const RELEARN_DELAY_MS = 10 * MINUTE_MS;
+
+/**
+ * Compute a card's next scheduling state after it was reviewed with the
+ * given grade.  `previous` is undefined for a card that has never been
+ * reviewed.
+ */
+export function schedule(previous: ReviewState | undefined, grade: ReviewGrade, now = Date.now()): ReviewState {
+  const state: ReviewState = previous || {
+    ease: INITIAL_EASE,
+    interval: 0,
+    due: now,
+    lapses: 0,
+    reps: 0,
+    lastReviewed: now,
+  };
+
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, state.ease - 0.2),
+      interval: 0,
+      due: now + RELEARN_DELAY_MS,
+      // Forgetting a card that was never learned is not a lapse.
+      lapses: state.reps > 0 ? state.lapses + 1 : state.lapses,
+      reps: 0,
+      lastReviewed: now,
+    };
+  }
+
+  let interval: number;
+  let ease = state.ease;
+  if (grade === 'hard') {
+    interval = Math.max(1, Math.round(state.interval * 1.2));
+    ease = Math.max(MIN_EASE, ease - 0.15);
+  } else if (grade === 'good') {
+    interval = state.reps === 0 ? 1 : state.reps === 1 ? 3 : Math.round(state.interval * ease);
+  } else {
+    interval = state.reps === 0 ? 4 : Math.round(Math.max(state.interval, 1) * ease * 1.3);
+    ease += 0.15;
+  }
+  // Always move a successfully reviewed card forward by at least a day more
+  // than its last interval, except for the first steps.
+  if (state.reps > 1 && grade !== 'hard') interval = Math.max(interval, state.interval + 1);
+
+  return {
+    ease,
+    interval,
+    due: now + interval * DAY_MS,
+    lapses: state.lapses,
+    reps: state.reps + 1,
+    lastReviewed: now,
+  };
+}
+
+/**
+ * Timestamp of the start of the local day containing `now`.
+ */
+export function startOfDay(now = Date.now()): number {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+/**
+ * Timestamp of the end of the local day containing `now`.
+ */
+export function endOfDay(now = Date.now()): number {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+/**
+ * A card is due today if it has never been reviewed or its due time falls
+ * before the end of the current day.
+ */
+export function isDueToday(card: Flashcard, now = Date.now()): boolean {
+  return !card.review || card.review.due <= endOfDay(now);
+}
+
+/**
+ * Human-readable description of how long until a review state is due,
+ * used to label the grading buttons (e.g. "10m", "3d").
+ */
+export function formatInterval(state: ReviewState, now = Date.now()): string {
+  const ms = Math.max(0, state.due - now);
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / MINUTE_MS))}m`;
+  const days = Math.round(ms / DAY_MS);
+  return days < 30 ? `${days}d` : days < 365 ? `${Math.round(days / 30)}mo` : `${(days / 365).toFixed(1)}y`;
+}
@@ -0,0 +1,108 @@
+/*
+ * References to sources.
+ *
+ * Chats, notes, quizzes, quiz attempts and writing critiques point at
+ * passages of a notebook's sources by source id, and flashcard decks and
+ * quizzes can be scoped to some of its sources.  When sources are merged
+ * or given new ids, every one of those references has to follow.  The
+ * functions here rewrite them with a `Retarget` function and return the
+ * record itself when nothing in it changed, so that callers only save the
+ * records that did.
+ */
+
+import { ChatThread, Citation, Note, Notebook, QuizAttempt, QuizQuestion, WritingDraft } from '../types';
+
+/** Anything that points at a passage of a source. */
+export type SourceRef = Pick<Citation, 'sourceId' | 'start' | 'end' | 'page'>;
+export type Retarget = <T extends SourceRef>(ref: T) => T;
+
+/**
+ * A `Retarget` that gives references to the sources in `ids` the id they
+ * map to.
+ */
+export function renameRefs(ids: Map<string, string>): Retarget {
+  return (ref) => {
+    const id = ids.get(ref.sourceId);
+    return id === undefined ? ref : { ...ref, sourceId: id };
+  };
+}
+
+// Map a list, returning the list itself when no item changed.
+function mapChanged<T>(items: T[], fn: (item: T) => T): T[] {
+  const mapped = items.map(fn);
+  return mapped.some((item, i) => item !== items[i]) ? mapped : items;
+}
+
+export function retargetThread(thread: ChatThread, fn: Retarget): ChatThread {
+  const messages = mapChanged(thread.messages, (m) => {
+    const citations = m.citations && mapChanged(m.citations, fn);
+    return citations === m.citations ? m : { ...m, citations };
+  });
+  return messages === thread.messages ? thread : { ...thread, messages };
+}
+
+export function retargetNote(note: Note, fn: Retarget): Note {
+  const citations = note.citations && mapChanged(note.citations, fn);
+  return citations === note.citations ? note : { ...note, citations };
+}
+
+function retargetQuestions(questions: QuizQuestion[], fn: Retarget): QuizQuestion[] {
+  return mapChanged(questions, (q) => {
+    const reference = q.reference && fn(q.reference);
+    return reference === q.reference ? q : { ...q, reference };
+  });
+}
+
+export function retargetAttempt(attempt: QuizAttempt, fn: Retarget): QuizAttempt {
+  const questions = retargetQuestions(attempt.questions, fn);
+  return questions === attempt.questions ? attempt : { ...attempt, questions };
+}
+
+export function retargetDraft(draft: WritingDraft, fn: Retarget): WritingDraft {
+  const versions = mapChanged(draft.versions, (v) => {
+    if (!v.critique) return v;
+    const comments = mapChanged(v.critique.comments, (c) => {
+      const evidence = mapChanged(c.evidence, fn);
+      return evidence === c.evidence ? c : { ...c, evidence };
+    });
+    return comments === v.critique.comments ? v : { ...v, critique: { ...v.critique, comments } };
+  });
+  return versions === draft.versions ? draft : { ...draft, versions };
+}
+
+/**
+ * Retarget the references of the notebook's quiz questions.
+ */
+export function retargetNotebook(notebook: Notebook, fn: Retarget): Notebook {
+  const artifacts = mapChanged(notebook.artifacts, (a) => {
+    if (a.type !== 'quiz' || !Array.isArray(a.content?.questions)) return a;
+    const questions = retargetQuestions(a.content.questions, fn);
+    return questions === a.content.questions ? a : { ...a, content: { ...a.content, questions } };
+  });
+  return artifacts === notebook.artifacts ? notebook : { ...notebook, artifacts };
+}
+
+/**
+ * Rename the sources that flashcard decks and quizzes are scoped to.
+ * Sources renamed to the same id are listed once.
+ */
+export function renameScopes(notebook: Notebook, rename: (sourceId: string) => string): Notebook {
+  const renamed = (scope: string[] | undefined) => {
+    if (!scope?.some((id) => rename(id) !== id)) return scope;
+    return [...new Set(scope.map(rename))];
+  };
+  const artifacts = mapChanged(notebook.artifacts, (a) => {
+    if (a.type === 'flashcards') {
+      const sourceIds = renamed(a.content?.sourceIds);
+      return sourceIds === a.content?.sourceIds ? a : { ...a, content: { ...a.content, sourceIds } };
+    }
+    if (a.type === 'quiz' && a.content?.options) {
+      const sourceIds = renamed(a.content.options.sourceIds);
+      return sourceIds === a.content.options.sourceIds
+        ? a
+        : { ...a, content: { ...a.content, options: { ...a.content.options, sourceIds } } };
+    }
+    return a;
+  });
+  return artifacts === notebook.artifacts ? notebook : { ...notebook, artifacts };
+}
@@ -0,0 +1,547 @@
+/*
+ * Minimal SQLite database file reader and writer.
+ *
+ * Anki packages carry their collection as an SQLite database, and the app
+ * has to produce and read them offline without shipping an SQLite engine.
+ * This module implements just enough of the file format
+ * (https://www.sqlite.org/fileformat.html) for that: writing a fresh
+ * database of tables and indexes in one go, and reading every row of a
+ * table back.  Only UTF-8 databases are supported, and the writer never
+ * produces free pages, WAL state or auto-vacuum metadata.
+ */
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface IndexDefinition {
+  name: string;
+  /** CREATE INDEX statement, stored verbatim in the schema. */
+  sql: string;
+  /** Indexed column names, in index order. */
+  columns: string[];
+}
+
+export interface TableDefinition {
+  name: string;
+  /** CREATE TABLE statement, stored verbatim in the schema. */
+  sql: string;
+  /**
+   * Rows in column order.  When the table has an INTEGER PRIMARY KEY
+   * column, its value is used as the rowid.
+   */
+  rows: SqlValue[][];
+  indexes?: IndexDefinition[];
+}
+
+const PAGE_SIZE = 4096;
+const FILE_HEADER_SIZE = 100;
+const MAGIC = 'SQLite format 3\u0000';
+
+const INTERIOR_INDEX = 0x02;
+const INTERIOR_TABLE = 0x05;
+const LEAF_INDEX = 0x0a;
+const LEAF_TABLE = 0x0d;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ---------------------------------------------------------------------------
+// Schema parsing
+
+/**
+ * Column names of a CREATE TABLE statement and the position of its
+ * INTEGER PRIMARY KEY column (the rowid alias), or -1.
+ */
+function parseColumns(sql: string): { columns: string[]; rowidColumn: number } {
+  const body = sql.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/--[^\n]*/g, ' ');
+  const inner = body.slice(body.indexOf('(') + 1, body.lastIndexOf(')'));
+  const defs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of inner) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      defs.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  defs.push(current);
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const def of defs.map((d) => d.trim()).filter(Boolean)) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(def)) continue;
+    const name = def.split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, '');
+    if (/^\S+\s+integer\s+primary\s+key\b/i.test(def)) rowidColumn = columns.length;
+    columns.push(name);
+  }
+  return { columns, rowidColumn };
+}
+
+// ---------------------------------------------------------------------------
+// Varints and records
+
+// Values written by this module are never negative and stay below 2^53, so
+// the 9-byte form (only needed from 2^56) is never produced.
+function encodeVarint(value: number): number[] {
+  const bytes = [value % 128];
+  value = Math.floor(value / 128);
+  while (value > 0) {
+    bytes.unshift((value % 128) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  return bytes;
+}
+
+function decodeVarint(data: Uint8Array, pos: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = data[pos + i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [value, i + 1];
+  }
+  return [value * 256 + data[pos + 8], 9];
+}
+
+function intBytes(value: number, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  if (size === 8 || size === 6) {
+    const high = Math.floor(value / 2 ** 32);
+    if (size === 8) view.setInt32(0, high);
+    else view.setInt16(0, high);
+    view.setUint32(size - 4, value - high * 2 ** 32);
+  } else {
+    let v = value;
+    for (let i = size - 1; i >= 0; i--) {
+      out[i] = v & 0xff;
+      v >>= 8;
+    }
+  }
+  return out;
+}
+
+const INT_SIZES: [number, number, number][] = [
+  // [serial type, byte length, largest value]
+  [1, 1, 2 ** 7],
+  [2, 2, 2 ** 15],
+  [3, 3, 2 ** 23],
+  [4, 4, 2 ** 31],
+  [5, 6, 2 ** 47],
+  [6, 8, 2 ** 63],
+];
+
+function encodeValue(value: SqlValue): [number, Uint8Array] {
+  if (value === null) return [0, new Uint8Array(0)];
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value);
+    return [bytes.length * 2 + 13, bytes];
+  }
+  if (value instanceof Uint8Array) return [value.length * 2 + 12, value];
+  if (!Number.isInteger(value)) {
+    const out = new Uint8Array(8);
+    new DataView(out.buffer).setFloat64(0, value);
+    return [7, out];
+  }
+  if (value === 0) return [8, new Uint8Array(0)];
+  if (value === 1) return [9, new Uint8Array(0)];
+  const [type, size] = INT_SIZES.find(([, , limit]) => value >= -limit && value < limit)!;
+  return [type, intBytes(value, size)];
+}
+
+function encodeRecord(values: SqlValue[]): Uint8Array {
+  const encoded = values.map(encodeValue);
+  const types = encoded.flatMap(([type]) => encodeVarint(type));
+  let headerLength = types.length + 1;
+  while (encodeVarint(headerLength).length + types.length > headerLength) headerLength++;
+  const bodyLength = encoded.reduce((n, [, bytes]) => n + bytes.length, 0);
+  const out = new Uint8Array(headerLength + bodyLength);
+  out.set(encodeVarint(headerLength), 0);
+  out.set(types, headerLength - types.length);
+  let pos = headerLength;
+  for (const [, bytes] of encoded) {
+    out.set(bytes, pos);
+    pos += bytes.length;
+  }
+  return out;
+}
+
+function readInt(data: Uint8Array, pos: number, size: number): number {
+  const view = new DataView(data.buffer, data.byteOffset + pos, size);
+  if (size === 8) return view.getInt32(0) * 2 ** 32 + view.getUint32(4);
+  if (size === 6) return view.getInt16(0) * 2 ** 32 + view.getUint32(2);
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + data[pos + i];
+  return value >= 2 ** (8 * size - 1) ? value - 2 ** (8 * size) : value;
+}
+
+function decodeRecord(data: Uint8Array): SqlValue[] {
+  const [headerLength, n] = decodeVarint(data, 0);
+  const types: number[] = [];
+  for (let pos = n; pos < headerLength; ) {
+    const [type, len] = decodeVarint(data, pos);
+    types.push(type);
+    pos += len;
+  }
+  const values: SqlValue[] = [];
+  let pos = headerLength;
+  for (const type of types) {
+    if (type === 0) values.push(null);
+    else if (type === 8) values.push(0);
+    else if (type === 9) values.push(1);
+    else if (type >= 1 && type <= 6) {
+      const size = INT_SIZES[type - 1][1];
+      values.push(readInt(data, pos, size));
+      pos += size;
+    } else if (type === 7) {
+      values.push(new DataView(data.buffer, data.byteOffset + pos, 8).getFloat64(0));
+      pos += 8;
+    } else if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const bytes = data.subarray(pos, pos + size);
+      values.push(type % 2 === 1 ? decoder.decode(bytes) : bytes.slice());
+      pos += size;
+    } else {
+      throw new Error(`Unsupported SQLite serial type ${type}`);
+    }
+  }
+  return values;
+}
+
+function compareValues(a: SqlValue, b: SqlValue): number {
+  const rank = (v: SqlValue) => (v === null ? 0 : typeof v === 'number' ? 1 : typeof v === 'string' ? 2 : 3);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // BINARY collation compares the raw UTF-8 bytes.
+  const ab = typeof a === 'string' ? encoder.encode(a) : (a as Uint8Array);
+  const bb = typeof b === 'string' ? encoder.encode(b) : (b as Uint8Array);
+  for (let i = 0; i < Math.min(ab.length, bb.length); i++) {
+    if (ab[i] !== bb[i]) return ab[i] - bb[i];
+  }
+  return ab.length - bb.length;
+}
+
+// ---------------------------------------------------------------------------
+// Payload size limits
+
+// Bytes of a payload kept on the b-tree page; the rest spills into a chain
+// of overflow pages.
+function localPayloadSize(payloadSize: number, isTable: boolean, usable: number): number {
+  const maxLocal = isTable ? usable - 35 : Math.floor(((usable - 12) * 64) / 255) - 23;
+  if (payloadSize <= maxLocal) return payloadSize;
+  const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+  const k = minLocal + ((payloadSize - minLocal) % (usable - 4));
+  return k <= maxLocal ? k : minLocal;
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+
+/**
+ * Pages of the database being written.  Page numbers are 1-based; page 1
+ * is reserved for the schema table and the file header.
+ */
+interface PageWriter {
+  pages: (Uint8Array | null)[];
+}
+
+function allocatePage(db: PageWriter): number {
+  db.pages.push(null);
+  return db.pages.length;
+}
+
+// Build the bytes of a cell carrying a payload (everything but the child
+// pointer of interior index cells), writing overflow pages as needed.
+function payloadCell(db: PageWriter, payload: Uint8Array, isTable: boolean, rowid?: number): Uint8Array {
+  const local = localPayloadSize(payload.length, isTable, PAGE_SIZE);
+  const prefix = [...encodeVarint(payload.length), ...(rowid !== undefined ? encodeVarint(rowid) : [])];
+  const overflow = local < payload.length;
+  const cell = new Uint8Array(prefix.length + local + (overflow ? 4 : 0));
+  cell.set(prefix, 0);
+  cell.set(payload.subarray(0, local), prefix.length);
+  if (overflow) {
+    let next = allocatePage(db);
+    new DataView(cell.buffer).setUint32(cell.length - 4, next);
+    for (let pos = local; pos < payload.length; pos += PAGE_SIZE - 4) {
+      const pageNo = next;
+      const page = new Uint8Array(PAGE_SIZE);
+      const chunk = payload.subarray(pos, pos + PAGE_SIZE - 4);
+      next = pos + PAGE_SIZE - 4 < payload.length ? allocatePage(db) : 0;
+      new DataView(page.buffer).setUint32(0, next);
+      page.set(chunk, 4);
+      db.pages[pageNo - 1] = page;
+    }
+  }
+  return cell;
+}
+
+function buildPage(type: number, cells: Uint8Array[], rightChild: number | undefined, offset: number): Uint8Array {
+  const page = new Uint8Array(PAGE_SIZE);
+  const view = new DataView(page.buffer);
+  const headerSize = rightChild === undefined ? 8 : 12;
+  let content = PAGE_SIZE;
+  cells.forEach((cell, i) => {
+    content -= cell.length;
+    page.set(cell, content);
+    view.setUint16(offset + headerSize + 2 * i, content);
+  });
+  page[offset] = type;
+  view.setUint16(offset + 3, cells.length);
+  view.setUint16(offset + 5, content);
+  if (rightChild !== undefined) view.setUint32(offset + 8, rightChild);
+  return page;
+}
+
+// `reserve` is the space taken by the file header when the tree's root is
+// page 1.  It is reserved on every page of that tree, because it is not
+// known up front which level ends up as the root.
+function fits(cells: Uint8Array[], interior: boolean, reserve: number): boolean {
+  const used = cells.reduce((n, c) => n + c.length + 2, reserve + (interior ? 12 : 8));
+  return used <= PAGE_SIZE;
+}
+
+function placePage(
+  db: PageWriter,
+  type: number,
+  cells: Uint8Array[],
+  rightChild?: number,
+  pageNo = allocatePage(db)
+): number {
+  db.pages[pageNo - 1] = buildPage(type, cells, rightChild, pageNo === 1 ? FILE_HEADER_SIZE : 0);
+  return pageNo;
+}
+
+function childCell(child: number, tail: Uint8Array): Uint8Array {
+  const cell = new Uint8Array(4 + tail.length);
+  new DataView(cell.buffer).setUint32(0, child);
+  cell.set(tail, 4);
+  return cell;
+}
+
+/**
+ * Build the interior levels of a b-tree above `children`.  `separators[i]`
+ * is the cell body (without child pointer) that divides `children[i]` from
+ * `children[i + 1]`.  When a page fills up, the separator after its
+ * right-most child moves up a level.  Returns the root page number.
+ */
+function buildInterior(
+  db: PageWriter,
+  type: number,
+  children: number[],
+  separators: Uint8Array[],
+  rootPage: number | undefined,
+  reserve: number
+): number {
+  while (children.length > 1) {
+    const nextChildren: number[] = [];
+    const nextSeparators: Uint8Array[] = [];
+    let start = 0;
+    while (start < children.length) {
+      let end = start;
+      const cells: Uint8Array[] = [];
+      while (end < children.length - 1 && fits([...cells, childCell(children[end], separators[end])], true, reserve)) {
+        cells.push(childCell(children[end], separators[end]));
+        end++;
+      }
+      // Never leave a lone child for the next page: it would have no cells.
+      if (end === children.length - 2 && cells.length > 1) {
+        cells.pop();
+        end--;
+      }
+      const isRoot = start === 0 && end === children.length - 1;
+      nextChildren.push(placePage(db, type, cells, children[end], isRoot ? rootPage : undefined));
+      if (end < children.length - 1) nextSeparators.push(separators[end]);
+      start = end + 1;
+    }
+    children = nextChildren;
+    separators = nextSeparators;
+  }
+  return children[0];
+}
+
+function buildTableTree(db: PageWriter, rows: { rowid: number; record: Uint8Array }[], rootPage?: number): number {
+  const reserve = rootPage === 1 ? FILE_HEADER_SIZE : 0;
+  const cells = rows.map(({ rowid, record }) => payloadCell(db, record, true, rowid));
+  const leaves: Uint8Array[][] = [[]];
+  const maxRowids: number[] = [];
+  cells.forEach((cell, i) => {
+    if (!fits([...leaves[leaves.length - 1], cell], false, reserve)) leaves.push([]);
+    leaves[leaves.length - 1].push(cell);
+    maxRowids[leaves.length - 1] = rows[i].rowid;
+  });
+  if (leaves.length === 1) return placePage(db, LEAF_TABLE, leaves[0], undefined, rootPage);
+  const children = leaves.map((leaf) => placePage(db, LEAF_TABLE, leaf));
+  const separators = maxRowids.slice(0, -1).map((rowid) => Uint8Array.from(encodeVarint(rowid)));
+  return buildInterior(db, INTERIOR_TABLE, children, separators, rootPage, reserve);
+}
+
+function buildIndexTree(db: PageWriter, keys: SqlValue[][]): number {
+  const sorted = [...keys].sort((a, b) => {
+    for (let i = 0; i < a.length; i++) {
+      const c = compareValues(a[i], b[i]);
+      if (c !== 0) return c;
+    }
+    return 0;
+  });
+  const cells = sorted.map((key) => payloadCell(db, encodeRecord(key), false));
+  const leaves: Uint8Array[][] = [[]];
+  const separators: Uint8Array[] = [];
+  for (let i = 0; i < cells.length; i++) {
+    const leaf = leaves[leaves.length - 1];
+    if (fits([...leaf, cells[i]], false, 0)) {
+      leaf.push(cells[i]);
+    } else if (i === cells.length - 1) {
+      // The last entry cannot become a separator with nothing after it, so
+      // promote the previous one instead.
+      separators.push(leaf.pop()!);
+      leaves.push([cells[i]]);
+    } else {
+      // In an index b-tree the entry between two leaves lives in the parent.
+      separators.push(cells[i]);
+      leaves.push([]);
+    }
+  }
+  if (leaves.length === 1) return placePage(db, LEAF_INDEX, leaves[0]);
+  const children = leaves.map((leaf) => placePage(db, LEAF_INDEX, leaf));
+  return buildInterior(db, INTERIOR_INDEX, children, separators, undefined, 0);
+}
+
+/**
+ * Write a complete database file containing the given tables and their
+ * indexes.
+ */
+export function writeDatabase(tables: TableDefinition[]): Uint8Array {
+  const db: PageWriter = { pages: [null] };
+  const schema: SqlValue[][] = [];
+  for (const table of tables) {
+    const { columns, rowidColumn } = parseColumns(table.sql);
+    const rows = table.rows
+      .map((values, i) => {
+        const rowid = rowidColumn >= 0 ? (values[rowidColumn] as number) : i + 1;
+        const stored = rowidColumn >= 0 ? values.map((v, c) => (c === rowidColumn ? null : v)) : values;
+        return { rowid, values, record: encodeRecord(stored) };
+      })
+      .sort((a, b) => a.rowid - b.rowid);
+    schema.push(['table', table.name, table.name, buildTableTree(db, rows), table.sql]);
+    for (const index of table.indexes || []) {
+      const positions = index.columns.map((name) => columns.indexOf(name));
+      if (positions.includes(-1)) throw new Error(`Index ${index.name} refers to an unknown column`);
+      const keys = rows.map(({ rowid, values }) => [...positions.map((p) => (p === rowidColumn ? rowid : values[p])), rowid]);
+      schema.push(['index', index.name, table.name, buildIndexTree(db, keys), index.sql]);
+    }
+  }
+  buildTableTree(
+    db,
+    schema.map((values, i) => ({ rowid: i + 1, record: encodeRecord(values) })),
+    1
+  );
+
+  const out = new Uint8Array(db.pages.length * PAGE_SIZE);
+  db.pages.forEach((page, i) => page && out.set(page, i * PAGE_SIZE));
+  const view = new DataView(out.buffer);
+  out.set(encoder.encode(MAGIC), 0);
+  view.setUint16(16, PAGE_SIZE);
+  out[18] = 1; // legacy (rollback journal) write version
+  out[19] = 1; // legacy read version
+  out[20] = 0; // reserved bytes per page
+  out[21] = 64;
+  out[22] = 32;
+  out[23] = 32;
+  view.setUint32(24, 1); // file change counter
+  view.setUint32(28, db.pages.length);
+  view.setUint32(40, 1); // schema cookie
+  view.setUint32(44, 4); // schema format
+  view.setUint32(56, 1); // UTF-8
+  view.setUint32(92, 1); // version-valid-for, matches the change counter
+  view.setUint32(96, 3045000);
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+
+interface PageReader {
+  data: Uint8Array;
+  pageSize: number;
+  usable: number;
+  pageCount: number;
+}
+
+function openDatabase(data: Uint8Array): PageReader {
+  if (data.length < FILE_HEADER_SIZE || decoder.decode(data.subarray(0, 16)) !== MAGIC) {
+    throw new Error('Not an SQLite database');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const encoding = view.getUint32(56);
+  if (encoding !== 0 && encoding !== 1) throw new Error('Only UTF-8 SQLite databases are supported');
+  return { data, pageSize, usable: pageSize - data[20], pageCount: Math.floor(data.length / pageSize) };
+}
+
+function readPayload(db: PageReader, pos: number, size: number): Uint8Array {
+  const local = localPayloadSize(size, true, db.usable);
+  const out = new Uint8Array(size);
+  out.set(db.data.subarray(pos, pos + local), 0);
+  let filled = local;
+  let next = local < size ? new DataView(db.data.buffer, db.data.byteOffset).getUint32(pos + local) : 0;
+  let hops = 0;
+  while (filled < size) {
+    if (next < 1 || next > db.pageCount || ++hops > db.pageCount) throw new Error('Corrupt SQLite overflow chain');
+    const base = (next - 1) * db.pageSize;
+    const chunk = db.data.subarray(base + 4, base + 4 + Math.min(db.usable - 4, size - filled));
+    out.set(chunk, filled);
+    filled += chunk.length;
+    next = new DataView(db.data.buffer, db.data.byteOffset).getUint32(base);
+  }
+  return out;
+}
+
+function readTableTree(db: PageReader, root: number): { rowid: number; values: SqlValue[] }[] {
+  const rows: { rowid: number; values: SqlValue[] }[] = [];
+  const view = new DataView(db.data.buffer, db.data.byteOffset, db.data.byteLength);
+  const visited = new Set<number>();
+  const walk = (pageNo: number) => {
+    if (pageNo < 1 || pageNo > db.pageCount || visited.has(pageNo)) throw new Error('Corrupt SQLite b-tree');
+    visited.add(pageNo);
+    const base = (pageNo - 1) * db.pageSize;
+    const header = base + (pageNo === 1 ? FILE_HEADER_SIZE : 0);
+    const type = db.data[header];
+    const count = view.getUint16(header + 3);
+    if (type === INTERIOR_TABLE) {
+      for (let i = 0; i < count; i++) walk(view.getUint32(base + view.getUint16(header + 12 + 2 * i)));
+      walk(view.getUint32(header + 8));
+    } else if (type === LEAF_TABLE) {
+      for (let i = 0; i < count; i++) {
+        let pos = base + view.getUint16(header + 8 + 2 * i);
+        const [size, n1] = decodeVarint(db.data, pos);
+        const [rowid, n2] = decodeVarint(db.data, pos + n1);
+        pos += n1 + n2;
+        rows.push({ rowid, values: decodeRecord(readPayload(db, pos, size)) });
+      }
+    } else {
+      throw new Error(`Unexpected SQLite page type ${type}`);
+    }
+  };
+  walk(root);
+  return rows;
+}
+
+/**
+ * Read every row of a table.  The INTEGER PRIMARY KEY column, if any, is
+ * filled in from the rowid; columns added after a row was written read as
+ * null.
+ */
+export function readTable(data: Uint8Array, name: string): { columns: string[]; rows: SqlValue[][] } {
+  const db = openDatabase(data);
+  const entry = readTableTree(db, 1).find(
+    ({ values }) => values[0] === 'table' && String(values[1]).toLowerCase() === name.toLowerCase()
+  );
+  if (!entry) throw new Error(`Table ${name} not found`);
+  const { columns, rowidColumn } = parseColumns(String(entry.values[4]));
+  const rows = readTableTree(db, entry.values[3] as number).map(({ rowid, values }) =>
+    columns.map((_, i) => (i === rowidColumn ? rowid : values[i] ?? null))
+  );
+  return { columns, rows };
+}
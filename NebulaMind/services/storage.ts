@@ -0,0 +1,643 @@
+/*
+ * Persistent storage layer for NebulaMind.
+ *
+ * Notebooks are kept in IndexedDB so they survive page reloads.  A notebook
+ * is split across several object stores rather than being written as one
+ * large record: the notebook itself, its sources (metadata and content are
+ * stored separately), its artifacts, its notes and its chat threads.  This
+ * keeps the library listing cheap and means that saving a notebook only
+ * rewrites the parts that actually changed.
+ *
+ * The database schema is versioned.  Each entry in `migrations` upgrades the
+ * database by one version and may create stores, add indexes or rewrite
+ * existing records, so changes to the model in `types.ts` can be rolled out
+ * without losing data that users already have on disk.
+ */
+
+import {
+  Artifact,
+  BackgroundJob,
+  ChatMessage,
+  ChatThread,
+  Note,
+  Notebook,
+  QuizAttempt,
+  ReviewLog,
+  Source,
+  WritingDraft,
+} from '../types';
+import { normalizeCitations } from './citations';
+import { renameRefs, renameScopes, retargetDraft, retargetNote, retargetNotebook, retargetThread } from './sourceRefs';
+
+const DB_NAME = 'nebulamind';
+
+// Source content longer than this many characters is stored as a Blob.
+// Blobs are written and read asynchronously by the browser, so very large
+// extracted documents do not block the main thread during (de)serialisation.
+const LARGE_CONTENT_THRESHOLD = 256 * 1024;
+
+/**
+ * Lightweight description of a notebook used by the library screen.  It is
+ * read from the notebook store alone, without touching source content.
+ */
+export interface NotebookSummary {
+  id: string;
+  title: string;
+  description: string;
+  sourceCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type NotebookRecord = Omit<Notebook, 'sources' | 'artifacts'> & {
+  sourceIds: string[];
+  artifactIds: string[];
+};
+
+type SourceRecord = Omit<Source, 'content'> & {
+  notebookId: string;
+  contentLength: number;
+};
+
+interface SourceContentRecord {
+  id: string;
+  notebookId: string;
+  text?: string;
+  blob?: Blob;
+}
+
+type ArtifactRecord = Artifact & { notebookId: string };
+
+type NoteRecord = Note & { notebookId: string };
+
+// Chat history as stored by schema v1: a single conversation per notebook.
+interface LegacyChatRecord {
+  notebookId: string;
+  messages: ChatMessage[];
+}
+
+type ChatThreadRecord = ChatThread & { notebookId: string };
+
+type ReviewLogRecord = ReviewLog & { notebookId: string };
+
+type QuizAttemptRecord = QuizAttempt & { notebookId: string };
+
+type DraftRecord = WritingDraft & { notebookId: string };
+
+/**
+ * A migration upgrades the database by exactly one version.  It runs inside
+ * the `versionchange` transaction, so it can both alter the schema and
+ * rewrite existing records atomically.
+ */
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Messages with their citations in the current `Citation` form.
+const withCitations = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((m) => (m.citations ? { ...m, citations: normalizeCitations(m.citations) } : m));
+
+const migrations: Migration[] = [
+  // v1: initial schema.
+  (db) => {
+    db.createObjectStore('notebooks', { keyPath: 'id' });
+    const sources = db.createObjectStore('sources', { keyPath: 'id' });
+    sources.createIndex('notebookId', 'notebookId');
+    const contents = db.createObjectStore('sourceContent', { keyPath: 'id' });
+    contents.createIndex('notebookId', 'notebookId');
+    const artifacts = db.createObjectStore('artifacts', { keyPath: 'id' });
+    artifacts.createIndex('notebookId', 'notebookId');
+    const notes = db.createObjectStore('notes', { keyPath: 'id' });
+    notes.createIndex('notebookId', 'notebookId');
+    db.createObjectStore('chats', { keyPath: 'notebookId' });
+  },
+  // v2: chat history becomes a set of threads per notebook.  Each existing
+  // conversation is carried over as one thread.  The cursor only finishes
+  // after the later migrations have run, so the threads it writes are given
+  // v3's structured citations here.
+  (db, tx) => {
+    const threads = db.createObjectStore('chatThreads', { keyPath: 'id' });
+    threads.createIndex('notebookId', 'notebookId');
+    const cursorReq = tx.objectStore('chats').openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) {
+        db.deleteObjectStore('chats');
+        return;
+      }
+      const legacy = cursor.value as LegacyChatRecord;
+      if (legacy.messages.length > 0) {
+        const now = Date.now();
+        const thread: ChatThreadRecord = {
+          id: crypto.randomUUID(),
+          notebookId: legacy.notebookId,
+          title: threadTitleFromPrompt(legacy.messages.find((m) => m.role === 'user')?.text || ''),
+          messages: withCitations(legacy.messages),
+          createdAt: now,
+          updatedAt: now,
+        };
+        threads.put(thread);
+      }
+      cursor.continue();
+    };
+  },
+  // v3: citations change from bare source ids to structured `Citation`s.
+  (_db, tx) => {
+    transformStore<ChatThreadRecord>(tx, 'chatThreads', (thread) => ({
+      ...thread,
+      messages: withCitations(thread.messages),
+    }));
+  },
+  // v4: flashcard review logs.
+  (db) => {
+    const logs = db.createObjectStore('reviewLogs', { keyPath: 'id' });
+    logs.createIndex('notebookId', 'notebookId');
+    logs.createIndex('cardId', 'cardId');
+  },
+  // v5: quiz attempt history.
+  (db) => {
+    const attempts = db.createObjectStore('quizAttempts', { keyPath: 'id' });
+    attempts.createIndex('notebookId', 'notebookId');
+  },
+  // v6: writing drafts.
+  (db) => {
+    const drafts = db.createObjectStore('drafts', { keyPath: 'id' });
+    drafts.createIndex('notebookId', 'notebookId');
+  },
+  // v7: background generation jobs.
+  (db) => {
+    const jobs = db.createObjectStore('jobs', { keyPath: 'id' });
+    jobs.createIndex('notebookId', 'notebookId');
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+/**
+ * Derive a thread title from the first question asked in it.
+ */
+export function threadTitleFromPrompt(prompt: string): string {
+  const oneLine = prompt.replace(/\s+/g, ' ').trim();
+  if (!oneLine) return 'New conversation';
+  return oneLine.length > 60 ? `${oneLine.slice(0, 57)}…` : oneLine;
+}
+
+// Wrap an IDBRequest in a promise.
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Resolve once a transaction has committed.
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Rewrite every record in a store.  Intended for use inside migrations when
+ * the shape of a model changes.  Returning `null` from `fn` deletes the
+ * record.
+ */
+export function transformStore<T>(tx: IDBTransaction, storeName: string, fn: (record: T) => T | null): void {
+  const cursorReq = tx.objectStore(storeName).openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    const next = fn(cursor.value as T);
+    if (next === null) cursor.delete();
+    else cursor.update(next);
+    cursor.continue();
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        migrations[v](db, tx);
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgraded the schema; drop our connection so the upgrade
+      // can proceed and reopen lazily on the next call.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+    req.onblocked = () => console.warn('NebulaMind database upgrade is blocked by another open tab.');
+  });
+  return dbPromise;
+}
+
+// Sources that are known to match what is on disk.  Sources are treated as
+// immutable (edits always produce a new object), so identity is enough to
+// tell that one has not changed since it was last saved or loaded.
+const persistedSources = new WeakSet<Source>();
+
+function toContentRecord(source: Source, notebookId: string): SourceContentRecord {
+  return source.content.length > LARGE_CONTENT_THRESHOLD
+    ? { id: source.id, notebookId, blob: new Blob([source.content], { type: 'text/plain' }) }
+    : { id: source.id, notebookId, text: source.content };
+}
+
+async function readContent(record: SourceContentRecord | undefined): Promise<string> {
+  if (!record) return '';
+  if (record.blob) return record.blob.text();
+  return record.text || '';
+}
+
+/**
+ * List all stored notebooks, most recently updated first.
+ */
+export async function listNotebooks(): Promise<NotebookSummary[]> {
+  const db = await openDb();
+  const records = await request<NotebookRecord[]>(
+    db.transaction('notebooks').objectStore('notebooks').getAll()
+  );
+  return records
+    .map((r) => ({
+      id: r.id,
+      title: r.title,
+      description: r.description,
+      sourceCount: r.sourceIds.length,
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Load a notebook with all of its sources and artifacts.  Returns null when
+ * no notebook with the given id exists.
+ */
+export async function getNotebook(id: string): Promise<Notebook | null> {
+  const db = await openDb();
+  const tx = db.transaction(['notebooks', 'sources', 'sourceContent', 'artifacts']);
+  const [record, sourceRecords, contentRecords, artifactRecords] = await Promise.all([
+    request<NotebookRecord | undefined>(tx.objectStore('notebooks').get(id)),
+    request<SourceRecord[]>(tx.objectStore('sources').index('notebookId').getAll(id)),
+    request<SourceContentRecord[]>(tx.objectStore('sourceContent').index('notebookId').getAll(id)),
+    request<ArtifactRecord[]>(tx.objectStore('artifacts').index('notebookId').getAll(id)),
+  ]);
+  if (!record) return null;
+
+  const contentById = new Map(contentRecords.map((c) => [c.id, c]));
+  const sourceById = new Map<string, Source>();
+  for (const { notebookId, contentLength, ...meta } of sourceRecords) {
+    const source: Source = { ...meta, content: await readContent(contentById.get(meta.id)) };
+    persistedSources.add(source);
+    sourceById.set(source.id, source);
+  }
+  const artifactById = new Map(artifactRecords.map(({ notebookId, ...a }) => [a.id, a as Artifact]));
+
+  const { sourceIds, artifactIds, ...rest } = record;
+  return {
+    ...rest,
+    sources: sourceIds.map((sid) => sourceById.get(sid)).filter((s): s is Source => !!s),
+    artifacts: artifactIds.map((aid) => artifactById.get(aid)).filter((a): a is Artifact => !!a),
+  };
+}
+
+/**
+ * Persist a notebook.  Only sources that changed since the last save are
+ * rewritten; sources and artifacts that are no longer part of the notebook
+ * are removed.
+ */
+export async function saveNotebook(notebook: Notebook): Promise<void> {
+  const db = await openDb();
+  const changed = notebook.sources.filter((s) => !persistedSources.has(s));
+
+  // Write changed content first, one source per transaction, so a large
+  // upload never holds a single long-running transaction open and the
+  // metadata below never points at content that was not written.
+  for (const source of changed) {
+    const tx = db.transaction('sourceContent', 'readwrite');
+    tx.objectStore('sourceContent').put(toContentRecord(source, notebook.id));
+    await transactionDone(tx);
+  }
+
+  const tx = db.transaction(['notebooks', 'sources', 'sourceContent', 'artifacts'], 'readwrite');
+  const done = transactionDone(tx);
+  const { sources, artifacts, ...rest } = notebook;
+  const record: NotebookRecord = {
+    ...rest,
+    sourceIds: sources.map((s) => s.id),
+    artifactIds: artifacts.map((a) => a.id),
+  };
+  tx.objectStore('notebooks').put(record);
+
+  const sourceStore = tx.objectStore('sources');
+  for (const { content, ...meta } of changed) {
+    const sourceRecord: SourceRecord = { ...meta, notebookId: notebook.id, contentLength: content.length };
+    sourceStore.put(sourceRecord);
+  }
+  const keepSources = new Set(record.sourceIds);
+  const storedSourceIds = await request(sourceStore.index('notebookId').getAllKeys(notebook.id));
+  for (const key of storedSourceIds) {
+    if (!keepSources.has(key as string)) {
+      sourceStore.delete(key);
+      tx.objectStore('sourceContent').delete(key);
+    }
+  }
+
+  const artifactStore = tx.objectStore('artifacts');
+  for (const artifact of artifacts) {
+    artifactStore.put({ ...artifact, notebookId: notebook.id } as ArtifactRecord);
+  }
+  const keepArtifacts = new Set(record.artifactIds);
+  const storedArtifactIds = await request(artifactStore.index('notebookId').getAllKeys(notebook.id));
+  for (const key of storedArtifactIds) {
+    if (!keepArtifacts.has(key as string)) artifactStore.delete(key);
+  }
+
+  await done;
+  changed.forEach((s) => persistedSources.add(s));
+}
+
+/**
+ * Delete a notebook together with everything that belongs to it.
+ */
+export async function deleteNotebook(id: string): Promise<void> {
+  const db = await openDb();
+  const stores = ['sources', 'sourceContent', 'artifacts', 'notes', 'chatThreads', 'reviewLogs', 'quizAttempts', 'drafts', 'jobs'];
+  const tx = db.transaction(['notebooks', ...stores], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore('notebooks').delete(id);
+  for (const storeName of stores) {
+    const store = tx.objectStore(storeName);
+    const keys = await request(store.index('notebookId').getAllKeys(id));
+    keys.forEach((key) => store.delete(key));
+  }
+  await done;
+}
+
+/**
+ * Load the notes that belong to a notebook, oldest first.
+ */
+export async function getNotes(notebookId: string): Promise<Note[]> {
+  const db = await openDb();
+  const records = await request<NoteRecord[]>(
+    db.transaction('notes').objectStore('notes').index('notebookId').getAll(notebookId)
+  );
+  return records
+    .map(({ notebookId: _nb, ...note }) => note as Note)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Replace the stored notes of a notebook with the given list.
+ */
+export async function saveNotes(notebookId: string, notes: Note[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('notes', 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore('notes');
+  const keep = new Set(notes.map((n) => n.id));
+  const existing = await request(store.index('notebookId').getAllKeys(notebookId));
+  existing.forEach((key) => {
+    if (!keep.has(key as string)) store.delete(key);
+  });
+  notes.forEach((note) => store.put({ ...note, notebookId } as NoteRecord));
+  await done;
+}
+
+/**
+ * Create or update a single note.
+ */
+export async function saveNote(notebookId: string, note: Note): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('notes', 'readwrite');
+  tx.objectStore('notes').put({ ...note, notebookId } as NoteRecord);
+  await transactionDone(tx);
+}
+
+/**
+ * Delete a single note.
+ */
+export async function deleteNote(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('notes', 'readwrite');
+  tx.objectStore('notes').delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Load the chat threads of a notebook, most recently active first.
+ */
+export async function getChatThreads(notebookId: string): Promise<ChatThread[]> {
+  const db = await openDb();
+  const records = await request<ChatThreadRecord[]>(
+    db.transaction('chatThreads').objectStore('chatThreads').index('notebookId').getAll(notebookId)
+  );
+  return records
+    .map(({ notebookId: _nb, ...thread }) => thread as ChatThread)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Create or update a chat thread.  Messages that are still streaming are
+ * stored as complete so they do not reload in that state.
+ */
+export async function saveChatThread(notebookId: string, thread: ChatThread): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('chatThreads', 'readwrite');
+  const record: ChatThreadRecord = {
+    ...thread,
+    notebookId,
+    messages: thread.messages.map(({ isStreaming, ...m }) => m),
+  };
+  tx.objectStore('chatThreads').put(record);
+  await transactionDone(tx);
+}
+
+/**
+ * Delete a single chat thread.
+ */
+export async function deleteChatThread(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('chatThreads', 'readwrite');
+  tx.objectStore('chatThreads').delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Record a flashcard review.
+ */
+export async function addReviewLog(notebookId: string, log: ReviewLog): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('reviewLogs', 'readwrite');
+  tx.objectStore('reviewLogs').put({ ...log, notebookId } as ReviewLogRecord);
+  await transactionDone(tx);
+}
+
+/**
+ * Load all flashcard reviews recorded for a notebook, oldest first.
+ */
+export async function getReviewLogs(notebookId: string): Promise<ReviewLog[]> {
+  const db = await openDb();
+  const records = await request<ReviewLogRecord[]>(
+    db.transaction('reviewLogs').objectStore('reviewLogs').index('notebookId').getAll(notebookId)
+  );
+  return records
+    .map(({ notebookId: _nb, ...log }) => log as ReviewLog)
+    .sort((a, b) => a.reviewedAt - b.reviewedAt);
+}
+
+/**
+ * Record a completed quiz attempt.
+ */
+export async function addQuizAttempt(notebookId: string, attempt: QuizAttempt): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('quizAttempts', 'readwrite');
+  tx.objectStore('quizAttempts').put({ ...attempt, notebookId } as QuizAttemptRecord);
+  await transactionDone(tx);
+}
+
+/**
+ * Load all quiz attempts recorded for a notebook, oldest first.
+ */
+export async function getQuizAttempts(notebookId: string): Promise<QuizAttempt[]> {
+  const db = await openDb();
+  const records = await request<QuizAttemptRecord[]>(
+    db.transaction('quizAttempts').objectStore('quizAttempts').index('notebookId').getAll(notebookId)
+  );
+  return records
+    .map(({ notebookId: _nb, ...attempt }) => attempt as QuizAttempt)
+    .sort((a, b) => a.completedAt - b.completedAt);
+}
+
+/**
+ * Load the writing drafts of a notebook, most recently edited first.
+ */
+export async function getDrafts(notebookId: string): Promise<WritingDraft[]> {
+  const db = await openDb();
+  const records = await request<DraftRecord[]>(
+    db.transaction('drafts').objectStore('drafts').index('notebookId').getAll(notebookId)
+  );
+  return records
+    .map(({ notebookId: _nb, ...draft }) => draft as WritingDraft)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Create or update a writing draft.
+ */
+export async function saveDraft(notebookId: string, draft: WritingDraft): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('drafts', 'readwrite');
+  tx.objectStore('drafts').put({ ...draft, notebookId } as DraftRecord);
+  await transactionDone(tx);
+}
+
+/**
+ * Delete a single writing draft.
+ */
+export async function deleteDraft(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('drafts', 'readwrite');
+  tx.objectStore('drafts').delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Load the background jobs of every notebook, oldest first.
+ */
+export async function getJobs(): Promise<BackgroundJob[]> {
+  const db = await openDb();
+  const jobs = await request<BackgroundJob[]>(db.transaction('jobs').objectStore('jobs').getAll());
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Create or update a background job.
+ */
+export async function saveJob(job: BackgroundJob): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('jobs', 'readwrite');
+  tx.objectStore('jobs').put(job);
+  await transactionDone(tx);
+}
+
+/**
+ * Delete a background job.
+ */
+export async function deleteJob(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('jobs', 'readwrite');
+  tx.objectStore('jobs').delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Create and persist an empty notebook.
+ */
+export async function createNotebook(title = 'Untitled Notebook'): Promise<Notebook> {
+  const now = Date.now();
+  const notebook: Notebook = {
+    id: crypto.randomUUID(),
+    title,
+    description: '',
+    sources: [],
+    artifacts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveNotebook(notebook);
+  return notebook;
+}
+
+/**
+ * Copy a notebook, including its sources, artifacts, notes, chats and drafts.  Every copied
+ * record receives a fresh id so the two notebooks can diverge freely, and
+ * the copies' citations and scopes refer to the copied sources.
+ * Returns null when the original does not exist.
+ */
+export async function duplicateNotebook(id: string): Promise<Notebook | null> {
+  const original = await getNotebook(id);
+  if (!original) return null;
+  const now = Date.now();
+  const ids = new Map(original.sources.map((s) => [s.id, crypto.randomUUID()]));
+  const refs = renameRefs(ids);
+  const copy: Notebook = renameScopes(
+    retargetNotebook(
+      {
+        ...original,
+        id: crypto.randomUUID(),
+        title: `${original.title} (copy)`,
+        sources: original.sources.map((s) => ({ ...s, id: ids.get(s.id)! })),
+        artifacts: original.artifacts.map((a) => ({ ...a, id: crypto.randomUUID() })),
+        createdAt: now,
+        updatedAt: now,
+      },
+      refs
+    ),
+    (sourceId) => ids.get(sourceId) ?? sourceId
+  );
+  await saveNotebook(copy);
+  const notes = await getNotes(id);
+  await saveNotes(copy.id, notes.map((n) => ({ ...retargetNote(n, refs), id: crypto.randomUUID() })));
+  for (const thread of await getChatThreads(id)) {
+    await saveChatThread(copy.id, { ...retargetThread(thread, refs), id: crypto.randomUUID() });
+  }
+  for (const draft of await getDrafts(id)) {
+    await saveDraft(copy.id, { ...retargetDraft(draft, refs), id: crypto.randomUUID() });
+  }
+  return copy;
+}
@@ -0,0 +1,55 @@
+/*
+ * Helpers for consuming streamed HTTP responses.
+ *
+ * AI endpoints stream their output either as Server-Sent Events
+ * (`text/event-stream`, one `data:` payload per event) or as newline
+ * delimited JSON (`application/x-ndjson`, one JSON object per line).
+ * `readJsonStream` accepts both and hands each decoded JSON payload to a
+ * callback as soon as it arrives.
+ */
+
+/**
+ * Read a streamed response body and invoke `onEvent` for every JSON payload
+ * it contains.  The SSE terminator `[DONE]` and SSE comments are skipped.
+ * Resolves when the stream ends; rejects with an `AbortError` when the
+ * request's signal is aborted.
+ */
+export async function readJsonStream(res: Response, onEvent: (payload: any) => void): Promise<void> {
+  if (!res.body) throw new Error('The response has no body to stream.');
+  const isSse = (res.headers.get('Content-Type') || '').includes('text/event-stream');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim()) return;
+    let data = line;
+    if (isSse) {
+      // Only data fields carry payloads; ignore event names, ids and comments.
+      if (!line.startsWith('data:')) return;
+      data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+    }
+    onEvent(JSON.parse(data));
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+}
+
+/**
+ * True when an error was caused by aborting a request through an
+ * AbortController.
+ */
+export function isAbortError(err: unknown): boolean {
+  return typeof err === 'object' && err !== null && 'name' in err && err.name === 'AbortError';
+}
@@ -0,0 +1,261 @@
+/*
+ * Transcribing audio sources.
+ *
+ * A `Transcriber` turns an audio file into timestamped segments, optionally
+ * labelled with the speaker.  The NebulaMind backend and OpenAI-compatible
+ * speech-to-text APIs (OpenAI, faster-whisper-server, whisper.cpp…) are
+ * supported.  `localTranscriber` is an offline stand-in, used with the mock
+ * provider: it finds the stretches of speech in the recording and tells
+ * speakers apart by their voice, but has no speech model, so each segment
+ * only says how long it is.  That is enough to exercise the transcript
+ * viewer, playback and timestamped citations without a server.
+ */
+
+import { requestError } from './errors';
+
+export interface TranscriptSegment {
+  /** Start and end of the segment, in seconds from the start of the audio. */
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  /** Detected or requested language, e.g. `en`. */
+  language?: string;
+  /** Length of the recording in seconds. */
+  duration?: number;
+  /** True when speech was only located, and the segments say nothing of what was said. */
+  untranscribed?: boolean;
+}
+
+export interface TranscribeOptions {
+  language?: string;
+  /** Called as the audio is processed; not every transcriber reports progress. */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface Transcriber {
+  transcribe(file: Blob, options?: TranscribeOptions): Promise<Transcript>;
+}
+
+/**
+ * Format a time in seconds as `m:ss`, or `h:mm:ss` from an hour on.
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// Coerce segments from a service response, dropping empty ones.  Speaker
+// labels may be numbers or ids such as `SPEAKER_00`; they are kept as text.
+function normalizeTranscript(raw: any, language?: string): Transcript {
+  const segments: TranscriptSegment[] = (Array.isArray(raw?.segments) ? raw.segments : [])
+    .map((s: any) => ({
+      start: Number(s.start) || 0,
+      end: Number(s.end) || Number(s.start) || 0,
+      ...(s.speaker !== undefined && s.speaker !== null ? { speaker: String(s.speaker) } : {}),
+      text: String(s.text ?? '').trim(),
+    }))
+    .filter((s: TranscriptSegment) => s.text);
+  // Services that do not segment return a single block of text.
+  if (segments.length === 0 && typeof raw?.text === 'string' && raw.text.trim()) {
+    segments.push({ start: 0, end: Number(raw.duration) || 0, text: raw.text.trim() });
+  }
+  return {
+    segments,
+    language: raw?.language || language,
+    duration: Number(raw?.duration) || segments[segments.length - 1]?.end || undefined,
+  };
+}
+
+/**
+ * Transcriber backed by the NebulaMind backend, which is expected to
+ * return segments with speaker labels.
+ */
+export function createHttpTranscriber(baseUrl = '/api/ai'): Transcriber {
+  return {
+    async transcribe(file, { language, signal } = {}) {
+      const url = `${baseUrl}/transcribe`;
+      const form = new FormData();
+      form.append('file', file);
+      if (language) form.append('language', language);
+      const res = await fetch(url, { method: 'POST', body: form, signal });
+      if (!res.ok) throw requestError(url, res);
+      return normalizeTranscript(await res.json(), language);
+    },
+  };
+}
+
+export interface OpenAITranscriberOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** Speech-to-text model, e.g. `whisper-1`. */
+  model: string;
+}
+
+/**
+ * Transcriber for `POST {baseUrl}/audio/transcriptions`.  Segments come from
+ * the `verbose_json` response format; Whisper does not separate speakers,
+ * so segments are only labelled when the server adds a `speaker` field.
+ */
+export function createOpenAITranscriber(options: OpenAITranscriberOptions): Transcriber {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  return {
+    async transcribe(file, { language, signal } = {}) {
+      const url = `${baseUrl}/audio/transcriptions`;
+      const form = new FormData();
+      form.append('file', file, (file as File).name || 'audio');
+      form.append('model', options.model);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+      if (language) form.append('language', language);
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined,
+        body: form,
+        signal,
+      });
+      if (!res.ok) throw requestError(url, res);
+      return normalizeTranscript(await res.json(), language);
+    },
+  };
+}
+
+// Voice activity detection works on 30 ms frames of 16 kHz mono audio.
+const SAMPLE_RATE = 16000;
+const FRAME = 480;
+// Pauses shorter than this are kept inside a segment.
+const MAX_PAUSE = 0.6;
+const MIN_SEGMENT = 0.4;
+const MAX_SEGMENT = 20;
+
+async function decodeAudio(file: Blob): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error('This audio file could not be decoded. Try converting it to MP3 or WAV.');
+  }
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+interface Frame {
+  energy: number;
+  // Zero-crossing rate; higher for brighter, higher-pitched voices.
+  zcr: number;
+}
+
+function analyseFrames(samples: Float32Array): Frame[] {
+  const frames: Frame[] = [];
+  for (let offset = 0; offset + FRAME <= samples.length; offset += FRAME) {
+    let sum = 0;
+    let crossings = 0;
+    for (let i = offset; i < offset + FRAME; i++) {
+      sum += samples[i] * samples[i];
+      if (i > offset && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+    }
+    frames.push({ energy: Math.sqrt(sum / FRAME), zcr: crossings / FRAME });
+  }
+  return frames;
+}
+
+// Runs of frames louder than the background noise, as [first, last) frame
+// indices.  Short pauses are bridged and long runs are split at their
+// quietest frame so that segments stay a readable length.
+function findSpeech(frames: Frame[]): [number, number][] {
+  const sorted = frames.map((f) => f.energy).sort((a, b) => a - b);
+  const noise = sorted[Math.floor(sorted.length * 0.1)] || 0;
+  const threshold = Math.max(noise * 3, 0.01);
+  const frameSeconds = FRAME / SAMPLE_RATE;
+
+  const runs: [number, number][] = [];
+  let start = -1;
+  let lastLoud = -1;
+  frames.forEach((f, i) => {
+    if (f.energy < threshold) return;
+    if (start >= 0 && (i - lastLoud) * frameSeconds > MAX_PAUSE) {
+      runs.push([start, lastLoud + 1]);
+      start = -1;
+    }
+    if (start < 0) start = i;
+    lastLoud = i;
+  });
+  if (start >= 0) runs.push([start, lastLoud + 1]);
+
+  const maxFrames = Math.round(MAX_SEGMENT / frameSeconds);
+  const split = (run: [number, number]): [number, number][] => {
+    if (run[1] - run[0] <= maxFrames) return [run];
+    let quietest = run[0] + Math.round(maxFrames / 2);
+    for (let i = quietest; i < run[0] + maxFrames; i++) {
+      if (frames[i].energy < frames[quietest].energy) quietest = i;
+    }
+    return [[run[0], quietest], ...split([quietest, run[1]])];
+  };
+  return runs.flatMap(split).filter(([a, b]) => (b - a) * frameSeconds >= MIN_SEGMENT);
+}
+
+// Assign each run to one of two voices by its average zero-crossing rate
+// (a two-means split).  When the two groups are too similar the recording
+// is treated as a single speaker.
+function labelSpeakers(frames: Frame[], runs: [number, number][]): (string | undefined)[] {
+  const voice = runs.map(([a, b]) => {
+    let sum = 0;
+    for (let i = a; i < b; i++) sum += frames[i].zcr;
+    return sum / (b - a);
+  });
+  if (voice.length < 2) return voice.map(() => undefined);
+  let low = Math.min(...voice);
+  let high = Math.max(...voice);
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const mid = (low + high) / 2;
+    const lows = voice.filter((v) => v < mid);
+    const highs = voice.filter((v) => v >= mid);
+    if (lows.length === 0 || highs.length === 0) break;
+    low = lows.reduce((a, b) => a + b, 0) / lows.length;
+    high = highs.reduce((a, b) => a + b, 0) / highs.length;
+  }
+  if (high - low < 0.25 * high) return voice.map(() => undefined);
+  // Number speakers in order of appearance.
+  const mid = (low + high) / 2;
+  const firstIsHigh = voice[0] >= mid;
+  return voice.map((v) => ((v >= mid) === firstIsHigh ? 'Speaker 1' : 'Speaker 2'));
+}
+
+/**
+ * Offline stand-in for a speech-to-text service; see the note at the top of
+ * this file.  Throws when the browser cannot decode the file.
+ */
+export const localTranscriber: Transcriber = {
+  async transcribe(file, { language, onProgress, signal } = {}) {
+    const samples = await decodeAudio(file);
+    if (signal?.aborted) throw new DOMException('Transcription cancelled', 'AbortError');
+    const frames = analyseFrames(samples);
+    onProgress?.(frames.length, frames.length);
+    const runs = findSpeech(frames);
+    const speakers = labelSpeakers(frames, runs);
+    const frameSeconds = FRAME / SAMPLE_RATE;
+    const segments = runs.map(([a, b], i): TranscriptSegment => {
+      const seconds = Math.round((b - a) * frameSeconds);
+      return {
+        start: a * frameSeconds,
+        end: b * frameSeconds,
+        ...(speakers[i] ? { speaker: speakers[i] } : {}),
+        text: `[Speech, ${seconds || 1} s]`,
+      };
+    });
+    return { segments, language, duration: samples.length / SAMPLE_RATE, untranscribed: true };
+  },
+};
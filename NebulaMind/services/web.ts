@@ -0,0 +1,64 @@
+/*
+ * Fetching web pages for website sources.
+ *
+ * Most sites do not allow cross-origin requests, so pages are normally
+ * fetched by a server-side proxy: `POST {proxyUrl}` with `{ url }` returns
+ * `{ url, contentType, body }`, where `url` is the address after redirects.
+ * `directFetcher` fetches from the browser instead.  It only works for pages
+ * that allow cross-origin requests and for pages served from the app's own
+ * origin, such as fixtures served by the dev server, so it stands in for the
+ * proxy in development and in tests.
+ */
+
+import { responseError } from './errors';
+import { isAbortError } from './streaming';
+
+export interface FetchedPage {
+  /** Address of the page after redirects. */
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+export interface PageFetcher {
+  fetchPage(url: string, signal?: AbortSignal): Promise<FetchedPage>;
+}
+
+/**
+ * Fetcher that goes through the server-side proxy at `proxyUrl`.
+ */
+export function createProxyFetcher(proxyUrl = '/api/fetch'): PageFetcher {
+  return {
+    async fetchPage(url, signal) {
+      const res = await fetch(proxyUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+        signal,
+      });
+      if (!res.ok) throw await responseError(proxyUrl, res);
+      // The proxy itself answers; a page it could not fetch is an `error`.
+      const data = await res.json().catch(() => null);
+      if (!data || data.error) {
+        throw new Error(`Could not fetch ${url}: ${data?.error || 'the fetch proxy sent an invalid answer'}.`);
+      }
+      return { url: data.url || url, contentType: data.contentType || 'text/html', body: String(data.body ?? '') };
+    },
+  };
+}
+
+export const directFetcher: PageFetcher = {
+  async fetchPage(url, signal) {
+    let res: Response;
+    try {
+      res = await fetch(url, { signal });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw new Error(
+        `Could not fetch ${url} from the browser, most likely because the site does not allow it. Set up a fetch proxy in Settings.`
+      );
+    }
+    if (!res.ok) throw new Error(`Could not fetch ${url}: the site answered with status ${res.status}.`);
+    return { url: res.url || url, contentType: res.headers.get('Content-Type') || 'text/html', body: await res.text() };
+  },
+};
@@ -0,0 +1,131 @@
+/*
+ * YouTube videos as sources.
+ *
+ * Videos are read through an adapter.  The backend adapter asks the
+ * NebulaMind backend, which talks to YouTube: `GET {baseUrl}/videos/{id}`
+ * returns a `YouTubeVideo` (with the captions when the video has any) and
+ * `GET {baseUrl}/videos/{id}/audio` the audio track, which is transcribed
+ * when there are no captions.  The fixture adapter stands in for the
+ * backend in development and tests: it reads `{id}.json` (a `YouTubeVideo`)
+ * and `{id}.mp3` from a directory served by the dev server, and passes
+ * videos it has no fixture for on to another adapter, if it is given one.
+ */
+
+import { responseError } from './errors';
+import { TranscriptSegment } from './transcription';
+
+export interface YouTubeCaptions {
+  language?: string;
+  /** True for captions generated by YouTube's speech recognition. */
+  generated?: boolean;
+  segments: TranscriptSegment[];
+}
+
+export interface YouTubeVideo {
+  id: string;
+  title: string;
+  channel?: string;
+  channelUrl?: string;
+  /** Length of the video in seconds. */
+  duration?: number;
+  /** URL of the thumbnail image. */
+  thumbnail?: string;
+  captions?: YouTubeCaptions | null;
+}
+
+export interface YouTubeAdapter {
+  getVideo(id: string, signal?: AbortSignal): Promise<YouTubeVideo>;
+  getAudio(id: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+/**
+ * The id of the video a YouTube URL points at, or null when the URL is not
+ * a YouTube video link.  Handles `watch?v=`, `youtu.be/`, `shorts/`,
+ * `embed/` and `live/` links.
+ */
+export function parseYouTubeUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.replace(/^(www|m|music)\./, '');
+  let id: string | null = null;
+  if (host === 'youtu.be') id = parsed.pathname.slice(1).split('/')[0];
+  else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    id = parsed.searchParams.get('v') || /^\/(?:shorts|embed|live|v)\/([^/]+)/.exec(parsed.pathname)?.[1] || null;
+  }
+  return id && /^[\w-]{11}$/.test(id) ? id : null;
+}
+
+/**
+ * Link to a moment of a video, as `?t=` seconds.
+ */
+export function videoLinkAt(id: string, seconds: number): string {
+  return `https://youtu.be/${id}?t=${Math.max(0, Math.floor(seconds))}`;
+}
+
+function normalizeVideo(id: string, raw: any): YouTubeVideo {
+  const captions = raw?.captions;
+  return {
+    id,
+    title: String(raw?.title || 'YouTube Video'),
+    ...(raw?.channel ? { channel: String(raw.channel) } : {}),
+    ...(raw?.channelUrl ? { channelUrl: String(raw.channelUrl) } : {}),
+    ...(Number(raw?.duration) > 0 ? { duration: Number(raw.duration) } : {}),
+    thumbnail: raw?.thumbnail || `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+    captions:
+      captions && Array.isArray(captions.segments) && captions.segments.length
+        ? {
+            language: captions.language,
+            generated: !!captions.generated,
+            segments: captions.segments
+              .map((s: any) => ({
+                start: Number(s.start) || 0,
+                end: Number(s.end) || Number(s.start) || 0,
+                text: String(s.text ?? '').trim(),
+              }))
+              .filter((s: TranscriptSegment) => s.text),
+          }
+        : null,
+  };
+}
+
+export function createHttpYouTubeAdapter(baseUrl = '/api/youtube'): YouTubeAdapter {
+  return {
+    async getVideo(id, signal) {
+      const url = `${baseUrl}/videos/${encodeURIComponent(id)}`;
+      const res = await fetch(url, { signal });
+      if (!res.ok) throw await responseError(url, res);
+      return normalizeVideo(id, await res.json());
+    },
+    async getAudio(id, signal) {
+      const url = `${baseUrl}/videos/${encodeURIComponent(id)}/audio`;
+      const res = await fetch(url, { signal });
+      if (!res.ok) throw await responseError(url, res);
+      return res.blob();
+    },
+  };
+}
+
+// Dev servers answer requests for missing files with the app's page, so
+// only a response of the expected type is a fixture.
+const isFixture = (res: Response, type: RegExp) => res.ok && type.test(res.headers.get('Content-Type') || '');
+
+export function createFixtureYouTubeAdapter(baseUrl = '/fixtures/youtube', fallback?: YouTubeAdapter): YouTubeAdapter {
+  return {
+    async getVideo(id, signal) {
+      const res = await fetch(`${baseUrl}/${id}.json`, { signal });
+      if (isFixture(res, /json/)) return normalizeVideo(id, await res.json());
+      if (fallback) return fallback.getVideo(id, signal);
+      throw new Error(`There is no fixture for video ${id} in ${baseUrl}.`);
+    },
+    async getAudio(id, signal) {
+      const res = await fetch(`${baseUrl}/${id}.mp3`, { signal });
+      if (isFixture(res, /^(audio|video)\/|octet-stream/)) return res.blob();
+      if (fallback) return fallback.getAudio(id, signal);
+      throw new Error(`There is no audio fixture for video ${id} in ${baseUrl}.`);
+    },
+  };
+}
@@ -0,0 +1,154 @@
+/*
+ * Minimal ZIP archive support.
+ *
+ * Used for Anki packages, which are ZIP files.  Archives are written
+ * uncompressed ("stored"), which every unzip implementation accepts.
+ * Reading handles stored and deflated entries, inflating with the
+ * browser's DecompressionStream.  ZIP64 archives and encrypted entries are
+ * not supported.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// General purpose flag bit 11: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true); // version needed to extract
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, stamp.time, true);
+    lv.setUint16(12, stamp.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, stamp.time, true);
+    cv.setUint16(14, stamp.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, entry.data);
+    central.push(header);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((n, h) => n + h.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' });
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read all entries of a ZIP archive.  Directory entries are skipped.
+ */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let endPos = -1;
+  // The end record is 22 bytes plus a comment of up to 64 KiB.
+  for (let pos = data.length - 22; pos >= Math.max(0, data.length - 22 - 0xffff); pos--) {
+    if (view.getUint32(pos, true) === END_OF_CENTRAL_DIRECTORY) {
+      endPos = pos;
+      break;
+    }
+  }
+  if (endPos < 0) throw new Error('Not a ZIP archive');
+
+  const count = view.getUint16(endPos + 10, true);
+  let pos = view.getUint32(endPos + 16, true);
+  if (count === 0xffff || pos === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP central directory');
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 1) throw new Error(`${name} is encrypted`);
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error('Corrupt ZIP entry');
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+    if (method === 0) entries.push({ name, data: raw.slice() });
+    else if (method === 8) entries.push({ name, data: await inflateRaw(raw) });
+    else throw new Error(`${name} uses an unsupported compression method (${method})`);
+  }
+  return entries;
+}
@@ -5,17 +5,32 @@ export interface Source {
       content: string; // The raw text extracted
       createdAt: number;
       metadata?: Record<string, any>;
+      /** SHA-256 of the normalised content; equal for exact duplicates. */
+      contentHash?: string;
+      /** 64-bit simhash of the content as hex; close for near-duplicates. */
+      simhash?: string;
+      /** Canonical form of the page or video address the source was read from. */
+      normalizedUrl?: string;
     }
 
+    /**
+     * A note written by the user or saved from a chat answer.  `content` is
+     * markdown.  Notes saved from chat keep the answer's citations so its
+     * `[n]` markers still lead back to the cited passages.
+     */
     export interface Note {
       id: string;
+      title?: string;
       content: string;
       createdAt: number;
+      updatedAt?: number;
+      pinned?: boolean;
+      citations?: Citation[];
     }
 
     export interface Artifact {
       id: string;
-      type: 'flashcards' | 'quiz' | 'infographic' | 'slideDeck' | 'audioOverview' | 'knowledgeGraph';
+      type: 'flashcards' | 'quiz' | 'infographic' | 'slideDeck' | 'audioOverview' | 'knowledgeGraph' | 'report' | 'mindMap';
       title: string;
       content: any; // Structured JSON or text
       createdAt: number;
@@ -32,20 +47,133 @@ export interface Flashcard {
   id: string;
   question: string;
   answer: string;
+  /** Spaced-repetition state; absent until the card is first reviewed. */
+  review?: ReviewState;
 }
 
 /**
- * A quiz question may be multiple choice or free-form.  For simplicity
- * multiple choice questions include a list of possible answers with the
- * index of the correct choice.  Free-form questions omit the choices and
- * instead rely on the answer field for evaluation.
+ * Scheduling state of a flashcard under the SM-2 algorithm.  `interval` is
+ * the current gap between reviews in days and `due` the timestamp at which
+ * the card should next be shown.  `lapses` counts how often a learned card
+ * was forgotten.
+ */
+export interface ReviewState {
+  ease: number;
+  interval: number;
+  due: number;
+  lapses: number;
+  reps: number;
+  lastReviewed: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * A record of a single flashcard review.  Logs are kept per notebook so
+ * study history survives reloads and can be analysed later.
+ */
+export interface ReviewLog {
+  id: string;
+  deckId: string;
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  previousInterval: number;
+  interval: number;
+  ease: number;
+}
+
+export type QuizQuestionType =
+  | 'multipleChoice'
+  | 'trueFalse'
+  | 'multiSelect'
+  | 'fillBlank'
+  | 'ordering'
+  | 'matching'
+  | 'shortAnswer';
+
+/**
+ * A quiz question.  `type` selects which of the optional fields describe
+ * the correct answer; questions saved before types existed have no `type`
+ * and are multiple choice when they have `options`, free-form otherwise.
+ *
+ * - multipleChoice / trueFalse: `options` and `correctIndex` (true/false
+ *   questions use the options "True" and "False").
+ * - multiSelect: `options` and every correct option in `correctIndices`.
+ * - fillBlank: `prompt` marks each blank with `___`; `blanks` holds the
+ *   expected text for each, in order.
+ * - ordering: `items` in their correct order; they are shown shuffled.
+ * - matching: `pairs` of matching left and right items.
+ * - shortAnswer: free text compared against `answer`; long answers may
+ *   carry a `rubric` describing what earns credit.
+ *
+ * `explanation` says why the answer is right and `reference` points at the
+ * source passage the question was drawn from.
  */
 export interface QuizQuestion {
   id: string;
+  type?: QuizQuestionType;
   prompt: string;
   options?: string[];
   correctIndex?: number;
+  correctIndices?: number[];
+  blanks?: string[];
+  items?: string[];
+  pairs?: { left: string; right: string }[];
   answer?: string;
+  rubric?: string;
+  explanation?: string;
+  reference?: Omit<Citation, 'index'>;
+}
+
+/**
+ * A learner's answer to a quiz question: the option index for single
+ * choice, the chosen indices for multi-select, the text for each blank,
+ * the item order (indices into `items`) for ordering, the chosen right
+ * item (index into `pairs`, -1 if none) for each left item of a matching
+ * question, or the text written for a short answer.
+ */
+export type QuizAnswer = number | string | number[] | string[];
+
+/**
+ * Outcome of grading one quiz question.  `score` is the credit earned, from
+ * 0 to 1, so free-form answers can receive partial credit.  `method` tells
+ * how the answer was graded: by option, by (normalised) exact match, by
+ * fuzzy match, or against a rubric by the AI provider.
+ */
+export interface QuestionResult {
+  questionId: string;
+  score: number;
+  correct: boolean;
+  explanation: string;
+  method: 'choice' | 'exact' | 'fuzzy' | 'rubric';
+}
+
+/**
+ * How a quiz was put together: freshly generated, a retry of the questions
+ * missed in an earlier attempt, or generated around the learner's weak
+ * topics.
+ */
+export type QuizMode = 'new' | 'retry' | 'weakTopics';
+
+/**
+ * One completed quiz.  The questions are stored with the attempt so it can
+ * be reviewed and retried after the quiz has been regenerated.  `durations`
+ * holds the milliseconds spent on each question, by question id.  `quizId`
+ * is the quiz artifact the questions came from, if any.
+ */
+export interface QuizAttempt {
+  id: string;
+  mode: QuizMode;
+  quizId?: string;
+  startedAt: number;
+  completedAt: number;
+  questions: QuizQuestion[];
+  answers: Record<string, QuizAnswer>;
+  results: QuestionResult[];
+  durations: Record<string, number>;
+  score: number;
+  total: number;
 }
 
     export interface Notebook {
@@ -63,21 +191,146 @@ export interface QuizQuestion {
       role: 'user' | 'model';
       text: string;
       isStreaming?: boolean;
-      citations?: string[];
+      citations?: Citation[];
       groundingMetadata?: any; // Google Search Grounding Data
     }
 
+    /**
+     * A button on a notification: either a callback or a route to open.
+     */
+    export interface NotificationAction {
+      label: string;
+      onClick?: () => void;
+      to?: string;
+    }
+
+    /**
+     * A message shown as a toast and kept in the notification history.
+     * Repeats of the same notification are merged into one, with `count`
+     * telling how often it was raised.
+     */
     export interface Notification {
       id: string;
       title: string;
       message: string;
       type: 'success' | 'error' | 'info';
+      createdAt: number;
+      count: number;
+      read: boolean;
+      actions?: NotificationAction[];
     }
 
+    /**
+     * A generation task run in the background by the job manager.  The
+     * result is written into the notebook artifact `artifactId`.  `params`
+     * holds the generation options for the artifact type.  Failed attempts
+     * are retried until `attempts` reaches the manager's limit; `retryAt`
+     * is when the next attempt may start.
+     */
     export interface BackgroundJob {
       id: string;
       notebookId: string;
       type: Artifact['type'];
-      status: 'pending' | 'processing' | 'completed' | 'failed';
+      status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
       progress?: string;
-    }
\ No newline at end of file
+      artifactId: string;
+      title: string;
+      params: Record<string, any>;
+      attempts: number;
+      error?: string;
+      retryAt?: number;
+      createdAt: number;
+      updatedAt: number;
+    }
+
+/**
+ * A citation links part of an answer to the passage of a source that
+ * supports it.  Answers refer to citations with numbered inline markers
+ * such as `[1]`, matching `index`.  The passage is identified by a
+ * character range into `Source.content` when known; otherwise the quoted
+ * snippet is used to locate it.  `page` is set for paged sources like PDFs.
+ */
+export interface Citation {
+  index: number;
+  sourceId: string;
+  start?: number;
+  end?: number;
+  page?: number;
+  snippet?: string;
+}
+
+/**
+ * A chat thread is one conversation about a notebook.  Notebooks can hold
+ * any number of threads; each keeps its own message history so follow-up
+ * questions can be answered in context.
+ */
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CritiqueKind = 'issue' | 'suggestion' | 'praise';
+
+/**
+ * A source passage bearing on a critique comment.  `quote` is copied from
+ * the source so it can be located and highlighted there.
+ */
+export interface CritiqueEvidence {
+  sourceId: string;
+  quote: string;
+  stance: 'supports' | 'contradicts';
+}
+
+/**
+ * A critique comment anchored to the text it was made on.  `start` and
+ * `end` are a character range of the critiqued version's text; both are -1
+ * for comments on the text as a whole.  The user accepts or dismisses each
+ * comment; accepting one with a `replacement` applies it to the draft.
+ */
+export interface CritiqueComment {
+  id: string;
+  start: number;
+  end: number;
+  quote: string;
+  comment: string;
+  kind: CritiqueKind;
+  replacement?: string;
+  evidence: CritiqueEvidence[];
+  status: 'open' | 'accepted' | 'dismissed';
+}
+
+/**
+ * One round of critique on a version of a draft.
+ */
+export interface CritiqueRound {
+  createdAt: number;
+  summary: string;
+  comments: CritiqueComment[];
+}
+
+/**
+ * A saved state of a draft.  A version becomes read-only once it has been
+ * critiqued, so every round of feedback stays attached to the text it was
+ * given on; further edits start a new version.
+ */
+export interface DraftVersion {
+  id: string;
+  text: string;
+  createdAt: number;
+  critique?: CritiqueRound;
+}
+
+/**
+ * A piece of writing drafted alongside a notebook, with its version history
+ * (oldest first).
+ */
+export interface WritingDraft {
+  id: string;
+  title: string;
+  versions: DraftVersion[];
+  createdAt: number;
+  updatedAt: number;
+}